@@ -1,25 +1,55 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { PlayLayout } from "@/components/layout/PlayLayout";
 import { Button } from "@/components/ui/button";
-import { Bot, Play, ArrowLeft, Loader2 } from "lucide-react";
+import { Bot, Play, ArrowLeft, Loader2, History, Trash2 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { v4 as uuidv4 } from "uuid";
 import Link from "next/link";
 import { useLocalGameStore } from "@/lib/hooks/useLocalGameStore";
 import { useTheme } from "@/components/providers/PreferencesProvider";
+import { BotTableSetupForm } from "@/components/features/bots";
+import { validateTableSetup } from "@/lib/features/game/botSetup";
+import type { RangePreset } from "@/lib/types/ranges";
+import {
+  clearLocalSession,
+  getHeroStack,
+  loadLocalSession,
+  type SavedLocalSession,
+} from "@/lib/features/game/localSession";
+import { formatDistanceToNow } from "date-fns";
 
 export default function BotPlayPage() {
   const [isLoading, setIsLoading] = useState(false);
   const router = useRouter();
-  const { startLocalGame } = useLocalGameStore();
+  const { startLocalGame, resumeLocalGame, tableSetup: lastTableSetup } = useLocalGameStore();
   const { currentTheme } = useTheme();
+  const [tableSetup, setTableSetup] = useState(lastTableSetup);
+  const [rangePresets, setRangePresets] = useState<RangePreset[]>([]);
+  const [savedSession, setSavedSession] = useState<SavedLocalSession | null>(null);
+  const setupError = validateTableSetup(tableSetup);
+
+  // A previous session may be waiting in localStorage
+  useEffect(() => {
+    setSavedSession(loadLocalSession());
+  }, []);
+
+  // Range presets let bots play a specific range (e.g. "nit" or "LAG")
+  useEffect(() => {
+    fetch("/api/ranges/presets")
+      .then((res) => res.json())
+      .then((data) => {
+        if (Array.isArray(data)) setRangePresets(data);
+      })
+      .catch((err) => console.error("Failed to load range presets", err));
+  }, []);
 
   const handleStartGame = () => {
+    if (setupError) return;
     setIsLoading(true);
     // Start the local game (this will generate a heroId)
-    startLocalGame();
+    startLocalGame(tableSetup);
 
     // Slight artificial delay for UX feel
     setTimeout(() => {
@@ -29,6 +59,18 @@ export default function BotPlayPage() {
     }, 800);
   };
 
+  const handleResume = () => {
+    if (!savedSession) return;
+    setIsLoading(true);
+    resumeLocalGame(savedSession);
+    router.push(`/play/local/local-${uuidv4()}`);
+  };
+
+  const handleDiscardSession = () => {
+    clearLocalSession();
+    setSavedSession(null);
+  };
+
   return (
     <PlayLayout
       title="Practice vs Bots"
@@ -46,7 +88,7 @@ export default function BotPlayPage() {
             e.currentTarget.style.background = 'linear-gradient(to right, var(--theme-primary-0), var(--theme-primary-1))';
           }}
           onClick={handleStartGame}
-          disabled={isLoading}
+          disabled={isLoading || !!setupError}
         >
           {isLoading ? (
             <Loader2 className="mr-2 h-5 w-5 animate-spin" />
@@ -74,6 +116,42 @@ export default function BotPlayPage() {
             </p>
           </div>
         </div>
+
+        {savedSession && (
+          <div className="p-4 rounded-xl bg-slate-900/60 border border-slate-800 space-y-3">
+            <div className="flex items-start gap-3">
+              <History className="h-5 w-5 mt-0.5 flex-shrink-0 text-slate-400" />
+              <div className="text-sm">
+                <p className="font-semibold text-white">Unfinished session</p>
+                <p className="text-slate-400">
+                  {savedSession.log.length} hands played · stack{" "}
+                  {getHeroStack(savedSession)} · last played{" "}
+                  {formatDistanceToNow(new Date(savedSession.updatedAt), { addSuffix: true })}
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button className="flex-1" onClick={handleResume} disabled={isLoading}>
+                <Play className="mr-2 h-4 w-4" />
+                Resume Session
+              </Button>
+              <Button variant="outline" onClick={handleDiscardSession} disabled={isLoading}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                Discard
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <BotTableSetupForm
+          setup={tableSetup}
+          onChange={setTableSetup}
+          rangePresets={rangePresets}
+        />
+
+        {setupError && (
+          <p className="text-sm text-red-400">{setupError}</p>
+        )}
       </div>
     </PlayLayout>
   );
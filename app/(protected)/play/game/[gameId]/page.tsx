@@ -8,6 +8,7 @@ import { LeaveGameButton } from "@/components/features/game/LeaveGameButton";
 import { HandRankingsSidebar } from "@/components/features/game/HandRankingsSidebar";
 import { PlayLayout } from "@/components/layout/PlayLayout";
 import { Player } from "@/lib/types/poker";
+import { usePlayerHud } from "@/lib/hooks";
 import { getClientHandStrength } from "@backend/domain/evaluation/ClientHandEvaluator";
 import { getSocket, disconnectSocket } from "@/lib/api/socket/client";
 import { useOnlineGameSocket } from "@/lib/api/socket/game";
@@ -39,17 +40,6 @@ export default function GamePage() {
   // UI state
   const [showHandRankings, setShowHandRankings] = useState(false);
   const [cardsLoaded, setCardsLoaded] = useState(false);
-  const [showStats, setShowStats] = useState(false);
-
-  // Player stats
-  type PlayerSessionStats = {
-    hands_played: number;
-    vpip_count: number;
-    pfr_count: number;
-  };
-  const [playerStats, setPlayerStats] = useState<
-    Record<string, PlayerSessionStats | null>
-  >({});
 
   const supabase = createClientComponentClient();
 
@@ -104,64 +94,12 @@ export default function GamePage() {
     }
   }, [gameState?.players, gameState?.communityCards, currentUserId]);
 
-  // Track active player IDs for stats fetch
-  const activePlayerIds = useMemo(
-    () => (gameState?.players || []).map((p) => p.id).filter(Boolean),
-    [gameState?.players]
+  // HUD stats (user toggle saved in preferences, host can disable)
+  const { showStats, hudAllowed, playerStats, toggleHud } = usePlayerHud(
+    gameId,
+    gameState
   );
 
-  const refreshPlayerStats = useCallback(async () => {
-    if (!gameState) return;
-    const ids = activePlayerIds;
-    if (ids.length === 0) {
-      setPlayerStats({});
-      return;
-    }
-
-    try {
-      const results = await Promise.all(
-        ids.map(async (playerId) => {
-          try {
-            const { data, error } = await supabase.rpc(
-              "get_player_session_stats",
-              {
-                target_player_id: playerId,
-                target_game_id: gameId,
-              }
-            );
-            if (error) throw error;
-            return [playerId, data as PlayerSessionStats | null] as const;
-          } catch (err) {
-            console.error("[Game] Failed to load player stats", err);
-            return [playerId, null] as const;
-          }
-        })
-      );
-      setPlayerStats(Object.fromEntries(results));
-    } catch (err) {
-      console.error("[Game] Unexpected error loading player stats", err);
-    }
-  }, [activePlayerIds, gameId, gameState, supabase]);
-
-  // Refresh stats when toggled on or when hand changes
-  useEffect(() => {
-    if (showStats) {
-      refreshPlayerStats();
-    }
-  }, [showStats, gameState?.handNumber, refreshPlayerStats]);
-
-  const handleToggleStats = useCallback(() => {
-    setShowStats((prev) => {
-      const next = !prev;
-      if (!next) {
-        setPlayerStats({});
-      } else {
-        refreshPlayerStats();
-      }
-      return next;
-    });
-  }, [refreshPlayerStats]);
-
   // Fetch variant information from database
   useEffect(() => {
     if (!gameId || gameId.startsWith("local-")) return;
@@ -444,9 +382,11 @@ export default function GamePage() {
   // Prepare footer content
   const footerContent = !gameFinished ? (
     <div className="flex justify-end gap-3">
-      <Button variant="secondary" onClick={handleToggleStats}>
-        Toggle Stats
-      </Button>
+      {hudAllowed && (
+        <Button variant="secondary" onClick={toggleHud}>
+          {showStats ? "Hide HUD" : "Show HUD"}
+        </Button>
+      )}
       <LeaveGameButton gameId={gameId} />
     </div>
   ) : undefined;
@@ -12,6 +12,9 @@ import { useLocalGameStore } from "@/lib/hooks";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { createClientComponentClient } from "@/lib/api/supabase/client";
+import { getBotStyle } from "@/lib/features/game/botSetup";
+import { loadLocalSession, type LocalSessionSummary } from "@/lib/features/game/localSession";
+import { LocalSessionSummaryDialog } from "@/components/features/bots";
 
 export default function LocalGamePage() {
   const params = useParams();
@@ -23,14 +26,18 @@ export default function LocalGamePage() {
     gameState,
     heroId,
     startLocalGame,
+    resumeLocalGame,
+    suspendLocalGame,
     leaveLocalGame,
     playerAction,
     newGame,
     manager,
+    tableSetup,
   } = useLocalGameStore();
 
   const [showHandRankings, setShowHandRankings] = useState(false);
   const [cardsLoaded, setCardsLoaded] = useState(false);
+  const [sessionSummary, setSessionSummary] = useState<LocalSessionSummary | null>(null);
 
   // Preload card images for hand rankings (local games always use holdem)
   useEffect(() => {
@@ -91,20 +98,25 @@ export default function LocalGamePage() {
   }, []);
 
   useEffect(() => {
-    // Initialize if manager doesn't exist (more reliable than ref)
-    if (!manager) {
-      startLocalGame();
+    // Initialize if manager doesn't exist (more reliable than ref).
+    // After a refresh the saved session is picked up instead of dealing a new table.
+    // Skip once the user has quit (summary showing) so the table isn't restarted.
+    if (!manager && !sessionSummary) {
+      const saved = loadLocalSession();
+      if (saved) {
+        resumeLocalGame(saved);
+      } else {
+        startLocalGame();
+      }
     }
-  }, [startLocalGame, manager]);
+  }, [startLocalGame, resumeLocalGame, manager, sessionSummary]);
 
-  // Cleanup on unmount (when navigating away from the page)
+  // Stop the engine on unmount (when navigating away from the page).
+  // The session stays saved so it can be resumed from the bots page.
   useEffect(() => {
     return () => {
-      // Always cleanup if manager exists (defensive)
-      if (manager) {
-        leaveLocalGame();
-        console.log('[LocalGame] Cleaned up on page unmount');
-      }
+      suspendLocalGame();
+      console.log('[LocalGame] Suspended on page unmount');
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Empty deps - only run on unmount
@@ -174,6 +186,15 @@ export default function LocalGamePage() {
 
   // Animation is now handled internally by PokerTable's self-contained animation system
 
+  // After quitting, show the session summary before leaving the page
+  if (sessionSummary) {
+    return (
+      <PlayLayout title="Local Game">
+        <LocalSessionSummaryDialog summary={sessionSummary} onClose={() => router.push("/play")} />
+      </PlayLayout>
+    );
+  }
+
   // CRITICAL FIX: Do not render table until we have a valid Game ID and Hero ID match
   // This prevents the 'human-player' mismatch bug.
   // NOTE: This early return must come AFTER all hooks to maintain hook order
@@ -211,8 +232,12 @@ export default function LocalGamePage() {
   };
 
   const handleLeaveGame = () => {
-    leaveLocalGame();
-    router.push("/play");
+    const summary = leaveLocalGame();
+    if (summary) {
+      setSessionSummary(summary);
+    } else {
+      router.push("/play");
+    }
   };
 
   // Prepare table content
@@ -224,7 +249,8 @@ export default function LocalGamePage() {
            gameState={adaptedGameState!}
            currentUserId={heroId} // Pass the EXACT UUID from store
            isLocalGame={true}
-           isHeadsUp={false}
+           isHeadsUp={tableSetup.opponents.length === 1}
+           maxSeats={tableSetup.opponents.length + 1 > 6 ? 9 : 6}
          />
       </div>
 
@@ -257,14 +283,28 @@ export default function LocalGamePage() {
           <p className="text-sm font-semibold">Practice vs Bots</p>
         </div>
         <div>
-          <p className="text-xs text-muted-foreground">Difficulty</p>
-          <p className="text-sm font-semibold">Medium</p>
+          <p className="text-xs text-muted-foreground">Blinds</p>
+          <p className="text-sm font-semibold">
+            {tableSetup.blinds.small} / {tableSetup.blinds.big}
+          </p>
         </div>
         <div>
           <p className="text-xs text-muted-foreground">Starting Chips</p>
-          <p className="text-sm font-semibold">200</p>
+          <p className="text-sm font-semibold">{tableSetup.startingStack}</p>
         </div>
       </div>
+
+      <div className="space-y-1">
+        <p className="text-xs text-muted-foreground">Opponents</p>
+        {tableSetup.opponents.map((bot, index) => (
+          <div key={index} className="flex justify-between text-sm">
+            <span className="font-medium truncate">{bot.name}</span>
+            <span className="text-muted-foreground">
+              {bot.rangeProfile?.name ?? getBotStyle(bot.style).label}
+            </span>
+          </div>
+        ))}
+      </div>
     </div>
   );
 
@@ -7,7 +7,7 @@ import { PokerTable } from "@/components/features/game/PokerTable";
 import { ActionPopup } from "@/components/features/game/ActionPopup";
 import { LeaveGameButton } from "@/components/features/game/LeaveGameButton";
 import { usePrivateGameSocket } from "@/lib/api/socket/private";
-import { useToast } from "@/lib/hooks";
+import { useToast, usePlayerHud } from "@/lib/hooks";
 import {
   Loader2,
   Play,
@@ -23,6 +23,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
 import {
   Accordion,
@@ -78,10 +79,16 @@ export default function PrivateGamePage() {
     kickPlayer,
     updateStack,
     updateBlinds,
+    setHudEnabled,
     togglePause,
     startGame,
   } = usePrivateGameSocket(gameId);
 
+  const { showStats, hudAllowed, playerStats, toggleHud } = usePlayerHud(
+    gameId,
+    gameState
+  );
+
   // Handle stack update
   const handleUpdateStack = useCallback(() => {
     if (editStackSeat === null) return;
@@ -277,6 +284,28 @@ export default function PrivateGamePage() {
                     Update Blinds
                   </Button>
                 </div>
+                <Separator className="bg-slate-800" />
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="allow-hud" className="text-xs">
+                    Allow player HUDs
+                  </Label>
+                  <Switch
+                    id="allow-hud"
+                    checked={hudAllowed}
+                    onCheckedChange={setHudEnabled}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="show-hud" className="text-xs">
+                    Show my HUD
+                  </Label>
+                  <Switch
+                    id="show-hud"
+                    checked={showStats}
+                    disabled={!hudAllowed}
+                    onCheckedChange={toggleHud}
+                  />
+                </div>
               </AccordionContent>
             </AccordionItem>
 
@@ -611,7 +640,12 @@ export default function PrivateGamePage() {
           )}
         </>
       )}
-      <div className={isHost ? "flex-[0_0_48%]" : "ml-auto"}>
+      {!isHost && hudAllowed && (
+        <Button variant="secondary" className="ml-auto" onClick={toggleHud}>
+          {showStats ? "Hide HUD" : "Show HUD"}
+        </Button>
+      )}
+      <div className={isHost ? "flex-[0_0_48%]" : hudAllowed ? "" : "ml-auto"}>
         <LeaveGameButton gameId={gameId} className="w-full" />
       </div>
     </div>
@@ -629,6 +663,8 @@ export default function PrivateGamePage() {
           isHeadsUp={isHeadsUp}
           turnTimer={turnTimer}
           isSyncing={isSyncing}
+          showStats={showStats}
+          playerStats={playerStats}
         />
       }
       actionPopup={actionPopupContent}
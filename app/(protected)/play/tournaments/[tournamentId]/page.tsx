@@ -7,6 +7,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
 import {
   useTournamentSocket,
   useTournamentEvents,
@@ -194,11 +195,13 @@ export default function TournamentDetailPage() {
     maxPlayersPerTable: string;
     startingStack: string;
     blindLevelDurationMinutes: string;
+    hudEnabled: boolean;
     blindStructure: BlindLevel[];
   }>({
     maxPlayersPerTable: "9",
     startingStack: "10000",
     blindLevelDurationMinutes: "10",
+    hudEnabled: true,
     blindStructure: [],
   });
 
@@ -227,6 +230,7 @@ export default function TournamentDetailPage() {
         maxPlayersPerTable: normalized.maxPlayersPerTable?.toString() || "9",
         startingStack: normalized.startingStack?.toString() || "10000",
         blindLevelDurationMinutes: normalized.blindLevelDurationMinutes?.toString() || "10",
+        hudEnabled: normalized.hudEnabled,
         blindStructure: normalized.blindStructureTemplate.length > 0
           ? normalized.blindStructureTemplate
           : [{ small: 10, big: 20 }, { small: 20, big: 40 }, { small: 50, big: 100 }],
@@ -856,6 +860,7 @@ export default function TournamentDetailPage() {
           settingsForm.blindLevelDurationMinutes
         ),
         blindStructureTemplate: settingsForm.blindStructure,
+        hudEnabled: settingsForm.hudEnabled,
       };
 
       const response = await updateTournamentSettings(tournamentId, settings);
@@ -1189,6 +1194,20 @@ export default function TournamentDetailPage() {
                     />
                   </div>
 
+                  {/* Player HUDs */}
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="tournament-hud" className="text-xs text-slate-400">
+                      Allow player HUDs
+                    </Label>
+                    <Switch
+                      id="tournament-hud"
+                      checked={settingsForm.hudEnabled}
+                      onCheckedChange={(checked) =>
+                        setSettingsForm({ ...settingsForm, hudEnabled: checked })
+                      }
+                    />
+                  </div>
+
                   {/* Blind Structure */}
                   <div className="space-y-1">
                     <div className="flex items-center justify-between">
@@ -7,7 +7,7 @@ import { PlayLayout } from "@/components/layout/PlayLayout";
 import { GameState } from "@/lib/types/poker";
 import { getSocket } from "@/lib/api/socket/client";
 import { createClientComponentClient } from "@/lib/api/supabase/client";
-import { useToast } from "@/lib/hooks";
+import { useToast, usePlayerHud } from "@/lib/hooks";
 import { useStatus } from "@/components/providers/StatusProvider";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -118,6 +118,10 @@ export default function TournamentSpectatePage() {
   const supabase = createClientComponentClient();
   const { toast } = useToast();
   const { setStatus, clearStatus } = useStatus();
+  const { showStats, hudAllowed, playerStats, toggleHud } = usePlayerHud(
+    gameId,
+    gameState
+  );
 
   // Derived tournament values - use type-safe utilities
   const statusInfo = tournamentInfo ? getStatusInfo(tournamentInfo) : null;
@@ -413,6 +417,8 @@ export default function TournamentSpectatePage() {
             gameState={gameState}
             currentUserId="" // Empty string since spectators don't have a seat
             maxSeats={tableMaxSeats}
+            showStats={showStats}
+            playerStats={playerStats}
           />
 
           {/* Paused overlay */}
@@ -526,15 +532,27 @@ export default function TournamentSpectatePage() {
       title="Spectating"
       tableContent={tableContent}
       footer={
-        <Button
-          onClick={() => router.push(`/play/tournaments/${tournamentId}`)}
-          variant="outline"
-          size="lg"
-          className="w-full font-bold text-sm h-12"
-        >
-          <ArrowLeft className="mr-2 h-4 w-4" />
-          Back to Tables
-        </Button>
+        <div className="flex gap-3">
+          {hudAllowed && (
+            <Button
+              onClick={toggleHud}
+              variant="secondary"
+              size="lg"
+              className="font-bold text-sm h-12"
+            >
+              {showStats ? "Hide HUD" : "Show HUD"}
+            </Button>
+          )}
+          <Button
+            onClick={() => router.push(`/play/tournaments/${tournamentId}`)}
+            variant="outline"
+            size="lg"
+            className="flex-1 font-bold text-sm h-12"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Tables
+          </Button>
+        </div>
       }
     >
       {sidebarContent}
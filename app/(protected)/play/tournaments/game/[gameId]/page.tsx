@@ -10,7 +10,7 @@ import { GameState, ActionType, Player } from "@/lib/types/poker";
 import { getClientHandStrength } from "@backend/domain/evaluation/ClientHandEvaluator";
 import { getSocket } from "@/lib/api/socket/client";
 import { createClientComponentClient } from "@/lib/api/supabase/client";
-import { useToast } from "@/lib/hooks";
+import { useToast, usePlayerHud } from "@/lib/hooks";
 import { useStatus } from "@/components/providers/StatusProvider";
 import { normalizeGameState } from "@/lib/api/socket/utils/normalizers";
 import type { GameStateEvent } from "@/lib/api/socket/types/game";
@@ -254,6 +254,12 @@ export default function TournamentGamePage() {
     }
   }, [gameState?.players, gameState?.communityCards, currentUserId]);
 
+  // HUD stats (user toggle saved in preferences, tournament host can disable)
+  const { showStats, hudAllowed, playerStats, toggleHud } = usePlayerHud(
+    gameId,
+    gameState
+  );
+
   // Derived tournament values (normalized)
   const normalizedTournamentData = useMemo(() => {
     if (!tournamentInfo?.tournament) return null;
@@ -652,6 +658,8 @@ export default function TournamentGamePage() {
               playerDisconnectTimers={playerDisconnectTimers}
               turnTimer={turnTimer}
               isSyncing={isSyncing}
+              showStats={showStats}
+              playerStats={playerStats}
             />
           </div>
 
@@ -694,11 +702,21 @@ export default function TournamentGamePage() {
     />
   );
 
+  // Footer content
+  const footerContent = hudAllowed ? (
+    <div className="flex justify-end gap-3">
+      <Button variant="secondary" onClick={toggleHud}>
+        {showStats ? "Hide HUD" : "Show HUD"}
+      </Button>
+    </div>
+  ) : undefined;
+
   return (
     <PlayLayout
       title="Tournament"
       tableContent={tableContent}
       actionPopup={actionPopupContent}
+      footer={footerContent}
     >
       {sidebarContent}
     </PlayLayout>
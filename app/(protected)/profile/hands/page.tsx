@@ -0,0 +1,53 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { createClientComponentClient } from "@/lib/api/supabase/client";
+import { HandHistoryBrowser } from "@/components/features/replay/HandHistoryBrowser";
+import {
+  REPLAY_ACTION_PARAM,
+  REPLAY_HAND_PARAM,
+  parseReplayActionParam,
+} from "@/lib/features/replay/replayTimeline";
+
+export default function HandHistoryRoute() {
+  const supabase = createClientComponentClient();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const checkAuth = async () => {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        router.push("/signin");
+        return;
+      }
+
+      setUserId(user.id);
+      setLoading(false);
+    };
+
+    checkAuth();
+  }, [supabase, router]);
+
+  if (loading || !userId) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-muted-foreground">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <HandHistoryBrowser
+      userId={userId}
+      linkedHandId={searchParams.get(REPLAY_HAND_PARAM) ?? undefined}
+      linkedActionIndex={parseReplayActionParam(searchParams.get(REPLAY_ACTION_PARAM))}
+    />
+  );
+}
@@ -5,7 +5,8 @@ import { useRouter } from "next/navigation";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { HandHistoryList } from "@/components/features/replay/HandHistoryList";
-import { UserCircle, BarChart3 } from "lucide-react";
+import { mergeWithLocalHands } from "@/lib/features/game/localHandHistory";
+import { UserCircle, BarChart3, LineChart, History, Star } from "lucide-react";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { useEffect, useState } from "react";
@@ -139,7 +140,8 @@ export default function ProfilePage() {
         return;
       }
 
-      setHands(data || []);
+      // Bot-game hands are stored in the browser; show them alongside online hands
+      setHands(mergeWithLocalHands(data || [], user.id).slice(0, 20));
     };
 
     fetchHands();
@@ -286,6 +288,51 @@ export default function ProfilePage() {
                         </CardContent>
                       </Card>
                     </Link>
+
+                    {/* Session Results Link */}
+                    <Link href="/profile/sessions" className="block rounded-lg group">
+                      <Card className="bg-card backdrop-blur-sm border h-full group-hover:bg-muted/50 transition-colors">
+                        <CardHeader>
+                          <CardTitle className="text-lg flex items-center gap-2">
+                            <LineChart className="h-5 w-5" />
+                            Session Results
+                          </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                          <p className="text-muted-foreground">Profit graph, bb/100 and results by session</p>
+                        </CardContent>
+                      </Card>
+                    </Link>
+
+                    {/* Hand History Link */}
+                    <Link href="/profile/hands" className="block rounded-lg group">
+                      <Card className="bg-card backdrop-blur-sm border h-full group-hover:bg-muted/50 transition-colors">
+                        <CardHeader>
+                          <CardTitle className="text-lg flex items-center gap-2">
+                            <History className="h-5 w-5" />
+                            Hand History
+                          </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                          <p className="text-muted-foreground">Search, filter and replay every hand you have played</p>
+                        </CardContent>
+                      </Card>
+                    </Link>
+
+                    {/* Review Queue Link */}
+                    <Link href="/profile/review" className="block rounded-lg group">
+                      <Card className="bg-card backdrop-blur-sm border h-full group-hover:bg-muted/50 transition-colors">
+                        <CardHeader>
+                          <CardTitle className="text-lg flex items-center gap-2">
+                            <Star className="h-5 w-5" />
+                            Review Queue
+                          </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                          <p className="text-muted-foreground">Starred, tagged and commented hands to study</p>
+                        </CardContent>
+                      </Card>
+                    </Link>
                   </div>
                 );
               })()}
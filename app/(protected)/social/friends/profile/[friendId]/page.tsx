@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { User, ArrowLeft } from 'lucide-react'
 import Link from 'next/link'
+import { PlayerNoteCard } from '@/components/features/playerNotes'
 
 interface FriendProfilePageProps {
   params: Promise<{ friendId: string }>
@@ -88,6 +89,10 @@ export default async function FriendProfilePage({ params }: FriendProfilePagePro
           </div>
         </CardContent>
       </Card>
+
+      <div className="mt-4">
+        <PlayerNoteCard playerId={friendId} playerName={profile.username} />
+      </div>
     </div>
   )
 }
@@ -0,0 +1,73 @@
+import { ImageResponse } from "next/og";
+import { getSharedHandPreview } from "@/lib/features/handHistory/sharedHand";
+import { getSharedHand } from "../actions";
+
+export const alt = "Poker hand replay on POKROnline";
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+
+const SUIT_SYMBOLS: Record<string, string> = { s: "♠", h: "♥", d: "♦", c: "♣" };
+const RED_SUITS = new Set(["h", "d"]);
+
+interface OpenGraphImageProps {
+  params: Promise<{ token: string }>;
+}
+
+/** Link preview: the board and the pot */
+export default async function OpenGraphImage({ params }: OpenGraphImageProps) {
+  const { token } = await params;
+  const shared = await getSharedHand(token);
+  const preview = shared ? getSharedHandPreview(shared.snapshot) : null;
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          alignItems: "center",
+          justifyContent: "center",
+          gap: 48,
+          background: "radial-gradient(circle at 50% 40%, #166534 0%, #052e16 75%)",
+          color: "#ffffff",
+          fontFamily: "sans-serif",
+        }}
+      >
+        <div style={{ display: "flex", fontSize: 56, fontWeight: 700 }}>
+          {preview ? preview.title : "Hand not found"}
+        </div>
+        {preview && (
+          <div style={{ display: "flex", gap: 24 }}>
+            {(preview.board.length > 0 ? preview.board : ["", "", ""]).map((card, index) => (
+              <div
+                key={index}
+                style={{
+                  width: 140,
+                  height: 196,
+                  borderRadius: 16,
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "center",
+                  fontSize: 72,
+                  fontWeight: 700,
+                  background: card ? "#ffffff" : "rgba(255,255,255,0.12)",
+                  color: RED_SUITS.has(card[1]) ? "#dc2626" : "#0f172a",
+                }}
+              >
+                {card ? `${card[0]}${SUIT_SYMBOLS[card[1]] ?? card[1]}` : ""}
+              </div>
+            ))}
+          </div>
+        )}
+        <div style={{ display: "flex", fontSize: 32, opacity: 0.8 }}>
+          {preview && preview.board.length === 0
+            ? "Won before the flop • Watch the replay on POKROnline"
+            : "Watch the replay on POKROnline"}
+        </div>
+      </div>
+    ),
+    size
+  );
+}
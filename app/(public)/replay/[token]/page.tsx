@@ -0,0 +1,82 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { ReplayViewer } from "@/components/features/replay/ReplayViewer";
+import { Button } from "@/components/ui/button";
+import { getSharedHandPreview } from "@/lib/features/handHistory/sharedHand";
+import { parseReplayActionParam } from "@/lib/features/replay/replayTimeline";
+import { getSharedHand } from "../actions";
+
+interface SharedReplayPageProps {
+  params: Promise<{ token: string }>;
+  searchParams: Promise<{ action?: string }>;
+}
+
+export const dynamic = "force-dynamic";
+
+export async function generateMetadata({ params }: SharedReplayPageProps): Promise<Metadata> {
+  const { token } = await params;
+  const shared = await getSharedHand(token);
+  if (!shared) {
+    return { title: "Hand not found", robots: { index: false } };
+  }
+
+  const preview = getSharedHandPreview(shared.snapshot);
+  return {
+    title: preview.title,
+    description: preview.description,
+    // Links are unlisted; only people they were sent to should find them
+    robots: { index: false },
+    openGraph: {
+      title: `${preview.title} | POKROnline`,
+      description: preview.description,
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: `${preview.title} | POKROnline`,
+      description: preview.description,
+    },
+  };
+}
+
+export default async function SharedReplayPage({ params, searchParams }: SharedReplayPageProps) {
+  const { token } = await params;
+  const { action } = await searchParams;
+  const shared = await getSharedHand(token);
+
+  if (!shared) {
+    notFound();
+  }
+
+  const { snapshot } = shared;
+
+  return (
+    <div className="min-h-screen relative">
+      <div className="relative z-10 container mx-auto max-w-7xl px-4 md:px-8 py-6 flex flex-col h-screen">
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <div>
+            <h1 className="text-2xl font-bold">Shared Hand</h1>
+            <p className="text-sm text-muted-foreground">
+              Shared by {snapshot.playerNames[snapshot.heroId]}. Cards that weren&apos;t shown down
+              stay hidden.
+            </p>
+          </div>
+          <Link href="/">
+            <Button variant="outline" size="sm">
+              Play on POKROnline
+            </Button>
+          </Link>
+        </div>
+        <div className="flex-1 min-h-0 rounded-lg border bg-card overflow-hidden">
+          <ReplayViewer
+            hand={snapshot.hand}
+            currentUserId={snapshot.heroId}
+            playerNames={snapshot.playerNames}
+            initialActionIndex={parseReplayActionParam(action)}
+            embedded
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
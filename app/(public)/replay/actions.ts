@@ -0,0 +1,25 @@
+"use server";
+
+import { createServerComponentClient } from "@/lib/api/supabase/client";
+import { transformSharedHandRow } from "@/lib/features/handHistory/sharedHand";
+import type { SharedHand, SharedHandLookupRow } from "@/lib/types/sharedHands";
+
+/**
+ * Fetches a shared hand by its link token. No sign-in needed: `shared_hands`
+ * is only readable by its owner, so the row is looked up through the
+ * `get_shared_hand` function, which returns the one row matching the token.
+ */
+export async function getSharedHand(token: string): Promise<SharedHand | null> {
+  const supabase = await createServerComponentClient();
+
+  const { data, error } = await supabase
+    .rpc("get_shared_hand", { share_token: token })
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching shared hand:", error);
+    return null;
+  }
+
+  return data ? transformSharedHandRow(data as SharedHandLookupRow) : null;
+}
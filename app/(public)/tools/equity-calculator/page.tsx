@@ -4,10 +4,11 @@ import React, { useState, useEffect, useRef, useMemo } from "react";
 import { HandSelector } from "@/components/features/analysis/HandSelector";
 import { BoardSelector } from "@/components/features/analysis/BoardSelector";
 import { RangeGrid } from "@/components/features/analysis/RangeGrid";
-// @ts-ignore - Importing from shared backend
-import { calculateEquity } from "@backend/domain/evaluation/EquityCalculator";
-// @ts-ignore - Importing from shared backend
-import { parseRange } from "@backend/domain/evaluation/RangeParser";
+import { RangeBreakdownTable } from "@/components/features/analysis/RangeBreakdownTable";
+import { RunoutExplorer } from "@/components/features/analysis/RunoutExplorer";
+import { EquityDistributionChart } from "@/components/features/analysis/EquityDistributionChart";
+import { RangeWeightPanel } from "@/components/features/analysis/RangeWeightPanel";
+import { RangeLibraryDialog } from "@/components/features/analysis/RangeLibraryDialog";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
@@ -17,22 +18,27 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Trash2, Plus } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Trash2, Plus, FolderOpen } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { useIsMobile } from "@/lib/hooks";
-
-interface EquityResult {
-  equities: number[];
-  iterations: number;
-}
-
-interface Villain {
+import { useEquity, useIsMobile, useRangeBreakdown, useRunouts } from "@/lib/hooks";
+import type { EquityRequest } from "@/lib/features/equity/equityEngine";
+import type { RangeBreakdownRequest } from "@/lib/features/equity/rangeBreakdown";
+import {
+  countWeightedCombos,
+  formatWeightedRange,
+  getHandClassWeights,
+  parseWeightedRange,
+  toggleHandClass,
+  type WeightedRange,
+} from "@/lib/features/ranges/weightedRange";
+
+interface Player {
   id: number;
   type: "hand" | "range";
   hand: string[];
-  range: Set<string>;
-  rangeString: string;
-  equity: number | null;
+  range: WeightedRange;
 }
 
 interface Preset {
@@ -42,38 +48,51 @@ interface Preset {
   range_string: string;
 }
 
+/** The hero is always the first player */
+const HERO_ID = 0;
+const MAX_PLAYERS = 6;
+
+const createPlayer = (id: number): Player => ({
+  id,
+  type: "hand",
+  hand: ["", ""],
+  range: new Map(),
+});
+
+// A complete hand or a non-empty range
+const isPlayerReady = (player: Player) =>
+  (player.type === "hand" && !player.hand.some((c) => !c)) ||
+  (player.type === "range" && player.range.size > 0);
+
+const toRangeString = (player: Player) => formatWeightedRange(player.range);
+
+const getPlayerLabel = (player: Player, players: Player[]) =>
+  player.id === HERO_ID ? "Hero" : `Villain ${players.findIndex((p) => p.id === player.id)}`;
+
 export default function EquityCalculatorPage() {
   const isMobile = useIsMobile();
   // --- State ---
   const [board, setBoard] = useState<string[]>([]);
-  const [heroHand, setHeroHand] = useState<string[]>(["", ""]);
-  const [heroEquity, setHeroEquity] = useState<number | null>(null);
-
-  // Villains (Start with 1)
-  const [villains, setVillains] = useState<Villain[]>([
-    {
-      id: 1,
-      type: "hand",
-      hand: ["", ""],
-      range: new Set(),
-      rangeString: "",
-      equity: null,
-    },
+
+  // Hero plus one villain to start; any of them can hold a hand or a range
+  const [players, setPlayers] = useState<Player[]>([
+    createPlayer(HERO_ID),
+    createPlayer(1),
   ]);
+  // Player whose range the grid edits
+  const [activeRangeId, setActiveRangeId] = useState<number | null>(null);
+  const [libraryOpen, setLibraryOpen] = useState(false);
 
   const [presets, setPresets] = useState<Preset[]>([]);
-  const [iterations, setIterations] = useState(0);
   const [isMouseDown, setIsMouseDown] = useState(false);
+  const [showHeatmap, setShowHeatmap] = useState(true);
+  const [showRunouts, setShowRunouts] = useState(false);
+  // Frequency new grid selections get, and the hand whose suit combos are shown
+  const [paintWeight, setPaintWeight] = useState(1);
+  const [focusedHand, setFocusedHand] = useState<string | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const calculationTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const villainsRef = useRef<Villain[]>(villains);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
-  // Keep ref in sync with state
-  useEffect(() => {
-    villainsRef.current = villains;
-  }, [villains]);
-
   // Handle horizontal scrolling with vertical wheel
   useEffect(() => {
     const container = scrollContainerRef.current;
@@ -95,7 +114,7 @@ export default function EquityCalculatorPage() {
     return () => {
       container.removeEventListener("wheel", handleWheel);
     };
-  }, [villains.length]);
+  }, [players.length]);
 
   // Fetch Presets on Mount
   useEffect(() => {
@@ -107,90 +126,72 @@ export default function EquityCalculatorPage() {
       .catch((err) => console.error("Failed to load presets", err));
   }, []);
 
+  const hero = players[0];
+  const villains = players.slice(1);
+
+  // The selected range player, or the first one holding a range
+  const rangePlayer =
+    players.find((p) => p.id === activeRangeId && p.type === "range") ??
+    players.find((p) => p.type === "range");
+  const isRangeMode = rangePlayer !== undefined;
+  const rangeClassWeights = useMemo(
+    () => getHandClassWeights(rangePlayer?.range ?? new Map()),
+    [rangePlayer?.range]
+  );
+
+  const playerLabel = (player: Player) => getPlayerLabel(player, players);
+
   // --- Handlers ---
 
   const addVillain = () => {
-    if (villains.length >= 5) return;
-    const newId = Math.max(...villains.map((v) => v.id), 0) + 1;
-    setVillains([
-      ...villains,
-      {
-        id: newId,
-        type: "hand",
-        hand: ["", ""],
-        range: new Set(),
-        rangeString: "",
-        equity: null,
-      },
-    ]);
+    if (players.length >= MAX_PLAYERS) return;
+    const newId = Math.max(...players.map((p) => p.id), 0) + 1;
+    setPlayers([...players, createPlayer(newId)]);
   };
 
   const removeVillain = (id: number) => {
-    setVillains(villains.filter((v) => v.id !== id));
+    setPlayers(players.filter((p) => p.id !== id));
   };
 
-  const updateVillain = (id: number, updates: Partial<Villain>) => {
-    setVillains(villains.map((v) => (v.id === id ? { ...v, ...updates } : v)));
+  const updatePlayer = (id: number, updates: Partial<Player>) => {
+    setPlayers((prev) => prev.map((p) => (p.id === id ? { ...p, ...updates } : p)));
   };
 
-  // Range Logic for Villain 1
-  const toggleRangeHand = (id: number, handLabel: string) => {
-    const villain = villains.find((v) => v.id === id);
-    if (!villain || villain.type !== "range") return;
-
-    const nextRange = new Set(villain.range);
-    if (nextRange.has(handLabel)) nextRange.delete(handLabel);
-    else nextRange.add(handLabel);
+  const togglePlayerType = (player: Player) => {
+    if (player.type === "hand") {
+      // Switching to range mode - clear the hand and edit this range
+      updatePlayer(player.id, { type: "range", hand: ["", ""] });
+      setActiveRangeId(player.id);
+    } else {
+      // Switching to hand mode
+      updatePlayer(player.id, { type: "hand" });
+      if (activeRangeId === player.id) setActiveRangeId(null);
+    }
+  };
 
-    updateVillain(id, {
-      range: nextRange,
-      rangeString: Array.from(nextRange).join(","),
+  // Range Logic for the player being edited
+  const toggleRangeHand = (handLabel: string) => {
+    if (!rangePlayer) return;
+    updatePlayer(rangePlayer.id, {
+      range: toggleHandClass(rangePlayer.range, handLabel, paintWeight),
     });
   };
 
   const handleMouseEnter = (hand: string) => {
-    if (isMouseDown) {
-      const villain1 = villains.find((v) => v.id === 1);
-      if (villain1 && villain1.type === "range") {
-        toggleRangeHand(1, hand);
-      }
+    if (isMouseDown && rangePlayer) {
+      toggleRangeHand(hand);
     }
   };
 
-  const loadPreset = (id: number, rangeStr: string) => {
-    // 1. Expand range string to combos using backend parser
-    const combos = parseRange(rangeStr);
-    // 2. Map combos back to grid IDs
-    const gridIds = new Set<string>();
-    const RANKS = [
-      "A",
-      "K",
-      "Q",
-      "J",
-      "T",
-      "9",
-      "8",
-      "7",
-      "6",
-      "5",
-      "4",
-      "3",
-      "2",
-    ];
-    for (const [c1, c2] of combos) {
-      const r1 = c1[0];
-      const r2 = c2[0];
-      const s1 = c1[1];
-      const s2 = c2[1];
-      if (r1 === r2) gridIds.add(`${r1}${r1}`);
-      else {
-        const suited = s1 === s2 ? "s" : "o";
-        if (RANKS.indexOf(r1) < RANKS.indexOf(r2))
-          gridIds.add(`${r1}${r2}${suited}`);
-        else gridIds.add(`${r2}${r1}${suited}`);
-      }
-    }
-    updateVillain(id, { range: gridIds, rangeString: rangeStr });
+  const loadPreset = (rangeStr: string) => {
+    if (!rangePlayer) return;
+    // Expand the preset (handles "QQ+", "AKs-A9s", weights like "AQo:0.5", etc.)
+    updatePlayer(rangePlayer.id, { range: parseWeightedRange(rangeStr) });
+  };
+
+  const clearRange = () => {
+    if (!rangePlayer) return;
+    updatePlayer(rangePlayer.id, { range: new Map() });
   };
 
   // Handle mouse up/down for drag selection
@@ -207,149 +208,284 @@ export default function EquityCalculatorPage() {
     };
   }, []);
 
-  // Create a stable key for calculation inputs (excluding equity)
-  const calculationInputKey = useMemo(() => {
-    return JSON.stringify({
-      heroHand,
-      board,
-      villains: villains.map((v) => ({
-        id: v.id,
-        type: v.type,
-        hand: v.hand,
-        range: Array.from(v.range).sort(),
-        rangeString: v.rangeString,
-      })),
-    });
-  }, [
-    heroHand.join(","),
-    board.join(","),
-    JSON.stringify(
-      villains.map((v) => ({
-        id: v.id,
-        type: v.type,
-        hand: v.hand.join(","),
-        range: Array.from(v.range).sort().join(","),
-        rangeString: v.rangeString,
-      }))
-    ),
-  ]);
+  // Players with a complete hand or a non-empty range, in display order
+  const activePlayers = useMemo(() => players.filter(isPlayerReady), [players]);
+
+  // Needs the hero plus at least one opponent
+  const equityRequest = useMemo<EquityRequest | null>(() => {
+    if (activePlayers[0]?.id !== HERO_ID || activePlayers.length < 2) return null;
+    return {
+      players: activePlayers.map((p) => (p.type === "range" ? toRangeString(p) : p.hand)),
+      board: board.filter(Boolean),
+    };
+  }, [activePlayers, board]);
+
+  // Calculated off the main thread; Monte Carlo results stream in as they converge
+  const { result: equityResult, error: equityError, isCalculating } = useEquity(equityRequest);
 
-  // --- Auto-calculation with debounce ---
   useEffect(() => {
-    // Clear any existing timeout
-    if (calculationTimeoutRef.current) {
-      clearTimeout(calculationTimeoutRef.current);
-    }
+    if (equityError) console.error("Calculation error", equityError);
+  }, [equityError]);
+
+  // The previous result stays up while a new one starts; drop it if the players changed
+  const currentResult =
+    equityRequest && equityResult?.equities.length === equityRequest.players.length
+      ? equityResult
+      : null;
+
+  const playerEquities = useMemo(() => {
+    const equities = new Map<number, number>();
+    if (!currentResult) return equities;
+    activePlayers.forEach((p, i) => {
+      equities.set(p.id, currentResult.equities[i] * 100);
+    });
+    return equities;
+  }, [currentResult, activePlayers]);
+  const heroEquity = playerEquities.get(HERO_ID) ?? null;
+
+  // Range players only: a fixed hand has a single equity
+  const distributionSeries = useMemo(() => {
+    const distributions = currentResult?.distributions;
+    if (!distributions) return [];
+    return activePlayers.flatMap((p, i) =>
+      p.type === "range" ? [{ label: getPlayerLabel(p, players), equities: distributions[i] }] : []
+    );
+  }, [currentResult, activePlayers, players]);
+
+  const equityStatus = currentResult
+    ? currentResult.mode === "exact"
+      ? `Exact · ${currentResult.iterations.toLocaleString()} runouts${
+          currentResult.done ? "" : ` (${Math.round(currentResult.progress * 100)}%)`
+        }`
+      : `Monte Carlo · ${currentResult.iterations.toLocaleString()} trials · ±${(
+          Math.max(...currentResult.margins) * 100
+        ).toFixed(1)}%${isCalculating ? "…" : ""}`
+    : null;
+
+  // Next-card explorer, available on the flop and turn
+  const canExploreRunouts =
+    equityRequest !== null && (equityRequest.board.length === 3 || equityRequest.board.length === 4);
+  const { result: runouts, error: runoutsError } = useRunouts(
+    showRunouts && canExploreRunouts ? equityRequest : null
+  );
 
-    // Read current villains from ref (always up to date via sync effect)
-    const currentVillains = villainsRef.current;
-    const heroValid = !heroHand.some((c) => !c);
-    const villain1 = currentVillains.find((v) => v.id === 1);
-    const villain1HasHand =
-      villain1 && villain1.type === "hand" && !villain1.hand.some((c) => !c);
-    const villain1HasRange =
-      villain1 && villain1.type === "range" && villain1.range.size > 0;
-    const otherVillainsValid = currentVillains
-      .filter((v) => v.id !== 1)
-      .some((v) => !v.hand.some((c) => !c));
-
-    // Valid if: (Hero + at least one other player) OR (Hero + Villain 1 with range)
-    const isValid =
-      heroValid &&
-      (villain1HasHand ||
-        otherVillainsValid || // At least 2 players total
-        (heroValid && villain1HasRange)); // Hero + Villain 1 range
-
-    if (!isValid) {
-      // Clear equity values
-      setHeroEquity(null);
-      setIterations(0);
-      // Only update villains if they have equity values to clear
-      setVillains((prev) => {
-        if (prev.some((v) => v.equity !== null)) {
-          return prev.map((v) => ({ ...v, equity: null }));
-        }
-        return prev;
-      });
-      return;
+  const runoutsSection = canExploreRunouts ? (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-xs font-semibold">
+          {equityRequest.board.length === 3 ? "Turn" : "River"} Runouts
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={() => setShowRunouts((show) => !show)}
+        >
+          {showRunouts ? "Hide" : "Explore"}
+        </Button>
+      </div>
+      {showRunouts &&
+        (runoutsError ? (
+          <p className="text-xs text-red-400">{runoutsError}</p>
+        ) : runouts ? (
+          <>
+            <RunoutExplorer
+              runouts={runouts}
+              onSelectCard={(card) => setBoard([...board.filter(Boolean), card])}
+            />
+            {!runouts.done && (
+              <div className="text-[10px] text-muted-foreground">
+                Calculating… {Math.round(runouts.progress * 100)}%
+              </div>
+            )}
+          </>
+        ) : (
+          <p className="text-xs text-muted-foreground">Calculating…</p>
+        ))}
+    </div>
+  ) : null;
+
+  // Hero's hand vs. the villain range on the grid, heads-up, split by hand class
+  const breakdownVillain =
+    rangePlayer && rangePlayer.id !== HERO_ID && rangePlayer.range.size > 0
+      ? rangePlayer
+      : null;
+  const breakdownRequest = useMemo<RangeBreakdownRequest | null>(() => {
+    if (hero.type !== "hand" || hero.hand.some((c) => !c) || !breakdownVillain) {
+      return null;
     }
+    return {
+      hero: hero.hand,
+      range: toRangeString(breakdownVillain),
+      board: board.filter(Boolean),
+    };
+  }, [hero, breakdownVillain, board]);
 
-    // Debounce: wait 300ms after last change before calculating
-    calculationTimeoutRef.current = setTimeout(() => {
-      try {
-        // Read current villains from ref at calculation time
-        const villainsAtCalc = villainsRef.current;
-
-        // Prepare inputs
-        const inputs: (string[] | string)[] = [heroHand];
-        const activeVillains = villainsAtCalc.filter(
-          (v) =>
-            (v.type === "hand" && !v.hand.some((c) => !c)) ||
-            (v.type === "range" && v.range.size > 0)
-        );
-
-        activeVillains.forEach((v) => {
-          if (v.type === "range") {
-            inputs.push(v.rangeString || Array.from(v.range).join(","));
-          } else {
-            inputs.push(v.hand);
-          }
-        });
-
-        // Run Calculator
-        const result: EquityResult = calculateEquity(
-          inputs,
-          board.filter(Boolean),
-          20000
-        );
-
-        // Update State
-        setIterations(result.iterations);
-        setHeroEquity(result.equities[0]);
-
-        // Map results back to villains using functional update
-        setVillains((prev) => {
-          let resIdx = 1;
-          return prev.map((v) => {
-            if (
-              (v.type === "hand" && !v.hand.some((c) => !c)) ||
-              (v.type === "range" && v.range.size > 0)
-            ) {
-              return { ...v, equity: result.equities[resIdx++] };
-            }
-            return { ...v, equity: null };
-          });
-        });
-      } catch (e) {
-        console.error("Calculation error", e);
-        setHeroEquity(null);
-        setVillains((prev) => prev.map((v) => ({ ...v, equity: null })));
-      }
-    }, 300);
+  const { result: breakdown, error: breakdownError } = useRangeBreakdown(breakdownRequest);
+  const currentBreakdown = breakdownRequest ? breakdown : null;
 
-    // Cleanup timeout on unmount or dependency change
-    return () => {
-      if (calculationTimeoutRef.current) {
-        clearTimeout(calculationTimeoutRef.current);
-      }
-    };
-  }, [calculationInputKey]);
+  const heatmap = useMemo(() => {
+    if (!showHeatmap || !currentBreakdown) return undefined;
+    return new Map(currentBreakdown.classes.map((c) => [c.handClass, c.equity]));
+  }, [showHeatmap, currentBreakdown]);
 
-  const villain1 = villains.find((v) => v.id === 1);
-  const isRangeMode = villain1?.type === "range";
+  const breakdownSection = breakdownRequest && breakdownVillain ? (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-xs font-semibold">
+          Hero vs. {playerLabel(breakdownVillain)} Range
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="equity-heatmap"
+            checked={showHeatmap}
+            onCheckedChange={setShowHeatmap}
+          />
+          <Label htmlFor="equity-heatmap" className="text-xs">
+            Heatmap
+          </Label>
+        </div>
+      </div>
+      {breakdownError ? (
+        <p className="text-xs text-red-400">{breakdownError}</p>
+      ) : currentBreakdown ? (
+        <>
+          <RangeBreakdownTable breakdown={currentBreakdown} />
+          <div className="text-[10px] text-muted-foreground">
+            {currentBreakdown.mode === "exact" ? "Exact" : "Monte Carlo"} ·{" "}
+            {currentBreakdown.iterations.toLocaleString()} runouts
+            {currentBreakdown.done ? "" : ` (${Math.round(currentBreakdown.progress * 100)}%)`}
+          </div>
+        </>
+      ) : (
+        <p className="text-xs text-muted-foreground">Calculating…</p>
+      )}
+    </div>
+  ) : null;
+
+  const distributionSection =
+    distributionSeries.some((s) => s.equities.length > 1) ? (
+      <div className="space-y-2">
+        <div className="text-xs font-semibold">Equity Distribution</div>
+        <EquityDistributionChart series={distributionSeries} />
+      </div>
+    ) : null;
 
-  // Calculate all excluded cards (board + hero + all villains)
+  // Calculate all excluded cards (board + every fixed hand)
   const allExcludedCards = useMemo(() => {
     const excluded: string[] = [];
     excluded.push(...board.filter(Boolean));
-    excluded.push(...heroHand.filter(Boolean));
-    villains.forEach((v) => {
-      if (v.type === "hand") {
-        excluded.push(...v.hand.filter(Boolean));
+    players.forEach((p) => {
+      if (p.type === "hand") {
+        excluded.push(...p.hand.filter(Boolean));
       }
     });
     return excluded;
-  }, [board, heroHand, villains]);
+  }, [board, players]);
+
+  // Hero and villain slots, shared by both layouts
+  const renderPlayerSlot = (player: Player) => (
+    <div key={player.id} className="flex-shrink-0 space-y-1 relative">
+      <div className="text-xs font-medium text-muted-foreground">
+        {playerLabel(player)}
+      </div>
+      {player.id !== HERO_ID && villains.length > 1 && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="absolute -top-2 right-0 h-5 w-5 text-muted-foreground hover:text-destructive"
+          onClick={() => removeVillain(player.id)}
+        >
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      )}
+      {player.type === "hand" ? (
+        <HandSelector
+          value={player.hand}
+          onChange={(h) => updatePlayer(player.id, { hand: h })}
+          excludedCards={allExcludedCards.filter(
+            (c) => !player.hand.includes(c)
+          )}
+        />
+      ) : (
+        // Selects this range for editing in the grid
+        <button
+          type="button"
+          onClick={() => setActiveRangeId(player.id)}
+          className={cn(
+            "text-xs text-muted-foreground h-14 w-[5.5rem] flex items-center justify-center rounded border border-dashed border-slate-600",
+            rangePlayer?.id === player.id && "border-solid border-emerald-500 text-slate-200"
+          )}
+        >
+          {Number(countWeightedCombos(player.range).toFixed(1))} combos
+        </button>
+      )}
+      {/* Hand / range toggle */}
+      <Button
+        variant={player.type === "range" ? "outline" : "default"}
+        size="sm"
+        className="absolute top-[4rem] right-0 h-5 px-2 text-[10px] z-50"
+        onClick={() => togglePlayerType(player)}
+      >
+        {player.type === "range" ? "Use Hand" : "Use Range"}
+      </Button>
+    </div>
+  );
+
+  const equityList = (
+    <div className="space-y-0.5">
+      {players.map(
+        (p) =>
+          playerEquities.has(p.id) && (
+            <div
+              key={p.id}
+              className="flex justify-between items-center text-xs"
+            >
+              <span
+                className={cn(
+                  "font-medium",
+                  p.id === HERO_ID && "text-emerald-500"
+                )}
+              >
+                {playerLabel(p)}
+                {p.type === "range" && (
+                  <span className="text-muted-foreground font-normal"> (range)</span>
+                )}
+              </span>
+              <span className="text-muted-foreground">
+                {playerEquities.get(p.id)!.toFixed(1)}%
+              </span>
+            </div>
+          )
+      )}
+    </div>
+  );
+
+  const weightPanel = rangePlayer && (
+    <RangeWeightPanel
+      range={rangePlayer.range}
+      onRangeChange={(range) => updatePlayer(rangePlayer.id, { range })}
+      paintWeight={paintWeight}
+      onPaintWeightChange={setPaintWeight}
+      focusedHand={focusedHand}
+      onFocusedHandChange={setFocusedHand}
+    />
+  );
+
+  const presetSelect = presets.length > 0 && (
+    <Select onValueChange={(val) => loadPreset(val)}>
+      <SelectTrigger className="w-full h-9">
+        <SelectValue placeholder="Select Range Preset" />
+      </SelectTrigger>
+      <SelectContent>
+        {presets.map((preset) => (
+          <SelectItem key={preset.id} value={preset.range_string}>
+            {preset.name} ({preset.category})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
 
   return (
     <div className="min-h-screen relative">
@@ -398,85 +534,12 @@ export default function EquityCalculatorPage() {
                         />
                       </div>
 
-                      {/* Hero */}
-                      <div className="flex-shrink-0 space-y-1">
-                        <div className="text-xs font-medium text-muted-foreground">
-                          Hero
-                        </div>
-                        <HandSelector
-                          value={heroHand}
-                          onChange={setHeroHand}
-                          excludedCards={allExcludedCards.filter(
-                            (c) => !heroHand.includes(c)
-                          )}
-                        />
-                      </div>
-
-                      {/* Villains */}
-                      {villains.map((villain, index) => (
-                        <div
-                          key={villain.id}
-                          className="flex-shrink-0 space-y-1 relative"
-                        >
-                          <div className="text-xs font-medium text-muted-foreground">
-                            Villain {index + 1}
-                          </div>
-                          {villains.length > 1 && villain.id !== 1 && (
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              className="absolute -top-2 right-0 h-5 w-5 text-muted-foreground hover:text-destructive"
-                              onClick={() => removeVillain(villain.id)}
-                            >
-                              <Trash2 className="h-3 w-3" />
-                            </Button>
-                          )}
-                          {villain.type === "hand" ? (
-                            <HandSelector
-                              value={villain.hand}
-                              onChange={(h) =>
-                                updateVillain(villain.id, { hand: h })
-                              }
-                              excludedCards={allExcludedCards.filter(
-                                (c) => !villain.hand.includes(c)
-                              )}
-                            />
-                          ) : (
-                            <div className="text-xs text-muted-foreground h-14 w-[5.5rem] flex items-center justify-center">
-                              {villain.range.size} combos
-                            </div>
-                          )}
-                          {/* Range toggle button for Villain 1 */}
-                          {villain.id === 1 && (
-                            <Button
-                              variant={
-                                villain.type === "range" ? "outline" : "default"
-                              }
-                              size="sm"
-                              className="absolute top-[4rem] right-0 h-5 px-2 text-[10px] z-50"
-                              onClick={() => {
-                                if (villain.type === "hand") {
-                                  updateVillain(1, {
-                                    type: "range",
-                                    hand: ["", ""],
-                                  });
-                                } else {
-                                  updateVillain(1, {
-                                    type: "hand",
-                                  });
-                                }
-                              }}
-                            >
-                              {villain.type === "range"
-                                ? "Use Hand"
-                                : "Use Range"}
-                            </Button>
-                          )}
-                        </div>
-                      ))}
+                      {/* Hero and Villains */}
+                      {renderPlayerSlot(hero)}
+                      {villains.map(renderPlayerSlot)}
 
                       {/* Add Villain Button */}
-                      {villains.length < 5 && (
+                      {players.length < MAX_PLAYERS && (
                         <div className="flex-shrink-0 space-y-1">
                           <div className="h-5"></div>
                           <Button
@@ -495,6 +558,11 @@ export default function EquityCalculatorPage() {
 
                 {/* Mobile: 2. Range Box - Inside main card, no extra sub-box */}
                 <div className="w-full mb-4">
+                  {rangePlayer && (
+                    <div className="text-xs font-medium text-muted-foreground text-center mb-1">
+                      Editing {playerLabel(rangePlayer)} range
+                    </div>
+                  )}
                   <div className="w-full overflow-auto flex justify-center">
                     <div
                       ref={containerRef}
@@ -505,42 +573,33 @@ export default function EquityCalculatorPage() {
                       }}
                     >
                       <RangeGrid
-                        selectedHands={villain1?.range || new Set()}
-                        onToggle={(h) => isRangeMode && toggleRangeHand(1, h)}
+                        selectedHands={new Set(rangeClassWeights.keys())}
+                        onToggle={(h) => isRangeMode && toggleRangeHand(h)}
                         isMouseDown={isMouseDown && isRangeMode}
                         onMouseEnter={handleMouseEnter}
+                        heatmap={heatmap}
+                        weights={rangeClassWeights}
+                        onCellContextMenu={isRangeMode ? setFocusedHand : undefined}
                       />
                     </div>
                   </div>
                   {/* Preset Dropdown and Clear Button - Side by side */}
                   {isRangeMode && (
                     <div className="flex gap-2 justify-center mt-2 px-4">
-                      {presets.length > 0 && (
-                        <div className="flex-1 max-w-[200px]">
-                          <Select onValueChange={(val) => loadPreset(1, val)}>
-                            <SelectTrigger className="w-full h-9">
-                              <SelectValue placeholder="Select Range Preset" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              {presets.map((preset) => (
-                                <SelectItem
-                                  key={preset.id}
-                                  value={preset.range_string}
-                                >
-                                  {preset.name} ({preset.category})
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                        </div>
+                      {presetSelect && (
+                        <div className="flex-1 max-w-[200px]">{presetSelect}</div>
                       )}
                       <Button
-                        onClick={() =>
-                          updateVillain(1, {
-                            range: new Set(),
-                            rangeString: "",
-                          })
-                        }
+                        onClick={() => setLibraryOpen(true)}
+                        variant="outline"
+                        size="sm"
+                        className="h-9 bg-slate-700 hover:bg-slate-600 text-slate-200 border-slate-600"
+                      >
+                        <FolderOpen className="h-4 w-4 mr-1" />
+                        Library
+                      </Button>
+                      <Button
+                        onClick={clearRange}
                         variant="outline"
                         size="sm"
                         className="h-9 bg-slate-700 hover:bg-slate-600 text-slate-200 border-slate-600"
@@ -549,6 +608,7 @@ export default function EquityCalculatorPage() {
                       </Button>
                     </div>
                   )}
+                  {weightPanel && <div className="mt-3 px-4">{weightPanel}</div>}
                 </div>
 
                 {/* Mobile: 3. Results Box - Full Width */}
@@ -557,39 +617,22 @@ export default function EquityCalculatorPage() {
                     <div className="space-y-2">
                       <div className="pt-2">
                         <div className="text-xs font-semibold mb-1">Equity</div>
-                        <div className="space-y-0.5">
-                          <div className="flex justify-between items-center text-xs">
-                            <span className="font-medium text-emerald-500">
-                              Hero
-                            </span>
-                            <span className="text-muted-foreground">
-                              {heroEquity.toFixed(1)}%
-                            </span>
+                        {equityList}
+                        {equityStatus && (
+                          <div className="text-[10px] text-muted-foreground mt-2">
+                            {equityStatus}
                           </div>
-                          {villains.map(
-                            (v, i) =>
-                              v.equity !== null && (
-                                <div
-                                  key={v.id}
-                                  className="flex justify-between items-center text-xs"
-                                >
-                                  <span className="font-medium">
-                                    Villain {i + 1}
-                                  </span>
-                                  <span className="text-muted-foreground">
-                                    {v.equity.toFixed(1)}%
-                                  </span>
-                                </div>
-                              )
-                          )}
-                        </div>
+                        )}
                       </div>
                     </div>
                   ) : (
                     <p className="text-xs text-muted-foreground text-center pt-1">
-                      Enter hands to calculate equity
+                      Enter hands or ranges to calculate equity
                     </p>
                   )}
+                  {distributionSection && <div className="mt-4">{distributionSection}</div>}
+                  {runoutsSection && <div className="mt-4">{runoutsSection}</div>}
+                  {breakdownSection && <div className="mt-4">{breakdownSection}</div>}
                 </CardContent>
               </Card>
             </>
@@ -622,89 +665,12 @@ export default function EquityCalculatorPage() {
                           />
                         </div>
 
-                        {/* Hero */}
-                        <div className="flex-shrink-0 space-y-1">
-                          <div className="text-xs font-medium text-muted-foreground">
-                            Hero
-                          </div>
-                          <HandSelector
-                            value={heroHand}
-                            onChange={setHeroHand}
-                            excludedCards={allExcludedCards.filter(
-                              (c) => !heroHand.includes(c)
-                            )}
-                          />
-                        </div>
+                        {/* Hero and Villains */}
+                        {renderPlayerSlot(hero)}
+                        {villains.map(renderPlayerSlot)}
 
-                        {/* Villains */}
-                        {villains.map((villain, index) => (
-                          <div
-                            key={villain.id}
-                            className="flex-shrink-0 space-y-1 relative"
-                          >
-                            <div className="text-xs font-medium text-muted-foreground">
-                              Villain {index + 1}
-                            </div>
-                            {villains.length > 1 && villain.id !== 1 && (
-                              <Button
-                                variant="ghost"
-                                size="icon"
-                                className="absolute -top-2 right-0 h-5 w-5 text-muted-foreground hover:text-destructive"
-                                onClick={() => removeVillain(villain.id)}
-                              >
-                                <Trash2 className="h-3 w-3" />
-                              </Button>
-                            )}
-                            {villain.type === "hand" ? (
-                              <HandSelector
-                                value={villain.hand}
-                                onChange={(h) =>
-                                  updateVillain(villain.id, { hand: h })
-                                }
-                                excludedCards={allExcludedCards.filter(
-                                  (c) => !villain.hand.includes(c)
-                                )}
-                              />
-                            ) : (
-                              <div className="text-xs text-muted-foreground h-14 w-[5.5rem] flex items-center justify-center">
-                                {villain.range.size} combos
-                              </div>
-                            )}
-                            {/* Range toggle button for Villain 1 */}
-                            {villain.id === 1 && (
-                              <Button
-                                variant={
-                                  villain.type === "range"
-                                    ? "outline"
-                                    : "default"
-                                }
-                                size="sm"
-                                className="absolute top-[4rem] right-0 h-5 px-2 text-[10px] z-50"
-                                onClick={() => {
-                                  if (villain.type === "hand") {
-                                    // Switching to range mode - clear the hand
-                                    updateVillain(1, {
-                                      type: "range",
-                                      hand: ["", ""],
-                                    });
-                                  } else {
-                                    // Switching to hand mode
-                                    updateVillain(1, {
-                                      type: "hand",
-                                    });
-                                  }
-                                }}
-                              >
-                                {villain.type === "range"
-                                  ? "Use Hand"
-                                  : "Use Range"}
-                              </Button>
-                            )}
-                          </div>
-                        ))}
-
-                        {/* Add Villain Button - To the right of Villain 1 */}
-                        {villains.length < 5 && (
+                        {/* Add Villain Button - To the right of the last villain */}
+                        {players.length < MAX_PLAYERS && (
                           <div className="flex-shrink-0 space-y-1">
                             <div className="h-5"></div>
                             <Button
@@ -720,8 +686,13 @@ export default function EquityCalculatorPage() {
                       </div>
                     </div>
 
-                    {/* Range Grid Box - Always displayed, beneath Villain 1 */}
+                    {/* Range Grid Box - Always displayed, edits the selected range */}
                     <div className="flex-1 flex flex-col min-h-0 relative">
+                      <div className="text-xs font-medium text-muted-foreground mb-1">
+                        {rangePlayer
+                          ? `Editing ${playerLabel(rangePlayer)} range`
+                          : "Switch any player to a range to edit it here"}
+                      </div>
                       <div className="flex-1 flex items-center justify-center min-h-0 overflow-hidden">
                         <Card
                           className={cn(
@@ -740,12 +711,17 @@ export default function EquityCalculatorPage() {
                                 )}
                               >
                                 <RangeGrid
-                                  selectedHands={villain1?.range || new Set()}
+                                  selectedHands={new Set(rangeClassWeights.keys())}
                                   onToggle={(h) =>
-                                    isRangeMode && toggleRangeHand(1, h)
+                                    isRangeMode && toggleRangeHand(h)
                                   }
                                   isMouseDown={isMouseDown && isRangeMode}
                                   onMouseEnter={handleMouseEnter}
+                                  heatmap={heatmap}
+                                  weights={rangeClassWeights}
+                                  onCellContextMenu={
+                                    isRangeMode ? setFocusedHand : undefined
+                                  }
                                 />
                               </div>
                             </div>
@@ -753,37 +729,25 @@ export default function EquityCalculatorPage() {
                         </Card>
                       </div>
                       {/* Preset Dropdown - Bottom left */}
-                      {presets.length > 0 && isRangeMode && (
+                      {presetSelect && isRangeMode && (
                         <div className="absolute -bottom-2 left-0 z-10">
-                          <div className="w-[180px]">
-                            <Select onValueChange={(val) => loadPreset(1, val)}>
-                              <SelectTrigger className="w-full h-9">
-                                <SelectValue placeholder="Select Range Preset" />
-                              </SelectTrigger>
-                              <SelectContent>
-                                {presets.map((preset) => (
-                                  <SelectItem
-                                    key={preset.id}
-                                    value={preset.range_string}
-                                  >
-                                    {preset.name} ({preset.category})
-                                  </SelectItem>
-                                ))}
-                              </SelectContent>
-                            </Select>
-                          </div>
+                          <div className="w-[180px]">{presetSelect}</div>
                         </div>
                       )}
-                      {/* Clear Range Button - Bottom right */}
+                      {/* Library and Clear Range Buttons - Bottom right */}
                       {isRangeMode && (
-                        <div className="absolute -bottom-2 right-0 z-10">
+                        <div className="absolute -bottom-2 right-0 z-10 flex gap-2">
+                          <Button
+                            onClick={() => setLibraryOpen(true)}
+                            variant="outline"
+                            size="sm"
+                            className="h-9 bg-slate-700 hover:bg-slate-600 text-slate-200 border-slate-600"
+                          >
+                            <FolderOpen className="h-4 w-4 mr-1" />
+                            Library
+                          </Button>
                           <Button
-                            onClick={() =>
-                              updateVillain(1, {
-                                range: new Set(),
-                                rangeString: "",
-                              })
-                            }
+                            onClick={clearRange}
                             variant="outline"
                             size="sm"
                             className="h-9 bg-slate-700 hover:bg-slate-600 text-slate-200 border-slate-600"
@@ -793,6 +757,7 @@ export default function EquityCalculatorPage() {
                         </div>
                       )}
                     </div>
+                    {weightPanel && <div className="mt-6">{weightPanel}</div>}
                   </div>
 
                   {/* RIGHT SIDE: Equity Results - Exact same styling as range evaluator */}
@@ -810,37 +775,17 @@ export default function EquityCalculatorPage() {
                               <div className="text-xs font-semibold mb-1">
                                 Equity
                               </div>
-                              <div className="space-y-0.5">
-                                <div className="flex justify-between items-center text-xs">
-                                  <span className="font-medium text-emerald-500">
-                                    Hero
-                                  </span>
-                                  <span className="text-muted-foreground">
-                                    {heroEquity.toFixed(1)}%
-                                  </span>
+                              {equityList}
+                              {equityStatus && (
+                                <div className="text-[10px] text-muted-foreground mt-2">
+                                  {equityStatus}
                                 </div>
-                                {villains.map(
-                                  (v, i) =>
-                                    v.equity !== null && (
-                                      <div
-                                        key={v.id}
-                                        className="flex justify-between items-center text-xs"
-                                      >
-                                        <span className="font-medium">
-                                          Villain {i + 1}
-                                        </span>
-                                        <span className="text-muted-foreground">
-                                          {v.equity.toFixed(1)}%
-                                        </span>
-                                      </div>
-                                    )
-                                )}
-                              </div>
+                              )}
                             </div>
                           </div>
                         ) : (
                           <p className="text-xs text-muted-foreground text-center pt-1">
-                            Enter hands to calculate equity
+                            Enter hands or ranges to calculate equity
                           </p>
                         )}
                       </CardContent>
@@ -848,10 +793,28 @@ export default function EquityCalculatorPage() {
                   </div>
                 </div>
               </Card>
+              {distributionSection && (
+                <Card className="p-6 mt-4">{distributionSection}</Card>
+              )}
+              {runoutsSection && (
+                <Card className="p-6 mt-4">{runoutsSection}</Card>
+              )}
+              {breakdownSection && (
+                <Card className="p-6 mt-4">{breakdownSection}</Card>
+              )}
             </>
           )}
         </div>
       </div>
+
+      {rangePlayer && (
+        <RangeLibraryDialog
+          open={libraryOpen}
+          onOpenChange={setLibraryOpen}
+          range={rangePlayer.range}
+          onLoad={(range) => updatePlayer(rangePlayer.id, { range })}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,30 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "EV Calculator",
+  description:
+    "No sign in required. Turn equity into a decision: enter the pot, the bet to call and effective stacks to see the equity you need, and the EV of folding, calling or shoving against a villain range.",
+  keywords: [
+    "poker EV calculator",
+    "pot odds calculator",
+    "expected value",
+    "poker equity",
+    "shove EV",
+    "poker math",
+    "poker tools",
+    "poker strategy",
+  ],
+  openGraph: {
+    title: "EV Calculator | POKROnline",
+    description:
+      "No sign in required. Turn equity into a decision: enter the pot, the bet to call and effective stacks to see the equity you need, and the EV of folding, calling or shoving against a villain range.",
+  },
+};
+
+export default function EvCalculatorLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return children;
+}
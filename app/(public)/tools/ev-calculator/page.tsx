@@ -0,0 +1,101 @@
+"use client";
+
+import { useState } from "react";
+import { HandSelector } from "@/components/features/analysis/HandSelector";
+import { BoardSelector } from "@/components/features/analysis/BoardSelector";
+import { PotOddsPanel } from "@/components/features/analysis/PotOddsPanel";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useIsMobile } from "@/lib/hooks";
+import { cn } from "@/lib/utils";
+import type { DecisionSpot } from "@/lib/features/equity/potOdds";
+
+const parseChips = (value: string) => Math.max(0, parseFloat(value) || 0);
+
+export default function EvCalculatorPage() {
+  const isMobile = useIsMobile();
+  const [pot, setPot] = useState("150");
+  const [toCall, setToCall] = useState("50");
+  const [effectiveStack, setEffectiveStack] = useState("500");
+  const [heroCards, setHeroCards] = useState<string[]>([]);
+  const [board, setBoard] = useState<string[]>([]);
+
+  // Selectors leave "" in emptied slots
+  const heroHand = heroCards.filter(Boolean);
+  const boardCards = board.filter(Boolean);
+
+  // The effective stack is what hero has behind; villain has the rest of it
+  // after the bet hero is facing
+  const spot: DecisionSpot = {
+    pot: parseChips(pot),
+    toCall: parseChips(toCall),
+    heroStack: parseChips(effectiveStack),
+    villainStack: Math.max(0, parseChips(effectiveStack) - parseChips(toCall)),
+  };
+
+  const chipInput = (label: string, value: string, onChange: (value: string) => void, hint: string) => (
+    <div className="space-y-1">
+      <label className="text-xs text-muted-foreground">{label}</label>
+      <Input
+        type="number"
+        min={0}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="h-9"
+      />
+      <div className="text-[10px] text-muted-foreground">{hint}</div>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen relative">
+      <div className="relative z-10 flex items-center min-h-screen">
+        <div
+          className={cn(
+            "container mx-auto pt-6 pb-2 max-w-4xl w-full",
+            isMobile ? "px-4" : "px-6"
+          )}
+        >
+          <div className={cn("flex gap-4", isMobile ? "flex-col" : "items-start")}>
+            <Card className={cn("flex flex-col", isMobile ? "p-4" : "p-6 flex-1")}>
+              <CardHeader className="pb-2 pt-0 px-0">
+                <CardTitle className="text-center text-xl font-bold">EV Calculator</CardTitle>
+              </CardHeader>
+              <CardContent className="px-0 pb-0 space-y-4">
+                <div className="grid grid-cols-3 gap-3">
+                  {chipInput("Pot", pot, setPot, "Including the bet you face")}
+                  {chipInput("Bet to call", toCall, setToCall, "0 to check or bet")}
+                  {chipInput("Effective stack", effectiveStack, setEffectiveStack, "Your chips behind")}
+                </div>
+                <HandSelector
+                  label="Your Hand"
+                  value={heroCards}
+                  onChange={setHeroCards}
+                  excludedCards={boardCards}
+                />
+                <div className="space-y-1">
+                  <div className="text-xs text-muted-foreground">Board</div>
+                  <BoardSelector
+                    value={board}
+                    onChange={setBoard}
+                    excludedCards={heroHand}
+                    showLabel={false}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className={cn(isMobile ? "p-4" : "p-6 w-96 flex-shrink-0")}>
+              <CardHeader className="pb-2 pt-0 px-0">
+                <CardTitle className="text-base font-semibold">Decision</CardTitle>
+              </CardHeader>
+              <CardContent className="px-0 pb-0">
+                <PotOddsPanel spot={spot} heroCards={heroHand} board={boardCards} />
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Preflop Trainer",
+  description:
+    "No sign in required. Drill preflop decisions: get dealt a hand with a position and scenario, choose fold, call or raise, and track your accuracy by hand against preset ranges.",
+  keywords: [
+    "preflop trainer",
+    "poker range trainer",
+    "preflop quiz",
+    "poker ranges",
+    "RFI ranges",
+    "3-bet ranges",
+    "poker tools",
+    "poker strategy",
+  ],
+  openGraph: {
+    title: "Preflop Trainer | POKROnline",
+    description:
+      "No sign in required. Drill preflop decisions: get dealt a hand with a position and scenario, choose fold, call or raise, and track your accuracy by hand against preset ranges.",
+  },
+};
+
+export default function PreflopTrainerLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return children;
+}
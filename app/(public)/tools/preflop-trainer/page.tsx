@@ -0,0 +1,358 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Card as PokerCard } from "@/components/common/Card";
+import { PreflopTrainerStats } from "@/components/features/learn/PreflopTrainerStats";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CheckCircle2, XCircle } from "lucide-react";
+import { useIsMobile } from "@/lib/hooks";
+import { cn } from "@/lib/utils";
+import type { Card as CardType } from "@/lib/types/poker";
+import type { RangePreset } from "@/lib/types/ranges";
+import {
+  TRAINER_POSITIONS,
+  TRAINER_SCENARIOS,
+  clearTrainerStats,
+  createTrainerStats,
+  dealTrainerHand,
+  gradeTrainerAnswer,
+  loadTrainerStats,
+  parseTrainerRanges,
+  pickTrainerPosition,
+  recordTrainerAnswer,
+  saveTrainerStats,
+  type TrainerAction,
+  type TrainerGrade,
+  type TrainerHand,
+  type TrainerPosition,
+  type TrainerRanges,
+  type TrainerScenario,
+  type TrainerStats,
+} from "@/lib/features/ranges/preflopTrainer";
+
+const NO_PRESET = "none";
+
+const ACTION_KEYS: Record<string, TrainerAction> = { f: "fold", c: "call", r: "raise" };
+
+const ACTION_STYLES: Record<TrainerAction, string> = {
+  fold: "bg-slate-700 hover:bg-slate-600 text-slate-100",
+  call: "bg-blue-600 hover:bg-blue-500 text-white",
+  raise: "bg-emerald-600 hover:bg-emerald-500 text-white",
+};
+
+const formatFrequency = (value: number) => `${Math.round(value * 100)}%`;
+
+/** Preset choices are kept per scenario and position */
+const spotKey = (scenario: TrainerScenario, position: TrainerPosition) => `${scenario}:${position}`;
+
+export default function PreflopTrainerPage() {
+  const isMobile = useIsMobile();
+  const [presets, setPresets] = useState<RangePreset[]>([]);
+  const [position, setPosition] = useState<TrainerPosition>("BTN");
+  const [randomPosition, setRandomPosition] = useState(false);
+  const [scenario, setScenario] = useState<TrainerScenario>("rfi");
+  const [raisePresetIds, setRaisePresetIds] = useState<Record<string, string>>({});
+  const [callPresetIds, setCallPresetIds] = useState<Record<string, string>>({});
+
+  const [hand, setHand] = useState<TrainerHand | null>(null);
+  const [grade, setGrade] = useState<TrainerGrade | null>(null);
+  const [session, setSession] = useState({ attempts: 0, correct: 0 });
+  const [stats, setStats] = useState<TrainerStats>(createTrainerStats);
+
+  // Fetch Presets on Mount
+  useEffect(() => {
+    fetch("/api/ranges/presets")
+      .then((res) => res.json())
+      .then((data) => {
+        if (Array.isArray(data)) setPresets(data);
+      })
+      .catch((err) => console.error("Failed to load presets", err));
+  }, []);
+
+  // Stats live in localStorage, so load them after mount
+  useEffect(() => {
+    setStats(loadTrainerStats());
+  }, []);
+
+  const scenarioConfig = TRAINER_SCENARIOS.find((s) => s.value === scenario)!;
+  const raisePresetId = raisePresetIds[spotKey(scenario, position)] ?? "";
+  const callPresetId = callPresetIds[spotKey(scenario, position)] ?? NO_PRESET;
+
+  // Ranges for every position that has a raise range in this scenario
+  const rangesByPosition = useMemo(() => {
+    const result: Partial<Record<TrainerPosition, TrainerRanges>> = {};
+    TRAINER_POSITIONS.forEach((p) => {
+      const raisePreset = presets.find((preset) => preset.id === raisePresetIds[spotKey(scenario, p)]);
+      if (!raisePreset) return;
+      const callPreset = presets.find((preset) => preset.id === callPresetIds[spotKey(scenario, p)]);
+      result[p] = parseTrainerRanges({
+        position: p,
+        scenario,
+        raiseRange: raisePreset.range_string,
+        callRange: callPreset?.range_string ?? "",
+      });
+    });
+    return result;
+  }, [presets, scenario, raisePresetIds, callPresetIds]);
+
+  const readyPositions = useMemo(
+    () => TRAINER_POSITIONS.filter((p) => rangesByPosition[p]),
+    [rangesByPosition]
+  );
+  const canDeal = randomPosition ? readyPositions.length > 0 : !!rangesByPosition[position];
+  const ranges = hand ? rangesByPosition[hand.position] : undefined;
+
+  const dealNext = useCallback(() => {
+    setHand(dealTrainerHand(randomPosition ? pickTrainerPosition(readyPositions) : position));
+    setGrade(null);
+  }, [randomPosition, readyPositions, position]);
+
+  // A new spot starts with a fresh hand
+  useEffect(() => {
+    if (canDeal) dealNext();
+    else setHand(null);
+  }, [canDeal, dealNext]);
+
+  const answer = useCallback(
+    (action: TrainerAction) => {
+      if (!ranges || !hand || grade) return;
+      const result = gradeTrainerAnswer(ranges, hand, action);
+      setGrade(result);
+      setSession((prev) => ({
+        attempts: prev.attempts + 1,
+        correct: prev.correct + (result.correct ? 1 : 0),
+      }));
+      setStats((prev) => {
+        const next = recordTrainerAnswer(prev, hand, result.correct);
+        saveTrainerStats(next);
+        return next;
+      });
+    },
+    [ranges, hand, grade]
+  );
+
+  // Keyboard: F / C / R to answer, Space or Enter for the next hand
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+
+      if (grade && (e.key === " " || e.key === "Enter")) {
+        e.preventDefault();
+        dealNext();
+        return;
+      }
+      const action = ACTION_KEYS[e.key.toLowerCase()];
+      if (action && scenarioConfig.actions.includes(action)) {
+        answer(action);
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [grade, dealNext, answer, scenarioConfig]);
+
+  const resetStats = () => {
+    if (!window.confirm("Reset all trainer stats?")) return;
+    clearTrainerStats();
+    setStats(createTrainerStats());
+    setSession({ attempts: 0, correct: 0 });
+  };
+
+  const setSpotPreset =
+    (setIds: typeof setRaisePresetIds) => (presetId: string) =>
+      setIds((prev) => ({ ...prev, [spotKey(scenario, position)]: presetId }));
+
+  const actionLabel = (action: TrainerAction) =>
+    action === "raise" ? scenarioConfig.raiseLabel : action === "call" ? "Call" : "Fold";
+
+  const presetSelect = (
+    value: string,
+    onChange: (value: string) => void,
+    placeholder: string,
+    allowNone: boolean
+  ) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-full h-9">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {allowNone && <SelectItem value={NO_PRESET}>None</SelectItem>}
+        {presets.map((preset) => (
+          <SelectItem key={preset.id} value={preset.id}>
+            {preset.name} ({preset.category})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const setupSection = (
+    <div className="grid grid-cols-2 gap-3">
+      <div className="space-y-1">
+        <div className="text-xs text-muted-foreground">Position</div>
+        <Select value={position} onValueChange={(value) => setPosition(value as TrainerPosition)}>
+          <SelectTrigger className="w-full h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TRAINER_POSITIONS.map((p) => (
+              <SelectItem key={p} value={p}>
+                {p}
+                {rangesByPosition[p] ? " ✓" : ""}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <div className="text-xs text-muted-foreground">Scenario</div>
+        <Select value={scenario} onValueChange={(value) => setScenario(value as TrainerScenario)}>
+          <SelectTrigger className="w-full h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TRAINER_SCENARIOS.map((s) => (
+              <SelectItem key={s.value} value={s.value}>
+                {s.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className={cn("space-y-1", scenario === "rfi" && "col-span-2")}>
+        <div className="text-xs text-muted-foreground">
+          {position} {scenarioConfig.raiseLabel.toLowerCase()} range
+        </div>
+        {presetSelect(raisePresetId, setSpotPreset(setRaisePresetIds), "Select Range Preset", false)}
+      </div>
+      {scenario !== "rfi" && (
+        <div className="space-y-1">
+          <div className="text-xs text-muted-foreground">{position} call range</div>
+          {presetSelect(callPresetId, setSpotPreset(setCallPresetIds), "Select Range Preset", true)}
+        </div>
+      )}
+      <div className="col-span-2 flex items-center gap-2">
+        <Switch id="random-position" checked={randomPosition} onCheckedChange={setRandomPosition} />
+        <Label htmlFor="random-position" className="text-xs text-muted-foreground">
+          {randomPosition && readyPositions.length > 0
+            ? `Random position (${readyPositions.join(", ")})`
+            : "Random position among those with a range"}
+        </Label>
+      </div>
+    </div>
+  );
+
+  const quizSection = !ranges || !hand ? (
+    <p className="text-sm text-muted-foreground text-center py-10">
+      {presets.length === 0
+        ? "Loading range presets..."
+        : `Choose a ${randomPosition ? "" : `${position} `}${scenarioConfig.raiseLabel.toLowerCase()} range to start training`}
+    </p>
+  ) : (
+    <div className="flex flex-col items-center gap-4 py-2">
+      <div className="text-sm text-muted-foreground">
+        <span className="font-semibold text-foreground">{hand.position}</span> • {scenarioConfig.label}
+      </div>
+      <div className="flex gap-2">
+        {hand.cards.map((card) => (
+          <div key={card} className="flex-shrink-0" style={{ width: "4.5rem", height: "6.5rem" }}>
+            <PokerCard card={card as CardType} />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        {scenarioConfig.actions.map((action) => (
+          <Button
+            key={action}
+            onClick={() => answer(action)}
+            disabled={grade !== null}
+            className={cn(
+              "min-w-24",
+              ACTION_STYLES[action],
+              grade?.action === action && "ring-2 ring-white"
+            )}
+          >
+            {actionLabel(action)}
+            <span className="ml-1 text-[10px] opacity-60">{action[0].toUpperCase()}</span>
+          </Button>
+        ))}
+      </div>
+
+      {grade && (
+        <div className="flex flex-col items-center gap-2 text-center">
+          <div
+            className={cn(
+              "flex items-center gap-1.5 font-semibold",
+              grade.correct ? "text-emerald-400" : "text-red-400"
+            )}
+          >
+            {grade.correct ? <CheckCircle2 className="h-5 w-5" /> : <XCircle className="h-5 w-5" />}
+            {grade.correct ? "Correct" : `Incorrect — ${actionLabel(grade.bestAction)}`}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {hand.handClass}:{" "}
+            {scenarioConfig.actions
+              .filter((action) => grade.frequencies[action] > 0)
+              .map((action) => `${actionLabel(action)} ${formatFrequency(grade.frequencies[action])}`)
+              .join(" • ")}
+          </div>
+          <Button variant="outline" size="sm" onClick={dealNext}>
+            Next Hand <span className="ml-1 text-[10px] opacity-60">Space</span>
+          </Button>
+        </div>
+      )}
+
+      {session.attempts > 0 && (
+        <div className="text-xs text-muted-foreground">
+          This session: {session.correct}/{session.attempts} (
+          {((session.correct / session.attempts) * 100).toFixed(0)}%)
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen relative">
+      <div className="relative z-10 flex items-center min-h-screen">
+        <div
+          className={cn(
+            "container mx-auto pt-6 pb-2 max-w-4xl w-full",
+            isMobile ? "px-4" : "px-6"
+          )}
+        >
+          <div className={cn("flex gap-4", isMobile ? "flex-col" : "items-start")}>
+            <Card className={cn("flex flex-col", isMobile ? "p-4" : "p-6 flex-1")}>
+              <CardHeader className="pb-2 pt-0 px-0">
+                <CardTitle className="text-center text-xl font-bold">Preflop Trainer</CardTitle>
+              </CardHeader>
+              <CardContent className="px-0 pb-0 space-y-4">
+                {setupSection}
+                {quizSection}
+              </CardContent>
+            </Card>
+
+            <Card className={cn(isMobile ? "p-4" : "p-6 w-80 flex-shrink-0")}>
+              <CardHeader className="pb-2 pt-0 px-0">
+                <CardTitle className="text-base font-semibold">Your Accuracy</CardTitle>
+              </CardHeader>
+              <CardContent className="px-0 pb-0">
+                <PreflopTrainerStats stats={stats} onReset={resetStats} />
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
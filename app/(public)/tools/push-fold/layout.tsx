@@ -0,0 +1,30 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Push/Fold Charts",
+  description:
+    "No sign in required. Generate push/fold equilibrium charts for short stacks: shove and call ranges for 5 to 20 big blinds, heads up or multiway, for any position and ante.",
+  keywords: [
+    "push fold chart",
+    "nash push fold",
+    "shove chart",
+    "short stack strategy",
+    "tournament poker",
+    "poker ranges",
+    "poker tools",
+    "poker strategy",
+  ],
+  openGraph: {
+    title: "Push/Fold Charts | POKROnline",
+    description:
+      "No sign in required. Generate push/fold equilibrium charts for short stacks: shove and call ranges for 5 to 20 big blinds, heads up or multiway, for any position and ante.",
+  },
+};
+
+export default function PushFoldLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return children;
+}
@@ -0,0 +1,295 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Copy, FolderOpen } from "lucide-react";
+import { RangeGrid } from "@/components/features/analysis/RangeGrid";
+import { RangeLibraryDialog } from "@/components/features/analysis/RangeLibraryDialog";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useIsMobile, usePushFold, useToast } from "@/lib/hooks";
+import { cn } from "@/lib/utils";
+import { parseWeightedRange } from "@/lib/features/ranges/weightedRange";
+import {
+  PUSH_FOLD_TABLE_SIZES,
+  getPushFoldPositions,
+  type PushFoldRange,
+  type PushFoldResult,
+} from "@/lib/features/ranges/pushFold";
+
+/** Antes per player, in big blinds */
+const ANTE_OPTIONS = [
+  { label: "No ante", value: 0 },
+  { label: "10%", value: 0.1 },
+  { label: "12.5%", value: 0.125 },
+  { label: "20%", value: 0.2 },
+  { label: "25%", value: 0.25 },
+];
+
+const tableLabel = (players: number) => (players === 2 ? "Heads up" : `${players}-handed`);
+
+export default function PushFoldPage() {
+  const isMobile = useIsMobile();
+  const { toast } = useToast();
+  const [players, setPlayers] = useState(2);
+  const [position, setPosition] = useState("SB");
+  const [stack, setStack] = useState(10);
+  const [ante, setAnte] = useState(0);
+  const [selectedChart, setSelectedChart] = useState(0);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+
+  const shovePositions = useMemo(
+    () => getPushFoldPositions(players).filter((p) => p !== "BB"),
+    [players]
+  );
+
+  // A smaller table may not have the chosen position
+  useEffect(() => {
+    if (!shovePositions.includes(position)) setPosition(shovePositions[0]);
+  }, [shovePositions, position]);
+
+  const request = useMemo(
+    () => (shovePositions.includes(position) ? { players, stack, ante, position } : null),
+    [players, stack, ante, position, shovePositions]
+  );
+  const { result, error, isCalculating } = usePushFold(request, { debounceMs: 300 });
+
+  // Keep showing the last finished charts while new ones are solved
+  const [solved, setSolved] = useState<PushFoldResult | null>(null);
+  useEffect(() => {
+    if (result?.done) setSolved(result);
+  }, [result]);
+
+  const charts = useMemo<{ label: string; chart: PushFoldRange }[]>(
+    () =>
+      solved?.pusher && solved.callers
+        ? [
+            { label: `${solved.pusher.position} shove`, chart: solved.pusher },
+            ...solved.callers.map((caller) => ({
+              label: `${caller.position} call`,
+              chart: caller,
+            })),
+          ]
+        : [],
+    [solved]
+  );
+
+  // New charts start on the shoving range
+  useEffect(() => {
+    setSelectedChart(0);
+  }, [players, position]);
+
+  const selected = charts[Math.min(selectedChart, charts.length - 1)];
+  const selectedHands = useMemo(
+    () => new Set(selected ? Object.keys(selected.chart.weights) : []),
+    [selected]
+  );
+  const weights = useMemo(
+    () => new Map(selected ? Object.entries(selected.chart.weights) : []),
+    [selected]
+  );
+  const selectedRange = useMemo(
+    () => parseWeightedRange(selected?.chart.range ?? ""),
+    [selected]
+  );
+
+  const copyRange = async () => {
+    if (!selected) return;
+    try {
+      await navigator.clipboard.writeText(selected.chart.range);
+      toast({ title: "Copied", description: "Range copied to the clipboard" });
+    } catch {
+      toast({ title: "Error", description: "Could not copy the range", variant: "destructive" });
+    }
+  };
+
+  const status =
+    error || !isCalculating
+      ? null
+      : result?.stage === "equities"
+        ? `Building preflop equities… ${Math.round(result.progress * 100)}%`
+        : "Solving…";
+
+  const setupSection = (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <div className="text-xs text-muted-foreground">Table</div>
+          <Select value={String(players)} onValueChange={(value) => setPlayers(Number(value))}>
+            <SelectTrigger className="w-full h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PUSH_FOLD_TABLE_SIZES.map((size) => (
+                <SelectItem key={size} value={String(size)}>
+                  {tableLabel(size)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <div className="text-xs text-muted-foreground">Shover</div>
+          <Select value={position} onValueChange={setPosition}>
+            <SelectTrigger className="w-full h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {shovePositions.map((p) => (
+                <SelectItem key={p} value={p}>
+                  {p}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <div className="text-xs text-muted-foreground">Ante</div>
+          <Select value={String(ante)} onValueChange={(value) => setAnte(Number(value))}>
+            <SelectTrigger className="w-full h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ANTE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={String(option.value)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="space-y-2">
+        <div className="flex justify-between text-xs">
+          <span className="text-muted-foreground">Effective stack</span>
+          <span className="font-semibold">{stack}bb</span>
+        </div>
+        <Slider
+          value={[stack]}
+          min={5}
+          max={20}
+          step={0.5}
+          onValueChange={([value]) => setStack(value)}
+        />
+      </div>
+    </div>
+  );
+
+  const chartSection = (
+    <div className="space-y-3">
+      {charts.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {charts.map(({ label, chart }, index) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => setSelectedChart(index)}
+              className={cn(
+                "rounded border px-2 py-1 text-xs transition-colors",
+                selected?.label === label
+                  ? "border-emerald-500 bg-emerald-500/20 text-emerald-300"
+                  : "border-slate-600 text-slate-300 hover:border-slate-400"
+              )}
+            >
+              {label} <span className="opacity-70">{chart.percent.toFixed(1)}%</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error ? (
+        <p className="text-xs text-red-400">{error}</p>
+      ) : status ? (
+        <p className="text-xs text-muted-foreground">{status}</p>
+      ) : null}
+
+      <RangeGrid
+        selectedHands={selectedHands}
+        weights={weights}
+        onToggle={() => {}}
+        readOnly
+        className={cn(status && "opacity-60")}
+      />
+
+      {selected && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            {selected.label === charts[0]?.label
+              ? `Shove from ${selected.chart.position} when it is folded to you.`
+              : `Call ${charts[0]?.chart.position}'s shove from ${selected.chart.position} when everyone before you folds.`}
+          </p>
+          <div className="rounded border border-slate-700 bg-slate-900/50 p-2 font-mono text-[11px] break-all max-h-24 overflow-y-auto">
+            {selected.chart.range || "Fold everything"}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={copyRange} disabled={!selected.chart.range}>
+              <Copy className="h-4 w-4 mr-1" />
+              Copy Range
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setLibraryOpen(true)}
+              disabled={!selected.chart.range}
+            >
+              <FolderOpen className="h-4 w-4 mr-1" />
+              Save to Library
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen relative">
+      <div className="relative z-10 flex items-center min-h-screen">
+        <div
+          className={cn(
+            "container mx-auto pt-6 pb-2 max-w-4xl w-full",
+            isMobile ? "px-4" : "px-6"
+          )}
+        >
+          <div className={cn("flex gap-4", isMobile ? "flex-col" : "items-start")}>
+            <Card className={cn("flex flex-col", isMobile ? "p-4" : "p-6 w-80 flex-shrink-0")}>
+              <CardHeader className="pb-2 pt-0 px-0">
+                <CardTitle className="text-center text-xl font-bold">Push/Fold Charts</CardTitle>
+              </CardHeader>
+              <CardContent className="px-0 pb-0 space-y-4">
+                {setupSection}
+                <p className="text-[10px] text-muted-foreground">
+                  Chip EV equilibrium. Multiway charts assume no overcalls: once someone calls, the
+                  players behind fold.
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card className={cn(isMobile ? "p-4" : "p-6 flex-1")}>
+              <CardContent className="px-0 pb-0">{chartSection}</CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+
+      <RangeLibraryDialog
+        open={libraryOpen}
+        onOpenChange={setLibraryOpen}
+        range={selectedRange}
+        onLoad={() =>
+          toast({
+            title: "Saved ranges",
+            description: "Load saved ranges from the Library in the equity calculator",
+          })
+        }
+        defaultName={selected ? `${stack}bb ${selected.label}` : undefined}
+      />
+    </div>
+  );
+}
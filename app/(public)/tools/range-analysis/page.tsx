@@ -1,12 +1,11 @@
 "use client";
 
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useRef, useMemo } from "react";
 import { RangeGrid } from "@/components/features/analysis/RangeGrid";
 import { BoardSelector } from "@/components/features/analysis/BoardSelector";
-// @ts-ignore - Importing from shared backend
-import { analyzeRange } from "@backend/domain/evaluation/RangeAnalyzer";
-// @ts-ignore - Importing from shared backend
-import { parseRange } from "@backend/domain/evaluation/RangeParser";
+import { RangeWeightPanel } from "@/components/features/analysis/RangeWeightPanel";
+import { RangeLibraryDialog } from "@/components/features/analysis/RangeLibraryDialog";
+import { FlopTextureAnalysis } from "@/components/features/analysis/FlopTextureAnalysis";
 import {
   Select,
   SelectContent,
@@ -16,7 +15,22 @@ import {
 } from "@/components/ui/select";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { useIsMobile } from "@/lib/hooks";
+import { FolderOpen } from "lucide-react";
+import { useEquity, useIsMobile, useToast } from "@/lib/hooks";
+import { useRangeLibraryApi } from "@/lib/api/http";
+import type { EquityRequest } from "@/lib/features/equity/equityEngine";
+import { ALL_HAND_CLASSES } from "@/lib/features/ranges/handClasses";
+import {
+  analyzeWeightedRange,
+  type RangeAnalysisResult,
+} from "@/lib/features/ranges/rangeAnalysis";
+import {
+  formatWeightedRange,
+  getHandClassWeights,
+  parseWeightedRange,
+  toggleHandClass,
+  type WeightedRange,
+} from "@/lib/features/ranges/weightedRange";
 import { cn } from "@/lib/utils";
 
 interface Preset {
@@ -26,23 +40,19 @@ interface Preset {
   range_string: string;
 }
 
-interface RangeAnalysisResult {
-  totalCombos: number;
-  validCombos: number;
-  stats: Array<{
-    type: string;
-    count: number;
-    percentage: number;
-  }>;
-}
-
 export default function RangeAnalysisPage() {
   const isMobile = useIsMobile();
   const [presets, setPresets] = useState<Preset[]>([]);
-  const [selectedHands, setSelectedHands] = useState<Set<string>>(new Set());
+  const [range, setRange] = useState<WeightedRange>(new Map());
+  const [paintWeight, setPaintWeight] = useState(1);
+  const [focusedHand, setFocusedHand] = useState<string | null>(null);
   const [boardCards, setBoardCards] = useState<string[]>([]);
   const [result, setResult] = useState<RangeAnalysisResult | null>(null);
   const [isMouseDown, setIsMouseDown] = useState(false);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  const [showTextures, setShowTextures] = useState(false);
+  const { getSharedRange } = useRangeLibraryApi();
+  const { toast } = useToast();
   const containerRef = useRef<HTMLDivElement>(null);
 
   // Fetch Presets on Mount
@@ -55,12 +65,29 @@ export default function RangeAnalysisPage() {
       .catch((err) => console.error("Failed to load presets", err));
   }, []);
 
+  // Open a range from a share link (?sharedRange=<token>)
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get("sharedRange");
+    if (!token) return;
+
+    getSharedRange(token).then((res) => {
+      if ("error" in res) {
+        toast({ title: "Shared range unavailable", description: res.error, variant: "destructive" });
+        return;
+      }
+      setRange(parseWeightedRange(res.range.rangeString));
+      toast({ title: "Shared range loaded", description: res.range.name });
+    });
+  }, [getSharedRange, toast]);
+
+  // Grid view of the range: hand classes and how much of each is played
+  const handWeights = useMemo(() => getHandClassWeights(range), [range]);
+  const selectedHands = useMemo(() => new Set(handWeights.keys()), [handWeights]);
+  const rangeString = useMemo(() => formatWeightedRange(range), [range]);
+
   // Handlers
   const toggleHand = (hand: string) => {
-    const next = new Set(selectedHands);
-    if (next.has(hand)) next.delete(hand);
-    else next.add(hand);
-    setSelectedHands(next);
+    setRange(toggleHandClass(range, hand, paintWeight));
   };
 
   const handleMouseEnter = (hand: string) => {
@@ -69,86 +96,17 @@ export default function RangeAnalysisPage() {
     }
   };
 
-  // Convert card array (e.g., ["Ah", "Kd"]) to grid format (e.g., "AKo")
-  const cardsToGridFormat = (cards: string[]): string => {
-    if (cards.length !== 2) return "";
-
-    const rank1 = cards[0][0];
-    const suit1 = cards[0][1];
-    const rank2 = cards[1][0];
-    const suit2 = cards[1][1];
-
-    // Ranks in order (A, K, Q, J, T, 9, 8, 7, 6, 5, 4, 3, 2)
-    const rankOrder = [
-      "A",
-      "K",
-      "Q",
-      "J",
-      "T",
-      "9",
-      "8",
-      "7",
-      "6",
-      "5",
-      "4",
-      "3",
-      "2",
-    ];
-    const rank1Idx = rankOrder.indexOf(rank1);
-    const rank2Idx = rankOrder.indexOf(rank2);
-
-    if (rank1Idx === -1 || rank2Idx === -1) return "";
-
-    // Pair
-    if (rank1 === rank2) {
-      return `${rank1}${rank1}`;
-    }
-
-    // Determine higher and lower rank
-    const higherRank = rank1Idx < rank2Idx ? rank1 : rank2;
-    const lowerRank = rank1Idx < rank2Idx ? rank2 : rank1;
-    const higherSuit = rank1Idx < rank2Idx ? suit1 : suit2;
-    const lowerSuit = rank1Idx < rank2Idx ? suit2 : suit1;
-
-    // Suited or offsuit
-    if (higherSuit === lowerSuit) {
-      return `${higherRank}${lowerRank}s`;
-    } else {
-      return `${higherRank}${lowerRank}o`;
-    }
-  };
-
   const loadPreset = (rangeStr: string) => {
-    try {
-      // Use RangeParser to expand the range (handles "QQ+", "AKs-A9s", etc.)
-      const combos = parseRange(rangeStr);
-
-      // Convert card arrays to grid format strings
-      const gridHands = combos.map(cardsToGridFormat).filter(Boolean);
-
-      // Remove duplicates and set
-      setSelectedHands(new Set(gridHands));
-    } catch (error) {
-      console.error("Error parsing range:", error);
-      // Fallback to simple comma split if parsing fails
-      const hands = rangeStr
-        .split(",")
-        .map((s) => s.trim())
-        .filter((s) => s.length > 0);
-      setSelectedHands(new Set(hands));
-    }
+    // Expands "QQ+", "AKs-A9s", weights like "AQo:0.5" and single combos
+    setRange(parseWeightedRange(rangeStr));
   };
 
   // Auto-analyze with debounce when range or board changes
   useEffect(() => {
-    const rangeArray = Array.from(selectedHands);
     const board = boardCards;
 
-    // Log the hands included in the range
-    console.log("Hands in range:", rangeArray.sort());
-
     // Only analyze if valid: 3+ table cards and range is not empty
-    if (board.length < 3 || rangeArray.length === 0) {
+    if (board.length < 3 || range.size === 0) {
       setResult(null);
       return;
     }
@@ -156,8 +114,7 @@ export default function RangeAnalysisPage() {
     // Debounce: wait 300ms after last change before analyzing
     const timeoutId = setTimeout(() => {
       try {
-        const analysis = analyzeRange(rangeArray.join(","), board);
-        setResult(analysis);
+        setResult(analyzeWeightedRange(range, board));
       } catch (error) {
         console.error("Error analyzing range:", error);
         setResult(null);
@@ -165,7 +122,51 @@ export default function RangeAnalysisPage() {
     }, 300);
 
     return () => clearTimeout(timeoutId);
-  }, [selectedHands, boardCards]);
+  }, [range, boardCards]);
+
+  // Range equity against a random hand, from the shared equity worker
+  const equityRequest = useMemo<EquityRequest | null>(() => {
+    if (!rangeString || boardCards.length < 3) return null;
+    return {
+      players: [rangeString, ALL_HAND_CLASSES.join(",")],
+      board: boardCards,
+    };
+  }, [rangeString, boardCards]);
+  const { result: equityResult } = useEquity(equityRequest);
+
+  // Aggregate over many flops instead of the single board above
+  const textureSection = (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <div className="text-sm font-semibold">Flop Textures</div>
+          <div className="text-xs text-muted-foreground">
+            How the range hits all 1,755 distinct flops, or only the textures you pick
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={() => setShowTextures((show) => !show)}
+        >
+          {showTextures ? "Hide" : "Analyze"}
+        </Button>
+      </div>
+      {showTextures && <FlopTextureAnalysis rangeString={rangeString} />}
+    </div>
+  );
+
+  const weightPanel = (
+    <RangeWeightPanel
+      range={range}
+      onRangeChange={setRange}
+      paintWeight={paintWeight}
+      onPaintWeightChange={setPaintWeight}
+      focusedHand={focusedHand}
+      onFocusedHandChange={setFocusedHand}
+    />
+  );
 
   // Handle mouse up/down for drag selection
   useEffect(() => {
@@ -231,6 +232,8 @@ export default function RangeAnalysisPage() {
                         onToggle={toggleHand}
                         isMouseDown={isMouseDown}
                         onMouseEnter={handleMouseEnter}
+                        weights={handWeights}
+                        onCellContextMenu={setFocusedHand}
                       />
                     </div>
                   </div>
@@ -256,7 +259,16 @@ export default function RangeAnalysisPage() {
                       </div>
                     )}
                     <Button
-                      onClick={() => setSelectedHands(new Set())}
+                      onClick={() => setLibraryOpen(true)}
+                      variant="outline"
+                      size="sm"
+                      className="h-9 bg-slate-700 hover:bg-slate-600 text-slate-200 border-slate-600"
+                    >
+                      <FolderOpen className="h-4 w-4 mr-1" />
+                      Library
+                    </Button>
+                    <Button
+                      onClick={() => setRange(new Map())}
                       variant="outline"
                       size="sm"
                       className="h-9 bg-slate-700 hover:bg-slate-600 text-slate-200 border-slate-600"
@@ -264,6 +276,7 @@ export default function RangeAnalysisPage() {
                       Clear
                     </Button>
                   </div>
+                  <div className="mt-3 px-4">{weightPanel}</div>
                 </div>
 
                 {/* Mobile: 3. Results Box - Full Width */}
@@ -275,7 +288,7 @@ export default function RangeAnalysisPage() {
                           Total Valid Combos
                         </div>
                         <div className="text-xl font-bold">
-                          {result.validCombos}
+                          {Number(result.validCombos.toFixed(1))}
                         </div>
                       </div>
 
@@ -303,6 +316,24 @@ export default function RangeAnalysisPage() {
                           </div>
                         )}
                       </div>
+
+                      {equityResult && equityResult.equities.length === 2 && (
+                        <div className="pt-2 border-t">
+                          <div className="text-xs font-semibold mb-1">
+                            Equity vs. Random Hand
+                          </div>
+                          <div className="flex justify-between items-center text-xs">
+                            <span className="font-medium">
+                              {(equityResult.equities[0] * 100).toFixed(1)}%
+                            </span>
+                            <span className="text-muted-foreground">
+                              {equityResult.mode === "exact"
+                                ? "exact"
+                                : `±${(equityResult.margins[0] * 100).toFixed(1)}%`}
+                            </span>
+                          </div>
+                        </div>
+                      )}
                     </div>
                   ) : (
                     <p className="text-xs text-muted-foreground text-center pt-1">
@@ -313,6 +344,7 @@ export default function RangeAnalysisPage() {
                   )}
                 </CardContent>
               </Card>
+              <Card className="p-4 mt-4">{textureSection}</Card>
             </>
           ) : (
             <>
@@ -343,6 +375,8 @@ export default function RangeAnalysisPage() {
                                 onToggle={toggleHand}
                                 isMouseDown={isMouseDown}
                                 onMouseEnter={handleMouseEnter}
+                                weights={handWeights}
+                                onCellContextMenu={setFocusedHand}
                               />
                             </div>
                           </CardContent>
@@ -370,10 +404,19 @@ export default function RangeAnalysisPage() {
                           </div>
                         </div>
                       )}
-                      {/* Clear Range Button - Bottom right */}
-                      <div className="absolute -bottom-2 right-0 z-10">
+                      {/* Library and Clear Range Buttons - Bottom right */}
+                      <div className="absolute -bottom-2 right-0 z-10 flex gap-2">
                         <Button
-                          onClick={() => setSelectedHands(new Set())}
+                          onClick={() => setLibraryOpen(true)}
+                          variant="outline"
+                          size="sm"
+                          className="h-9 bg-slate-700 hover:bg-slate-600 text-slate-200 border-slate-600"
+                        >
+                          <FolderOpen className="h-4 w-4 mr-1" />
+                          Library
+                        </Button>
+                        <Button
+                          onClick={() => setRange(new Map())}
                           variant="outline"
                           size="sm"
                           className="h-9 bg-slate-700 hover:bg-slate-600 text-slate-200 border-slate-600"
@@ -382,6 +425,7 @@ export default function RangeAnalysisPage() {
                         </Button>
                       </div>
                     </div>
+                    <div className="mt-6">{weightPanel}</div>
                   </div>
 
                   {/* Desktop: RIGHT SIDE: Analysis Results */}
@@ -400,7 +444,7 @@ export default function RangeAnalysisPage() {
                                 Total Valid Combos
                               </div>
                               <div className="text-xl font-bold">
-                                {result.validCombos}
+                                {Number(result.validCombos.toFixed(1))}
                               </div>
                             </div>
 
@@ -430,6 +474,24 @@ export default function RangeAnalysisPage() {
                                 </div>
                               )}
                             </div>
+
+                            {equityResult && equityResult.equities.length === 2 && (
+                              <div className="pt-2 border-t">
+                                <div className="text-xs font-semibold mb-1">
+                                  Equity vs. Random Hand
+                                </div>
+                                <div className="flex justify-between items-center text-xs">
+                                  <span className="font-medium">
+                                    {(equityResult.equities[0] * 100).toFixed(1)}%
+                                  </span>
+                                  <span className="text-muted-foreground">
+                                    {equityResult.mode === "exact"
+                                      ? "exact"
+                                      : `±${(equityResult.margins[0] * 100).toFixed(1)}%`}
+                                  </span>
+                                </div>
+                              </div>
+                            )}
                           </div>
                         ) : (
                           <p className="text-xs text-muted-foreground text-center pt-1">
@@ -443,10 +505,18 @@ export default function RangeAnalysisPage() {
                   </div>
                 </div>
               </Card>
+              <Card className="p-6 mt-4">{textureSection}</Card>
             </>
           )}
         </div>
       </div>
+
+      <RangeLibraryDialog
+        open={libraryOpen}
+        onOpenChange={setLibraryOpen}
+        range={range}
+        onLoad={(loaded) => setRange(loaded)}
+      />
     </div>
   );
 }
@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServerComponentClient } from "@/lib/api/supabase/client";
+import { HAND_HISTORY_COLUMNS } from "@/lib/api/supabase/handHistory";
+import { getErrorMessage } from "@/lib/utils";
+import { generateShareToken } from "@/lib/features/ranges/rangeLibrary";
+import {
+  SHARED_HAND_COLUMNS,
+  buildSharedHandSnapshot,
+  transformSharedHandRow,
+} from "@/lib/features/handHistory/sharedHand";
+import type { HandSummary } from "@/lib/types/handHistory";
+import type {
+  HandShareLink,
+  SharedHand,
+  SharedHandRow,
+  SharedHandSnapshot,
+} from "@/lib/types/sharedHands";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ handId: string }>;
+}
+
+/** What the owner needs to manage a link; the snapshot stays server side */
+const toShareLink = (share: SharedHand): HandShareLink => ({
+  token: share.token,
+  anonymized: share.anonymized,
+  createdAt: share.createdAt,
+});
+
+// GET /api/hands/[handId]/share - The hand's share link, if there is one
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { handId } = await params;
+    const supabase = await createServerComponentClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data, error } = await supabase
+      .from("shared_hands")
+      .select(SHARED_HAND_COLUMNS)
+      .eq("hand_id", handId)
+      .eq("owner_id", user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error("[Shared Hands API] Database error:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      share: data ? toShareLink(transformSharedHandRow(data as SharedHandRow)) : null,
+    });
+  } catch (err: unknown) {
+    console.error("[Shared Hands API] Unexpected error:", err);
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
+
+// POST /api/hands/[handId]/share - Create the share link, or refresh its snapshot
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { handId } = await params;
+    const supabase = await createServerComponentClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // RLS on hand_histories only returns hands the user played
+    const { data: hand, error: handError } = await supabase
+      .from("hand_histories")
+      .select(HAND_HISTORY_COLUMNS)
+      .eq("id", handId)
+      .single();
+
+    if (handError || !hand) {
+      return NextResponse.json({ error: "Hand not found" }, { status: 404 });
+    }
+
+    // An empty or unreadable body shares with the defaults
+    const { anonymize } = await request.json().catch(() => ({}));
+    const anonymized = anonymize === true;
+    const summary = hand as HandSummary;
+
+    const usernames: Record<string, string> = {};
+    if (!anonymized) {
+      const { data: profiles } = await supabase
+        .from("profiles")
+        .select("id, username")
+        .in("id", Object.values(summary.player_manifest));
+      profiles?.forEach((profile) => {
+        if (profile.username) usernames[profile.id] = profile.username;
+      });
+    }
+
+    let snapshot: SharedHandSnapshot;
+    try {
+      snapshot = buildSharedHandSnapshot(summary, user.id, usernames, anonymized);
+    } catch (err: unknown) {
+      return NextResponse.json({ error: getErrorMessage(err) }, { status: 400 });
+    }
+
+    const { data: existing } = await supabase
+      .from("shared_hands")
+      .select("token")
+      .eq("hand_id", handId)
+      .eq("owner_id", user.id)
+      .maybeSingle();
+
+    // Keep an existing token so links already handed out keep working
+    const { data, error } = await supabase
+      .from("shared_hands")
+      .upsert(
+        {
+          token: existing?.token || generateShareToken(),
+          owner_id: user.id,
+          hand_id: handId,
+          anonymized,
+          snapshot,
+        },
+        { onConflict: "owner_id,hand_id" }
+      )
+      .select(SHARED_HAND_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error("[Shared Hands API] Database error:", error);
+      return NextResponse.json({ error: error?.message || "Failed to share hand" }, { status: 500 });
+    }
+
+    return NextResponse.json({ share: toShareLink(transformSharedHandRow(data as SharedHandRow)) });
+  } catch (err: unknown) {
+    console.error("[Shared Hands API] Unexpected error:", err);
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
+
+// DELETE /api/hands/[handId]/share - Turn the share link off
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { handId } = await params;
+    const supabase = await createServerComponentClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { error } = await supabase
+      .from("shared_hands")
+      .delete()
+      .eq("hand_id", handId)
+      .eq("owner_id", user.id);
+
+    if (error) {
+      console.error("[Shared Hands API] Database error:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (err: unknown) {
+    console.error("[Shared Hands API] Unexpected error:", err);
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServerComponentClient } from "@/lib/api/supabase/client";
+import { getErrorMessage } from "@/lib/utils";
+import {
+  USER_RANGE_COLUMNS,
+  transformUserRangeRow,
+  transformUserRangeVersionRow,
+  validateUserRange,
+} from "@/lib/features/ranges/rangeLibrary";
+import type { UserRangeRow, UserRangeVersionRow } from "@/lib/types/ranges";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ rangeId: string }>;
+}
+
+// GET /api/ranges/[rangeId] - A range with its version history
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { rangeId } = await params;
+    const supabase = await createServerComponentClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data, error } = await supabase
+      .from("user_ranges")
+      .select(USER_RANGE_COLUMNS)
+      .eq("id", rangeId)
+      .single();
+
+    if (error || !data) {
+      return NextResponse.json({ error: "Range not found" }, { status: 404 });
+    }
+
+    const range = transformUserRangeRow(data as UserRangeRow);
+
+    // Ranges shared with a club are visible to its members
+    if (range.ownerId !== user.id) {
+      const { data: membership } = await supabase
+        .from("club_members")
+        .select("club_id")
+        .eq("user_id", user.id)
+        .single();
+
+      if (!range.clubId || membership?.club_id !== range.clubId) {
+        return NextResponse.json({ error: "Range not found" }, { status: 404 });
+      }
+    }
+
+    const { data: versions, error: versionsError } = await supabase
+      .from("user_range_versions")
+      .select("range_id, version, range_string, created_at")
+      .eq("range_id", rangeId)
+      .order("version", { ascending: false });
+
+    if (versionsError) {
+      console.error("[Ranges Library API] Database error:", versionsError);
+    }
+
+    return NextResponse.json({
+      range,
+      versions: ((versions as UserRangeVersionRow[] | null) || []).map(transformUserRangeVersionRow),
+    });
+  } catch (err: unknown) {
+    console.error("[Ranges Library API] Unexpected error:", err);
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
+
+// PATCH /api/ranges/[rangeId] - Rename, move or edit a range (owner only).
+// Changing the range itself records a new version.
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { rangeId } = await params;
+    const supabase = await createServerComponentClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from("user_ranges")
+      .select(USER_RANGE_COLUMNS)
+      .eq("id", rangeId)
+      .eq("owner_id", user.id)
+      .single();
+
+    if (existingError || !existing) {
+      return NextResponse.json({ error: "Range not found" }, { status: 404 });
+    }
+
+    const current = transformUserRangeRow(existing as UserRangeRow);
+    const body = await request.json();
+    const name = typeof body.name === "string" ? body.name : undefined;
+    const folder = typeof body.folder === "string" ? body.folder : undefined;
+    const rangeString = typeof body.rangeString === "string" ? body.rangeString : undefined;
+
+    const validationError = validateUserRange({ name, folder, rangeString });
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const rangeChanged = rangeString !== undefined && rangeString !== current.rangeString;
+    const version = rangeChanged ? current.version + 1 : current.version;
+
+    const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+    if (name !== undefined) updates.name = name.trim();
+    if (folder !== undefined) updates.folder = folder.trim() || null;
+    if (rangeChanged) {
+      updates.range_string = rangeString;
+      updates.version = version;
+    }
+
+    const { data, error } = await supabase
+      .from("user_ranges")
+      .update(updates)
+      .eq("id", rangeId)
+      .select(USER_RANGE_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error("[Ranges Library API] Database error:", error);
+      return NextResponse.json({ error: error?.message || "Failed to update range" }, { status: 500 });
+    }
+
+    if (rangeChanged) {
+      const { error: versionError } = await supabase.from("user_range_versions").insert({
+        range_id: rangeId,
+        version,
+        range_string: rangeString,
+      });
+
+      if (versionError) {
+        console.error("[Ranges Library API] Failed to record version:", versionError);
+      }
+    }
+
+    return NextResponse.json({ range: transformUserRangeRow(data as UserRangeRow) });
+  } catch (err: unknown) {
+    console.error("[Ranges Library API] Unexpected error:", err);
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
+
+// DELETE /api/ranges/[rangeId] - Remove a range and its history (owner only)
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { rangeId } = await params;
+    const supabase = await createServerComponentClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data, error } = await supabase
+      .from("user_ranges")
+      .delete()
+      .eq("id", rangeId)
+      .eq("owner_id", user.id)
+      .select("id");
+
+    if (error) {
+      console.error("[Ranges Library API] Database error:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    if (!data || data.length === 0) {
+      return NextResponse.json({ error: "Range not found" }, { status: 404 });
+    }
+
+    await supabase.from("user_range_versions").delete().eq("range_id", rangeId);
+
+    return NextResponse.json({ success: true });
+  } catch (err: unknown) {
+    console.error("[Ranges Library API] Unexpected error:", err);
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
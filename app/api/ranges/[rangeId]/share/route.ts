@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServerComponentClient } from "@/lib/api/supabase/client";
+import { getErrorMessage } from "@/lib/utils";
+import {
+  USER_RANGE_COLUMNS,
+  generateShareToken,
+  transformUserRangeRow,
+} from "@/lib/features/ranges/rangeLibrary";
+import type { UserRangeRow } from "@/lib/types/ranges";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ rangeId: string }>;
+}
+
+// POST /api/ranges/[rangeId]/share - Turn the share link and club sharing on or off
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { rangeId } = await params;
+    const supabase = await createServerComponentClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from("user_ranges")
+      .select(USER_RANGE_COLUMNS)
+      .eq("id", rangeId)
+      .eq("owner_id", user.id)
+      .single();
+
+    if (existingError || !existing) {
+      return NextResponse.json({ error: "Range not found" }, { status: 404 });
+    }
+
+    const current = transformUserRangeRow(existing as UserRangeRow);
+    const { shareLink, shareWithClub } = await request.json();
+    const updates: Record<string, unknown> = {};
+
+    if (typeof shareLink === "boolean") {
+      // Keep an existing token so links already handed out keep working
+      updates.share_token = shareLink ? current.shareToken || generateShareToken() : null;
+    }
+
+    if (typeof shareWithClub === "boolean") {
+      if (shareWithClub) {
+        const { data: membership } = await supabase
+          .from("club_members")
+          .select("club_id")
+          .eq("user_id", user.id)
+          .single();
+
+        if (!membership?.club_id) {
+          return NextResponse.json({ error: "You are not in a club" }, { status: 400 });
+        }
+        updates.club_id = membership.club_id;
+      } else {
+        updates.club_id = null;
+      }
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ range: current });
+    }
+
+    const { data, error } = await supabase
+      .from("user_ranges")
+      .update(updates)
+      .eq("id", rangeId)
+      .select(USER_RANGE_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error("[Ranges Library API] Database error:", error);
+      return NextResponse.json({ error: error?.message || "Failed to share range" }, { status: 500 });
+    }
+
+    return NextResponse.json({ range: transformUserRangeRow(data as UserRangeRow) });
+  } catch (err: unknown) {
+    console.error("[Ranges Library API] Unexpected error:", err);
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServerComponentClient } from "@/lib/api/supabase/client";
+import { getErrorMessage } from "@/lib/utils";
+import {
+  USER_RANGE_COLUMNS,
+  transformUserRangeRow,
+  validateUserRange,
+} from "@/lib/features/ranges/rangeLibrary";
+import type { UserRangeRow } from "@/lib/types/ranges";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/ranges - The user's saved ranges plus ranges shared with their club
+export async function GET() {
+  try {
+    const supabase = await createServerComponentClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data, error } = await supabase
+      .from("user_ranges")
+      .select(USER_RANGE_COLUMNS)
+      .eq("owner_id", user.id)
+      .order("folder", { ascending: true })
+      .order("name", { ascending: true });
+
+    if (error) {
+      console.error("[Ranges Library API] Database error:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const { data: membership } = await supabase
+      .from("club_members")
+      .select("club_id")
+      .eq("user_id", user.id)
+      .single();
+
+    let clubRows: UserRangeRow[] = [];
+    if (membership?.club_id) {
+      const { data: shared, error: sharedError } = await supabase
+        .from("user_ranges")
+        .select(USER_RANGE_COLUMNS)
+        .eq("club_id", membership.club_id)
+        .neq("owner_id", user.id)
+        .order("name", { ascending: true });
+
+      if (sharedError) {
+        console.error("[Ranges Library API] Database error:", sharedError);
+      }
+      clubRows = (shared as UserRangeRow[] | null) || [];
+    }
+
+    return NextResponse.json({
+      ranges: ((data as UserRangeRow[] | null) || []).map(transformUserRangeRow),
+      clubRanges: clubRows.map(transformUserRangeRow),
+    });
+  } catch (err: unknown) {
+    console.error("[Ranges Library API] Unexpected error:", err);
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
+
+// POST /api/ranges - Save a new range to the user's library
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerComponentClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const name = typeof body.name === "string" ? body.name : "";
+    const folder = typeof body.folder === "string" ? body.folder : "";
+    const rangeString = typeof body.rangeString === "string" ? body.rangeString : "";
+
+    const validationError = validateUserRange({ name, folder, rangeString });
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from("user_ranges")
+      .insert({
+        owner_id: user.id,
+        name: name.trim(),
+        folder: folder.trim() || null,
+        range_string: rangeString,
+        version: 1,
+      })
+      .select(USER_RANGE_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error("[Ranges Library API] Database error:", error);
+      return NextResponse.json({ error: error?.message || "Failed to save range" }, { status: 500 });
+    }
+
+    const range = transformUserRangeRow(data as UserRangeRow);
+
+    const { error: versionError } = await supabase.from("user_range_versions").insert({
+      range_id: range.id,
+      version: 1,
+      range_string: rangeString,
+    });
+
+    if (versionError) {
+      console.error("[Ranges Library API] Failed to record version:", versionError);
+    }
+
+    return NextResponse.json({ range }, { status: 201 });
+  } catch (err: unknown) {
+    console.error("[Ranges Library API] Unexpected error:", err);
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServerComponentClient } from "@/lib/api/supabase/client";
+import { getErrorMessage } from "@/lib/utils";
+import { transformSharedRangeRow } from "@/lib/features/ranges/rangeLibrary";
+import type { SharedRangeRow } from "@/lib/types/ranges";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{ token: string }>;
+}
+
+// GET /api/ranges/shared/[token] - Public read of a range by its share token
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { token } = await params;
+    const supabase = await createServerComponentClient();
+
+    // user_ranges is private to owners and their club; get_shared_range returns
+    // only the range matching the token
+    const { data, error } = await supabase
+      .rpc("get_shared_range", { share_token: token })
+      .maybeSingle();
+
+    if (error) {
+      console.error("[Ranges Library API] Database error:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    if (!data) {
+      return NextResponse.json({ error: "Shared range not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ range: transformSharedRangeRow(data as SharedRangeRow) });
+  } catch (err: unknown) {
+    console.error("[Ranges Library API] Unexpected error:", err);
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
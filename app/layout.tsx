@@ -111,7 +111,7 @@ export default async function RootLayout({
 
   // Fetch all preferences in one query using the registry
   const columns = getPreferenceColumns().join(", ");
-  let profile: { theme?: string; color_theme?: string; deck_preference?: string } | null = null;
+  let profile: { theme?: string; color_theme?: string; deck_preference?: string; hud_layout?: unknown } | null = null;
 
   if (user) {
     const { data, error } = await supabase
@@ -123,7 +123,7 @@ export default async function RootLayout({
     if (error) {
       console.error("[layout.tsx] Error fetching profile preferences:", error);
     } else if (data && typeof data === 'object') {
-      profile = data as { theme?: string; color_theme?: string; deck_preference?: string };
+      profile = data as { theme?: string; color_theme?: string; deck_preference?: string; hud_layout?: unknown };
     }
   }
 
@@ -137,6 +137,9 @@ export default async function RootLayout({
     cardStyle: PREFERENCE_REGISTRY.cardStyle.validate(profile?.deck_preference)
       ? profile.deck_preference
       : PREFERENCE_REGISTRY.cardStyle.defaultValue,
+    hudLayout: PREFERENCE_REGISTRY.hudLayout.validate(profile?.hud_layout)
+      ? profile.hud_layout
+      : PREFERENCE_REGISTRY.hudLayout.defaultValue,
   };
 
   // Validate mode
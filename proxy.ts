@@ -66,7 +66,8 @@ export async function proxy(request: NextRequest) {
   if (
     url.pathname === "/" ||
     url.pathname.startsWith("/learn") ||
-    url.pathname.startsWith("/tools")
+    url.pathname.startsWith("/tools") ||
+    url.pathname.startsWith("/replay")
   ) {
     return response;
   }
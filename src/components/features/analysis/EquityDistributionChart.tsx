@@ -0,0 +1,84 @@
+"use client";
+
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+
+const LINE_COLORS = ["#10b981", "#ef4444", "#3b82f6", "#f59e0b", "#a855f7", "#ec4899"];
+const POINTS = 51;
+
+interface EquityDistributionChartProps {
+  /** One entry per player with a range; equities (0-1) sorted strongest first */
+  series: { label: string; equities: number[] }[];
+}
+
+/**
+ * Equity distribution per range: the x axis is the share of the range
+ * (strongest combos first), the y axis the equity of the combo at that point.
+ */
+export function EquityDistributionChart({ series }: EquityDistributionChartProps) {
+  const plotted = series.filter((s) => s.equities.length > 1);
+  if (plotted.length === 0) return null;
+
+  const data = Array.from({ length: POINTS }, (_, point) => {
+    const share = point / (POINTS - 1);
+    const row: Record<string, number> = { share: Math.round(share * 100) };
+    plotted.forEach((s) => {
+      const index = Math.min(s.equities.length - 1, Math.floor(share * s.equities.length));
+      row[s.label] = Math.round(s.equities[index] * 1000) / 10;
+    });
+    return row;
+  });
+
+  return (
+    <div className="h-56 w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ top: 8, right: 16, bottom: 0, left: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+          <XAxis
+            dataKey="share"
+            tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }}
+            tickFormatter={(value: number) => `${value}%`}
+            tickLine={false}
+          />
+          <YAxis
+            domain={[0, 100]}
+            tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }}
+            tickFormatter={(value: number) => `${value}%`}
+            tickLine={false}
+            width={44}
+          />
+          <Tooltip
+            contentStyle={{
+              background: "hsl(var(--card))",
+              border: "1px solid hsl(var(--border))",
+              borderRadius: 8,
+              fontSize: 12,
+            }}
+            labelFormatter={(share) => `Top ${share}% of range`}
+            formatter={(value: number, name: string) => [`${value}%`, name]}
+          />
+          <Legend wrapperStyle={{ fontSize: 11 }} />
+          {plotted.map((s, i) => (
+            <Line
+              key={s.label}
+              type="monotone"
+              dataKey={s.label}
+              stroke={LINE_COLORS[i % LINE_COLORS.length]}
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { useFlopTextures } from "@/lib/hooks";
+import type { HandCategory } from "@/lib/features/equity/handEvaluator";
+import {
+  TEXTURE_DIMENSION_LABELS,
+  TEXTURE_VALUES,
+  type FlopTextureFilter,
+  type FlopTextureRow,
+  type TextureDimension,
+} from "@/lib/features/ranges/flopTextures";
+
+/** Table/chart columns; the rarest categories are folded together */
+const COLUMNS: { key: string; label: string; categories: HandCategory[]; color: string }[] = [
+  { key: "high", label: "No pair", categories: ["High Card"], color: "#64748b" },
+  { key: "pair", label: "Pair", categories: ["Pair"], color: "#3b82f6" },
+  { key: "twoPair", label: "Two pair", categories: ["Two Pair"], color: "#10b981" },
+  { key: "trips", label: "Trips/set", categories: ["Three of a Kind"], color: "#f59e0b" },
+  { key: "straight", label: "Straight", categories: ["Straight"], color: "#a855f7" },
+  { key: "flush", label: "Flush", categories: ["Flush"], color: "#ec4899" },
+  {
+    key: "boat",
+    label: "Full house+",
+    categories: ["Full House", "Four of a Kind", "Straight Flush"],
+    color: "#ef4444",
+  },
+];
+
+type SortKey = "texture" | "flops" | string;
+
+const DIMENSIONS = Object.keys(TEXTURE_VALUES) as TextureDimension[];
+
+const columnShare = (row: FlopTextureRow, categories: HandCategory[]) =>
+  categories.reduce((sum, category) => sum + row.categories[category], 0);
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+interface FlopTextureAnalysisProps {
+  /** Weighted range notation */
+  rangeString: string;
+  className?: string;
+}
+
+/**
+ * How a range hits every distinct flop, or a filtered subset such as
+ * monotone or low connected boards, grouped by texture in a sortable table
+ * and a stacked chart.
+ */
+export function FlopTextureAnalysis({ rangeString, className }: FlopTextureAnalysisProps) {
+  const [filter, setFilter] = useState<FlopTextureFilter>({});
+  const [groupBy, setGroupBy] = useState<TextureDimension>("highCard");
+  const [sortKey, setSortKey] = useState<SortKey>("texture");
+  const [sortDescending, setSortDescending] = useState(false);
+
+  const request = useMemo(
+    () => (rangeString ? { range: rangeString, filter } : null),
+    [rangeString, filter]
+  );
+  const { result, error, isCalculating } = useFlopTextures(request, { debounceMs: 500 });
+
+  const toggleFilter = (dimension: TextureDimension, value: string) => {
+    setFilter((prev) => {
+      const current = (prev[dimension] ?? []) as string[];
+      const next = current.includes(value)
+        ? current.filter((v) => v !== value)
+        : [...current, value];
+      return { ...prev, [dimension]: next };
+    });
+  };
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDescending((desc) => !desc);
+    } else {
+      setSortKey(key);
+      setSortDescending(key !== "texture");
+    }
+  };
+
+  const rows = useMemo(() => {
+    if (!result) return [];
+    const groupRows = [...result.groups[groupBy]];
+    if (sortKey === "texture") {
+      // Texture values are already in their natural order
+      return sortDescending ? groupRows.reverse() : groupRows;
+    }
+    const column = COLUMNS.find((c) => c.key === sortKey);
+    const value = (row: FlopTextureRow) =>
+      column ? columnShare(row, column.categories) : row.flops;
+    return groupRows.sort((a, b) => (sortDescending ? value(b) - value(a) : value(a) - value(b)));
+  }, [result, groupBy, sortKey, sortDescending]);
+
+  const chartData = useMemo(
+    () =>
+      rows.map((row) => {
+        const entry: Record<string, string | number> = { texture: row.texture };
+        COLUMNS.forEach((column) => {
+          entry[column.label] = Math.round(columnShare(row, column.categories) * 1000) / 10;
+        });
+        return entry;
+      }),
+    [rows]
+  );
+
+  const sortHeader = (key: SortKey, label: string, alignRight = true) => (
+    <TableHead key={key} className={cn(alignRight && "text-right")}>
+      <button
+        type="button"
+        onClick={() => handleSort(key)}
+        className={cn(
+          "inline-flex items-center gap-0.5 hover:text-foreground",
+          sortKey === key && "text-foreground"
+        )}
+      >
+        {label}
+        {sortKey === key &&
+          (sortDescending ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />)}
+      </button>
+    </TableHead>
+  );
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="space-y-1.5">
+        {DIMENSIONS.map((dimension) => (
+          <div key={dimension} className="flex flex-wrap items-center gap-1">
+            <span className="text-[10px] text-muted-foreground w-20">
+              {TEXTURE_DIMENSION_LABELS[dimension]}
+            </span>
+            {(TEXTURE_VALUES[dimension] as string[]).map((value) => {
+              const active = ((filter[dimension] ?? []) as string[]).includes(value);
+              return (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => toggleFilter(dimension, value)}
+                  className={cn(
+                    "rounded border px-1.5 py-0.5 text-[10px] transition-colors",
+                    active
+                      ? "border-emerald-500 bg-emerald-500/20 text-emerald-300"
+                      : "border-slate-600 text-slate-300 hover:border-slate-400"
+                  )}
+                >
+                  {value}
+                </button>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-muted-foreground">
+          {result
+            ? `${result.flops} flops${result.done ? "" : ` • ${Math.round(result.progress * 100)}%`}`
+            : isCalculating
+              ? "Analyzing flops…"
+              : ""}
+        </span>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">Group by</span>
+          <Select value={groupBy} onValueChange={(value) => setGroupBy(value as TextureDimension)}>
+            <SelectTrigger className="w-36 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DIMENSIONS.map((dimension) => (
+                <SelectItem key={dimension} value={dimension}>
+                  {TEXTURE_DIMENSION_LABELS[dimension]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-xs text-red-400">{error}</p>
+      ) : !rangeString ? (
+        <p className="text-xs text-muted-foreground">Select hands to analyze flop textures</p>
+      ) : result ? (
+        <>
+          <div className="max-h-96 overflow-auto rounded border border-slate-700">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {sortHeader("texture", "Texture", false)}
+                  {sortHeader("flops", "Flops")}
+                  {COLUMNS.map((column) => sortHeader(column.key, column.label))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.texture}>
+                    <TableCell className="font-medium whitespace-nowrap">{row.texture}</TableCell>
+                    <TableCell className="text-right">{row.flops}</TableCell>
+                    {COLUMNS.map((column) => (
+                      <TableCell key={column.key} className="text-right">
+                        {formatPercent(columnShare(row, column.categories))}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+                <TableRow className="border-t-2 border-slate-600 font-semibold">
+                  <TableCell>All</TableCell>
+                  <TableCell className="text-right">{result.overall.flops}</TableCell>
+                  {COLUMNS.map((column) => (
+                    <TableCell key={column.key} className="text-right">
+                      {formatPercent(columnShare(result.overall, column.categories))}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="h-64 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} margin={{ top: 8, right: 16, bottom: 0, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis
+                  dataKey="texture"
+                  tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }}
+                  tickLine={false}
+                />
+                <YAxis
+                  domain={[0, 100]}
+                  tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }}
+                  tickFormatter={(value: number) => `${value}%`}
+                  tickLine={false}
+                  width={44}
+                />
+                <Tooltip
+                  contentStyle={{
+                    background: "hsl(var(--card))",
+                    border: "1px solid hsl(var(--border))",
+                    borderRadius: 8,
+                    fontSize: 12,
+                  }}
+                  formatter={(value: number, name: string) => [`${value}%`, name]}
+                />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                {COLUMNS.map((column) => (
+                  <Bar
+                    key={column.key}
+                    dataKey={column.label}
+                    stackId="hits"
+                    fill={column.color}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
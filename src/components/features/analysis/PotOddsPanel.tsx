@@ -0,0 +1,181 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { useEquity } from "@/lib/hooks";
+import {
+  calculateDecisionEv,
+  getCallingFrequency,
+  getRequiredEquity,
+  getShoveAmounts,
+  type DecisionSpot,
+} from "@/lib/features/equity/potOdds";
+
+/** A wide single-raised-pot range, and the part of it that calls a shove */
+export const DEFAULT_VILLAIN_RANGE = "22+,A2s+,K9s+,Q9s+,J9s+,T8s+,98s,87s,ATo+,KTo+,QTo+,JTo";
+export const DEFAULT_CALLING_RANGE = "77+,AJs+,KQs,AQo+";
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const formatChips = (value: number) => {
+  const rounded = Math.round(value * 10) / 10;
+  return `${rounded > 0 ? "+" : ""}${rounded.toLocaleString()}`;
+};
+
+interface PotOddsPanelProps {
+  spot: DecisionSpot;
+  /** Hero's two cards; EVs need them */
+  heroCards: string[];
+  board: string[];
+  /** Shown instead of the EVs while hero's cards are missing */
+  emptyMessage?: string;
+  className?: string;
+}
+
+/**
+ * Fold, call and shove EV for hero's hand: the call is measured against the
+ * whole villain range, the shove against the part of it that calls.
+ */
+export function PotOddsPanel({
+  spot,
+  heroCards,
+  board,
+  emptyMessage = "Pick hero's two cards to see EVs",
+  className,
+}: PotOddsPanelProps) {
+  const [villainRange, setVillainRange] = useState(DEFAULT_VILLAIN_RANGE);
+  const [callingRange, setCallingRange] = useState(DEFAULT_CALLING_RANGE);
+
+  const hasHand = heroCards.length === 2;
+  const canShove = getShoveAmounts(spot) !== null;
+
+  const rangeEquity = useEquity(
+    hasHand && villainRange.trim() ? { players: [heroCards, villainRange], board } : null
+  );
+  const callEquity = useEquity(
+    hasHand && canShove && callingRange.trim()
+      ? { players: [heroCards, callingRange], board }
+      : null
+  );
+
+  const callFrequency = useMemo(
+    () => getCallingFrequency(villainRange, callingRange, [...heroCards, ...board]),
+    [villainRange, callingRange, heroCards, board]
+  );
+
+  const equity = rangeEquity.result?.equities[0];
+  const equityWhenCalled = callEquity.result?.equities[0];
+  const ev =
+    equity !== undefined
+      ? calculateDecisionEv(spot, equity, equityWhenCalled ?? 0, callFrequency)
+      : null;
+  // With no calls the shove EV doesn't depend on equity, so don't wait for it
+  const shoveEv =
+    ev && (equityWhenCalled !== undefined || callFrequency === 0) ? ev.shoveEv : null;
+
+  const options = ev
+    ? [
+        { label: "Fold", value: ev.foldEv },
+        { label: spot.toCall > 0 ? "Call" : "Check", value: ev.callEv },
+        ...(shoveEv !== null ? [{ label: "Shove", value: shoveEv }] : []),
+      ]
+    : [];
+  const best = options.reduce<(typeof options)[number] | null>(
+    (top, option) => (!top || option.value > top.value ? option : top),
+    null
+  );
+
+  const error = rangeEquity.error ?? callEquity.error;
+
+  return (
+    <div className={cn("space-y-3 text-sm", className)}>
+      <div className="grid grid-cols-2 gap-2 text-xs">
+        <div className="rounded border border-slate-700 p-2">
+          <div className="text-muted-foreground">Pot odds</div>
+          <div className="text-base font-semibold">
+            {spot.toCall > 0 ? formatPercent(getRequiredEquity(spot)) : "—"}
+          </div>
+          <div className="text-muted-foreground">equity needed to call</div>
+        </div>
+        <div className="rounded border border-slate-700 p-2">
+          <div className="text-muted-foreground">Equity vs range</div>
+          <div className="text-base font-semibold">
+            {equity !== undefined ? formatPercent(equity) : rangeEquity.isCalculating ? "…" : "—"}
+          </div>
+          <div className="text-muted-foreground">
+            {equity !== undefined && ev && spot.toCall > 0
+              ? equity >= ev.requiredEquity
+                ? "enough to call"
+                : "short of the price"
+              : "against the villain range"}
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-xs text-muted-foreground">Villain range</label>
+        <Input
+          value={villainRange}
+          onChange={(e) => setVillainRange(e.target.value)}
+          placeholder="e.g. 22+,A2s+,KTo+"
+          className="h-8 font-mono text-xs"
+        />
+      </div>
+      {canShove && (
+        <div className="space-y-1">
+          <label className="text-xs text-muted-foreground">
+            Calls a shove with{" "}
+            <span className="text-foreground">({formatPercent(callFrequency)} of range)</span>
+          </label>
+          <Input
+            value={callingRange}
+            onChange={(e) => setCallingRange(e.target.value)}
+            placeholder="e.g. TT+,AQs+,AKo"
+            className="h-8 font-mono text-xs"
+          />
+        </div>
+      )}
+
+      {!hasHand ? (
+        <p className="text-xs text-muted-foreground">{emptyMessage}</p>
+      ) : error ? (
+        <p className="text-xs text-red-400">{error}</p>
+      ) : ev ? (
+        <div className="rounded border border-slate-700 divide-y divide-slate-700">
+          {options.map((option) => (
+            <div
+              key={option.label}
+              className={cn(
+                "flex items-center justify-between px-3 py-1.5",
+                best?.label === option.label && "bg-emerald-500/10"
+              )}
+            >
+              <span className="font-medium">
+                {option.label}
+                {option.label === "Shove" && equityWhenCalled !== undefined && (
+                  <span className="ml-1 text-xs font-normal text-muted-foreground">
+                    ({formatPercent(equityWhenCalled)} when called)
+                  </span>
+                )}
+              </span>
+              <span
+                className={cn(
+                  "font-mono",
+                  option.value > 0 ? "text-emerald-400" : option.value < 0 ? "text-red-400" : ""
+                )}
+              >
+                {formatChips(option.value)}
+              </span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">Calculating…</p>
+      )}
+      <p className="text-[10px] text-muted-foreground">
+        EV in chips compared with folding, assuming no more betting once the chips are in.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import type { RangeBreakdownResult } from "@/lib/features/equity/rangeBreakdown";
+
+interface RangeBreakdownTableProps {
+  breakdown: RangeBreakdownResult;
+  className?: string;
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+// Weighted ranges can leave fractional combos
+const formatCombos = (value: number) => Number(value.toFixed(2)).toString();
+
+function equityColor(equity: number): string {
+  if (equity >= 0.6) return "text-emerald-400";
+  if (equity <= 0.4) return "text-red-400";
+  return "text-amber-400";
+}
+
+/**
+ * Hero's equity against each hand class in a villain range, strongest for
+ * hero first, with the whole range as a footer row.
+ */
+export function RangeBreakdownTable({ breakdown, className }: RangeBreakdownTableProps) {
+  const totalCombos = breakdown.classes.reduce((sum, c) => sum + c.combos, 0);
+
+  return (
+    <div className={cn("max-h-96 overflow-y-auto rounded border border-slate-700", className)}>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Hand</TableHead>
+            <TableHead className="text-right">Combos</TableHead>
+            <TableHead className="text-right">Win</TableHead>
+            <TableHead className="text-right">Tie</TableHead>
+            <TableHead className="text-right">Lose</TableHead>
+            <TableHead className="text-right">Equity</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {breakdown.classes.map((row) => (
+            <TableRow key={row.handClass}>
+              <TableCell className="font-mono font-medium">{row.handClass}</TableCell>
+              <TableCell className="text-right">{formatCombos(row.combos)}</TableCell>
+              <TableCell className="text-right">{formatPercent(row.win)}</TableCell>
+              <TableCell className="text-right">{formatPercent(row.tie)}</TableCell>
+              <TableCell className="text-right">{formatPercent(row.lose)}</TableCell>
+              <TableCell className={cn("text-right font-semibold", equityColor(row.equity))}>
+                {formatPercent(row.equity)}
+              </TableCell>
+            </TableRow>
+          ))}
+          <TableRow className="border-t-2 border-slate-600 font-semibold">
+            <TableCell>Total</TableCell>
+            <TableCell className="text-right">{formatCombos(totalCombos)}</TableCell>
+            <TableCell className="text-right">{formatPercent(breakdown.overall.win)}</TableCell>
+            <TableCell className="text-right">{formatPercent(breakdown.overall.tie)}</TableCell>
+            <TableCell className="text-right">{formatPercent(breakdown.overall.lose)}</TableCell>
+            <TableCell className={cn("text-right", equityColor(breakdown.overall.equity))}>
+              {formatPercent(breakdown.overall.equity)}
+            </TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -23,6 +23,14 @@ interface RangeGridProps {
   readOnly?: boolean;
   /** Additional CSS classes for the outer container */
   className?: string;
+  /** Value (0-1) per hand, e.g. hero equity - colors selected cells red to green in selection mode */
+  heatmap?: Map<string, number>;
+  /** What the heatmap value means, shown in cell tooltips */
+  heatmapLabel?: string;
+  /** Frequency (0-1) per selected hand - partly fills cells played less than always */
+  weights?: Map<string, number>;
+  /** Right-click (long press on touch) on a cell, e.g. to pick suit combos */
+  onCellContextMenu?: (hand: string) => void;
 }
 
 function getColorForType(type: 'pair' | 'suited' | 'offsuit'): string {
@@ -33,6 +41,12 @@ function getColorForType(type: 'pair' | 'suited' | 'offsuit'): string {
   }
 }
 
+/** Red at 0% equity, amber at 50%, green at 100% */
+function getHeatmapColor(equity: number): string {
+  const hue = Math.round(Math.max(0, Math.min(1, equity)) * 120);
+  return `hsl(${hue}, 70%, 38%)`;
+}
+
 export function RangeGrid({
   selectedHands,
   onToggle,
@@ -43,6 +57,10 @@ export function RangeGrid({
   hoveredHand,
   readOnly,
   className,
+  heatmap,
+  heatmapLabel = "hero equity",
+  weights,
+  onCellContextMenu,
 }: RangeGridProps) {
   // Determine mode based on props
   const isStatsMode = statsData !== undefined;
@@ -75,6 +93,9 @@ export function RangeGrid({
         const cellData = statsData?.get(handLabel);
         const percentage = cellData?.percentage ?? 0;
 
+        const heatmapEquity = isSelected ? heatmap?.get(handLabel) : undefined;
+        const weight = isSelected ? weights?.get(handLabel) ?? 1 : 0;
+
         // Determine cell style based on mode
         let cellStyle: React.CSSProperties | undefined;
         let cellClassName: string;
@@ -95,6 +116,27 @@ export function RangeGrid({
               ? "text-white"
               : "bg-slate-900 text-slate-400"
           );
+        } else if (heatmapEquity !== undefined) {
+          // Selection mode with equity heatmap
+          cellStyle = { backgroundColor: getHeatmapColor(heatmapEquity) };
+          cellClassName = cn(
+            "font-medium border border-slate-800 flex items-center justify-center transition-colors select-none",
+            "aspect-square w-full h-full",
+            "text-[clamp(8px,1.5vw,14px)]", // Responsive text size
+            "text-white"
+          );
+        } else if (isSelected && weight < 1) {
+          // Selection mode, mixed frequency: fill the cell to its weight
+          const fill = Math.round(weight * 100);
+          cellStyle = {
+            background: `linear-gradient(to top, ${getColorForType(type)} ${fill}%, rgba(15, 23, 42, 0.8) ${fill}%)`,
+          };
+          cellClassName = cn(
+            "font-medium border border-slate-800 flex items-center justify-center transition-colors select-none",
+            "aspect-square w-full h-full",
+            "text-[clamp(8px,1.5vw,14px)]", // Responsive text size
+            "text-white"
+          );
         } else {
           // Selection mode: original behavior
           cellClassName = cn(
@@ -115,7 +157,9 @@ export function RangeGrid({
         const cellContent = handLabel;
 
         // Event handlers
-        const handleMouseDown = () => {
+        const handleMouseDown = (e: React.MouseEvent) => {
+          // Right button opens the context menu instead
+          if (e.button !== 0) return;
           if (!readOnly && !isStatsMode) {
             onToggle(handLabel);
           }
@@ -129,6 +173,12 @@ export function RangeGrid({
           }
         };
 
+        const handleContextMenu = (e: React.MouseEvent) => {
+          if (!onCellContextMenu || readOnly || isStatsMode) return;
+          e.preventDefault();
+          onCellContextMenu(handLabel);
+        };
+
         const handleMouseLeave = () => {
           if (isStatsMode && onCellHover) {
             onCellHover(null);
@@ -141,9 +191,18 @@ export function RangeGrid({
             onMouseDown={handleMouseDown}
             onMouseEnter={handleMouseEnterEvent}
             onMouseLeave={handleMouseLeave}
+            onContextMenu={handleContextMenu}
             className={cellClassName}
             style={cellStyle}
-            title={isStatsMode && cellData ? `${handLabel}: ${percentage.toFixed(1)}% (${cellData.sampleSize} hands)` : undefined}
+            title={
+              isStatsMode && cellData
+                ? `${handLabel}: ${percentage.toFixed(1)}% (${cellData.sampleSize} hands)`
+                : heatmapEquity !== undefined
+                ? `${handLabel}: ${(heatmapEquity * 100).toFixed(1)}% ${heatmapLabel}`
+                : isSelected && weight < 1
+                ? `${handLabel}: ${Math.round(weight * 100)}%`
+                : undefined
+            }
           >
             {cellContent}
           </button>
@@ -152,7 +211,7 @@ export function RangeGrid({
     }
 
     return cells;
-  }, [selectedHands, onToggle, isMouseDown, onMouseEnter, statsData, onCellHover, hoveredHand, readOnly, isStatsMode]);
+  }, [selectedHands, onToggle, isMouseDown, onMouseEnter, statsData, onCellHover, hoveredHand, readOnly, isStatsMode, heatmap, heatmapLabel, weights, onCellContextMenu]);
 
   return (
     <div className={cn(
@@ -0,0 +1,530 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  Copy,
+  FolderOpen,
+  History,
+  Link2,
+  Loader2,
+  Save,
+  Trash2,
+  Upload,
+  Users,
+} from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useRangeLibraryApi } from "@/lib/api/http";
+import { useToast } from "@/lib/hooks";
+import { cn } from "@/lib/utils";
+import type { UserRange, UserRangeVersion } from "@/lib/types/ranges";
+import { groupRangesByFolder } from "@/lib/features/ranges/rangeLibrary";
+import {
+  RANGE_TEXT_FORMATS,
+  exportRangeText,
+  importRangeText,
+  type RangeTextFormat,
+} from "@/lib/features/ranges/rangeFormats";
+import {
+  countWeightedCombos,
+  formatWeightedRange,
+  parseWeightedRange,
+  type WeightedRange,
+} from "@/lib/features/ranges/weightedRange";
+
+interface RangeLibraryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Range currently on the grid, used for saving and export */
+  range: WeightedRange;
+  /** Called when a saved, shared or imported range is loaded */
+  onLoad: (range: WeightedRange, name?: string) => void;
+  /** Prefills the name when saving, e.g. for generated charts */
+  defaultName?: string;
+}
+
+const textareaClass =
+  "w-full h-28 rounded-md border border-input bg-background px-3 py-2 text-xs font-mono ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
+/** Link that opens a shared range in the range analysis tool */
+export function getSharedRangeUrl(token: string): string {
+  return `${window.location.origin}/tools/range-analysis?sharedRange=${token}`;
+}
+
+/**
+ * Saved ranges (folders, versions, sharing) plus import/export of range text
+ * in other tools' formats. Import/export works signed out.
+ */
+export function RangeLibraryDialog({
+  open,
+  onOpenChange,
+  range,
+  onLoad,
+  defaultName,
+}: RangeLibraryDialogProps) {
+  const { getRanges, getRange, createRange, updateRange, deleteRange, shareRange } =
+    useRangeLibraryApi();
+  const { toast } = useToast();
+
+  const [ranges, setRanges] = useState<UserRange[]>([]);
+  const [clubRanges, setClubRanges] = useState<UserRange[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [signedOut, setSignedOut] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const [name, setName] = useState("");
+  const [folder, setFolder] = useState("");
+
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [versions, setVersions] = useState<UserRangeVersion[]>([]);
+
+  const [importText, setImportText] = useState("");
+  const [exportFormat, setExportFormat] = useState<RangeTextFormat>("standard");
+
+  const currentRangeString = useMemo(() => formatWeightedRange(range), [range]);
+  const exportText = useMemo(() => exportRangeText(range, exportFormat), [range, exportFormat]);
+  const importPreview = useMemo(
+    () => (importText.trim() ? importRangeText(importText) : null),
+    [importText]
+  );
+  const folders = useMemo(() => groupRangesByFolder(ranges), [ranges]);
+
+  const showError = useCallback(
+    (description: string) => toast({ title: "Error", description, variant: "destructive" }),
+    [toast]
+  );
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    const result = await getRanges();
+    setLoading(false);
+
+    if ("error" in result) {
+      if (result.status === 401) setSignedOut(true);
+      else showError(result.error);
+      return;
+    }
+    setSignedOut(false);
+    setRanges(result.ranges);
+    setClubRanges(result.clubRanges);
+  }, [getRanges, showError]);
+
+  useEffect(() => {
+    if (open) refresh();
+  }, [open, refresh]);
+
+  useEffect(() => {
+    if (open && defaultName) setName(defaultName);
+  }, [open, defaultName]);
+
+  const replaceRange = (updated: UserRange) => {
+    setRanges((prev) => prev.map((r) => (r.id === updated.id ? updated : r)));
+  };
+
+  const loadRange = (rangeString: string, rangeName?: string) => {
+    onLoad(parseWeightedRange(rangeString), rangeName);
+    onOpenChange(false);
+  };
+
+  const handleSaveNew = async () => {
+    if (!currentRangeString) return;
+    setBusyId("new");
+    const result = await createRange({ name, folder, rangeString: currentRangeString });
+    setBusyId(null);
+
+    if ("error" in result) {
+      showError(result.error);
+      return;
+    }
+    setRanges((prev) => [...prev, result.range]);
+    setName("");
+    toast({ title: "Range saved", description: `${result.range.name} added to your library` });
+  };
+
+  const handleSaveVersion = async (saved: UserRange, rangeString: string) => {
+    setBusyId(saved.id);
+    const result = await updateRange(saved.id, { rangeString });
+    setBusyId(null);
+
+    if ("error" in result) {
+      showError(result.error);
+      return;
+    }
+    replaceRange(result.range);
+    if (historyId === saved.id) setHistoryId(null);
+    toast({ title: "Range updated", description: `${saved.name} is now version ${result.range.version}` });
+  };
+
+  const handleToggleHistory = async (saved: UserRange) => {
+    if (historyId === saved.id) {
+      setHistoryId(null);
+      return;
+    }
+    setBusyId(saved.id);
+    const result = await getRange(saved.id);
+    setBusyId(null);
+
+    if ("error" in result) {
+      showError(result.error);
+      return;
+    }
+    setVersions(result.versions);
+    setHistoryId(saved.id);
+  };
+
+  const handleShareLink = async (saved: UserRange) => {
+    let token = saved.shareToken;
+    if (!token) {
+      setBusyId(saved.id);
+      const result = await shareRange(saved.id, { shareLink: true });
+      setBusyId(null);
+
+      if ("error" in result) {
+        showError(result.error);
+        return;
+      }
+      replaceRange(result.range);
+      token = result.range.shareToken;
+    }
+    if (!token) return;
+
+    try {
+      await navigator.clipboard.writeText(getSharedRangeUrl(token));
+      toast({ title: "Link copied", description: "Anyone with the link can view this range" });
+    } catch {
+      showError("Could not copy the share link");
+    }
+  };
+
+  const handleShareWithClub = async (saved: UserRange) => {
+    setBusyId(saved.id);
+    const result = await shareRange(saved.id, { shareWithClub: !saved.clubId });
+    setBusyId(null);
+
+    if ("error" in result) {
+      showError(result.error);
+      return;
+    }
+    replaceRange(result.range);
+    toast({
+      title: result.range.clubId ? "Shared with club" : "Club sharing off",
+      description: saved.name,
+    });
+  };
+
+  const handleDelete = async (saved: UserRange) => {
+    if (!window.confirm(`Delete "${saved.name}" and its history?`)) return;
+    setBusyId(saved.id);
+    const result = await deleteRange(saved.id);
+    setBusyId(null);
+
+    if ("error" in result) {
+      showError(result.error);
+      return;
+    }
+    setRanges((prev) => prev.filter((r) => r.id !== saved.id));
+  };
+
+  const handleCopyExport = async () => {
+    try {
+      await navigator.clipboard.writeText(exportText);
+      toast({ title: "Copied", description: "Range text copied to the clipboard" });
+    } catch {
+      showError("Could not copy the range");
+    }
+  };
+
+  const renderSavedRange = (saved: UserRange) => {
+    const busy = busyId === saved.id;
+    return (
+      <div key={saved.id} className="px-3 py-2 space-y-2">
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            className="flex-1 min-w-0 text-left"
+            onClick={() => loadRange(saved.rangeString, saved.name)}
+          >
+            <div className="text-sm font-medium truncate">{saved.name}</div>
+            <div className="text-[10px] text-muted-foreground">
+              v{saved.version} • {countWeightedCombos(parseWeightedRange(saved.rangeString)).toFixed(0)} combos
+            </div>
+          </button>
+          {busy && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            title="Save the current grid as a new version"
+            disabled={busy || !currentRangeString || currentRangeString === saved.rangeString}
+            onClick={() => handleSaveVersion(saved, currentRangeString)}
+          >
+            <Save className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={cn("h-7 w-7", historyId === saved.id && "text-primary")}
+            title="Version history"
+            disabled={busy}
+            onClick={() => handleToggleHistory(saved)}
+          >
+            <History className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={cn("h-7 w-7", saved.shareToken && "text-primary")}
+            title="Copy share link"
+            disabled={busy}
+            onClick={() => handleShareLink(saved)}
+          >
+            <Link2 className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={cn("h-7 w-7", saved.clubId && "text-primary")}
+            title={saved.clubId ? "Stop sharing with your club" : "Share with your club"}
+            disabled={busy}
+            onClick={() => handleShareWithClub(saved)}
+          >
+            <Users className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 text-destructive"
+            title="Delete"
+            disabled={busy}
+            onClick={() => handleDelete(saved)}
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+
+        {historyId === saved.id && (
+          <div className="ml-2 border-l pl-3 space-y-1">
+            {versions.map((version) => (
+              <div key={version.version} className="flex items-center gap-2 text-xs">
+                <span className="font-mono w-8">v{version.version}</span>
+                <span className="flex-1 text-muted-foreground">
+                  {new Date(version.createdAt).toLocaleString()}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => loadRange(version.rangeString, `${saved.name} v${version.version}`)}
+                >
+                  Load
+                </Button>
+                {version.version !== saved.version && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    disabled={busy || version.rangeString === saved.rangeString}
+                    onClick={() => handleSaveVersion(saved, version.rangeString)}
+                  >
+                    Restore
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FolderOpen className="h-5 w-5" />
+            Range Library
+          </DialogTitle>
+          <DialogDescription>
+            Save ranges to folders, keep their history and share them, or move ranges to and from
+            other tools.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="library">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="library">My Ranges</TabsTrigger>
+            <TabsTrigger value="transfer">Import / Export</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="library" className="space-y-3">
+            {signedOut ? (
+              <div className="py-8 text-center text-sm text-muted-foreground">
+                Sign in to save ranges to your library. Import and export work without an account.
+              </div>
+            ) : (
+              <>
+                <div className="flex gap-2">
+                  <Input
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Range name"
+                    className="h-9"
+                  />
+                  <Input
+                    value={folder}
+                    onChange={(e) => setFolder(e.target.value)}
+                    placeholder="Folder (optional)"
+                    className="h-9"
+                    list="range-library-folders"
+                  />
+                  <datalist id="range-library-folders">
+                    {folders
+                      .filter((group) => group.folder)
+                      .map((group) => (
+                        <option key={group.folder} value={group.folder} />
+                      ))}
+                  </datalist>
+                  <Button
+                    className="h-9"
+                    disabled={!name.trim() || !currentRangeString || busyId === "new"}
+                    onClick={handleSaveNew}
+                  >
+                    {busyId === "new" ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Save className="h-4 w-4 mr-1" />
+                    )}
+                    Save
+                  </Button>
+                </div>
+
+                <ScrollArea className="h-72 border rounded-md">
+                  {loading ? (
+                    <div className="flex items-center justify-center py-8">
+                      <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                    </div>
+                  ) : ranges.length === 0 && clubRanges.length === 0 ? (
+                    <div className="py-8 text-center text-sm text-muted-foreground">
+                      No saved ranges yet
+                    </div>
+                  ) : (
+                    <div>
+                      {folders.map((group) => (
+                        <div key={group.folder || "__unfiled"}>
+                          <div className="px-3 py-1 bg-muted/40 text-xs font-semibold text-muted-foreground">
+                            {group.folder || "Unfiled"}
+                          </div>
+                          <div className="divide-y">{group.ranges.map(renderSavedRange)}</div>
+                        </div>
+                      ))}
+
+                      {clubRanges.length > 0 && (
+                        <div>
+                          <div className="px-3 py-1 bg-muted/40 text-xs font-semibold text-muted-foreground">
+                            Shared by your club
+                          </div>
+                          <div className="divide-y">
+                            {clubRanges.map((shared) => (
+                              <button
+                                key={shared.id}
+                                type="button"
+                                className="w-full px-3 py-2 text-left hover:bg-muted/30 transition-colors"
+                                onClick={() => loadRange(shared.rangeString, shared.name)}
+                              >
+                                <div className="text-sm font-medium">{shared.name}</div>
+                                <div className="text-[10px] text-muted-foreground">
+                                  {shared.folder ? `${shared.folder} • ` : ""}v{shared.version}
+                                </div>
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </ScrollArea>
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="transfer" className="space-y-4">
+            <div className="space-y-2">
+              <div className="text-sm font-medium">Import</div>
+              <textarea
+                value={importText}
+                onChange={(e) => setImportText(e.target.value)}
+                placeholder="QQ+,AKs,AQo:0.5 — or PioSOLVER / GTO+ / Flopzilla range text"
+                className={textareaClass}
+              />
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs text-muted-foreground">
+                  {importPreview
+                    ? `${countWeightedCombos(importPreview).toFixed(1)} combos recognised`
+                    : "The format is detected automatically"}
+                </span>
+                <Button
+                  size="sm"
+                  disabled={!importPreview || importPreview.size === 0}
+                  onClick={() => {
+                    if (!importPreview) return;
+                    onLoad(importPreview);
+                    setImportText("");
+                    onOpenChange(false);
+                  }}
+                >
+                  <Upload className="h-4 w-4 mr-1" />
+                  Load Range
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium">Export</span>
+                <Select
+                  value={exportFormat}
+                  onValueChange={(value) => setExportFormat(value as RangeTextFormat)}
+                >
+                  <SelectTrigger className="w-60 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RANGE_TEXT_FORMATS.map((format) => (
+                      <SelectItem key={format.value} value={format.value}>
+                        {format.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <textarea readOnly value={exportText} className={textareaClass} />
+              <div className="flex justify-end">
+                <Button size="sm" variant="outline" disabled={!exportText} onClick={handleCopyExport}>
+                  <Copy className="h-4 w-4 mr-1" />
+                  Copy
+                </Button>
+              </div>
+            </div>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { cn } from "@/lib/utils";
+import {
+  getHandClassCombos,
+  setComboWeight,
+  type WeightedRange,
+} from "@/lib/features/ranges/weightedRange";
+
+const SUIT_ICONS: Record<string, string> = { s: "♠", h: "♥", d: "♦", c: "♣" };
+const SUIT_COLORS: Record<string, string> = {
+  s: "text-slate-900",
+  h: "text-red-600",
+  d: "text-blue-600",
+  c: "text-emerald-600",
+};
+
+interface RangeWeightPanelProps {
+  range: WeightedRange;
+  onRangeChange: (range: WeightedRange) => void;
+  /** Frequency (0-1) the grid paints with */
+  paintWeight: number;
+  onPaintWeightChange: (weight: number) => void;
+  /** Hand class whose suit combos are shown, picked by right-clicking the grid */
+  focusedHand: string | null;
+  onFocusedHandChange: (hand: string | null) => void;
+  className?: string;
+}
+
+/**
+ * Frequency slider for painting the range grid, plus per-suit combo picking
+ * for one hand class. Combos are toggled at the paint frequency.
+ */
+export function RangeWeightPanel({
+  range,
+  onRangeChange,
+  paintWeight,
+  onPaintWeightChange,
+  focusedHand,
+  onFocusedHandChange,
+  className,
+}: RangeWeightPanelProps) {
+  const toggleCombo = (combo: string) => {
+    const current = range.get(combo);
+    onRangeChange(setComboWeight(range, combo, current === paintWeight ? 0 : paintWeight));
+  };
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex items-center gap-3">
+        <span className="text-xs text-muted-foreground whitespace-nowrap">Frequency</span>
+        <Slider
+          value={[Math.round(paintWeight * 100)]}
+          min={5}
+          max={100}
+          step={5}
+          onValueChange={([value]) => onPaintWeightChange(value / 100)}
+        />
+        <span className="text-xs font-mono w-10 text-right">{Math.round(paintWeight * 100)}%</span>
+      </div>
+
+      {focusedHand ? (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium">{focusedHand} combos</span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-5 w-5"
+              onClick={() => onFocusedHandChange(null)}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {getHandClassCombos(focusedHand).map((combo) => {
+              const weight = range.get(combo) ?? 0;
+              return (
+                <button
+                  key={combo}
+                  type="button"
+                  onClick={() => toggleCombo(combo)}
+                  className={cn(
+                    "flex flex-col items-center rounded border px-1.5 py-1 transition-colors",
+                    weight > 0
+                      ? "border-emerald-500 bg-slate-700"
+                      : "border-slate-600 bg-slate-900 opacity-60 hover:opacity-100"
+                  )}
+                >
+                  <span className="rounded bg-white px-1 text-xs font-bold leading-tight">
+                    {[combo.slice(0, 2), combo.slice(2, 4)].map((card) => (
+                      <span key={card}>
+                        <span className="text-slate-900">{card[0]}</span>
+                        <span className={SUIT_COLORS[card[1]]}>{SUIT_ICONS[card[1]]}</span>
+                      </span>
+                    ))}
+                  </span>
+                  <span className="text-[10px] text-slate-300">
+                    {weight > 0 ? `${Math.round(weight * 100)}%` : "—"}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ) : (
+        <p className="text-[10px] text-muted-foreground">
+          Right-click a hand to choose specific suit combos
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import type { RunoutCard, RunoutEffect, RunoutResult } from "@/lib/features/equity/runoutExplorer";
+
+const RANKS = "23456789TJQKA";
+const SUIT_ICONS: Record<string, string> = { s: "♠", h: "♥", d: "♦", c: "♣" };
+const SUIT_COLORS: Record<string, string> = {
+  s: "text-slate-900",
+  h: "text-red-600",
+  d: "text-blue-600",
+  c: "text-emerald-600",
+};
+
+const GROUPS: { effect: RunoutEffect; label: string; className: string }[] = [
+  { effect: "hero", label: "Improves Hero", className: "text-emerald-400" },
+  { effect: "villain", label: "Improves Villain", className: "text-red-400" },
+  { effect: "neutral", label: "Neutral", className: "text-muted-foreground" },
+];
+
+interface RunoutExplorerProps {
+  runouts: RunoutResult;
+  /** Called with the clicked card; the caller adds it to the board */
+  onSelectCard: (card: string) => void;
+  className?: string;
+}
+
+function sortCards(cards: RunoutCard[], effect: RunoutEffect): RunoutCard[] {
+  return [...cards].sort((a, b) => {
+    if (effect === "hero") return b.delta - a.delta;
+    if (effect === "villain") return a.delta - b.delta;
+    return RANKS.indexOf(b.card[0]) - RANKS.indexOf(a.card[0]);
+  });
+}
+
+/**
+ * Every possible next card with hero's resulting equity, grouped by who the
+ * card helps. Clicking a card deals it onto the board.
+ */
+export function RunoutExplorer({ runouts, onSelectCard, className }: RunoutExplorerProps) {
+  return (
+    <div className={cn("space-y-3", className)}>
+      {GROUPS.map((group) => {
+        const cards = sortCards(
+          runouts.cards.filter((c) => c.effect === group.effect),
+          group.effect
+        );
+        return (
+          <div key={group.effect} className="space-y-1">
+            <div className={cn("text-xs font-semibold", group.className)}>
+              {group.label} ({cards.length})
+            </div>
+            {cards.length === 0 ? (
+              <p className="text-[10px] text-muted-foreground">
+                {runouts.done ? "No cards" : "Calculating…"}
+              </p>
+            ) : (
+              <div className="flex flex-wrap gap-1">
+                {cards.map((runout) => {
+                  const rank = runout.card[0];
+                  const suit = runout.card[1];
+                  return (
+                    <button
+                      key={runout.card}
+                      onClick={() => onSelectCard(runout.card)}
+                      className="flex flex-col items-center rounded border border-slate-600 bg-slate-800 px-1.5 py-1 hover:border-slate-300 transition-colors"
+                      title={`Deal ${runout.card}: hero ${(runout.equities[0] * 100).toFixed(1)}%`}
+                    >
+                      <span className="rounded bg-white px-1 text-sm font-bold leading-tight">
+                        <span className="text-slate-900">{rank}</span>
+                        <span className={SUIT_COLORS[suit]}>{SUIT_ICONS[suit]}</span>
+                      </span>
+                      <span className="text-[10px] text-slate-200">
+                        {(runout.equities[0] * 100).toFixed(0)}%
+                      </span>
+                      <span className={cn("text-[10px]", group.className)}>
+                        {runout.delta >= 0 ? "+" : ""}
+                        {(runout.delta * 100).toFixed(0)}
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,373 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Save, Trash2 } from "lucide-react";
+import {
+  BOT_STYLES,
+  BUILT_IN_BOT_PRESETS,
+  MAX_BOT_OPPONENTS,
+  MIN_BOT_OPPONENTS,
+  deleteBotPreset,
+  loadBotPresets,
+  resizeOpponents,
+  saveBotPreset,
+  type BotPreset,
+  type BotSeatConfig,
+  type BotStyle,
+  type LocalTableSetup,
+} from "@/lib/features/game/botSetup";
+import {
+  BUILT_IN_RANGE_PROFILES,
+  POSTFLOP_AGGRESSION_LEVELS,
+  createProfileFromPreset,
+  type PostflopAggressionLevel,
+  type RangeBotProfile,
+} from "@/lib/features/game/rangeBot";
+import type { RangePreset } from "@/lib/types/ranges";
+
+interface BotTableSetupFormProps {
+  setup: LocalTableSetup;
+  onChange: (setup: LocalTableSetup) => void;
+  /** Presets from /api/ranges/presets, offered as range-driven strategies */
+  rangePresets?: RangePreset[];
+}
+
+const numberInputClassName =
+  "bg-slate-900 border-slate-800 [&::-webkit-inner-spin-button]:appearance-none [&::-webkit-outer-spin-button]:appearance-none [-moz-appearance:textfield]";
+
+const OPPONENT_COUNTS = Array.from(
+  { length: MAX_BOT_OPPONENTS - MIN_BOT_OPPONENTS + 1 },
+  (_, i) => MIN_BOT_OPPONENTS + i
+);
+
+const AGGRESSION_OPTIONS: { value: PostflopAggressionLevel; label: string }[] = [
+  { value: "passive", label: "Passive postflop" },
+  { value: "balanced", label: "Balanced postflop" },
+  { value: "aggressive", label: "Aggressive postflop" },
+];
+
+function toInt(value: string): number {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) ? 0 : parsed;
+}
+
+/** Select value for a seat: "style:<style>" or "range:<profile name>" */
+function getStrategyValue(bot: BotSeatConfig): string {
+  return bot.rangeProfile ? `range:${bot.rangeProfile.name}` : `style:${bot.style}`;
+}
+
+function getAggressionLevel(profile: RangeBotProfile): PostflopAggressionLevel | "custom" {
+  const match = AGGRESSION_OPTIONS.find(
+    (option) =>
+      JSON.stringify(POSTFLOP_AGGRESSION_LEVELS[option.value]) === JSON.stringify(profile.postflop)
+  );
+  return match ? match.value : "custom";
+}
+
+export function BotTableSetupForm({ setup, onChange, rangePresets = [] }: BotTableSetupFormProps) {
+  const [savedPresets, setSavedPresets] = useState<BotPreset[]>([]);
+  const [selectedPresetId, setSelectedPresetId] = useState<string>("");
+  const [presetName, setPresetName] = useState("");
+
+  // Presets come from localStorage, so load after mount
+  useEffect(() => {
+    setSavedPresets(loadBotPresets());
+  }, []);
+
+  const allPresets = [...BUILT_IN_BOT_PRESETS, ...savedPresets];
+  const selectedPreset = allPresets.find((p) => p.id === selectedPresetId);
+
+  const handlePresetChange = (id: string) => {
+    const preset = allPresets.find((p) => p.id === id);
+    if (!preset) return;
+    setSelectedPresetId(id);
+    setPresetName(preset.builtIn ? "" : preset.name);
+    onChange(preset.setup);
+  };
+
+  const handleSavePreset = () => {
+    if (!presetName.trim()) return;
+    const presets = saveBotPreset(presetName, setup);
+    setSavedPresets(presets);
+    setSelectedPresetId(presets[presets.length - 1].id);
+  };
+
+  const handleDeletePreset = () => {
+    if (!selectedPreset || selectedPreset.builtIn) return;
+    setSavedPresets(deleteBotPreset(selectedPreset.id));
+    setSelectedPresetId("");
+    setPresetName("");
+  };
+
+  const updateOpponent = (index: number, changes: Partial<BotSeatConfig>) => {
+    onChange({
+      ...setup,
+      opponents: setup.opponents.map((bot, i) =>
+        i === index ? { ...bot, ...changes } : bot
+      ),
+    });
+  };
+
+  // Presets named like a built-in profile are hidden so select values stay unique
+  const presetOptions = rangePresets.filter(
+    (preset) => !BUILT_IN_RANGE_PROFILES.some((profile) => profile.name === preset.name)
+  );
+
+  const handleStrategyChange = (index: number, value: string) => {
+    const bot = setup.opponents[index];
+    if (value.startsWith("style:")) {
+      updateOpponent(index, { style: value.slice(6) as BotStyle, rangeProfile: undefined });
+      return;
+    }
+
+    const name = value.slice(6);
+    if (bot.rangeProfile?.name === name) return;
+    const builtIn = BUILT_IN_RANGE_PROFILES.find((profile) => profile.name === name);
+    const preset = presetOptions.find((p) => p.name === name);
+    const postflop = bot.rangeProfile?.postflop;
+    if (builtIn) {
+      updateOpponent(index, { rangeProfile: postflop ? { ...builtIn, postflop } : builtIn });
+    } else if (preset) {
+      updateOpponent(index, { rangeProfile: createProfileFromPreset(preset, postflop) });
+    }
+  };
+
+  const handleAggressionChange = (index: number, level: PostflopAggressionLevel) => {
+    const profile = setup.opponents[index].rangeProfile;
+    if (!profile) return;
+    updateOpponent(index, {
+      rangeProfile: { ...profile, postflop: POSTFLOP_AGGRESSION_LEVELS[level] },
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Presets */}
+      <div className="space-y-2">
+        <Label>Preset</Label>
+        <div className="flex gap-2">
+          <Select value={selectedPresetId} onValueChange={handlePresetChange}>
+            <SelectTrigger className="bg-slate-900 border-slate-800">
+              <SelectValue placeholder="Custom table" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                <SelectLabel>Built-in</SelectLabel>
+                {BUILT_IN_BOT_PRESETS.map((preset) => (
+                  <SelectItem key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+              {savedPresets.length > 0 && (
+                <>
+                  <SelectSeparator />
+                  <SelectGroup>
+                    <SelectLabel>Saved</SelectLabel>
+                    {savedPresets.map((preset) => (
+                      <SelectItem key={preset.id} value={preset.id}>
+                        {preset.name}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                </>
+              )}
+            </SelectContent>
+          </Select>
+          {selectedPreset && !selectedPreset.builtIn && (
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={handleDeletePreset}
+              title="Delete preset"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Input
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            placeholder="Preset name"
+            className="bg-slate-900 border-slate-800"
+          />
+          <Button
+            variant="outline"
+            onClick={handleSavePreset}
+            disabled={!presetName.trim()}
+          >
+            <Save className="h-4 w-4 mr-1" />
+            Save
+          </Button>
+        </div>
+      </div>
+
+      {/* Stakes */}
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Your Stack</Label>
+          <Input
+            type="number"
+            value={setup.startingStack}
+            onChange={(e) => onChange({ ...setup, startingStack: toInt(e.target.value) })}
+            className={numberInputClassName}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>SB / BB</Label>
+          <div className="flex gap-2 items-center">
+            <Input
+              type="number"
+              value={setup.blinds.small}
+              onChange={(e) =>
+                onChange({ ...setup, blinds: { ...setup.blinds, small: toInt(e.target.value) } })
+              }
+              className={numberInputClassName}
+            />
+            <span className="text-slate-500">/</span>
+            <Input
+              type="number"
+              value={setup.blinds.big}
+              onChange={(e) =>
+                onChange({ ...setup, blinds: { ...setup.blinds, big: toInt(e.target.value) } })
+              }
+              className={numberInputClassName}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Opponents */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label>Opponents</Label>
+          <Select
+            value={String(setup.opponents.length)}
+            onValueChange={(value) =>
+              onChange({ ...setup, opponents: resizeOpponents(setup, parseInt(value, 10)) })
+            }
+          >
+            <SelectTrigger className="w-20 bg-slate-900 border-slate-800">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {OPPONENT_COUNTS.map((count) => (
+                <SelectItem key={count} value={String(count)}>
+                  {count}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          {setup.opponents.map((bot, index) => (
+            <div key={index} className="space-y-2">
+              <div className="grid grid-cols-[1fr_1fr_5rem] gap-2">
+                <Input
+                  value={bot.name}
+                  onChange={(e) => updateOpponent(index, { name: e.target.value })}
+                  className="bg-slate-900 border-slate-800"
+                  aria-label={`Seat ${index + 2} name`}
+                />
+                <Select
+                  value={getStrategyValue(bot)}
+                  onValueChange={(value) => handleStrategyChange(index, value)}
+                >
+                  <SelectTrigger className="bg-slate-900 border-slate-800">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectGroup>
+                      <SelectLabel>Styles</SelectLabel>
+                      {BOT_STYLES.map((style) => (
+                        <SelectItem key={style.value} value={`style:${style.value}`}>
+                          {style.label}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                    <SelectSeparator />
+                    <SelectGroup>
+                      <SelectLabel>Range profiles</SelectLabel>
+                      {BUILT_IN_RANGE_PROFILES.map((profile) => (
+                        <SelectItem key={profile.name} value={`range:${profile.name}`}>
+                          {profile.name}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                    {presetOptions.length > 0 && (
+                      <>
+                        <SelectSeparator />
+                        <SelectGroup>
+                          <SelectLabel>Range presets</SelectLabel>
+                          {presetOptions.map((preset) => (
+                            <SelectItem key={preset.id} value={`range:${preset.name}`}>
+                              {preset.name}
+                            </SelectItem>
+                          ))}
+                        </SelectGroup>
+                      </>
+                    )}
+                    {/* Keep a saved table's profile selectable even if its preset is gone */}
+                    {bot.rangeProfile &&
+                      !BUILT_IN_RANGE_PROFILES.some((p) => p.name === bot.rangeProfile!.name) &&
+                      !presetOptions.some((p) => p.name === bot.rangeProfile!.name) && (
+                        <SelectItem value={`range:${bot.rangeProfile.name}`}>
+                          {bot.rangeProfile.name}
+                        </SelectItem>
+                      )}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  value={bot.stack}
+                  onChange={(e) => updateOpponent(index, { stack: toInt(e.target.value) })}
+                  className={numberInputClassName}
+                  aria-label={`Seat ${index + 2} stack`}
+                />
+              </div>
+              {bot.rangeProfile && (
+                <Select
+                  value={getAggressionLevel(bot.rangeProfile)}
+                  onValueChange={(value) =>
+                    handleAggressionChange(index, value as PostflopAggressionLevel)
+                  }
+                >
+                  <SelectTrigger className="h-8 text-xs bg-slate-900 border-slate-800">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {AGGRESSION_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                    {getAggressionLevel(bot.rangeProfile) === "custom" && (
+                      <SelectItem value="custom" disabled>
+                        Custom postflop
+                      </SelectItem>
+                    )}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type { LocalSessionSummary } from "@/lib/features/game/localSession";
+
+interface LocalSessionSummaryDialogProps {
+  summary: LocalSessionSummary | null;
+  onClose: () => void;
+}
+
+function formatSigned(value: number, digits = 0): string {
+  const formatted = value.toFixed(digits);
+  return value > 0 ? `+${formatted}` : formatted;
+}
+
+export function LocalSessionSummaryDialog({ summary, onClose }: LocalSessionSummaryDialogProps) {
+  const rows = summary
+    ? [
+        { label: "Hands played", value: summary.handsPlayed.toString() },
+        { label: "Starting stack", value: summary.startingStack.toString() },
+        { label: "Final stack", value: summary.finalStack.toString() },
+        { label: "bb/100", value: formatSigned(summary.bbPer100, 1), signed: summary.bbPer100 },
+        { label: "Biggest win", value: formatSigned(summary.biggestWin), signed: summary.biggestWin },
+        { label: "Biggest loss", value: formatSigned(summary.biggestLoss), signed: summary.biggestLoss },
+      ]
+    : [];
+
+  return (
+    <Dialog open={summary !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Session Summary</DialogTitle>
+          <DialogDescription>
+            {summary && summary.handsPlayed > 0
+              ? "Here's how your practice session went."
+              : "No hands were completed this session."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {summary && (
+          <div className="space-y-4">
+            <div className="text-center">
+              <p className="text-xs text-muted-foreground">Net result</p>
+              <p
+                className={cn(
+                  "text-3xl font-bold",
+                  summary.netChips > 0 && "text-emerald-400",
+                  summary.netChips < 0 && "text-red-400"
+                )}
+              >
+                {formatSigned(summary.netChips)}
+              </p>
+            </div>
+
+            <div className="space-y-1.5 text-sm">
+              {rows.map((row) => (
+                <div key={row.label} className="flex justify-between">
+                  <span className="text-muted-foreground">{row.label}</span>
+                  <span
+                    className={cn(
+                      "font-medium",
+                      row.signed !== undefined && row.signed > 0 && "text-emerald-400",
+                      row.signed !== undefined && row.signed < 0 && "text-red-400"
+                    )}
+                  >
+                    {row.value}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button onClick={onClose}>Done</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,2 @@
+export { BotTableSetupForm } from './BotTableSetupForm';
+export { LocalSessionSummaryDialog } from './LocalSessionSummaryDialog';
@@ -0,0 +1,125 @@
+"use client";
+
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { usePreferences } from "@/components/providers/PreferencesProvider";
+import { HUD_STATS, formatHudStat, getHudStat } from "@/lib/features/hud/hudStats";
+import type { HudStatKey, PlayerHudStats } from "@/lib/types/hud";
+
+interface PlayerHudPopoverProps {
+  enabled: boolean;
+  playerName: string;
+  stats: PlayerHudStats | null | undefined;
+  children: React.ReactNode;
+}
+
+/**
+ * Compact HUD line shown under a player's stack, using the user's chosen stats
+ */
+export function PlayerHudLine({ stats }: { stats: PlayerHudStats | null | undefined }) {
+  const { hudLayout } = usePreferences();
+
+  if (!stats || stats.hands_played === 0) {
+    return <div className="text-xs text-slate-300">N/A</div>;
+  }
+
+  return (
+    <div className="text-xs text-slate-300 flex flex-wrap justify-center gap-x-1.5">
+      {hudLayout.stats.map((key) => {
+        const definition = getHudStat(key);
+        return (
+          <span key={key}>
+            {definition.shortLabel} {formatHudStat(key, definition.compute(stats))}
+          </span>
+        );
+      })}
+      <span className="text-slate-500">({stats.hands_played})</span>
+    </div>
+  );
+}
+
+/**
+ * Wraps a seat so clicking it opens detailed HUD stats with sample sizes,
+ * plus the controls for choosing which stats appear on the table.
+ */
+export function PlayerHudPopover({
+  enabled,
+  playerName,
+  stats,
+  children,
+}: PlayerHudPopoverProps) {
+  const { hudLayout, setHudLayout } = usePreferences();
+
+  if (!enabled) {
+    return <>{children}</>;
+  }
+
+  const toggleStat = (key: HudStatKey, checked: boolean) => {
+    // Keep the saved order matching HUD_STATS so the seat line is stable
+    const next = HUD_STATS.map((s) => s.key).filter((k) =>
+      k === key ? checked : hudLayout.stats.includes(k)
+    );
+    setHudLayout({ ...hudLayout, stats: next });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <div className="cursor-pointer">{children}</div>
+      </PopoverTrigger>
+      <PopoverContent className="w-72" side="top">
+        <div className="space-y-3">
+          <div className="flex items-baseline justify-between">
+            <h4 className="font-semibold truncate">{playerName}</h4>
+            <span className="text-xs text-muted-foreground">
+              {stats?.hands_played ?? 0} hands
+            </span>
+          </div>
+
+          <div className="space-y-1.5 text-sm">
+            {HUD_STATS.map((definition) => {
+              const value = stats
+                ? definition.compute(stats)
+                : { value: null, sampleSize: 0 };
+              return (
+                <div key={definition.key} className="flex items-center justify-between gap-2">
+                  <span className="text-muted-foreground" title={definition.description}>
+                    {definition.label}
+                  </span>
+                  <span className="font-medium">
+                    {formatHudStat(definition.key, value)}
+                    {definition.key !== "af" && value.value !== null && "%"}
+                    <span className="text-xs text-muted-foreground ml-1">
+                      ({value.sampleSize})
+                    </span>
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="h-px bg-border" />
+
+          <div className="space-y-2">
+            <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+              Show on table
+            </p>
+            {HUD_STATS.map((definition) => (
+              <div key={definition.key} className="flex items-center justify-between">
+                <Label htmlFor={`hud-${definition.key}`} className="text-sm font-normal">
+                  {definition.label}
+                </Label>
+                <Switch
+                  id={`hud-${definition.key}`}
+                  checked={hudLayout.stats.includes(definition.key)}
+                  onCheckedChange={(checked) => toggleStat(definition.key, checked)}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -5,12 +5,21 @@ import { GameState, Player } from "@/lib/types/poker";
 import { Card as CardType, getNextActivePlayer } from "@/lib/utils/pokerUtils";
 import { Card } from "@/components/common/Card";
 import { cn } from "@/lib/utils";
-import { useDebugMode, useIsMobile } from "@/lib/hooks";
+import { useDebugMode, useIsMobile, usePlayerNotes } from "@/lib/hooks";
 import { motion, AnimatePresence } from "framer-motion";
 import { getClientHandStrength } from "@backend/domain/evaluation/ClientHandEvaluator";
-// @ts-ignore - Importing from shared backend
-import { calculateEquity } from "@backend/domain/evaluation/EquityCalculator";
+import { calculateEquitySync, type EquityOptions } from "@/lib/features/equity/equityEngine";
 import { Badge } from "@/components/ui/badge";
+import { PlayerHudPopover, PlayerHudLine } from "./PlayerHudPopover";
+import type { PlayerHudStats } from "@/lib/types/hud";
+import { PlayerNoteBadge, PlayerNoteDialog } from "@/components/features/playerNotes";
+
+/** Runout equity is worked out on every render that changes the table, so keep it cheap */
+const RUNOUT_EQUITY_OPTIONS: EquityOptions = {
+  maxIterations: 20000,
+  exactLimit: 50000,
+  targetMargin: 0.005,
+};
 
 interface PokerTableProps {
   gameState: GameState & {
@@ -32,16 +41,9 @@ interface PokerTableProps {
   } | null; // Turn timer data from turn_timer_started event
   isSyncing?: boolean; // Whether we're currently syncing authoritative state
   maxSeats?: number; // Override for seat count (e.g., from tournament config)
-  showStats?: boolean; // Whether to display per-player stats under stacks
-  playerStats?: Record<
-    string,
-    | {
-        hands_played: number;
-        vpip_count: number;
-        pfr_count: number;
-      }
-    | null
-  >;
+  showStats?: boolean; // Whether to display the HUD under stacks
+  playerStats?: Record<string, PlayerHudStats | null>;
+  enableNotes?: boolean; // Load and edit the user's player notes (off for decorative tables)
 }
 
 // Calculate seat positions using sin/cos for equal spacing
@@ -85,11 +87,19 @@ export function PokerTable({
   maxSeats = 6,
   showStats = false,
   playerStats = {},
+  enableNotes = true,
 }: PokerTableProps) {
   const { isEnabled: debugMode } = useDebugMode();
   const isMobile = useIsMobile();
   const isPaused = gameState.isPaused || false;
 
+  // Private notes on opponents (not available against bots)
+  const { notes: playerNotes, saveNote, canEdit: canEditNotes } = usePlayerNotes(
+    gameState.players.map((p) => p.id),
+    enableNotes && !isLocalGame
+  );
+  const [noteTarget, setNoteTarget] = useState<{ id: string; name: string } | null>(null);
+
   // 1. MOUNT TRACKING: Detect if this is the first render vs an update
   // We use this to suppress animations on page load/refresh
   const isMountedRef = useRef(false);
@@ -200,13 +210,13 @@ export function PokerTable({
 
     try {
       // Calculate equity
-      const result = calculateEquity(hands, board);
+      const result = calculateEquitySync({ players: hands, board }, RUNOUT_EQUITY_OPTIONS);
 
-      // Map equities back to player seats
+      // Map equities back to player seats, as percentages
       const equities: Record<number, number> = {};
       result.equities.forEach((equity, index) => {
         const seat = playerSeatMap[index];
-        equities[seat] = equity;
+        equities[seat] = equity * 100;
       });
 
       return equities;
@@ -902,242 +912,261 @@ export function PokerTable({
             ) : (
               <>
                 {/* Player box - scaled 1.3x */}
-                <div
-                  className={cn(
-                    "bg-[#1a1a1a] border-[0.1875rem] rounded-xl p-3 min-w-[8.75rem] transition-all relative shadow-lg text-center z-10",
-                    // White border by default
-                    "border-white",
-                    // Green glowing border when current player can act
-                    isCurrent &&
-                      isActor &&
-                      !hasLeft &&
-                      !isDisconnected &&
-                      "border-[#4ade80] shadow-[0_0_1.25rem_rgba(74,222,128,0.6)]",
-                    // Red glowing border when it's another player's turn
-                    isActor &&
-                      !isCurrent &&
-                      !hasLeft &&
-                      !isDisconnected &&
-                      "border-[#ff4d4f] shadow-[0_0_1.25rem_rgba(255,77,79,0.6)]",
-                    // Grey out if folded OR has left OR disconnected
-                    (isFolded || hasLeft || isDisconnected) && "opacity-50",
-                    // Additional styling for left players (completely greyed out)
-                    hasLeft && "border-gray-500 grayscale",
-                    // Disconnected state styling (might return - less greyed)
-                    isDisconnected && !hasLeft && "border-blue-600/50"
-                  )}
-                  style={{
-                    filter:
-                      isDisconnected && !hasLeft
-                        ? "grayscale(100%)"
-                        : undefined,
-                    transform: `scale(${isMobile ? 0.9 : 1.15})`,
-                    transformOrigin: "center",
-                  }}
+                <PlayerHudPopover
+                  enabled={showStats}
+                  playerName={
+                    player.username || playerNames?.[player.id] || `Player ${seat}`
+                  }
+                  stats={playerStats[player.id]}
                 >
-                  {/* Name */}
                   <div
                     className={cn(
-                      "text-base font-semibold truncate mb-1",
-                      hasLeft
-                        ? "text-gray-400"
-                        : isDisconnected
-                        ? "text-blue-300"
-                        : player.status === "WAITING_FOR_NEXT_HAND"
-                        ? "text-amber-300 opacity-75"
-                        : "text-white"
+                      "bg-[#1a1a1a] border-[0.1875rem] rounded-xl p-3 min-w-[8.75rem] transition-all relative shadow-lg text-center z-10",
+                      // White border by default
+                      "border-white",
+                      // Green glowing border when current player can act
+                      isCurrent &&
+                        isActor &&
+                        !hasLeft &&
+                        !isDisconnected &&
+                        "border-[#4ade80] shadow-[0_0_1.25rem_rgba(74,222,128,0.6)]",
+                      // Red glowing border when it's another player's turn
+                      isActor &&
+                        !isCurrent &&
+                        !hasLeft &&
+                        !isDisconnected &&
+                        "border-[#ff4d4f] shadow-[0_0_1.25rem_rgba(255,77,79,0.6)]",
+                      // Grey out if folded OR has left OR disconnected
+                      (isFolded || hasLeft || isDisconnected) && "opacity-50",
+                      // Additional styling for left players (completely greyed out)
+                      hasLeft && "border-gray-500 grayscale",
+                      // Disconnected state styling (might return - less greyed)
+                      isDisconnected && !hasLeft && "border-blue-600/50"
                     )}
+                    style={{
+                      filter:
+                        isDisconnected && !hasLeft
+                          ? "grayscale(100%)"
+                          : undefined,
+                      transform: `scale(${isMobile ? 0.9 : 1.15})`,
+                      transformOrigin: "center",
+                    }}
                   >
-                    {player.id === currentUserId
-                      ? player.username || "You"
-                      : player.username ||
-                        playerNames?.[player.id] ||
-                        `Player ${seat}`}
-                    {isRemoved && " (Removed)"}
-                    {hasLeft && !isRemoved && " (Left)"}
-                  </div>
-
-                  {/* Waiting for next hand badge */}
-                  {player.status === "WAITING_FOR_NEXT_HAND" &&
-                    !hasLeft && (
-                      <div className="absolute -top-2 left-1/2 -translate-x-1/2 bg-amber-600/80 text-white text-[10px] px-2 py-0.5 rounded-full z-25">
-                        Waiting for next round
-                      </div>
+                    {/* Note badge (color tag / note icon) */}
+                    {playerNotes[player.id] && player.id !== currentUserId && (
+                      <PlayerNoteBadge
+                        note={playerNotes[player.id]}
+                        className="absolute -top-2 -right-2 z-25"
+                        onClick={() =>
+                          setNoteTarget({
+                            id: player.id,
+                            name: player.username || playerNames?.[player.id] || `Player ${seat}`,
+                          })
+                        }
+                      />
                     )}
 
-                  {/* Disconnected indicator (Reconnecting...) - Lower z-index to not block board */}
-                  {isDisconnected &&
-                    !hasLeft &&
-                    (() => {
-                      const endTime = playerDisconnectTimers[player.id];
-                      const now = Date.now();
-                      const secondsRemaining = endTime
-                        ? Math.max(0, Math.ceil((endTime - now) / 1000))
-                        : null;
-
-                      return (
-                        <div className="absolute -top-2 left-1/2 -translate-x-1/2 bg-blue-600 text-white text-xs px-2 py-0.5 rounded-full z-25 flex items-center gap-1">
-                          <span className="animate-pulse">🔄</span>
-                          <span>
-                            {secondsRemaining !== null && secondsRemaining > 0
-                              ? `Reconnecting... ${secondsRemaining}s`
-                              : "Reconnecting..."}
-                          </span>
+                    {/* Name - click to edit notes on opponents */}
+                    <div
+                      onClick={
+                        canEditNotes && player.id !== currentUserId
+                          ? (e) => {
+                              e.stopPropagation();
+                              setNoteTarget({
+                                id: player.id,
+                                name: player.username || playerNames?.[player.id] || `Player ${seat}`,
+                              });
+                            }
+                          : undefined
+                      }
+                      className={cn(
+                        "text-base font-semibold truncate mb-1",
+                        canEditNotes &&
+                          player.id !== currentUserId &&
+                          "cursor-pointer hover:underline",
+                        hasLeft
+                          ? "text-gray-400"
+                          : isDisconnected
+                          ? "text-blue-300"
+                          : player.status === "WAITING_FOR_NEXT_HAND"
+                          ? "text-amber-300 opacity-75"
+                          : "text-white"
+                      )}
+                    >
+                      {player.id === currentUserId
+                        ? player.username || "You"
+                        : player.username ||
+                          playerNames?.[player.id] ||
+                          `Player ${seat}`}
+                      {isRemoved && " (Removed)"}
+                      {hasLeft && !isRemoved && " (Left)"}
+                    </div>
+
+                    {/* Waiting for next hand badge */}
+                    {player.status === "WAITING_FOR_NEXT_HAND" &&
+                      !hasLeft && (
+                        <div className="absolute -top-2 left-1/2 -translate-x-1/2 bg-amber-600/80 text-white text-[10px] px-2 py-0.5 rounded-full z-25">
+                          Waiting for next round
                         </div>
-                      );
-                    })()}
-
-                  {/* Hand type indicator - only show for current player */}
-                  {player.playerHandType &&
-                    !player.folded &&
-                    player.id === currentUserId && (
-                      <motion.span
-                        initial={{ opacity: 0 }}
-                        animate={{ opacity: 1 }}
-                        className={cn(
-                          "text-sm font-medium block mb-1",
-                          // Strong hands in maroon/red
-                          player.playerHandType === "Royal Flush" ||
-                            player.playerHandType === "Straight Flush" ||
-                            player.playerHandType === "Four of a Kind" ||
-                            player.playerHandType === "Full House"
-                            ? "text-red-400"
-                            : // Good hands in orange
-                            player.playerHandType === "Flush" ||
-                              player.playerHandType === "Straight"
-                            ? "text-orange-400"
-                            : // Decent hands in yellow
-                            player.playerHandType === "Set" ||
-                              player.playerHandType === "Two Pair"
-                            ? "text-yellow-400"
-                            : // Weak hands in default color
-                              "text-gray-300"
-                        )}
-                      >
-                        {player.playerHandType}
-                      </motion.span>
-                    )}
+                      )}
 
-                  {/* Stack */}
-                  <div className="text-sm text-white font-medium mb-1">
-                    ${player.chips}
-                  </div>
+                    {/* Disconnected indicator (Reconnecting...) - Lower z-index to not block board */}
+                    {isDisconnected &&
+                      !hasLeft &&
+                      (() => {
+                        const endTime = playerDisconnectTimers[player.id];
+                        const now = Date.now();
+                        const secondsRemaining = endTime
+                          ? Math.max(0, Math.ceil((endTime - now) / 1000))
+                          : null;
 
-                  {/* Optional stats line (VPIP/PFR) */}
-                  {showStats && (
-                    <div className="text-xs text-slate-300">
-                      {(() => {
-                        const stats = playerStats[player.id];
-                        const hands = stats?.hands_played ?? 0;
-                        if (!stats || hands === 0) {
-                          return "N/A";
-                        }
-                        const vpipPct = Math.round(
-                          (stats.vpip_count / Math.max(1, hands)) * 100
-                        );
-                        const pfrPct = Math.round(
-                          (stats.pfr_count / Math.max(1, hands)) * 100
+                        return (
+                          <div className="absolute -top-2 left-1/2 -translate-x-1/2 bg-blue-600 text-white text-xs px-2 py-0.5 rounded-full z-25 flex items-center gap-1">
+                            <span className="animate-pulse">🔄</span>
+                            <span>
+                              {secondsRemaining !== null && secondsRemaining > 0
+                                ? `Reconnecting... ${secondsRemaining}s`
+                                : "Reconnecting..."}
+                            </span>
+                          </div>
                         );
-                        return `VPIP ${vpipPct}% | PFR ${pfrPct}%`;
                       })()}
-                    </div>
-                  )}
 
-                  {/* Turn Timer - Progress Bar at bottom of player box */}
-                  {/* Don't show timer when game is paused (for private games) */}
-                  {turnTimer?.activeSeat === player.seat &&
-                    progressPercent > 0 &&
-                    !isPaused && (
-                      <div className="absolute bottom-0 left-0 right-0 h-1 bg-gray-700/50 overflow-hidden rounded-b-xl z-5">
-                        <div
+                    {/* Hand type indicator - only show for current player */}
+                    {player.playerHandType &&
+                      !player.folded &&
+                      player.id === currentUserId && (
+                        <motion.span
+                          initial={{ opacity: 0 }}
+                          animate={{ opacity: 1 }}
                           className={cn(
-                            "h-full",
-                            // No CSS transitions - JavaScript updates handle animation smoothly
-                            progressPercent > 50
-                              ? "bg-green-500"
-                              : progressPercent > 25
-                              ? "bg-yellow-500"
-                              : "bg-red-500"
+                            "text-sm font-medium block mb-1",
+                            // Strong hands in maroon/red
+                            player.playerHandType === "Royal Flush" ||
+                              player.playerHandType === "Straight Flush" ||
+                              player.playerHandType === "Four of a Kind" ||
+                              player.playerHandType === "Full House"
+                              ? "text-red-400"
+                              : // Good hands in orange
+                              player.playerHandType === "Flush" ||
+                                player.playerHandType === "Straight"
+                              ? "text-orange-400"
+                              : // Decent hands in yellow
+                              player.playerHandType === "Set" ||
+                                player.playerHandType === "Two Pair"
+                              ? "text-yellow-400"
+                              : // Weak hands in default color
+                                "text-gray-300"
                           )}
-                          style={{
-                            width: `${progressPercent}%`,
-                            // Use will-change for better performance
-                            willChange: "width",
-                          }}
-                        />
-                      </div>
-                    )}
+                        >
+                          {player.playerHandType}
+                        </motion.span>
+                      )}
 
-                  {/* Dealer button - small white circle with "D" - High z-index to appear above border and timer bar */}
-                  {isDealer && (
-                    <div className="absolute -top-3 -left-3 w-8 h-8 bg-white rounded-full flex items-center justify-center shadow-lg z-50">
-                      <span className="text-black text-xs font-bold">D</span>
+                    {/* Stack */}
+                    <div className="text-sm text-white font-medium mb-1">
+                      ${player.chips}
                     </div>
-                  )}
 
-                  {/* Small blind indicator - High z-index to appear above border and timer bar */}
-                  {/* In Heads-Up, Button is SB but we only show dealer badge, not SB badge */}
-                  {/* In ring games, show SB badge only if not dealer */}
-                  {isSmallBlind && !isDealer && (
-                    <div className="absolute -top-2 -right-2 bg-blue-500 text-white text-xs px-2 py-1 rounded-full font-bold z-50">
-                      SB
-                    </div>
-                  )}
+                    {/* Optional HUD line (stats chosen in HUD layout) */}
+                    {showStats && <PlayerHudLine stats={playerStats[player.id]} />}
 
-                  {/* Big blind indicator - High z-index to appear above border and timer bar */}
-                  {/* Show BB badge if player is BB and not dealer */}
-                  {isBigBlind && !isDealer && (
-                    <div className="absolute -top-2 -right-2 bg-red-500 text-white text-xs px-2 py-1 rounded-full font-bold z-50">
-                      BB
-                    </div>
-                  )}
+                    {/* Turn Timer - Progress Bar at bottom of player box */}
+                    {/* Don't show timer when game is paused (for private games) */}
+                    {turnTimer?.activeSeat === player.seat &&
+                      progressPercent > 0 &&
+                      !isPaused && (
+                        <div className="absolute bottom-0 left-0 right-0 h-1 bg-gray-700/50 overflow-hidden rounded-b-xl z-5">
+                          <div
+                            className={cn(
+                              "h-full",
+                              // No CSS transitions - JavaScript updates handle animation smoothly
+                              progressPercent > 50
+                                ? "bg-green-500"
+                                : progressPercent > 25
+                                ? "bg-yellow-500"
+                                : "bg-red-500"
+                            )}
+                            style={{
+                              width: `${progressPercent}%`,
+                              // Use will-change for better performance
+                              willChange: "width",
+                            }}
+                          />
+                        </div>
+                      )}
 
-                  {/* Host indicator - Positioned bottom-left to avoid overlap with other badges */}
-                  {isHost && (
-                    <div className="absolute -bottom-2 -left-2 bg-yellow-500 text-black text-xs px-2 py-1 rounded-full font-bold z-50">
-                      Host
-                    </div>
-                  )}
+                    {/* Dealer button - small white circle with "D" - High z-index to appear above border and timer bar */}
+                    {isDealer && (
+                      <div className="absolute -top-3 -left-3 w-8 h-8 bg-white rounded-full flex items-center justify-center shadow-lg z-50">
+                        <span className="text-black text-xs font-bold">D</span>
+                      </div>
+                    )}
 
-                  {/* Equity display - bottom right corner during runouts */}
-                  <AnimatePresence>
-                    {playerEquities[player.seat] !== undefined &&
-                      !hasLeft &&
-                      !isDisconnected &&
-                      !player.folded && (
-                        <motion.div
-                          key={`equity-${player.seat}`}
-                          className="absolute -bottom-2 -right-2 z-50"
-                          initial={{
-                            opacity: 0,
-                            scale: 0.3,
-                          }}
-                          animate={{
-                            opacity: 1,
-                            scale: 1,
-                          }}
-                          exit={{
-                            opacity: 0,
-                            scale: 0.3,
-                          }}
-                          transition={
-                            equityAnimationRef.current[player.seat]
-                              ? {
-                                  type: "spring",
-                                  stiffness: 300,
-                                  damping: 25,
-                                  duration: 0.5,
-                                }
-                              : {}
-                          }
-                        >
-                          <div className="bg-black/90 text-white text-xs px-2 py-1 rounded-lg font-semibold shadow-lg border border-white/30">
-                            {playerEquities[player.seat].toFixed(1)}%
-                          </div>
-                        </motion.div>
-                      )}
-                  </AnimatePresence>
-                </div>
+                    {/* Small blind indicator - High z-index to appear above border and timer bar */}
+                    {/* In Heads-Up, Button is SB but we only show dealer badge, not SB badge */}
+                    {/* In ring games, show SB badge only if not dealer */}
+                    {isSmallBlind && !isDealer && (
+                      <div className="absolute -top-2 -right-2 bg-blue-500 text-white text-xs px-2 py-1 rounded-full font-bold z-50">
+                        SB
+                      </div>
+                    )}
+
+                    {/* Big blind indicator - High z-index to appear above border and timer bar */}
+                    {/* Show BB badge if player is BB and not dealer */}
+                    {isBigBlind && !isDealer && (
+                      <div className="absolute -top-2 -right-2 bg-red-500 text-white text-xs px-2 py-1 rounded-full font-bold z-50">
+                        BB
+                      </div>
+                    )}
+
+                    {/* Host indicator - Positioned bottom-left to avoid overlap with other badges */}
+                    {isHost && (
+                      <div className="absolute -bottom-2 -left-2 bg-yellow-500 text-black text-xs px-2 py-1 rounded-full font-bold z-50">
+                        Host
+                      </div>
+                    )}
+
+                    {/* Equity display - bottom right corner during runouts */}
+                    <AnimatePresence>
+                      {playerEquities[player.seat] !== undefined &&
+                        !hasLeft &&
+                        !isDisconnected &&
+                        !player.folded && (
+                          <motion.div
+                            key={`equity-${player.seat}`}
+                            className="absolute -bottom-2 -right-2 z-50"
+                            initial={{
+                              opacity: 0,
+                              scale: 0.3,
+                            }}
+                            animate={{
+                              opacity: 1,
+                              scale: 1,
+                            }}
+                            exit={{
+                              opacity: 0,
+                              scale: 0.3,
+                            }}
+                            transition={
+                              equityAnimationRef.current[player.seat]
+                                ? {
+                                    type: "spring",
+                                    stiffness: 300,
+                                    damping: 25,
+                                    duration: 0.5,
+                                  }
+                                : {}
+                            }
+                          >
+                            <div className="bg-black/90 text-white text-xs px-2 py-1 rounded-lg font-semibold shadow-lg border border-white/30">
+                              {playerEquities[player.seat].toFixed(1)}%
+                            </div>
+                          </motion.div>
+                        )}
+                    </AnimatePresence>
+                  </div>
+                </PlayerHudPopover>
 
                 {/* Hand strength badge - only show for hero player, positioned below player box */}
                 {player.id === currentUserId &&
@@ -1287,6 +1316,16 @@ export function PokerTable({
           </div>
         );
       })}
+
+      {noteTarget && (
+        <PlayerNoteDialog
+          open={noteTarget !== null}
+          onOpenChange={(open) => !open && setNoteTarget(null)}
+          playerName={noteTarget.name}
+          note={playerNotes[noteTarget.id]}
+          onSave={(text, color) => saveNote(noteTarget.id, text, color)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,148 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useHandComments, useHandReviews } from "@/lib/hooks";
+import { cn } from "@/lib/utils";
+import { MAX_HAND_TAGS, addHandTag } from "@/lib/features/handHistory/handTags";
+import { HandStarButton } from "./HandStarButton";
+import { HandTagList } from "./HandTagList";
+
+interface HandReviewPanelProps {
+  handId: string;
+  /** Action shown in the replay; new comments attach to it */
+  actionIndex: number;
+  /** Jump the replay to a commented action */
+  onSeek: (actionIndex: number) => void;
+  className?: string;
+}
+
+const formatActionLabel = (actionIndex: number) =>
+  actionIndex < 0 ? "Start" : `Action ${actionIndex + 1}`;
+
+/**
+ * Star, tags and per-action comments for a hand, shown beside the replay
+ */
+export function HandReviewPanel({ handId, actionIndex, onSeek, className }: HandReviewPanelProps) {
+  const { reviews, saveReview, canEdit: canReview } = useHandReviews([handId]);
+  const { comments, addComment, deleteComment, canEdit: canComment } = useHandComments(handId);
+  const [tagInput, setTagInput] = useState("");
+  const [commentInput, setCommentInput] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const review = reviews[handId];
+  const starred = review?.starred ?? false;
+  const tags = review?.tags ?? [];
+
+  const handleAddTag = async (event: FormEvent) => {
+    event.preventDefault();
+    const next = addHandTag(tags, tagInput);
+    if (next === tags) return;
+    if (await saveReview(handId, starred, next)) setTagInput("");
+  };
+
+  const handleAddComment = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    const saved = await addComment(actionIndex, commentInput);
+    setIsSaving(false);
+    if (saved) setCommentInput("");
+  };
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold">Review</h3>
+        <HandStarButton
+          starred={starred}
+          disabled={!canReview}
+          onToggle={() => saveReview(handId, !starred, tags)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-xs text-muted-foreground">Tags</div>
+        <HandTagList
+          tags={tags}
+          onRemove={
+            canReview
+              ? (tag) => saveReview(handId, starred, tags.filter((t) => t !== tag))
+              : undefined
+          }
+        />
+        <form onSubmit={handleAddTag} className="flex gap-2">
+          <Input
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            placeholder="bluff-catch, cooler..."
+            disabled={!canReview || tags.length >= MAX_HAND_TAGS}
+            className="h-8 text-xs"
+          />
+          <Button type="submit" variant="outline" size="sm" disabled={!canReview || !tagInput.trim()}>
+            Add
+          </Button>
+        </form>
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-xs text-muted-foreground">Comments</div>
+        {comments.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No comments yet</p>
+        ) : (
+          <ul className="space-y-2">
+            {comments.map((comment) => (
+              <li
+                key={comment.id}
+                className={cn(
+                  "rounded border p-2 text-xs",
+                  comment.actionIndex === actionIndex
+                    ? "border-emerald-500/60 bg-emerald-500/10"
+                    : "border-slate-700"
+                )}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <button
+                    type="button"
+                    onClick={() => onSeek(comment.actionIndex)}
+                    className="font-medium text-emerald-400 hover:underline"
+                  >
+                    {formatActionLabel(comment.actionIndex)}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => deleteComment(comment.id)}
+                    className="text-muted-foreground hover:text-destructive"
+                    aria-label="Delete comment"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </div>
+                <p className="mt-1 whitespace-pre-wrap">{comment.comment}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+        <form onSubmit={handleAddComment} className="space-y-2">
+          <textarea
+            value={commentInput}
+            onChange={(e) => setCommentInput(e.target.value)}
+            placeholder={`Comment on ${formatActionLabel(actionIndex).toLowerCase()}...`}
+            disabled={!canComment}
+            className="w-full h-20 rounded-md border border-input bg-background px-3 py-2 text-xs ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          />
+          <Button
+            type="submit"
+            size="sm"
+            className="w-full"
+            disabled={!canComment || isSaving || !commentInput.trim()}
+          >
+            {isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Add Comment
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+}
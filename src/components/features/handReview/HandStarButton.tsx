@@ -0,0 +1,36 @@
+"use client";
+
+import { Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface HandStarButtonProps {
+  starred: boolean;
+  onToggle: () => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Star toggle for a hand. Stops the click so it can sit inside clickable rows.
+ */
+export function HandStarButton({ starred, onToggle, disabled, className }: HandStarButtonProps) {
+  return (
+    <button
+      type="button"
+      disabled={disabled}
+      title={starred ? "Unstar hand" : "Star hand for review"}
+      aria-pressed={starred}
+      onClick={(e) => {
+        e.stopPropagation();
+        onToggle();
+      }}
+      className={cn(
+        "inline-flex items-center justify-center rounded p-1 transition-colors disabled:opacity-40",
+        starred ? "text-yellow-400 hover:text-yellow-300" : "text-muted-foreground hover:text-foreground",
+        className
+      )}
+    >
+      <Star className={cn("h-4 w-4", starred && "fill-current")} />
+    </button>
+  );
+}
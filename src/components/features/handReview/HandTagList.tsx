@@ -0,0 +1,41 @@
+"use client";
+
+import { X } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface HandTagListProps {
+  tags: string[];
+  /** Shows a remove button on each tag */
+  onRemove?: (tag: string) => void;
+  className?: string;
+}
+
+export function HandTagList({ tags, onRemove, className }: HandTagListProps) {
+  if (tags.length === 0) return null;
+
+  return (
+    <div className={cn("flex flex-wrap gap-1", className)}>
+      {tags.map((tag) => (
+        <span
+          key={tag}
+          className="inline-flex items-center gap-1 rounded-full border border-slate-600 bg-slate-800/60 px-2 py-0.5 text-[11px] text-slate-200"
+        >
+          {tag}
+          {onRemove && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                onRemove(tag);
+              }}
+              className="text-slate-400 hover:text-slate-100"
+              aria-label={`Remove tag ${tag}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { ArrowLeft, MessageSquare, Play } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ReplayViewer } from "@/components/features/replay/ReplayViewer";
+import { fetchReviewQueue, type ReviewQueue } from "@/lib/api/supabase/handReviews";
+import { useHandReviews } from "@/lib/hooks";
+import { cn, getErrorMessage } from "@/lib/utils";
+import { getTagCounts } from "@/lib/features/handHistory/handTags";
+import { HandStarButton } from "./HandStarButton";
+import { HandTagList } from "./HandTagList";
+
+interface ReviewQueuePageProps {
+  userId: string;
+}
+
+const STARRED = "starred";
+const COMMENTED = "commented";
+
+export function ReviewQueuePage({ userId }: ReviewQueuePageProps) {
+  const [queue, setQueue] = useState<ReviewQueue>({ hands: [], reviews: {}, comments: {} });
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<string | null>(null);
+  const [replayIndex, setReplayIndex] = useState<number | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    setError(null);
+    try {
+      setQueue(await fetchReviewQueue(userId));
+    } catch (err: unknown) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  // Live stars and tags; the queue itself only changes on reload so rows don't jump
+  const handIds = useMemo(() => queue.hands.map((hand) => hand.id), [queue.hands]);
+  const { reviews, saveReview, refresh, canEdit } = useHandReviews(handIds);
+
+  const tagCounts = useMemo(() => getTagCounts(Object.values(reviews)), [reviews]);
+
+  const visibleHands = useMemo(
+    () =>
+      queue.hands.filter((hand) => {
+        if (!filter) return true;
+        if (filter === STARRED) return !!reviews[hand.id]?.starred;
+        if (filter === COMMENTED) return (queue.comments[hand.id]?.length ?? 0) > 0;
+        return reviews[hand.id]?.tags.includes(filter) ?? false;
+      }),
+    [queue, reviews, filter]
+  );
+
+  const filters = [
+    { key: STARRED, label: "Starred" },
+    { key: COMMENTED, label: "Commented" },
+    ...tagCounts.map(({ tag, count }) => ({ key: tag, label: `${tag} (${count})` })),
+  ];
+
+  const replayHand = replayIndex !== null ? visibleHands[replayIndex] : undefined;
+
+  return (
+    <div className="min-h-screen p-8 overflow-auto">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <Link
+          href="/profile"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Profile
+        </Link>
+
+        <div>
+          <h1 className="text-2xl font-bold">Review Queue</h1>
+          <p className="text-muted-foreground text-sm">
+            {isLoading
+              ? "Loading your hands..."
+              : error
+              ? `Could not load your review queue: ${error}`
+              : queue.hands.length === 0
+              ? "Star, tag or comment on a hand in the replay viewer to add it here."
+              : `${queue.hands.length.toLocaleString()} hand${queue.hands.length === 1 ? "" : "s"} to review`}
+          </p>
+        </div>
+
+        {queue.hands.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            <button
+              type="button"
+              onClick={() => setFilter(null)}
+              className={cn(
+                "rounded border px-2 py-1 text-xs transition-colors",
+                filter === null
+                  ? "border-emerald-500 bg-emerald-500/20 text-emerald-300"
+                  : "border-slate-600 text-slate-300 hover:border-slate-400"
+              )}
+            >
+              All
+            </button>
+            {filters.map(({ key, label }) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => setFilter(filter === key ? null : key)}
+                className={cn(
+                  "rounded border px-2 py-1 text-xs transition-colors",
+                  filter === key
+                    ? "border-emerald-500 bg-emerald-500/20 text-emerald-300"
+                    : "border-slate-600 text-slate-300 hover:border-slate-400"
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <Card className="bg-card backdrop-blur-sm border">
+          <CardContent className="p-0 overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="hover:bg-transparent">
+                  <TableHead className="w-10" />
+                  <TableHead>Hand #</TableHead>
+                  <TableHead>Played</TableHead>
+                  <TableHead className="text-right">Pot</TableHead>
+                  <TableHead>Tags</TableHead>
+                  <TableHead>Comments</TableHead>
+                  <TableHead className="w-[100px] text-right">Action</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleHands.map((hand, index) => {
+                  const review = reviews[hand.id];
+                  const comments = queue.comments[hand.id] ?? [];
+
+                  return (
+                    <TableRow
+                      key={hand.id}
+                      className="hover:bg-muted/30 cursor-pointer"
+                      onClick={() => setReplayIndex(index)}
+                    >
+                      <TableCell>
+                        <HandStarButton
+                          starred={review?.starred ?? false}
+                          disabled={!canEdit}
+                          onToggle={() => saveReview(hand.id, !review?.starred, review?.tags ?? [])}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-mono font-bold text-sm text-primary">
+                          #{hand.hand_index}
+                        </div>
+                        <div className="text-xs text-muted-foreground font-mono">
+                          {hand.game_id.slice(0, 8)}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {format(new Date(hand.played_at), "MMM d, yyyy HH:mm")}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {hand.final_pot.toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        <HandTagList tags={review?.tags ?? []} />
+                      </TableCell>
+                      <TableCell className="max-w-[260px]">
+                        {comments.length > 0 ? (
+                          <div className="flex items-start gap-1 text-xs text-muted-foreground">
+                            <MessageSquare className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                            <span className="truncate" title={comments[0].comment}>
+                              {comments.length > 1 && `(${comments.length}) `}
+                              {comments[0].comment}
+                            </span>
+                          </div>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="inline-flex items-center gap-1 text-sm font-medium text-emerald-500">
+                          Review <Play className="h-4 w-4" />
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                {!isLoading && queue.hands.length > 0 && visibleHands.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-12 text-muted-foreground">
+                      No hands match this filter
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      {replayHand && replayIndex !== null && (
+        <ReplayViewer
+          key={replayHand.id}
+          hand={replayHand}
+          currentUserId={userId}
+          onClose={() => {
+            setReplayIndex(null);
+            // Pick up stars, tags and comments changed while reviewing
+            loadQueue();
+            refresh();
+          }}
+          handQueue={{
+            index: replayIndex,
+            total: visibleHands.length,
+            onSelect: setReplayIndex,
+          }}
+        />
+      )}
+    </div>
+  );
+}
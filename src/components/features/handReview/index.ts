@@ -0,0 +1,4 @@
+export { HandStarButton } from './HandStarButton';
+export { HandTagList } from './HandTagList';
+export { HandReviewPanel } from './HandReviewPanel';
+export { ReviewQueuePage } from './ReviewQueuePage';
@@ -0,0 +1,76 @@
+"use client";
+
+import { useMemo } from "react";
+import { Card as PokerCard } from "@/components/common/Card";
+import { useEquity } from "@/lib/hooks";
+import type { EquityRequest } from "@/lib/features/equity/equityEngine";
+import type { ContentBlock } from "@/lib/types/lessons";
+
+const EXACT_HAND_REGEX = /^([2-9TJQKA][cdhs]){2}$/i;
+
+interface LessonEquityBlockProps {
+  block: ContentBlock;
+}
+
+/**
+ * Live equity example inside a lesson. Each player is either a specific hand
+ * ("AsKh") or a range string ("QQ+,AKs").
+ */
+export function LessonEquityBlock({ block }: LessonEquityBlockProps) {
+  const players = useMemo(() => block.players || [], [block.players]);
+  const board = useMemo(() => block.board || [], [block.board]);
+
+  const request = useMemo<EquityRequest | null>(() => {
+    if (players.length < 2) return null;
+    return {
+      players: players.map((p) => (EXACT_HAND_REGEX.test(p) ? [p.slice(0, 2), p.slice(2, 4)] : p)),
+      board,
+    };
+  }, [players, board]);
+
+  const { result, error } = useEquity(request, { debounceMs: 0 });
+
+  return (
+    <div className="mb-8">
+      {board.length > 0 && (
+        <div className="flex justify-center items-center gap-2 mb-4 flex-wrap">
+          {board.map((card, i) => (
+            <div key={i} className="flex-shrink-0" style={{ width: '3.5rem', height: '5rem' }}>
+              <PokerCard card={card} />
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="max-w-md mx-auto space-y-2">
+        {players.map((player, i) => {
+          const equity = result?.equities[i];
+          return (
+            <div key={i} className="space-y-1">
+              <div className="flex justify-between text-sm" style={{ color: '#ffffff' }}>
+                <span className="font-medium">
+                  {block.labels?.[i] || `Player ${i + 1}`}{' '}
+                  <span className="font-mono text-xs text-muted-foreground">{player}</span>
+                </span>
+                <span className="font-mono">
+                  {equity !== undefined ? `${(equity * 100).toFixed(1)}%` : '…'}
+                </span>
+              </div>
+              <div className="h-2 rounded bg-muted overflow-hidden">
+                <div
+                  className="h-full bg-emerald-500 transition-all"
+                  style={{ width: `${(equity ?? 0) * 100}%` }}
+                />
+              </div>
+            </div>
+          );
+        })}
+        {error && <p className="text-sm text-red-400">{error}</p>}
+      </div>
+      {block.caption && (
+        <p className="text-center text-sm text-muted-foreground italic mt-4" style={{ color: '#9ca3af' }}>
+          {block.caption}
+        </p>
+      )}
+    </div>
+  );
+}
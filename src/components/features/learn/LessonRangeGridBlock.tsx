@@ -0,0 +1,72 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { RangeGrid } from "@/components/features/analysis/RangeGrid";
+import { useRangeLibraryApi } from "@/lib/api/http";
+import {
+  getHandClassWeights,
+  parseWeightedRange,
+} from "@/lib/features/ranges/weightedRange";
+import type { ContentBlock } from "@/lib/types/lessons";
+
+interface LessonRangeGridBlockProps {
+  block: ContentBlock;
+}
+
+/**
+ * Read-only range grid inside a lesson. The range comes from a shared library
+ * range (`rangeShareToken`), a weighted range string (`range`) or a plain list
+ * of hand classes (`hands`), in that order.
+ */
+export function LessonRangeGridBlock({ block }: LessonRangeGridBlockProps) {
+  const { getSharedRange } = useRangeLibraryApi();
+  const [sharedRangeString, setSharedRangeString] = useState<string | null>(null);
+  const [sharedName, setSharedName] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!block.rangeShareToken) return;
+    let cancelled = false;
+
+    getSharedRange(block.rangeShareToken).then((result) => {
+      if (cancelled) return;
+      if ("error" in result) {
+        console.error("[Lessons] Failed to load shared range:", result.error);
+        return;
+      }
+      setSharedRangeString(result.range.rangeString);
+      setSharedName(result.range.name);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [block.rangeShareToken, getSharedRange]);
+
+  const weights = useMemo(() => {
+    const rangeString = sharedRangeString ?? block.range;
+    if (rangeString) return getHandClassWeights(parseWeightedRange(rangeString));
+    return new Map((block.hands || []).map((hand) => [hand, 1]));
+  }, [sharedRangeString, block.range, block.hands]);
+
+  const selectedHands = useMemo(() => new Set(weights.keys()), [weights]);
+  const caption = block.caption || sharedName;
+
+  return (
+    <div className="mb-8">
+      <div className="flex justify-center">
+        <div className="w-full max-w-md">
+          <RangeGrid
+            selectedHands={selectedHands}
+            weights={weights}
+            onToggle={() => {}} // Read-only
+          />
+        </div>
+      </div>
+      {caption && (
+        <p className="text-center text-sm text-muted-foreground italic mt-4" style={{ color: '#9ca3af' }}>
+          {caption}
+        </p>
+      )}
+    </div>
+  );
+}
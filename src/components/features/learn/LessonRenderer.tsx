@@ -13,7 +13,8 @@ import { ChevronRight, ChevronLeft, CheckCircle2, Lightbulb, Calculator, Grid }
 import Link from "next/link";
 import Image from "next/image";
 import { Card as PokerCard } from "@/components/common/Card";
-import { RangeGrid } from "@/components/features/analysis/RangeGrid";
+import { LessonEquityBlock } from "./LessonEquityBlock";
+import { LessonRangeGridBlock } from "./LessonRangeGridBlock";
 import { useIsMobile } from "@/lib/hooks";
 
 interface LessonRendererProps {
@@ -202,23 +203,10 @@ export function LessonRenderer({ lesson }: LessonRendererProps) {
         );
 
       case 'range_grid':
-        return (
-          <div key={index} className="mb-8">
-            <div className="flex justify-center">
-              <div className="w-full max-w-md">
-                <RangeGrid
-                  selectedHands={new Set(block.hands || [])}
-                  onToggle={() => {}} // Read-only
-                />
-              </div>
-            </div>
-            {block.caption && (
-              <p className="text-center text-sm text-muted-foreground italic mt-4" style={{ color: '#9ca3af' }}>
-                {block.caption}
-              </p>
-            )}
-          </div>
-        );
+        return <LessonRangeGridBlock key={index} block={block} />;
+
+      case 'equity':
+        return <LessonEquityBlock key={index} block={block} />;
 
       default:
         return null;
@@ -0,0 +1,169 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { RangeGrid } from "@/components/features/analysis/RangeGrid";
+import { Button } from "@/components/ui/button";
+import {
+  getHandAccuracy,
+  getPositionTallies,
+  getTotalTally,
+  type TrainerStats,
+} from "@/lib/features/ranges/preflopTrainer";
+
+/** Days shown in the accuracy chart */
+const CHART_DAYS = 14;
+
+interface PreflopTrainerStatsProps {
+  stats: TrainerStats;
+  onReset: () => void;
+}
+
+/**
+ * Trainer progress: overall, per-position and daily accuracy, a heatmap of
+ * accuracy per hand class (red = often missed) and the most-missed hands.
+ */
+export function PreflopTrainerStats({ stats, onReset }: PreflopTrainerStatsProps) {
+  const accuracy = useMemo(() => getHandAccuracy(stats), [stats]);
+  const answeredHands = useMemo(() => new Set(accuracy.keys()), [accuracy]);
+  const total = useMemo(() => getTotalTally(stats), [stats]);
+  const positions = useMemo(() => getPositionTallies(stats), [stats]);
+
+  const mostMissed = useMemo(
+    () =>
+      Object.entries(stats.hands)
+        .map(([handClass, tally]) => ({ handClass, ...tally, misses: tally.attempts - tally.correct }))
+        .filter((hand) => hand.misses > 0)
+        .sort((a, b) => b.misses - a.misses || a.correct / a.attempts - b.correct / b.attempts)
+        .slice(0, 8),
+    [stats]
+  );
+
+  const dailyData = useMemo(
+    () =>
+      Object.entries(stats.days)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .slice(-CHART_DAYS)
+        .map(([day, tally]) => ({
+          day: day.slice(5),
+          accuracy: Math.round((tally.correct / tally.attempts) * 1000) / 10,
+          attempts: tally.attempts,
+        })),
+    [stats]
+  );
+
+  if (total.attempts === 0) {
+    return (
+      <p className="text-xs text-muted-foreground text-center">
+        Answer a few hands to see your accuracy by hand
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="text-2xl font-bold">
+            {((total.correct / total.attempts) * 100).toFixed(1)}%
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {total.correct} of {total.attempts} answers correct
+          </div>
+        </div>
+        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={onReset}>
+          Reset Stats
+        </Button>
+      </div>
+
+      {positions.length > 0 && (
+        <div>
+          <div className="text-xs font-semibold mb-1">Accuracy by position</div>
+          <div className="grid grid-cols-3 gap-1">
+            {positions.map(({ position, tally }) => (
+              <div key={position} className="rounded border border-slate-700 px-1.5 py-1 text-xs">
+                <span className="font-medium">{position}</span>{" "}
+                <span className="text-muted-foreground">
+                  {((tally.correct / tally.attempts) * 100).toFixed(0)}% ({tally.attempts})
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <div className="text-xs font-semibold mb-1">Accuracy by hand</div>
+        <RangeGrid
+          selectedHands={answeredHands}
+          heatmap={accuracy}
+          heatmapLabel="correct"
+          onToggle={() => {}}
+          readOnly
+        />
+      </div>
+
+      {mostMissed.length > 0 && (
+        <div>
+          <div className="text-xs font-semibold mb-1">Most missed</div>
+          <div className="flex flex-wrap gap-1">
+            {mostMissed.map((hand) => (
+              <span
+                key={hand.handClass}
+                className="rounded border border-red-500/40 bg-red-500/10 px-1.5 py-0.5 text-xs"
+              >
+                <span className="font-mono font-medium">{hand.handClass}</span>{" "}
+                <span className="text-muted-foreground">
+                  {hand.misses}/{hand.attempts}
+                </span>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {dailyData.length > 1 && (
+        <div>
+          <div className="text-xs font-semibold mb-1">Daily accuracy</div>
+          <div className="h-40 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={dailyData} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis
+                  dataKey="day"
+                  tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }}
+                  tickLine={false}
+                />
+                <YAxis
+                  domain={[0, 100]}
+                  tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }}
+                  tickFormatter={(value: number) => `${value}%`}
+                  tickLine={false}
+                  width={44}
+                />
+                <Tooltip
+                  contentStyle={{
+                    background: "hsl(var(--card))",
+                    border: "1px solid hsl(var(--border))",
+                    borderRadius: 8,
+                    fontSize: 12,
+                  }}
+                  formatter={(value: number) => [`${value}%`, "Accuracy"]}
+                />
+                <Bar dataKey="accuracy" fill="#10b981" isAnimationActive={false} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
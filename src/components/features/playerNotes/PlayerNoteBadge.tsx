@@ -0,0 +1,45 @@
+"use client";
+
+import { StickyNote } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getPlayerNoteColor } from "@/lib/features/playerNotes/colors";
+import type { PlayerNote } from "@/lib/types/playerNotes";
+
+interface PlayerNoteBadgeProps {
+  note: PlayerNote;
+  className?: string;
+  onClick?: () => void;
+}
+
+/**
+ * Color dot (and note icon when there is text) for a player with a saved note.
+ * The note text is shown as a tooltip.
+ */
+export function PlayerNoteBadge({ note, className, onClick }: PlayerNoteBadgeProps) {
+  const color = getPlayerNoteColor(note.color);
+
+  return (
+    <span
+      role={onClick ? "button" : undefined}
+      title={note.note || color.label}
+      onClick={
+        onClick
+          ? (e) => {
+              e.stopPropagation();
+              onClick();
+            }
+          : undefined
+      }
+      className={cn(
+        "inline-flex items-center gap-1 rounded-full bg-black/60 px-1.5 py-0.5",
+        onClick && "cursor-pointer",
+        className
+      )}
+    >
+      {note.color !== "none" && (
+        <span className={cn("h-2.5 w-2.5 rounded-full", color.swatchClassName)} />
+      )}
+      {note.note && <StickyNote className="h-3 w-3 text-slate-200" />}
+    </span>
+  );
+}
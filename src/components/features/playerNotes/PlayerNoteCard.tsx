@@ -0,0 +1,61 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { StickyNote, Pencil } from "lucide-react";
+import { usePlayerNotes } from "@/lib/hooks";
+import { PlayerNoteBadge } from "./PlayerNoteBadge";
+import { PlayerNoteDialog } from "./PlayerNoteDialog";
+
+interface PlayerNoteCardProps {
+  playerId: string;
+  playerName: string;
+}
+
+/**
+ * Shows and edits the user's note on a single player (e.g. on a friend's profile)
+ */
+export function PlayerNoteCard({ playerId, playerName }: PlayerNoteCardProps) {
+  const { notes, saveNote, canEdit } = usePlayerNotes([playerId]);
+  const [isEditing, setIsEditing] = useState(false);
+  const note = notes[playerId];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <StickyNote className="h-4 w-4" />
+          My Notes
+          {note && <PlayerNoteBadge note={note} />}
+        </CardTitle>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setIsEditing(true)}
+          disabled={!canEdit}
+        >
+          <Pencil className="h-4 w-4 mr-1" />
+          {note ? "Edit" : "Add Note"}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {note?.note ? (
+          <p className="text-sm whitespace-pre-wrap">{note.note}</p>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No notes on {playerName} yet.
+          </p>
+        )}
+      </CardContent>
+
+      <PlayerNoteDialog
+        open={isEditing}
+        onOpenChange={setIsEditing}
+        playerName={playerName}
+        note={note}
+        onSave={(text, color) => saveNote(playerId, text, color)}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { PLAYER_NOTE_COLORS } from "@/lib/features/playerNotes/colors";
+import type { PlayerNote, PlayerNoteColor } from "@/lib/types/playerNotes";
+
+interface PlayerNoteDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  playerName: string;
+  note: PlayerNote | undefined;
+  onSave: (note: string, color: PlayerNoteColor) => Promise<boolean>;
+}
+
+export function PlayerNoteDialog({
+  open,
+  onOpenChange,
+  playerName,
+  note,
+  onSave,
+}: PlayerNoteDialogProps) {
+  const [text, setText] = useState("");
+  const [color, setColor] = useState<PlayerNoteColor>("none");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the saved note each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setText(note?.note ?? "");
+      setColor(note?.color ?? "none");
+    }
+  }, [open, note]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const saved = await onSave(text, color);
+    setIsSaving(false);
+    if (saved) onOpenChange(false);
+  };
+
+  const handleClear = async () => {
+    setIsSaving(true);
+    const saved = await onSave("", "none");
+    setIsSaving(false);
+    if (saved) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Notes on {playerName}</DialogTitle>
+          <DialogDescription>
+            Only you can see your notes and color tags.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Color tag</Label>
+            <div className="flex flex-wrap gap-2">
+              {PLAYER_NOTE_COLORS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  title={option.label}
+                  aria-label={option.label}
+                  aria-pressed={color === option.value}
+                  onClick={() => setColor(option.value)}
+                  className={cn(
+                    "h-7 w-7 rounded-full border-2 transition-transform",
+                    option.swatchClassName,
+                    option.value === "none" && "opacity-40",
+                    color === option.value
+                      ? "border-foreground scale-110"
+                      : "border-transparent"
+                  )}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="player-note">Note</Label>
+            <textarea
+              id="player-note"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder="Calls down light, folds to 3-bets..."
+              className="w-full h-32 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-between gap-2">
+          <Button
+            variant="ghost"
+            onClick={handleClear}
+            disabled={isSaving || !note}
+          >
+            Delete
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
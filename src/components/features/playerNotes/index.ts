@@ -0,0 +1,3 @@
+export { PlayerNoteBadge } from './PlayerNoteBadge';
+export { PlayerNoteCard } from './PlayerNoteCard';
+export { PlayerNoteDialog } from './PlayerNoteDialog';
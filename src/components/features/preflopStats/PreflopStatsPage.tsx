@@ -6,8 +6,27 @@ import { ArrowLeft } from 'lucide-react';
 import { RangeGrid } from '@/components/features/analysis/RangeGrid';
 import { PreflopStatsSidebar } from './PreflopStatsSidebar';
 import type { PreflopStatsPageProps } from './types';
-import type { HandStats, PreflopStatsFilters } from '@/lib/types/preflopStats';
+import type { HandSummary } from '@/lib/types/handHistory';
+import type { HandStats, PreflopStatsFilters, StatType } from '@/lib/types/preflopStats';
 import { fetchPreflopStats, buildGridData } from '@/lib/api/supabase/preflopStats';
+import { fetchRecentHands } from '@/lib/api/supabase/handHistory';
+import { mergeWithLocalHands } from '@/lib/features/game/localHandHistory';
+import { buildPostflopGridData, isPostflopStatType } from '@/lib/features/handHistory/postflopStats';
+import { usePostflopStats } from '@/lib/hooks';
+
+const STAT_LABELS: Record<StatType, string> = {
+  vpip: 'VPIP',
+  pfr: 'PFR',
+  '3bet': '3-Bet',
+  cbet: 'C-Bet',
+  saw_flop: 'Saw Flop',
+  afq: 'Aggression Frequency',
+  wtsd: 'WTSD',
+  wsd: 'W$SD',
+  fold_to_cbet: 'Fold to C-Bet',
+  check_raise: 'Check-Raise',
+  donk_bet: 'Donk Bet',
+};
 
 export function PreflopStatsPage({ userId }: PreflopStatsPageProps) {
   const [filters, setFilters] = useState<PreflopStatsFilters>({
@@ -18,6 +37,8 @@ export function PreflopStatsPage({ userId }: PreflopStatsPageProps) {
   const [hoveredHand, setHoveredHand] = useState<string | null>(null);
   const [stats, setStats] = useState<HandStats[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [hands, setHands] = useState<HandSummary[]>([]);
+  const [isLoadingHands, setIsLoadingHands] = useState(true);
 
   // Fetch stats when filters or userId changes
   useEffect(() => {
@@ -39,10 +60,44 @@ export function PreflopStatsPage({ userId }: PreflopStatsPageProps) {
     };
   }, [userId, filters]);
 
+  // Postflop stats are computed from decoded hand histories, so fetch raw hands once
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadHands = async () => {
+      setIsLoadingHands(true);
+      const data = await fetchRecentHands();
+      if (!cancelled) {
+        setHands(mergeWithLocalHands(data, userId));
+        setIsLoadingHands(false);
+      }
+    };
+
+    loadHands();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Decoding thousands of hands runs in the equity worker
+  const {
+    stats: postflopStats,
+    progress: postflopProgress,
+    isCalculating: isCalculatingPostflop,
+  } = usePostflopStats(hands, userId, {
+    playerCount: filters.playerCount,
+    position: filters.position,
+  });
+
+  const isPostflop = isPostflopStatType(filters.statType);
+
   // Build grid data for the selected stat type
   const gridData = useMemo(() => {
-    return buildGridData(stats, filters.statType);
-  }, [stats, filters.statType]);
+    return isPostflopStatType(filters.statType)
+      ? buildPostflopGridData(postflopStats, filters.statType)
+      : buildGridData(stats, filters.statType);
+  }, [stats, postflopStats, filters.statType]);
 
   // Find hovered hand stats
   const hoveredHandStats = useMemo(() => {
@@ -50,6 +105,14 @@ export function PreflopStatsPage({ userId }: PreflopStatsPageProps) {
     return stats.find((s) => s.holeCards === hoveredHand) ?? null;
   }, [hoveredHand, stats]);
 
+  const hoveredHandPostflopStats = useMemo(() => {
+    if (!hoveredHand) return null;
+    return postflopStats.find((s) => s.holeCards === hoveredHand) ?? null;
+  }, [hoveredHand, postflopStats]);
+
+  const isGridLoading = isPostflop ? isLoadingHands || isCalculatingPostflop : isLoading;
+  const hasGridData = isPostflop ? postflopStats.length > 0 : stats.length > 0;
+
   return (
     <div className="flex h-screen">
       {/* Main grid area */}
@@ -66,11 +129,13 @@ export function PreflopStatsPage({ userId }: PreflopStatsPageProps) {
         <div className="flex-1 flex flex-col items-center justify-center gap-4 w-full max-w-[80vh] mx-auto">
           <h1 className="text-2xl font-bold">Preflop Stats</h1>
           <p className="text-muted-foreground text-sm">
-            {isLoading
+            {isPostflop && isCalculatingPostflop
+              ? `Reading your hands... ${Math.round(postflopProgress * 100)}%`
+              : isGridLoading
               ? 'Loading your stats...'
-              : stats.length === 0
+              : !hasGridData
               ? 'No hands recorded yet. Play some games to see your stats!'
-              : `Showing ${filters.statType.toUpperCase()} percentages`}
+              : `Showing ${STAT_LABELS[filters.statType]} percentages`}
           </p>
           <RangeGrid
             selectedHands={new Set()}
@@ -91,7 +156,8 @@ export function PreflopStatsPage({ userId }: PreflopStatsPageProps) {
           onFiltersChange={setFilters}
           hoveredHand={hoveredHand}
           hoveredHandStats={hoveredHandStats}
-          isLoading={isLoading}
+          hoveredHandPostflopStats={hoveredHandPostflopStats}
+          isLoading={isLoading || isLoadingHands || isCalculatingPostflop}
         />
       </div>
     </div>
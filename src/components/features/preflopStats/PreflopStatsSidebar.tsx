@@ -6,12 +6,25 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
+  SelectSeparator,
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
 import type { PreflopStatsSidebarProps } from './types';
-import type { PlayerCountFilter, PokerPosition, StatType } from '@/lib/types/preflopStats';
+import type {
+  PlayerCountFilter,
+  PokerPosition,
+  PostflopHandStats,
+  StatType
+} from '@/lib/types/preflopStats';
+import {
+  POSTFLOP_STREETS,
+  getAggressionFactor,
+  getAggressionFrequency,
+} from '@/lib/features/handHistory/postflopStats';
 import { UserProfileFooter } from '@/components/layout/UserProfileFooter';
 
 const PLAYER_COUNT_OPTIONS: { value: PlayerCountFilter; label: string }[] = [
@@ -44,11 +57,81 @@ const STAT_TYPE_OPTIONS: { value: StatType; label: string }[] = [
   { value: 'saw_flop', label: 'Saw Flop' },
 ];
 
+const POSTFLOP_STAT_TYPE_OPTIONS: { value: StatType; label: string }[] = [
+  { value: 'afq', label: 'Aggression Frequency' },
+  { value: 'wtsd', label: 'Went to Showdown' },
+  { value: 'wsd', label: 'Won at Showdown' },
+  { value: 'fold_to_cbet', label: 'Fold to C-Bet' },
+  { value: 'check_raise', label: 'Check-Raise' },
+  { value: 'donk_bet', label: 'Donk Bet' },
+];
+
+const STREET_LABELS = { flop: 'Flop', turn: 'Turn', river: 'River' };
+
 function formatPercentage(count: number, total: number): string {
   if (total === 0) return '0.0%';
   return ((count / total) * 100).toFixed(1) + '%';
 }
 
+function formatFactor(factor: number | null): string {
+  return factor === null ? '∞' : factor.toFixed(2);
+}
+
+function PostflopStatRow({ label, count, total }: { label: string; count: number; total: number }) {
+  return (
+    <div className="flex justify-between">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-medium">
+        {formatPercentage(count, total)}
+        <span className="text-xs text-muted-foreground ml-1">
+          ({count}/{total})
+        </span>
+      </span>
+    </div>
+  );
+}
+
+function PostflopStatsSection({ stats }: { stats: PostflopHandStats }) {
+  return (
+    <>
+      <div className="h-px bg-border my-2" />
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+        Postflop
+      </h4>
+
+      <div className="grid grid-cols-4 gap-1 text-xs">
+        <span />
+        <span className="text-muted-foreground text-right">AF</span>
+        <span className="text-muted-foreground text-right col-span-2">AFq</span>
+        {POSTFLOP_STREETS.map((street) => (
+          <div key={street} className="contents">
+            <span className="text-muted-foreground">{STREET_LABELS[street]}</span>
+            <span className="font-medium text-right">
+              {formatFactor(getAggressionFactor(stats, street))}
+            </span>
+            <span className="font-medium text-right col-span-2">
+              {getAggressionFrequency(stats, street).toFixed(1)}%
+            </span>
+          </div>
+        ))}
+        <span className="text-muted-foreground">Total</span>
+        <span className="font-medium text-right">
+          {formatFactor(getAggressionFactor(stats))}
+        </span>
+        <span className="font-medium text-right col-span-2">
+          {getAggressionFrequency(stats).toFixed(1)}%
+        </span>
+      </div>
+
+      <PostflopStatRow label="WTSD" count={stats.showdownCount} total={stats.sawFlopCount} />
+      <PostflopStatRow label="W$SD" count={stats.wonAtShowdownCount} total={stats.showdownCount} />
+      <PostflopStatRow label="Fold to C-Bet" count={stats.foldToCbetCount} total={stats.facedCbetCount} />
+      <PostflopStatRow label="Check-Raise" count={stats.checkRaiseCount} total={stats.canCheckRaiseCount} />
+      <PostflopStatRow label="Donk Bet" count={stats.donkBetCount} total={stats.canDonkBetCount} />
+    </>
+  );
+}
+
 function formatChips(chips: number): string {
   if (chips >= 0) {
     return '+' + chips.toLocaleString();
@@ -61,6 +144,7 @@ export function PreflopStatsSidebar({
   onFiltersChange,
   hoveredHand,
   hoveredHandStats,
+  hoveredHandPostflopStats,
   isLoading,
 }: PreflopStatsSidebarProps) {
   const handlePlayerCountChange = (value: PlayerCountFilter) => {
@@ -134,11 +218,23 @@ export function PreflopStatsSidebar({
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              {STAT_TYPE_OPTIONS.map((opt) => (
-                <SelectItem key={opt.value} value={opt.value}>
-                  {opt.label}
-                </SelectItem>
-              ))}
+              <SelectGroup>
+                <SelectLabel>Preflop</SelectLabel>
+                {STAT_TYPE_OPTIONS.map((opt) => (
+                  <SelectItem key={opt.value} value={opt.value}>
+                    {opt.label}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+              <SelectSeparator />
+              <SelectGroup>
+                <SelectLabel>Postflop</SelectLabel>
+                {POSTFLOP_STAT_TYPE_OPTIONS.map((opt) => (
+                  <SelectItem key={opt.value} value={opt.value}>
+                    {opt.label}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
             </SelectContent>
           </Select>
         </div>
@@ -150,85 +246,93 @@ export function PreflopStatsSidebar({
           <div className="text-sm text-muted-foreground text-center py-4">
             Loading stats...
           </div>
-        ) : hoveredHandStats ? (
+        ) : hoveredHandStats || hoveredHandPostflopStats ? (
           <div className="space-y-3">
             <h3 className="text-lg font-semibold text-center mb-4">
               {hoveredHand}
             </h3>
 
             <div className="space-y-2 text-sm">
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Total Hands</span>
-                <span className="font-medium">{hoveredHandStats.totalHands.toLocaleString()}</span>
-              </div>
-
-              <div className="h-px bg-border my-2" />
-
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">VPIP</span>
-                <span className="font-medium">
-                  {formatPercentage(hoveredHandStats.vpipCount, hoveredHandStats.totalHands)}
-                </span>
-              </div>
-
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">PFR</span>
-                <span className="font-medium">
-                  {formatPercentage(hoveredHandStats.pfrCount, hoveredHandStats.totalHands)}
-                </span>
-              </div>
-
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">3-Bet</span>
-                <span className="font-medium">
-                  {formatPercentage(hoveredHandStats.threeBetCount, hoveredHandStats.canThreeBetCount)}
-                  <span className="text-xs text-muted-foreground ml-1">
-                    ({hoveredHandStats.threeBetCount}/{hoveredHandStats.canThreeBetCount})
-                  </span>
-                </span>
-              </div>
-
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">C-Bet</span>
-                <span className="font-medium">
-                  {formatPercentage(hoveredHandStats.cbetCount, hoveredHandStats.canCbetCount)}
-                  <span className="text-xs text-muted-foreground ml-1">
-                    ({hoveredHandStats.cbetCount}/{hoveredHandStats.canCbetCount})
-                  </span>
-                </span>
-              </div>
-
-              <div className="h-px bg-border my-2" />
-
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Saw Flop</span>
-                <span className="font-medium">
-                  {formatPercentage(hoveredHandStats.sawFlopCount, hoveredHandStats.totalHands)}
-                </span>
-              </div>
-
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Showdown</span>
-                <span className="font-medium">
-                  {formatPercentage(hoveredHandStats.showdownCount, hoveredHandStats.totalHands)}
-                </span>
-              </div>
-
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Win Rate</span>
-                <span className="font-medium">
-                  {formatPercentage(hoveredHandStats.wonCount, hoveredHandStats.totalHands)}
-                </span>
-              </div>
-
-              <div className="h-px bg-border my-2" />
-
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Net Chips</span>
-                <span className={`font-medium ${hoveredHandStats.netChipsTotal >= 0 ? 'text-green-500' : 'text-red-500'}`}>
-                  {formatChips(hoveredHandStats.netChipsTotal)}
-                </span>
-              </div>
+              {hoveredHandStats && (
+                <>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Total Hands</span>
+                    <span className="font-medium">{hoveredHandStats.totalHands.toLocaleString()}</span>
+                  </div>
+
+                  <div className="h-px bg-border my-2" />
+
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">VPIP</span>
+                    <span className="font-medium">
+                      {formatPercentage(hoveredHandStats.vpipCount, hoveredHandStats.totalHands)}
+                    </span>
+                  </div>
+
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">PFR</span>
+                    <span className="font-medium">
+                      {formatPercentage(hoveredHandStats.pfrCount, hoveredHandStats.totalHands)}
+                    </span>
+                  </div>
+
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">3-Bet</span>
+                    <span className="font-medium">
+                      {formatPercentage(hoveredHandStats.threeBetCount, hoveredHandStats.canThreeBetCount)}
+                      <span className="text-xs text-muted-foreground ml-1">
+                        ({hoveredHandStats.threeBetCount}/{hoveredHandStats.canThreeBetCount})
+                      </span>
+                    </span>
+                  </div>
+
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">C-Bet</span>
+                    <span className="font-medium">
+                      {formatPercentage(hoveredHandStats.cbetCount, hoveredHandStats.canCbetCount)}
+                      <span className="text-xs text-muted-foreground ml-1">
+                        ({hoveredHandStats.cbetCount}/{hoveredHandStats.canCbetCount})
+                      </span>
+                    </span>
+                  </div>
+
+                  <div className="h-px bg-border my-2" />
+
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Saw Flop</span>
+                    <span className="font-medium">
+                      {formatPercentage(hoveredHandStats.sawFlopCount, hoveredHandStats.totalHands)}
+                    </span>
+                  </div>
+
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Showdown</span>
+                    <span className="font-medium">
+                      {formatPercentage(hoveredHandStats.showdownCount, hoveredHandStats.totalHands)}
+                    </span>
+                  </div>
+
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Win Rate</span>
+                    <span className="font-medium">
+                      {formatPercentage(hoveredHandStats.wonCount, hoveredHandStats.totalHands)}
+                    </span>
+                  </div>
+
+                  <div className="h-px bg-border my-2" />
+
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Net Chips</span>
+                    <span className={`font-medium ${hoveredHandStats.netChipsTotal >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                      {formatChips(hoveredHandStats.netChipsTotal)}
+                    </span>
+                  </div>
+                </>
+              )}
+
+              {hoveredHandPostflopStats && (
+                <PostflopStatsSection stats={hoveredHandPostflopStats} />
+              )}
             </div>
           </div>
         ) : (
@@ -1,10 +1,11 @@
-import type { HandStats, PreflopStatsFilters } from '@/lib/types/preflopStats';
+import type { HandStats, PostflopHandStats, PreflopStatsFilters } from '@/lib/types/preflopStats';
 
 export interface PreflopStatsSidebarProps {
   filters: PreflopStatsFilters;
   onFiltersChange: (filters: PreflopStatsFilters) => void;
   hoveredHand: string | null;
   hoveredHandStats: HandStats | null;
+  hoveredHandPostflopStats: PostflopHandStats | null;
   isLoading: boolean;
 }
 
@@ -0,0 +1,617 @@
+"use client";
+
+import { useEffect, useMemo, useState, type FormEvent } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { ArrowLeft, Download, Play, Share2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ReplayViewer } from "@/components/features/replay/ReplayViewer";
+import { HandStarButton, HandTagList } from "@/components/features/handReview";
+import { createClientComponentClient } from "@/lib/api/supabase/client";
+import { fetchHandById } from "@/lib/api/supabase/handHistory";
+import { useHandHistory, useHandReviews, useToast } from "@/lib/hooks";
+import { cn, downloadTextFile } from "@/lib/utils";
+import { exportHandsToPokerStars } from "@/lib/features/handHistory/PokerStarsExporter";
+import { cardIndexToString, decodeReplayData } from "@/lib/features/handHistory/codec";
+import {
+  HAND_POSITIONS,
+  getHandFacts,
+  type HandHistoryFilters,
+  type HandResultFilter,
+} from "@/lib/features/handHistory/handFilters";
+import { getLocalHandPlayerNames, isLocalHand } from "@/lib/features/game/localHandHistory";
+import type { HandSummary, HandVariant } from "@/lib/types/handHistory";
+import type { PokerPosition } from "@/lib/types/preflopStats";
+
+interface HandHistoryBrowserProps {
+  userId: string;
+  /** Hand to open straight away, from a deep link */
+  linkedHandId?: string;
+  /** Action the linked hand opens at */
+  linkedActionIndex?: number;
+}
+
+const VARIANT_LABELS: Record<HandVariant, string> = {
+  heads_up: "Heads Up",
+  six_max: "6-Max",
+  full_ring: "Full Ring",
+};
+
+const RESULT_LABELS: Record<HandResultFilter, string> = {
+  won: "Won",
+  lost: "Lost",
+  showdown: "Showdown",
+};
+
+const ANY = "any";
+
+/** Filter inputs as typed, before they are applied */
+interface FilterDraft {
+  from: string;
+  to: string;
+  gameId: string;
+  variant: string;
+  minPot: string;
+  maxPot: string;
+  position: string;
+  holeCards: string;
+  results: HandResultFilter[];
+}
+
+const EMPTY_DRAFT: FilterDraft = {
+  from: "",
+  to: "",
+  gameId: "",
+  variant: ANY,
+  minPot: "",
+  maxPot: "",
+  position: ANY,
+  holeCards: "",
+  results: [],
+};
+
+const parseChips = (value: string) => {
+  const chips = Number(value);
+  return value.trim() && Number.isFinite(chips) ? chips : undefined;
+};
+
+function toFilters(draft: FilterDraft): HandHistoryFilters {
+  return {
+    from: draft.from || undefined,
+    to: draft.to || undefined,
+    gameId: draft.gameId.trim() || undefined,
+    variant: draft.variant === ANY ? undefined : (draft.variant as HandVariant),
+    minPot: parseChips(draft.minPot),
+    maxPot: parseChips(draft.maxPot),
+    position: draft.position === ANY ? undefined : (draft.position as PokerPosition),
+    holeCards: draft.holeCards.trim() || undefined,
+    results: draft.results.length > 0 ? draft.results : undefined,
+  };
+}
+
+const getBoardCards = (hand: HandSummary): string[] => {
+  try {
+    return decodeReplayData(hand.replay_data).board.map(cardIndexToString);
+  } catch {
+    return [];
+  }
+};
+
+function formatNet(net: number): string {
+  return net > 0 ? `+${net.toLocaleString()}` : net.toLocaleString();
+}
+
+export function HandHistoryBrowser({
+  userId,
+  linkedHandId,
+  linkedActionIndex,
+}: HandHistoryBrowserProps) {
+  const supabase = createClientComponentClient();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<FilterDraft>(EMPTY_DRAFT);
+  const [filters, setFilters] = useState<HandHistoryFilters>({});
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [replayQueue, setReplayQueue] = useState<HandSummary[]>([]);
+  const [replayIndex, setReplayIndex] = useState(0);
+  const [playerNames, setPlayerNames] = useState<Record<string, string>>({});
+
+  const { hands, isLoading, error, hasMore, loadMore } = useHandHistory(userId, filters);
+
+  const rows = useMemo(
+    () =>
+      hands.map((hand) => ({
+        hand,
+        facts: getHandFacts(hand, userId),
+        board: getBoardCards(hand),
+      })),
+    [hands, userId]
+  );
+
+  // Local bot hands aren't stored, so only stored hands can be starred and tagged
+  const storedHandIds = useMemo(
+    () => hands.filter((hand) => !isLocalHand(hand)).map((hand) => hand.id),
+    [hands]
+  );
+  const { reviews, toggleStar, refresh: refreshReviews, canEdit: canReview } =
+    useHandReviews(storedHandIds);
+
+  const selectedHands = useMemo(
+    () => hands.filter((hand) => selectedIds.has(hand.id)),
+    [hands, selectedIds]
+  );
+  const allSelected = hands.length > 0 && selectedHands.length === hands.length;
+
+  // Bot names from local games are stored with the hands themselves
+  const localPlayerNames = useMemo(() => {
+    const names: Record<string, string> = {};
+    hands.forEach((hand) => Object.assign(names, getLocalHandPlayerNames(hand)));
+    return names;
+  }, [hands]);
+  const allPlayerNames = useMemo(
+    () => ({ ...localPlayerNames, ...playerNames }),
+    [localPlayerNames, playerNames]
+  );
+
+  // Fetch names for players not seen on earlier pages
+  useEffect(() => {
+    const missing = new Set<string>();
+    hands.forEach((hand) => {
+      const botNames = getLocalHandPlayerNames(hand);
+      Object.values(hand.player_manifest).forEach((id) => {
+        if (!botNames[id] && !(id in playerNames)) missing.add(id);
+      });
+    });
+    if (missing.size === 0) return;
+
+    const fetchPlayerNames = async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("id, username")
+        .in("id", Array.from(missing));
+
+      if (error) {
+        console.error("Error fetching player names:", error);
+        return;
+      }
+
+      const names: Record<string, string> = {};
+      missing.forEach((id) => {
+        names[id] = `User ${id.slice(0, 8)}`;
+      });
+      data?.forEach((profile) => {
+        names[profile.id] = profile.username || `User ${profile.id.slice(0, 8)}`;
+      });
+      setPlayerNames((prev) => ({ ...prev, ...names }));
+    };
+
+    fetchPlayerNames();
+  }, [hands, playerNames, supabase]);
+
+  const applyFilters = (event: FormEvent) => {
+    event.preventDefault();
+    setFilters(toFilters(draft));
+    setSelectedIds(new Set());
+  };
+
+  const resetFilters = () => {
+    setDraft(EMPTY_DRAFT);
+    setFilters({});
+    setSelectedIds(new Set());
+  };
+
+  const toggleResult = (result: HandResultFilter) => {
+    setDraft((prev) => ({
+      ...prev,
+      results: prev.results.includes(result)
+        ? prev.results.filter((r) => r !== result)
+        : [...prev.results, result],
+    }));
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(hands.map((hand) => hand.id)));
+  };
+
+  const openReplay = (queue: HandSummary[], index = 0) => {
+    setReplayQueue(queue);
+    setReplayIndex(index);
+  };
+
+  // Open a linked hand on its own; it may be older than anything loaded yet
+  useEffect(() => {
+    if (!linkedHandId) return;
+    let cancelled = false;
+    fetchHandById(linkedHandId).then((hand) => {
+      if (cancelled) return;
+      if (!hand) {
+        toast({ title: "Error", description: "That hand could not be found", variant: "destructive" });
+        return;
+      }
+      setReplayQueue([hand]);
+      setReplayIndex(0);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [linkedHandId, toast]);
+
+  const exportText = () =>
+    exportHandsToPokerStars(selectedHands, { playerNames: allPlayerNames, heroId: userId });
+
+  const handleExport = () => {
+    if (selectedHands.length === 0) return;
+    downloadTextFile(`pokronline-hands-${new Date().toISOString().slice(0, 10)}.txt`, exportText());
+  };
+
+  // Share the PokerStars text through the system share sheet, or the clipboard
+  const handleShare = async () => {
+    if (selectedHands.length === 0) return;
+    const text = exportText();
+    try {
+      if (typeof navigator.share === "function") {
+        await navigator.share({ title: "POKROnline hands", text });
+        return;
+      }
+      await navigator.clipboard.writeText(text);
+      toast({
+        title: "Copied",
+        description: `${selectedHands.length} hand${selectedHands.length === 1 ? "" : "s"} copied as PokerStars text`,
+      });
+    } catch (err: unknown) {
+      if (err instanceof Error && err.name === "AbortError") return;
+      toast({ title: "Error", description: "Could not share the hands", variant: "destructive" });
+    }
+  };
+
+  const replayHand = replayQueue[replayIndex];
+
+  return (
+    <div className="min-h-screen p-8 overflow-auto">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <Link
+          href="/profile"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Profile
+        </Link>
+
+        <div>
+          <h1 className="text-2xl font-bold">Hand History</h1>
+          <p className="text-muted-foreground text-sm">
+            Search every hand you have played. Select hands to replay, export or share them.
+          </p>
+        </div>
+
+        {/* Filters */}
+        <Card className="bg-card backdrop-blur-sm border">
+          <CardContent className="p-4">
+            <form onSubmit={applyFilters} className="space-y-3">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className="space-y-1">
+                  <div className="text-xs text-muted-foreground">From</div>
+                  <Input
+                    type="date"
+                    value={draft.from}
+                    onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <div className="text-xs text-muted-foreground">To</div>
+                  <Input
+                    type="date"
+                    value={draft.to}
+                    onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <div className="text-xs text-muted-foreground">Game ID</div>
+                  <Input
+                    placeholder="e.g. 3f2a9c1b"
+                    value={draft.gameId}
+                    onChange={(e) => setDraft({ ...draft, gameId: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <div className="text-xs text-muted-foreground">Variant</div>
+                  <Select
+                    value={draft.variant}
+                    onValueChange={(variant) => setDraft({ ...draft, variant })}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Any variant</SelectItem>
+                      {Object.entries(VARIANT_LABELS).map(([variant, label]) => (
+                        <SelectItem key={variant} value={variant}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <div className="text-xs text-muted-foreground">Min pot</div>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={draft.minPot}
+                    onChange={(e) => setDraft({ ...draft, minPot: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <div className="text-xs text-muted-foreground">Max pot</div>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={draft.maxPot}
+                    onChange={(e) => setDraft({ ...draft, maxPot: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <div className="text-xs text-muted-foreground">Position</div>
+                  <Select
+                    value={draft.position}
+                    onValueChange={(position) => setDraft({ ...draft, position })}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Any position</SelectItem>
+                      {HAND_POSITIONS.map((position) => (
+                        <SelectItem key={position} value={position}>
+                          {position}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <div className="text-xs text-muted-foreground">Hole cards</div>
+                  <Input
+                    placeholder="AKs, TT, AhKd"
+                    value={draft.holeCards}
+                    onChange={(e) => setDraft({ ...draft, holeCards: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2">
+                {(Object.keys(RESULT_LABELS) as HandResultFilter[]).map((result) => (
+                  <button
+                    key={result}
+                    type="button"
+                    onClick={() => toggleResult(result)}
+                    className={cn(
+                      "rounded border px-2 py-1 text-xs transition-colors",
+                      draft.results.includes(result)
+                        ? "border-emerald-500 bg-emerald-500/20 text-emerald-300"
+                        : "border-slate-600 text-slate-300 hover:border-slate-400"
+                    )}
+                  >
+                    {RESULT_LABELS[result]}
+                  </button>
+                ))}
+                <div className="ml-auto flex gap-2">
+                  <Button type="button" variant="ghost" size="sm" onClick={resetFilters}>
+                    Reset
+                  </Button>
+                  <Button type="submit" size="sm">
+                    Apply Filters
+                  </Button>
+                </div>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Hands */}
+        <Card className="bg-card backdrop-blur-sm border">
+          <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b">
+            <span className="text-sm text-muted-foreground">
+              {selectedHands.length > 0
+                ? `${selectedHands.length} selected`
+                : `${hands.length.toLocaleString()} hand${hands.length === 1 ? "" : "s"} loaded`}
+            </span>
+            <div className="ml-auto flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => openReplay(selectedHands)}
+                disabled={selectedHands.length === 0}
+              >
+                <Play className="h-4 w-4 mr-1" />
+                Replay
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleExport}
+                disabled={selectedHands.length === 0}
+              >
+                <Download className="h-4 w-4 mr-1" />
+                Export
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleShare}
+                disabled={selectedHands.length === 0}
+              >
+                <Share2 className="h-4 w-4 mr-1" />
+                Share
+              </Button>
+            </div>
+          </div>
+          <CardContent className="p-0 overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="hover:bg-transparent">
+                  <TableHead className="w-10">
+                    <input
+                      type="checkbox"
+                      checked={allSelected}
+                      onChange={toggleAll}
+                      className="h-4 w-4"
+                      aria-label="Select all loaded hands"
+                    />
+                  </TableHead>
+                  <TableHead>Hand #</TableHead>
+                  <TableHead>Played</TableHead>
+                  <TableHead>Cards</TableHead>
+                  <TableHead>Position</TableHead>
+                  <TableHead>Board</TableHead>
+                  <TableHead className="text-right">Pot</TableHead>
+                  <TableHead className="text-right">Net</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(({ hand, facts, board }, index) => (
+                  <TableRow
+                    key={hand.id}
+                    className={cn(
+                      "hover:bg-muted/30 cursor-pointer",
+                      selectedIds.has(hand.id) && "bg-muted/50"
+                    )}
+                    onClick={() => openReplay(hands, index)}
+                  >
+                    <TableCell onClick={(e) => e.stopPropagation()}>
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(hand.id)}
+                        onChange={() => toggleSelected(hand.id)}
+                        className="h-4 w-4"
+                        aria-label={`Select hand ${hand.hand_index}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        <div className="font-mono font-bold text-sm text-primary">
+                          #{hand.hand_index}
+                        </div>
+                        {!isLocalHand(hand) && (
+                          <HandStarButton
+                            starred={reviews[hand.id]?.starred ?? false}
+                            disabled={!canReview}
+                            onToggle={() => toggleStar(hand.id)}
+                          />
+                        )}
+                      </div>
+                      <div className="text-xs text-muted-foreground font-mono">
+                        {isLocalHand(hand) ? "Bot game" : hand.game_id.slice(0, 8)}
+                      </div>
+                      <HandTagList tags={reviews[hand.id]?.tags ?? []} className="mt-1" />
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {format(new Date(hand.played_at), "MMM d, yyyy HH:mm")}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {facts?.heroCards.join(" ") || "—"}
+                    </TableCell>
+                    <TableCell className="text-xs">{facts?.position ?? "—"}</TableCell>
+                    <TableCell>
+                      {board.length > 0 ? (
+                        <div className="flex gap-1">
+                          {board.map((card, idx) => (
+                            <span
+                              key={idx}
+                              className="font-mono text-xs bg-card px-1.5 py-0.5 rounded border"
+                            >
+                              {card}
+                            </span>
+                          ))}
+                        </div>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {hand.final_pot.toLocaleString()}
+                    </TableCell>
+                    <TableCell
+                      className={cn(
+                        "text-right font-mono",
+                        facts && facts.net > 0 && "text-emerald-500",
+                        facts && facts.net < 0 && "text-red-500"
+                      )}
+                    >
+                      {facts ? formatNet(facts.net) : "—"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {!isLoading && hands.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-12 text-muted-foreground">
+                      {error ? "Could not load hands" : "No hands match these filters"}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+          <div className="flex flex-col items-center gap-2 p-4 border-t">
+            {error && <p className="text-xs text-red-400">{error}</p>}
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground">Loading hands...</p>
+            ) : hasMore || error ? (
+              <Button variant="outline" size="sm" onClick={loadMore}>
+                {error ? "Retry" : "Load more"}
+              </Button>
+            ) : (
+              hands.length > 0 && (
+                <p className="text-xs text-muted-foreground">No older hands</p>
+              )
+            )}
+          </div>
+        </Card>
+      </div>
+
+      {replayHand && (
+        <ReplayViewer
+          key={replayHand.id}
+          hand={replayHand}
+          currentUserId={userId}
+          playerNames={allPlayerNames}
+          initialActionIndex={replayHand.id === linkedHandId ? linkedActionIndex : undefined}
+          onClose={() => {
+            setReplayQueue([]);
+            refreshReviews();
+          }}
+          handQueue={{
+            index: replayIndex,
+            total: replayQueue.length,
+            onSelect: setReplayIndex,
+          }}
+        />
+      )}
+    </div>
+  );
+}
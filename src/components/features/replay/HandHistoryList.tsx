@@ -2,12 +2,19 @@
 
 import { Card, CardContent } from "@/components/ui/card";
 import { formatDistanceToNow } from "date-fns";
-import { Trophy, Clock, Coins, Play } from "lucide-react";
-import { useState, useEffect } from "react";
+import { Trophy, Clock, Coins, Play, Download, FileUp } from "lucide-react";
+import { useState, useEffect, useMemo } from "react";
 import { createClientComponentClient } from "@/lib/api/supabase/client";
 import { ReplayViewer } from "@/components/features/replay/ReplayViewer";
-import { useIsMobile } from "@/lib/hooks";
-import { cn } from "@/lib/utils";
+import { HandImportDialog } from "@/components/features/replay/HandImportDialog";
+import { PlayerNoteBadge, PlayerNoteDialog } from "@/components/features/playerNotes";
+import { HandStarButton, HandTagList } from "@/components/features/handReview";
+import { useHandReviews, useIsMobile, usePlayerNotes } from "@/lib/hooks";
+import { cn, downloadTextFile } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import type { HandSummary } from "@/lib/types/handHistory";
+import { exportHandsToPokerStars } from "@/lib/features/handHistory/PokerStarsExporter";
+import { getLocalHandPlayerNames, isLocalHand } from "@/lib/features/game/localHandHistory";
 import {
   Table,
   TableBody,
@@ -22,23 +29,6 @@ import {
   indexToCard,
 } from "@backend/domain/handHistory/PokerCodec";
 
-interface HandSummary {
-  id: string;
-  game_id: string;
-  hand_index: number;
-  final_pot: number;
-  winner_id: string | null;
-  played_at: string;
-  replay_data: string;
-  player_manifest: Record<string, string>;
-  config?: {
-    gameType?: string;
-    sb?: number;
-    bb?: number;
-    [key: string]: any;
-  };
-}
-
 interface HandHistoryListProps {
   hands: HandSummary[];
   currentUserId: string;
@@ -73,6 +63,38 @@ export function HandHistoryList({
   const supabase = createClientComponentClient();
   const [selectedHand, setSelectedHand] = useState<HandSummary | null>(null);
   const [playerNames, setPlayerNames] = useState<Record<string, string>>({});
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [noteTarget, setNoteTarget] = useState<{ id: string; name: string } | null>(null);
+
+  // Bot names from local games are stored with the hands themselves
+  const localPlayerNames = useMemo(() => {
+    const names: Record<string, string> = {};
+    hands?.forEach((hand) => Object.assign(names, getLocalHandPlayerNames(hand)));
+    return names;
+  }, [hands]);
+  const allPlayerNames = useMemo(
+    () => ({ ...localPlayerNames, ...playerNames }),
+    [localPlayerNames, playerNames]
+  );
+
+  const handPlayerIds = useMemo(() => {
+    const ids = new Set<string>();
+    hands?.forEach((hand) => {
+      Object.values(hand.player_manifest).forEach((id) => ids.add(id));
+    });
+    ids.delete(currentUserId);
+    Object.keys(localPlayerNames).forEach((id) => ids.delete(id));
+    return Array.from(ids);
+  }, [hands, currentUserId, localPlayerNames]);
+  const { notes: playerNotes, saveNote } = usePlayerNotes(handPlayerIds);
+
+  // Local bot hands aren't stored, so only stored hands can be starred and tagged
+  const storedHandIds = useMemo(
+    () => (hands ?? []).filter((hand) => !isLocalHand(hand)).map((hand) => hand.id),
+    [hands]
+  );
+  const { reviews, toggleStar, refresh: refreshReviews, canEdit: canReview } =
+    useHandReviews(storedHandIds);
 
   // Fetch player names in bulk for all hands
   useEffect(() => {
@@ -82,8 +104,9 @@ export function HandHistoryList({
       // Collect all unique player IDs from all hands
       const playerIds = new Set<string>();
       hands.forEach((hand) => {
+        const botNames = getLocalHandPlayerNames(hand);
         Object.values(hand.player_manifest).forEach((id) => {
-          playerIds.add(id);
+          if (!botNames[id]) playerIds.add(id);
         });
       });
 
@@ -117,9 +140,31 @@ export function HandHistoryList({
     fetchPlayerNames();
   }, [hands, supabase]);
 
+  // Export all listed hands as PokerStars text
+  const handleExportAll = () => {
+    if (!hands || hands.length === 0) return;
+    const text = exportHandsToPokerStars(hands, {
+      playerNames: allPlayerNames,
+      heroId: currentUserId,
+    });
+    downloadTextFile(`pokronline-hands-${new Date().toISOString().slice(0, 10)}.txt`, text);
+  };
+
   return (
     <>
       <Card className="bg-card backdrop-blur-sm border flex-1 flex flex-col min-h-0 overflow-hidden">
+        <div className="flex items-center justify-end gap-2 px-4 py-2 border-b flex-shrink-0">
+          <Button variant="outline" size="sm" onClick={() => setIsImportOpen(true)}>
+            <FileUp className="h-4 w-4 mr-1" />
+            Import
+          </Button>
+          {hands && hands.length > 0 && (
+            <Button variant="outline" size="sm" onClick={handleExportAll}>
+              <Download className="h-4 w-4 mr-1" />
+              Export ({hands.length})
+            </Button>
+          )}
+        </div>
         <CardContent className={cn("flex-1 overflow-auto", isMobile ? "p-4" : "p-0")}>
           {isMobile ? (
             // Mobile: Cards Layout
@@ -128,8 +173,9 @@ export function HandHistoryList({
                 hands.map((hand) => {
                   const isWinner = hand.winner_id === currentUserId;
                   const boardCards = getBoardCards(hand.replay_data);
+                  const canNote = !isWinner && !!hand.winner_id && !localPlayerNames[hand.winner_id];
                   const winnerName = hand.winner_id
-                    ? playerNames[hand.winner_id] ||
+                    ? allPlayerNames[hand.winner_id] ||
                       `Seat ${
                         Object.entries(hand.player_manifest).find(
                           ([_, id]) => id === hand.winner_id
@@ -147,12 +193,22 @@ export function HandHistoryList({
                         {/* Header: Hand # and Date */}
                         <div className="flex items-center justify-between">
                           <div>
-                            <div className="font-mono font-bold text-base text-primary">
-                              Hand #{hand.hand_index}
+                            <div className="flex items-center gap-1">
+                              <div className="font-mono font-bold text-base text-primary">
+                                Hand #{hand.hand_index}
+                              </div>
+                              {!isLocalHand(hand) && (
+                                <HandStarButton
+                                  starred={reviews[hand.id]?.starred ?? false}
+                                  disabled={!canReview}
+                                  onToggle={() => toggleStar(hand.id)}
+                                />
+                              )}
                             </div>
                             <div className="text-xs text-muted-foreground font-mono">
-                              {hand.game_id.slice(0, 8)}
+                              {isLocalHand(hand) ? "Bot game" : hand.game_id.slice(0, 8)}
                             </div>
+                            <HandTagList tags={reviews[hand.id]?.tags ?? []} className="mt-1" />
                           </div>
                           <div className="flex items-center gap-1 text-xs text-muted-foreground">
                             <Clock className="w-3 h-3" />
@@ -184,14 +240,29 @@ export function HandHistoryList({
                           <div>
                             <div className="text-xs text-muted-foreground mb-1">Winner</div>
                             {winnerName ? (
-                              <span
-                                className={`text-sm font-medium ${
-                                  isWinner
-                                    ? "text-emerald-400"
-                                    : "text-foreground"
-                                }`}
-                              >
-                                {isWinner ? "You" : winnerName}
+                              <span className="inline-flex items-center gap-1">
+                                <span
+                                  className={`text-sm font-medium ${
+                                    isWinner
+                                      ? "text-emerald-400"
+                                      : canNote
+                                      ? "text-foreground hover:underline"
+                                      : "text-foreground"
+                                  }`}
+                                  onClick={
+                                    canNote
+                                      ? (e) => {
+                                          e.stopPropagation();
+                                          setNoteTarget({ id: hand.winner_id!, name: winnerName });
+                                        }
+                                      : undefined
+                                  }
+                                >
+                                  {isWinner ? "You" : winnerName}
+                                </span>
+                                {canNote && playerNotes[hand.winner_id!] && (
+                                  <PlayerNoteBadge note={playerNotes[hand.winner_id!]} />
+                                )}
                               </span>
                             ) : (
                               <span className="text-sm text-muted-foreground">
@@ -250,7 +321,7 @@ export function HandHistoryList({
                   style={{ position: "sticky", top: 0 }}
                 >
                   <TableRow className="hover:bg-transparent">
-                    <TableHead className="w-[100px]">Hand #</TableHead>
+                    <TableHead className="w-[140px]">Hand #</TableHead>
                     <TableHead className="w-[150px]">Date</TableHead>
                     <TableHead>Board</TableHead>
                     <TableHead>Winner</TableHead>
@@ -264,8 +335,9 @@ export function HandHistoryList({
                     hands.map((hand) => {
                       const isWinner = hand.winner_id === currentUserId;
                       const boardCards = getBoardCards(hand.replay_data);
+                      const canNote = !isWinner && !!hand.winner_id && !localPlayerNames[hand.winner_id];
                       const winnerName = hand.winner_id
-                        ? playerNames[hand.winner_id] ||
+                        ? allPlayerNames[hand.winner_id] ||
                           `Seat ${
                             Object.entries(hand.player_manifest).find(
                               ([_, id]) => id === hand.winner_id
@@ -280,12 +352,22 @@ export function HandHistoryList({
                           onClick={() => setSelectedHand(hand)}
                         >
                           <TableCell>
-                            <div className="font-mono font-bold text-sm text-primary">
-                              #{hand.hand_index}
+                            <div className="flex items-center gap-1">
+                              <div className="font-mono font-bold text-sm text-primary">
+                                #{hand.hand_index}
+                              </div>
+                              {!isLocalHand(hand) && (
+                                <HandStarButton
+                                  starred={reviews[hand.id]?.starred ?? false}
+                                  disabled={!canReview}
+                                  onToggle={() => toggleStar(hand.id)}
+                                />
+                              )}
                             </div>
                             <div className="text-xs text-muted-foreground font-mono">
-                              {hand.game_id.slice(0, 8)}
+                              {isLocalHand(hand) ? "Bot game" : hand.game_id.slice(0, 8)}
                             </div>
+                            <HandTagList tags={reviews[hand.id]?.tags ?? []} className="mt-1" />
                           </TableCell>
                           <TableCell>
                             <div className="flex items-center gap-1 text-xs text-muted-foreground">
@@ -315,14 +397,29 @@ export function HandHistoryList({
                           </TableCell>
                           <TableCell>
                             {winnerName ? (
-                              <span
-                                className={`text-xs font-medium ${
-                                  isWinner
-                                    ? "text-emerald-400"
-                                    : "text-foreground"
-                                }`}
-                              >
-                                {isWinner ? "You" : winnerName}
+                              <span className="inline-flex items-center gap-1">
+                                <span
+                                  className={`text-xs font-medium ${
+                                    isWinner
+                                      ? "text-emerald-400"
+                                      : canNote
+                                      ? "text-foreground hover:underline"
+                                      : "text-foreground"
+                                  }`}
+                                  onClick={
+                                    canNote
+                                      ? (e) => {
+                                          e.stopPropagation();
+                                          setNoteTarget({ id: hand.winner_id!, name: winnerName });
+                                        }
+                                      : undefined
+                                  }
+                                >
+                                  {isWinner ? "You" : winnerName}
+                                </span>
+                                {canNote && playerNotes[hand.winner_id!] && (
+                                  <PlayerNoteBadge note={playerNotes[hand.winner_id!]} />
+                                )}
                               </span>
                             ) : (
                               <span className="text-xs text-muted-foreground">
@@ -383,8 +480,23 @@ export function HandHistoryList({
         <ReplayViewer
           hand={selectedHand}
           currentUserId={currentUserId}
-          playerNames={playerNames}
-          onClose={() => setSelectedHand(null)}
+          playerNames={allPlayerNames}
+          onClose={() => {
+            setSelectedHand(null);
+            refreshReviews();
+          }}
+        />
+      )}
+
+      <HandImportDialog open={isImportOpen} onOpenChange={setIsImportOpen} />
+
+      {noteTarget && (
+        <PlayerNoteDialog
+          open={noteTarget !== null}
+          onOpenChange={(open) => !open && setNoteTarget(null)}
+          playerName={noteTarget.name}
+          note={playerNotes[noteTarget.id]}
+          onSave={(text, color) => saveNote(noteTarget.id, text, color)}
         />
       )}
     </>
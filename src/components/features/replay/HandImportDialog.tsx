@@ -0,0 +1,165 @@
+"use client";
+
+import { useState, useRef, useMemo } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ReplayViewer } from "@/components/features/replay/ReplayViewer";
+import { FileUp, Play, AlertCircle } from "lucide-react";
+import {
+  parseHandHistories,
+  type ImportedHand,
+} from "@/lib/features/handHistory/HandHistoryImporter";
+import type { HandSummary } from "@/lib/types/handHistory";
+
+interface HandImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Build the header/summary fields ReplayViewer expects for an imported hand
+ */
+function toHandSummary(hand: ImportedHand, index: number): HandSummary {
+  return {
+    id: hand.replayInput.gameId,
+    game_id: hand.sourceHandId,
+    hand_index: index + 1,
+    final_pot: 0,
+    winner_id: null,
+    played_at: hand.playedAt,
+    replay_data: "",
+    player_manifest: hand.replayInput.manifest,
+    config: {
+      gameType: hand.replayInput.variant,
+      sb: hand.replayInput.config?.blinds?.small,
+      bb: hand.replayInput.config?.blinds?.big,
+    },
+  };
+}
+
+export function HandImportDialog({ open, onOpenChange }: HandImportDialogProps) {
+  const [text, setText] = useState("");
+  const [importedHands, setImportedHands] = useState<ImportedHand[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const runImport = (content: string) => {
+    const result = parseHandHistories(content);
+    setImportedHands(result.hands);
+    setErrors(result.errors);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const content = await file.text();
+    setText(content);
+    runImport(content);
+    e.target.value = "";
+  };
+
+  const selectedHand = selectedIndex !== null ? importedHands[selectedIndex] : null;
+  const selectedSummary = useMemo(
+    () => (selectedHand && selectedIndex !== null ? toHandSummary(selectedHand, selectedIndex) : null),
+    [selectedHand, selectedIndex]
+  );
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Import Hand Histories</DialogTitle>
+            <DialogDescription>
+              Paste PokerStars or GGPoker No-Limit Hold&apos;em hand histories, or upload a .txt file.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder="PokerStars Hand #123456789: Hold'em No Limit (1/2) - ..."
+              className="w-full h-40 rounded-md border border-input bg-background px-3 py-2 text-xs font-mono ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            />
+            <div className="flex gap-2">
+              <Button onClick={() => runImport(text)} disabled={!text.trim()}>
+                Parse Hands
+              </Button>
+              <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+                <FileUp className="h-4 w-4 mr-1" />
+                Upload File
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".txt,text/plain"
+                className="hidden"
+                onChange={handleFileChange}
+              />
+            </div>
+
+            {errors.length > 0 && (
+              <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg flex items-start gap-3">
+                <AlertCircle className="h-4 w-4 text-destructive flex-shrink-0 mt-0.5" />
+                <div className="text-xs text-muted-foreground space-y-1">
+                  {errors.slice(0, 5).map((err, idx) => (
+                    <p key={idx}>{err}</p>
+                  ))}
+                  {errors.length > 5 && <p>…and {errors.length - 5} more</p>}
+                </div>
+              </div>
+            )}
+
+            {importedHands.length > 0 && (
+              <ScrollArea className="h-56 border rounded-md">
+                <div className="divide-y">
+                  {importedHands.map((hand, idx) => (
+                    <button
+                      key={`${hand.sourceHandId}-${idx}`}
+                      className="w-full flex items-center justify-between px-3 py-2 text-left hover:bg-muted/30 transition-colors"
+                      onClick={() => setSelectedIndex(idx)}
+                    >
+                      <div>
+                        <div className="font-mono text-sm text-primary">
+                          #{hand.sourceHandId}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {hand.site} • {hand.tableName} •{" "}
+                          {Object.keys(hand.replayInput.manifest).length} players
+                        </div>
+                      </div>
+                      <div className="inline-flex items-center gap-1 text-sm font-medium text-emerald-500">
+                        Watch <Play className="h-4 w-4" />
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {selectedHand && selectedSummary && (
+        <ReplayViewer
+          hand={selectedSummary}
+          replayInput={selectedHand.replayInput}
+          playerNames={selectedHand.playerNames}
+          currentUserId={
+            selectedHand.heroId || Object.values(selectedHand.replayInput.manifest)[0]
+          }
+          onClose={() => setSelectedIndex(null)}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { Link2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import {
+  REPLAY_STREET_LABELS,
+  type ReplayTimelineEntry,
+} from "@/lib/features/replay/replayTimeline";
+
+interface ReplayActionLogProps {
+  entries: ReplayTimelineEntry[];
+  currentFrameIndex: number;
+  onSeek: (frameIndex: number) => void;
+  /** Copy a link that opens the replay at the current action; hidden when not given */
+  onCopyLink?: () => void;
+  className?: string;
+}
+
+/**
+ * Every frame of the replay as a list grouped by street; click an entry to seek to it
+ */
+export function ReplayActionLog({
+  entries,
+  currentFrameIndex,
+  onSeek,
+  onCopyLink,
+  className,
+}: ReplayActionLogProps) {
+  const currentRef = useRef<HTMLButtonElement | null>(null);
+
+  // Keep the current entry in view while the replay plays
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: "nearest" });
+  }, [currentFrameIndex]);
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold">Actions</h3>
+        {onCopyLink && (
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={onCopyLink}>
+            <Link2 className="h-3 w-3 mr-1" />
+            Link to action
+          </Button>
+        )}
+      </div>
+
+      <ol className="space-y-0.5">
+        {entries.map((entry, index) => {
+          const isCurrent = entry.frameIndex === currentFrameIndex;
+          const startsStreet = index === 0 || entries[index - 1].street !== entry.street;
+          return (
+            <li key={entry.frameIndex}>
+              {startsStreet && entry.street !== "waiting" && (
+                <div className="pt-2 pb-1 text-[10px] font-semibold uppercase tracking-wide text-muted-foreground">
+                  {REPLAY_STREET_LABELS[entry.street]}
+                </div>
+              )}
+              <button
+                ref={isCurrent ? currentRef : undefined}
+                type="button"
+                onClick={() => onSeek(entry.frameIndex)}
+                className={cn(
+                  "flex w-full items-center gap-2 rounded px-2 py-1 text-left text-xs transition-colors",
+                  isCurrent
+                    ? "bg-emerald-500/20 text-emerald-300"
+                    : entry.isStreetStart
+                    ? "text-muted-foreground hover:bg-muted/40"
+                    : "hover:bg-muted/40"
+                )}
+              >
+                <span className="w-6 flex-shrink-0 text-right tabular-nums text-muted-foreground">
+                  {entry.frameIndex + 1}
+                </span>
+                <span className="truncate">{entry.label}</span>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Loader2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { DEFAULT_VILLAIN_RANGE } from "@/components/features/analysis/PotOddsPanel";
+import { useReplayEquity } from "@/lib/hooks";
+import { cn } from "@/lib/utils";
+import {
+  buildReplayEquityPlan,
+  getFrameEquities,
+} from "@/lib/features/equity/replayEquity";
+import { REPLAY_STREET_LABELS } from "@/lib/features/replay/replayTimeline";
+import type { GameState } from "@/lib/types/poker";
+
+const LINE_COLORS = ["#10b981", "#ef4444", "#3b82f6", "#f59e0b", "#a855f7", "#ec4899"];
+const NEEDED_KEY = "needed";
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const toPoint = (value: number) => Math.round(value * 1000) / 10;
+
+interface ReplayEquityChartProps {
+  /** Game state of every replay frame */
+  states: GameState[];
+  currentFrameIndex: number;
+  seatLabels: Record<number, string>;
+  onSelectFrame: (frameIndex: number) => void;
+}
+
+/**
+ * Each player's equity across the replay, split by street, with the equity a
+ * call needs wherever the player to act faces a bet. Hidden hands are played
+ * as an editable assumed range.
+ */
+export function ReplayEquityChart({
+  states,
+  currentFrameIndex,
+  seatLabels,
+  onSelectFrame,
+}: ReplayEquityChartProps) {
+  const [assumedRange, setAssumedRange] = useState(DEFAULT_VILLAIN_RANGE);
+
+  const plan = useMemo(
+    () => buildReplayEquityPlan(states, assumedRange.trim() || DEFAULT_VILLAIN_RANGE),
+    [states, assumedRange]
+  );
+  const { result, isCalculating } = useReplayEquity(
+    plan.request.spots.length > 0 ? plan.request : null
+  );
+
+  const frameEquities = useMemo(
+    () => plan.frames.map((frame) => getFrameEquities(frame, result)),
+    [plan, result]
+  );
+
+  const seats = useMemo(
+    () => [...new Set(plan.frames.flatMap((frame) => frame.seats))].sort((a, b) => a - b),
+    [plan]
+  );
+
+  const data = plan.frames.map((frame, index) => {
+    const row: Record<string, number | null> = { frame: index };
+    const equities = frameEquities[index];
+    seats.forEach((seat) => {
+      const equity = equities?.[seat];
+      row[`seat${seat}`] = equity === undefined ? null : toPoint(equity);
+    });
+    row[NEEDED_KEY] = frame.facingBet ? toPoint(frame.facingBet.requiredEquity) : null;
+    return row;
+  });
+
+  const streetStarts = plan.frames
+    .map((frame, index) => ({ index, street: frame.street }))
+    .filter(({ index, street }) => index > 0 && plan.frames[index - 1].street !== street);
+
+  const current = plan.frames[currentFrameIndex];
+  const currentEquities = frameEquities[currentFrameIndex];
+  const facingBet = current?.facingBet ?? null;
+  const facingEquity = facingBet ? currentEquities?.[facingBet.seat] : undefined;
+  const allBlank =
+    result?.done && plan.request.spots.length > 0 && result.equities.every((e) => e === null);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-3">
+        <h3 className="text-sm font-semibold">Equity by Street</h3>
+        {isCalculating && (
+          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            {Math.round((result?.progress ?? 0) * 100)}%
+          </span>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">Hidden hands play</span>
+          <Input
+            value={assumedRange}
+            onChange={(e) => setAssumedRange(e.target.value)}
+            placeholder={DEFAULT_VILLAIN_RANGE}
+            className="h-7 w-72 font-mono text-xs"
+          />
+        </div>
+      </div>
+
+      {allBlank ? (
+        <p className="py-6 text-center text-xs text-muted-foreground">
+          The assumed range has no hands left to deal in this hand
+        </p>
+      ) : (
+        <div className="h-40 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart
+              data={data}
+              margin={{ top: 16, right: 16, bottom: 0, left: 0 }}
+              onClick={(chart) => {
+                if (chart?.activeLabel !== undefined) onSelectFrame(Number(chart.activeLabel));
+              }}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+              <XAxis
+                dataKey="frame"
+                type="number"
+                domain={[0, Math.max(0, data.length - 1)]}
+                allowDecimals={false}
+                tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }}
+                tickFormatter={(value: number) => `${value + 1}`}
+                tickLine={false}
+              />
+              <YAxis
+                domain={[0, 100]}
+                tick={{ fontSize: 11, fill: "hsl(var(--muted-foreground))" }}
+                tickFormatter={(value: number) => `${value}%`}
+                tickLine={false}
+                width={44}
+              />
+              <Tooltip
+                contentStyle={{
+                  background: "hsl(var(--card))",
+                  border: "1px solid hsl(var(--border))",
+                  borderRadius: 8,
+                  fontSize: 12,
+                }}
+                labelFormatter={(frame: number) =>
+                  `Frame ${frame + 1} · ${REPLAY_STREET_LABELS[plan.frames[frame]?.street] ?? ""}`
+                }
+                formatter={(value: number, name: string) => [`${value}%`, name]}
+              />
+              <Legend wrapperStyle={{ fontSize: 11 }} />
+              {streetStarts.map(({ index, street }) => (
+                <ReferenceLine
+                  key={index}
+                  x={index}
+                  stroke="hsl(var(--muted-foreground))"
+                  strokeOpacity={0.5}
+                  label={{
+                    value: REPLAY_STREET_LABELS[street],
+                    position: "insideTopLeft",
+                    fontSize: 10,
+                    fill: "hsl(var(--muted-foreground))",
+                  }}
+                />
+              ))}
+              <ReferenceLine x={currentFrameIndex} stroke="var(--primary)" strokeWidth={2} />
+              {seats.map((seat, i) => (
+                <Line
+                  key={seat}
+                  type="stepAfter"
+                  dataKey={`seat${seat}`}
+                  name={seatLabels[seat] || `Seat ${seat}`}
+                  stroke={LINE_COLORS[i % LINE_COLORS.length]}
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              ))}
+              <Line
+                dataKey={NEEDED_KEY}
+                name="Needed to call"
+                stroke="#e2e8f0"
+                strokeWidth={0}
+                dot={{ r: 3, fill: "#e2e8f0" }}
+                legendType="circle"
+                isAnimationActive={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {current && (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs">
+          {current.seats.map((seat) => (
+            <span key={seat} className="text-muted-foreground">
+              {seatLabels[seat] || `Seat ${seat}`}:{" "}
+              <span className="font-mono text-foreground">
+                {currentEquities?.[seat] !== undefined ? formatPercent(currentEquities[seat]) : "—"}
+              </span>
+              {current.rangeSeats.includes(seat) && " (range)"}
+            </span>
+          ))}
+          {facingBet && (
+            <span className="ml-auto text-muted-foreground">
+              {seatLabels[facingBet.seat] || `Seat ${facingBet.seat}`} to call {facingBet.toCall} •
+              Pot {facingBet.pot} • Needs{" "}
+              <span className="font-mono text-foreground">
+                {formatPercent(facingBet.requiredEquity)}
+              </span>
+              {facingEquity !== undefined && (
+                <>
+                  {" • Has "}
+                  <span
+                    className={cn(
+                      "font-mono",
+                      facingEquity >= facingBet.requiredEquity ? "text-emerald-400" : "text-red-400"
+                    )}
+                  >
+                    {formatPercent(facingEquity)}
+                  </span>
+                </>
+              )}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { REPLAY_STREET_LABELS, type ReplayTimeline } from "@/lib/features/replay/replayTimeline";
+
+interface ReplayTimelineBarProps {
+  timeline: ReplayTimeline;
+  currentFrameIndex: number;
+  onSeek: (frameIndex: number) => void;
+}
+
+/**
+ * Scrubber with one segment per frame, a gap at each street boundary and
+ * buttons that jump to the start of a street
+ */
+export function ReplayTimelineBar({ timeline, currentFrameIndex, onSeek }: ReplayTimelineBarProps) {
+  const { entries, streets } = timeline;
+  const current = entries[currentFrameIndex];
+  const streetStarts = new Set(streets.map((marker) => marker.frameIndex));
+
+  return (
+    <div className="flex-1 min-w-0 space-y-2">
+      <div className="flex items-center gap-2">
+        <div className="flex flex-wrap gap-1">
+          {streets.map((marker) => (
+            <button
+              key={marker.street}
+              type="button"
+              onClick={() => onSeek(marker.frameIndex)}
+              className={cn(
+                "rounded border px-2 py-0.5 text-xs transition-colors",
+                current?.street === marker.street
+                  ? "border-emerald-500 bg-emerald-500/20 text-emerald-300"
+                  : "border-slate-600 text-slate-300 hover:border-slate-400"
+              )}
+            >
+              {REPLAY_STREET_LABELS[marker.street]}
+            </button>
+          ))}
+        </div>
+        <div className="ml-auto truncate text-sm font-medium" title={current?.label}>
+          {current?.label}
+        </div>
+      </div>
+
+      <div className="flex h-3 items-stretch gap-px" role="group" aria-label="Replay timeline">
+        {entries.map((entry) => (
+          <button
+            key={entry.frameIndex}
+            type="button"
+            onClick={() => onSeek(entry.frameIndex)}
+            title={`${entry.frameIndex + 1}. ${entry.label}`}
+            aria-label={entry.label}
+            aria-current={entry.frameIndex === currentFrameIndex ? "step" : undefined}
+            className={cn(
+              "flex-1 min-w-[3px] rounded-sm transition-colors",
+              streetStarts.has(entry.frameIndex) && entry.frameIndex > 0 && "ml-1.5",
+              entry.frameIndex === currentFrameIndex
+                ? "bg-emerald-400"
+                : entry.frameIndex < currentFrameIndex
+                ? "bg-primary"
+                : "bg-secondary hover:bg-muted-foreground/50"
+            )}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -11,36 +11,52 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { PokerTable } from "@/components/features/game/PokerTable";
+import { PotOddsPanel } from "@/components/features/analysis/PotOddsPanel";
+import { HandReviewPanel } from "@/components/features/handReview";
+import { ShareHandDialog } from "@/components/features/replay/ShareHandDialog";
+import { ReplayEquityChart } from "@/components/features/replay/ReplayEquityChart";
+import { ReplayTimelineBar } from "@/components/features/replay/ReplayTimelineBar";
+import { ReplayActionLog } from "@/components/features/replay/ReplayActionLog";
 import { ReplayOrchestrator, type ReplayInput, type ReplayResult } from "@/lib/features/replay/ReplayOrchestrator";
-import { useReplayController } from "@/lib/hooks";
+import {
+  REPLAY_HAND_PARAM,
+  buildReplayTimeline,
+  getActionFrameIndex,
+  getReplayActionUrl,
+} from "@/lib/features/replay/replayTimeline";
+import { useReplayController, useToast } from "@/lib/hooks";
 import { createClientComponentClient } from "@/lib/api/supabase/client";
-import { Play, Pause, SkipForward, SkipBack, X, AlertCircle } from "lucide-react";
+import { Play, Pause, SkipForward, SkipBack, X, AlertCircle, Download, Calculator, ChevronLeft, ChevronRight, MessageSquare, Share2, TrendingUp, ListOrdered } from "lucide-react";
 // @ts-ignore - Importing from shared backend
 import { PokerCodec } from "@backend/domain/handHistory/PokerCodec";
-import { getErrorMessage } from "@/lib/utils";
-
-interface HandSummary {
-  id: string;
-  game_id: string;
-  hand_index: number;
-  final_pot: number;
-  winner_id: string | null;
-  played_at: string;
-  replay_data: string;
-  player_manifest: Record<string, string>;
-  config?: {
-    gameType?: string;
-    sb?: number;
-    bb?: number;
-    [key: string]: any;
-  };
-}
+import { getErrorMessage, downloadTextFile } from "@/lib/utils";
+import type { HandSummary } from "@/lib/types/handHistory";
+import {
+  exportHandToPokerStars,
+  exportHandsToPokerStars,
+} from "@/lib/features/handHistory/PokerStarsExporter";
+import { fetchHandsByGameId } from "@/lib/api/supabase/handHistory";
+import { getGameDecision } from "@/lib/features/equity/potOdds";
+import { isLocalHand } from "@/lib/features/game/localHandHistory";
 
 interface ReplayViewerProps {
   hand: HandSummary;
-  onClose: () => void;
+  onClose?: () => void; // Not needed when embedded
   currentUserId?: string; // Optional - will fetch if not provided
   playerNames?: Record<string, string>; // Optional - falls back to "Seat X"
+  replayInput?: ReplayInput; // Optional - pre-built input (e.g. imported hands) skips decoding
+  handQueue?: HandQueue; // Optional - step through several hands (e.g. a selection)
+  embedded?: boolean; // Optional - render in the page instead of a dialog, without owner-only actions
+  initialActionIndex?: number; // Optional - open at this action (e.g. from a deep link)
+}
+
+/**
+ * Position of the shown hand in a list of hands to replay one after another
+ */
+interface HandQueue {
+  index: number;
+  total: number;
+  onSelect: (index: number) => void;
 }
 
 /**
@@ -59,8 +75,13 @@ export function ReplayViewer({
   onClose,
   currentUserId: propCurrentUserId,
   playerNames: propPlayerNames,
+  replayInput: propReplayInput,
+  handQueue,
+  embedded = false,
+  initialActionIndex,
 }: ReplayViewerProps) {
   const supabase = createClientComponentClient();
+  const { toast } = useToast();
   const [currentUserId, setCurrentUserId] = useState<string | null>(
     propCurrentUserId || null
   );
@@ -70,6 +91,8 @@ export function ReplayViewer({
 
   // Decode hand data into ReplayInput
   const replayInput = useMemo<ReplayInput | null>(() => {
+    if (propReplayInput) return propReplayInput;
+
     try {
       if (!hand.replay_data) {
         console.error("[ReplayViewer] No replay_data found in hand object");
@@ -155,7 +178,7 @@ export function ReplayViewer({
       setIsLoading(false);
       return null;
     }
-  }, [hand]);
+  }, [hand, propReplayInput]);
 
   // Fetch currentUserId if not provided
   useEffect(() => {
@@ -246,15 +269,94 @@ export function ReplayViewer({
     }
   }, [replayInput, isValidInput, playerNames]);
 
+  // Frame labels and street boundaries for the scrubber and action log
+  const timeline = useMemo(
+    () => (replayInput && replayResult ? buildReplayTimeline(replayInput, replayResult.frames) : null),
+    [replayInput, replayResult]
+  );
+  const initialFrameIndex = useMemo(
+    () =>
+      replayResult && initialActionIndex !== undefined
+        ? getActionFrameIndex(replayResult.frames, initialActionIndex)
+        : 0,
+    [replayResult, initialActionIndex]
+  );
+
   // Use replay controller hook
   const { state, controls, error: controllerError } = useReplayController(
     replayResult,
-    1000 // Default 1x speed
+    1000, // Default 1x speed
+    initialFrameIndex
   );
 
   // Derive isHeadsUp from variant
   const isHeadsUp = replayInput?.variant === "heads_up";
 
+  // One side panel at a time: pot odds / EV for whoever is to act, the action log, or the user's review notes
+  const [sidePanel, setSidePanel] = useState<"potOdds" | "actions" | "review" | null>(null);
+  const toggleSidePanel = (panel: "potOdds" | "actions" | "review") =>
+    setSidePanel((current) => (current === panel ? null : panel));
+  const showEvPanel = sidePanel === "potOdds";
+  // Imported and local bot hands aren't stored, so they can't be reviewed or shared
+  const canReview = !propReplayInput && !isLocalHand(hand) && !embedded;
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  // Equity chart under the timeline, independent of the side panels
+  const [showEquity, setShowEquity] = useState(false);
+  const frameStates = useMemo(
+    () => replayResult?.frames.map((frame) => frame.state) ?? [],
+    [replayResult]
+  );
+  const seatLabels = useMemo(() => {
+    const labels: Record<number, string> = {};
+    frameStates[0]?.players.forEach((p) => {
+      labels[p.seat] = playerNames[p.id] || `Seat ${p.seat}`;
+    });
+    return labels;
+  }, [frameStates, playerNames]);
+
+  // Frames before the first action (blinds, dealing) report -1
+  const currentActionIndex =
+    replayResult?.frames[state.currentFrameIndex]?.actionIndex ?? -1;
+  const seekToFrame = useCallback(
+    (frameIndex: number) => {
+      controls.pause();
+      controls.goToFrame(frameIndex);
+    },
+    [controls]
+  );
+  const seekToAction = useCallback(
+    (actionIndex: number) => {
+      const frames = replayResult?.frames ?? [];
+      if (frames.length === 0) return;
+      seekToFrame(getActionFrameIndex(frames, actionIndex));
+    },
+    [replayResult, seekToFrame]
+  );
+
+  // Shared replays link to their own page; stored hands open in the hand history browser
+  const getActionLinkBase = () => {
+    if (embedded) return window.location.href;
+    if (canReview) return `${window.location.origin}/profile/hands?${REPLAY_HAND_PARAM}=${hand.id}`;
+    return null;
+  };
+  const handleCopyActionLink = async () => {
+    const base = getActionLinkBase();
+    if (!base) return;
+    try {
+      await navigator.clipboard.writeText(getReplayActionUrl(base, currentActionIndex));
+      toast({ title: "Link copied", description: "The link opens the replay at this action" });
+    } catch {
+      toast({ title: "Error", description: "Could not copy the link", variant: "destructive" });
+    }
+  };
+  const decision = useMemo(
+    () => (state.activeState ? getGameDecision(state.activeState) : null),
+    [state.activeState]
+  );
+  const decisionPlayer = decision
+    ? state.activeState?.players.find((p) => p.seat === decision.seat)
+    : undefined;
+
   useEffect(() => {
     if (!hand.player_manifest) return;
 
@@ -286,10 +388,10 @@ export function ReplayViewer({
   // Handle close - pause playback
   const handleClose = useCallback(() => {
     controls.pause();
-    onClose();
+    onClose?.();
   }, [controls, onClose]);
 
-  // Hotkeys: Spacebar for play/pause, Arrow keys for stepping
+  // Hotkeys: Spacebar for play/pause, Arrow keys for stepping (Shift steps a street), Home/End for the ends
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       // Only handle if modal is open and not typing in an input/select
@@ -304,7 +406,7 @@ export function ReplayViewer({
       }
 
       // Prevent default for arrow keys and spacebar to avoid scrolling/page jumping
-      if (["ArrowLeft", "ArrowRight", " "].includes(e.key)) {
+      if (["ArrowLeft", "ArrowRight", " ", "Home", "End"].includes(e.key)) {
         e.preventDefault();
       }
 
@@ -314,12 +416,26 @@ export function ReplayViewer({
           controls.togglePlayPause();
           break;
         case "ArrowLeft":
-          // Left arrow: previous frame
-          controls.prevFrame();
+          // Left arrow: previous frame; with Shift, start of this or the previous street
+          if (e.shiftKey) {
+            controls.prevStreet();
+          } else {
+            controls.prevFrame();
+          }
           break;
         case "ArrowRight":
-          // Right arrow: next frame
-          controls.nextFrame();
+          // Right arrow: next frame; with Shift, start of the next street
+          if (e.shiftKey) {
+            controls.nextStreet();
+          } else {
+            controls.nextFrame();
+          }
+          break;
+        case "Home":
+          controls.goToFrame(0);
+          break;
+        case "End":
+          controls.goToFrame(state.totalFrames - 1);
           break;
       }
     };
@@ -328,7 +444,7 @@ export function ReplayViewer({
     return () => {
       document.removeEventListener("keydown", handleKeyDown);
     };
-  }, [controls]);
+  }, [controls, state.totalFrames]);
 
   // Find current speed preset label
   const currentSpeedLabel = useMemo(() => {
@@ -347,57 +463,167 @@ export function ReplayViewer({
     [controls]
   );
 
+  // Export this hand as PokerStars text
+  const handleExportHand = useCallback(() => {
+    try {
+      const text = exportHandToPokerStars(hand, {
+        playerNames,
+        heroId: currentUserId || undefined,
+      });
+      downloadTextFile(`pokronline-hand-${hand.game_id.slice(0, 8)}-${hand.hand_index}.txt`, text);
+    } catch (error: unknown) {
+      console.error("[ReplayViewer] Export failed:", error);
+      setOrchestrationError(`Failed to export hand: ${getErrorMessage(error)}`);
+      setDismissedError(false);
+    }
+  }, [hand, playerNames, currentUserId]);
+
+  // Export every stored hand from this game (session)
+  const [isExportingSession, setIsExportingSession] = useState(false);
+  const handleExportSession = useCallback(async () => {
+    setIsExportingSession(true);
+    try {
+      const sessionHands = await fetchHandsByGameId(hand.game_id);
+      const text = exportHandsToPokerStars(
+        sessionHands.length > 0 ? sessionHands : [hand],
+        { playerNames, heroId: currentUserId || undefined }
+      );
+      downloadTextFile(`pokronline-session-${hand.game_id.slice(0, 8)}.txt`, text);
+    } finally {
+      setIsExportingSession(false);
+    }
+  }, [hand, playerNames, currentUserId]);
+
   // Show error if orchestration failed
   const showError = orchestrationError || controllerError;
   const displayError = showError && !dismissedError;
 
-  return (
-    <Dialog open={true} onOpenChange={handleClose}>
-      <DialogContent className="max-w-[95vw] w-full h-[95vh] p-0 flex flex-col">
-        <DialogTitle className="sr-only">Hand Replay</DialogTitle>
-        <DialogDescription className="sr-only">
-          Interactive replay viewer for poker hand {hand.hand_index} from game {hand.game_id.slice(0, 8)}
-        </DialogDescription>
-        
-        {/* Header */}
-        <div className="flex items-center p-4 border-b">
-          <div>
-            <h2 className="text-xl font-semibold">Hand Replay</h2>
-            <p className="text-sm text-muted-foreground">
-              Game: {hand.game_id.slice(0, 8)} • Hand #{hand.hand_index} • {replayInput?.variant?.replace("_", " ") || "Unknown"}
-            </p>
-          </div>
+  const content = (
+    <>
+      {/* Header */}
+      <div className="flex items-center p-4 border-b">
+        <div>
+          <h2 className="text-xl font-semibold">Hand Replay</h2>
+          <p className="text-sm text-muted-foreground">
+            Game: {hand.game_id.slice(0, 8)} • Hand #{hand.hand_index} • {replayInput?.variant?.replace("_", " ") || "Unknown"}
+          </p>
         </div>
-
-        {/* Error Banner */}
-        {displayError && (
-          <div className="mx-4 mt-4 p-3 bg-destructive/10 border border-destructive/20 rounded-lg flex items-start gap-3">
-            <AlertCircle className="h-5 w-5 text-destructive flex-shrink-0 mt-0.5" />
-            <div className="flex-1">
-              <p className="text-sm font-medium text-destructive">
-                Replay Error
-              </p>
-              <p className="text-xs text-muted-foreground mt-1">
-                {showError}
-                {replayResult?.stoppedAtActionIndex !== undefined && (
-                  <span className="ml-2">
-                    (Stopped at action index: {replayResult.stoppedAtActionIndex})
-                  </span>
-                )}
-              </p>
+        <div className="ml-auto mr-8 flex items-center gap-2">
+          {handQueue && handQueue.total > 1 && (
+            <div className="flex items-center gap-1 mr-2">
+              <Button
+                variant="outline"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => handQueue.onSelect(handQueue.index - 1)}
+                disabled={handQueue.index === 0}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-sm text-muted-foreground tabular-nums">
+                {handQueue.index + 1} / {handQueue.total}
+              </span>
+              <Button
+                variant="outline"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => handQueue.onSelect(handQueue.index + 1)}
+                disabled={handQueue.index === handQueue.total - 1}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
             </div>
-            <Button
-              variant="ghost"
-              size="icon"
-              className="h-6 w-6"
-              onClick={() => setDismissedError(true)}
-            >
-              <X className="h-3 w-3" />
-            </Button>
+          )}
+          <Button
+            variant={showEquity ? "secondary" : "outline"}
+            size="sm"
+            onClick={() => setShowEquity((current) => !current)}
+          >
+            <TrendingUp className="h-4 w-4 mr-1" />
+            Equity
+          </Button>
+          <Button
+            variant={sidePanel === "actions" ? "secondary" : "outline"}
+            size="sm"
+            onClick={() => toggleSidePanel("actions")}
+          >
+            <ListOrdered className="h-4 w-4 mr-1" />
+            Actions
+          </Button>
+          <Button
+            variant={showEvPanel ? "secondary" : "outline"}
+            size="sm"
+            onClick={() => toggleSidePanel("potOdds")}
+          >
+            <Calculator className="h-4 w-4 mr-1" />
+            Pot Odds
+          </Button>
+          {canReview && (
+            <>
+              <Button
+                variant={sidePanel === "review" ? "secondary" : "outline"}
+                size="sm"
+                onClick={() => toggleSidePanel("review")}
+              >
+                <MessageSquare className="h-4 w-4 mr-1" />
+                Review
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setIsShareOpen(true)}>
+                <Share2 className="h-4 w-4 mr-1" />
+                Share
+              </Button>
+            </>
+          )}
+          {!propReplayInput && !embedded && (
+            <>
+              <Button variant="outline" size="sm" onClick={handleExportHand}>
+                <Download className="h-4 w-4 mr-1" />
+                Export Hand
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleExportSession}
+                disabled={isExportingSession}
+              >
+                <Download className="h-4 w-4 mr-1" />
+                Export Session
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Error Banner */}
+      {displayError && (
+        <div className="mx-4 mt-4 p-3 bg-destructive/10 border border-destructive/20 rounded-lg flex items-start gap-3">
+          <AlertCircle className="h-5 w-5 text-destructive flex-shrink-0 mt-0.5" />
+          <div className="flex-1">
+            <p className="text-sm font-medium text-destructive">
+              Replay Error
+            </p>
+            <p className="text-xs text-muted-foreground mt-1">
+              {showError}
+              {replayResult?.stoppedAtActionIndex !== undefined && (
+                <span className="ml-2">
+                  (Stopped at action index: {replayResult.stoppedAtActionIndex})
+                </span>
+              )}
+            </p>
           </div>
-        )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() => setDismissedError(true)}
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
 
-        {/* Main Content Area */}
+      {/* Main Content Area */}
+      <div className="flex-1 flex overflow-hidden">
         <div className="flex-1 relative overflow-hidden">
           {isLoading ? (
             <div className="absolute inset-0 flex items-center justify-center">
@@ -429,103 +655,169 @@ export function ReplayViewer({
           )}
         </div>
 
-        {/* Playback Control Bar */}
-        <div className="border-t p-4 bg-card">
-          <div className="flex items-center gap-4">
-            {/* Play/Pause Button */}
-            <Button
-              variant="outline"
-              size="icon"
-              onClick={controls.togglePlayPause}
-              disabled={state.totalFrames === 0}
-            >
-              {state.isPlaying ? (
-                <Pause className="h-4 w-4" />
-              ) : (
-                <Play className="h-4 w-4" />
-              )}
-            </Button>
-
-            {/* Step Controls */}
-            <Button
-              variant="outline"
-              size="icon"
-              onClick={controls.prevFrame}
-              disabled={state.totalFrames === 0 || state.currentFrameIndex === 0}
-            >
-              <SkipBack className="h-4 w-4" />
-            </Button>
-            <Button
-              variant="outline"
-              size="icon"
-              onClick={controls.nextFrame}
-              disabled={
-                state.totalFrames === 0 ||
-                state.currentFrameIndex >= state.totalFrames - 1
-              }
-            >
-              <SkipForward className="h-4 w-4" />
-            </Button>
-
-            {/* Frame Counter */}
-            <div className="text-sm text-muted-foreground min-w-[100px] text-center">
-              {state.currentFrameIndex + 1} / {state.totalFrames}
-            </div>
-
-            {/* Scrubber */}
-            <div className="flex-1 flex items-center gap-2">
-              <input
-                type="range"
-                min={0}
-                max={Math.max(0, state.totalFrames - 1)}
-                value={state.currentFrameIndex}
-                onChange={(e) => {
-                  const index = parseInt(e.target.value, 10);
-                  if (!isNaN(index)) {
-                    controls.goToFrame(index);
-                  }
-                }}
-                disabled={state.totalFrames === 0}
-                className="flex-1 h-2 bg-secondary rounded-lg appearance-none cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
-                style={{
-                  background: `linear-gradient(to right, var(--primary) 0%, var(--primary) ${
-                    state.totalFrames > 0
-                      ? (state.currentFrameIndex / (state.totalFrames - 1)) * 100
-                      : 0
-                  }%, var(--secondary) ${
-                    state.totalFrames > 0
-                      ? (state.currentFrameIndex / (state.totalFrames - 1)) * 100
-                      : 0
-                  }%, var(--secondary) 100%)`,
-                }}
-              />
+        {/* Pot Odds Panel */}
+        {showEvPanel && (
+          <div className="w-80 flex-shrink-0 border-l overflow-y-auto p-4 space-y-3">
+            <div>
+              <h3 className="text-sm font-semibold">Pot Odds &amp; EV</h3>
+              <p className="text-xs text-muted-foreground">
+                {decision && decisionPlayer
+                  ? `${playerNames[decisionPlayer.id] || `Seat ${decision.seat}`} to act • Pot ${decision.spot.pot} • To call ${decision.spot.toCall} • Stack ${decision.spot.heroStack}`
+                  : "Step to a player's turn to see their options"}
+              </p>
             </div>
+            <PotOddsPanel
+              spot={decision?.spot ?? { pot: 0, toCall: 0, heroStack: 0, villainStack: 0 }}
+              heroCards={decision?.heroCards ?? []}
+              board={decision?.board ?? []}
+              emptyMessage={
+                decision
+                  ? "This player's cards are hidden at this point"
+                  : "Nothing to decide at this point"
+              }
+            />
+          </div>
+        )}
 
-            {/* Speed Control */}
-            <Select
-              value={state.playbackSpeed.toString()}
-              onValueChange={handleSpeedChange}
-            >
-              <SelectTrigger className="w-[100px]">
-                <SelectValue>{currentSpeedLabel}</SelectValue>
-              </SelectTrigger>
-              <SelectContent>
-                {SPEED_PRESETS.map((preset) => (
-                  <SelectItem key={preset.value} value={preset.value.toString()}>
-                    {preset.label}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+        {/* Action Log */}
+        {sidePanel === "actions" && timeline && (
+          <div className="w-72 flex-shrink-0 border-l overflow-y-auto p-4">
+            <ReplayActionLog
+              entries={timeline.entries}
+              currentFrameIndex={state.currentFrameIndex}
+              onSeek={seekToFrame}
+              onCopyLink={embedded || canReview ? handleCopyActionLink : undefined}
+            />
           </div>
+        )}
 
-          {/* Hotkey Hint */}
-          <div className="mt-2 text-xs text-muted-foreground text-center">
-            <kbd className="px-2 py-1 bg-muted rounded text-xs">Space</kbd> Play/Pause •{" "}
-            <kbd className="px-2 py-1 bg-muted rounded text-xs">←</kbd>{" "}
-            <kbd className="px-2 py-1 bg-muted rounded text-xs">→</kbd> Step
+        {/* Review Panel */}
+        {sidePanel === "review" && canReview && (
+          <div className="w-80 flex-shrink-0 border-l overflow-y-auto p-4">
+            <HandReviewPanel
+              handId={hand.id}
+              actionIndex={currentActionIndex}
+              onSeek={seekToAction}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Playback Control Bar */}
+      <div className="border-t p-4 bg-card">
+        <div className="flex items-center gap-4">
+          {/* Play/Pause Button */}
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={controls.togglePlayPause}
+            disabled={state.totalFrames === 0}
+          >
+            {state.isPlaying ? (
+              <Pause className="h-4 w-4" />
+            ) : (
+              <Play className="h-4 w-4" />
+            )}
+          </Button>
+
+          {/* Step Controls */}
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={controls.prevFrame}
+            disabled={state.totalFrames === 0 || state.currentFrameIndex === 0}
+          >
+            <SkipBack className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={controls.nextFrame}
+            disabled={
+              state.totalFrames === 0 ||
+              state.currentFrameIndex >= state.totalFrames - 1
+            }
+          >
+            <SkipForward className="h-4 w-4" />
+          </Button>
+
+          {/* Frame Counter */}
+          <div className="text-sm text-muted-foreground min-w-[100px] text-center">
+            {state.currentFrameIndex + 1} / {state.totalFrames}
           </div>
+
+          {/* Scrubber */}
+          {timeline && timeline.entries.length > 0 ? (
+            <ReplayTimelineBar
+              timeline={timeline}
+              currentFrameIndex={state.currentFrameIndex}
+              onSeek={controls.goToFrame}
+            />
+          ) : (
+            <div className="flex-1" />
+          )}
+
+          {/* Speed Control */}
+          <Select
+            value={state.playbackSpeed.toString()}
+            onValueChange={handleSpeedChange}
+          >
+            <SelectTrigger className="w-[100px]">
+              <SelectValue>{currentSpeedLabel}</SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              {SPEED_PRESETS.map((preset) => (
+                <SelectItem key={preset.value} value={preset.value.toString()}>
+                  {preset.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Hotkey Hint */}
+        <div className="mt-2 text-xs text-muted-foreground text-center">
+          <kbd className="px-2 py-1 bg-muted rounded text-xs">Space</kbd> Play/Pause •{" "}
+          <kbd className="px-2 py-1 bg-muted rounded text-xs">←</kbd>{" "}
+          <kbd className="px-2 py-1 bg-muted rounded text-xs">→</kbd> Step •{" "}
+          <kbd className="px-2 py-1 bg-muted rounded text-xs">Shift</kbd> +{" "}
+          <kbd className="px-2 py-1 bg-muted rounded text-xs">←</kbd>{" "}
+          <kbd className="px-2 py-1 bg-muted rounded text-xs">→</kbd> Street •{" "}
+          <kbd className="px-2 py-1 bg-muted rounded text-xs">Home</kbd>{" "}
+          <kbd className="px-2 py-1 bg-muted rounded text-xs">End</kbd> First/Last
+        </div>
+      </div>
+
+      {/* Equity Chart */}
+      {showEquity && frameStates.length > 0 && (
+        <div className="border-t px-4 py-3 bg-card">
+          <ReplayEquityChart
+            states={frameStates}
+            currentFrameIndex={state.currentFrameIndex}
+            seatLabels={seatLabels}
+            onSelectFrame={seekToFrame}
+          />
         </div>
+      )}
+
+      {canReview && (
+        <ShareHandDialog handId={hand.id} open={isShareOpen} onOpenChange={setIsShareOpen} />
+      )}
+    </>
+  );
+
+  if (embedded) {
+    return <div className="w-full h-full flex flex-col">{content}</div>;
+  }
+
+  return (
+    <Dialog open={true} onOpenChange={handleClose}>
+      <DialogContent className="max-w-[95vw] w-full h-[95vh] p-0 flex flex-col">
+        <DialogTitle className="sr-only">Hand Replay</DialogTitle>
+        <DialogDescription className="sr-only">
+          Interactive replay viewer for poker hand {hand.hand_index} from game {hand.game_id.slice(0, 8)}
+        </DialogDescription>
+        {content}
       </DialogContent>
     </Dialog>
   );
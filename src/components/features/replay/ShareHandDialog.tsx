@@ -0,0 +1,167 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Copy, Link2, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useHandShareApi } from "@/lib/api/http";
+import { useToast } from "@/lib/hooks";
+import { getSharedHandUrl } from "@/lib/features/handHistory/sharedHand";
+import type { HandShareLink } from "@/lib/types/sharedHands";
+
+interface ShareHandDialogProps {
+  handId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Create, copy or turn off a hand's public replay link
+ */
+export function ShareHandDialog({ handId, open, onOpenChange }: ShareHandDialogProps) {
+  const { toast } = useToast();
+  const { getShareLink, shareHand, unshareHand } = useHandShareApi();
+  const [share, setShare] = useState<HandShareLink | null>(null);
+  const [anonymize, setAnonymize] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const showError = useCallback(
+    (description: string) => toast({ title: "Error", description, variant: "destructive" }),
+    [toast]
+  );
+
+  // Start from the saved link each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setIsLoading(true);
+    getShareLink(handId).then((result) => {
+      if (cancelled) return;
+      setIsLoading(false);
+      if ("error" in result) {
+        showError(result.error);
+        return;
+      }
+      setShare(result.share);
+      setAnonymize(result.share?.anonymized ?? false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, handId, getShareLink, showError]);
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(getSharedHandUrl(token));
+      toast({ title: "Link copied", description: "Anyone with the link can watch this hand" });
+    } catch {
+      showError("Could not copy the share link");
+    }
+  };
+
+  const handleShare = async () => {
+    setIsSaving(true);
+    const result = await shareHand(handId, { anonymize });
+    setIsSaving(false);
+
+    if ("error" in result) {
+      showError(result.error);
+      return;
+    }
+    setShare(result.share);
+    copyLink(result.share.token);
+  };
+
+  const handleUnshare = async () => {
+    setIsSaving(true);
+    const result = await unshareHand(handId);
+    setIsSaving(false);
+
+    if ("error" in result) {
+      showError(result.error);
+      return;
+    }
+    setShare(null);
+    toast({ title: "Link turned off", description: "The old link no longer works" });
+  };
+
+  const settingsChanged = share !== null && share.anonymized !== anonymize;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Link2 className="h-5 w-5" />
+            Share Hand
+          </DialogTitle>
+          <DialogDescription>
+            Anyone with the link can watch the replay without signing in. Other players&apos; cards
+            stay hidden unless they were shown down.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="share-anonymize">Anonymize usernames</Label>
+                <p className="text-xs text-muted-foreground">
+                  Show &quot;Hero&quot; and &quot;Player 2&quot; instead of names
+                </p>
+              </div>
+              <Switch
+                id="share-anonymize"
+                checked={anonymize}
+                onCheckedChange={setAnonymize}
+                disabled={isSaving}
+              />
+            </div>
+
+            {share && (
+              <div className="space-y-2">
+                <Label>Replay Link</Label>
+                <div className="flex gap-2">
+                  <Input value={getSharedHandUrl(share.token)} readOnly className="text-xs" />
+                  <Button variant="outline" size="icon" onClick={() => copyLink(share.token)}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-between gap-2">
+              <Button
+                variant="ghost"
+                onClick={handleUnshare}
+                disabled={isSaving || !share}
+              >
+                Stop Sharing
+              </Button>
+              {(!share || settingsChanged) && (
+                <Button onClick={handleShare} disabled={isSaving}>
+                  {isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                  {share ? "Update Link" : "Create Link"}
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { format } from 'date-fns';
+import type { ProfitChartProps } from './types';
+
+export function ProfitChart({ data }: ProfitChartProps) {
+  if (data.length === 0) {
+    return (
+      <div className="h-64 flex items-center justify-center text-sm text-muted-foreground">
+        No hands in this range
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-64 w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ top: 8, right: 16, bottom: 0, left: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+          <XAxis
+            dataKey="hand"
+            tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
+            tickLine={false}
+          />
+          <YAxis
+            tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
+            tickLine={false}
+            width={56}
+          />
+          <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" strokeOpacity={0.5} />
+          <Tooltip
+            contentStyle={{
+              background: 'hsl(var(--card))',
+              border: '1px solid hsl(var(--border))',
+              borderRadius: 8,
+              fontSize: 12,
+            }}
+            labelFormatter={(_, payload) => {
+              const point = payload?.[0]?.payload;
+              return point
+                ? `Hand ${point.hand} · ${format(new Date(point.playedAt), 'MMM d, HH:mm')}`
+                : '';
+            }}
+            formatter={(value: number, name: string) => [
+              value.toLocaleString(),
+              name === 'cumulative' ? 'Total' : 'Hand',
+            ]}
+          />
+          <Line
+            type="monotone"
+            dataKey="cumulative"
+            stroke="var(--color-primary-500)"
+            strokeWidth={2}
+            dot={false}
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
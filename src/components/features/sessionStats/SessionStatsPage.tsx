@@ -0,0 +1,310 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { ArrowLeft } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { cn, getErrorMessage } from '@/lib/utils';
+import { ProfitChart } from './ProfitChart';
+import type { SessionStatsPageProps } from './types';
+import type { HandResult, SessionGrouping } from '@/lib/types/sessionStats';
+import {
+  fetchHandResults,
+  getBbPer100,
+  groupSessions,
+  summarizeByVariant,
+  buildCumulativeSeries,
+} from '@/lib/api/supabase/sessionStats';
+
+const VARIANT_LABELS: Record<string, string> = {
+  heads_up: 'Heads Up',
+  six_max: '6-Max',
+  full_ring: 'Full Ring',
+  mixed: 'Mixed',
+};
+
+function formatChips(chips: number): string {
+  if (chips >= 0) {
+    return '+' + chips.toLocaleString();
+  }
+  return chips.toLocaleString();
+}
+
+function resultClass(value: number): string {
+  if (value > 0) return 'text-emerald-500';
+  if (value < 0) return 'text-red-500';
+  return 'text-muted-foreground';
+}
+
+export function SessionStatsPage({ userId }: SessionStatsPageProps) {
+  const [results, setResults] = useState<HandResult[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [grouping, setGrouping] = useState<SessionGrouping>('game');
+  const [selectedSession, setSelectedSession] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadResults = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const data = await fetchHandResults(userId);
+        if (!cancelled) setResults(data);
+      } catch (err: unknown) {
+        if (!cancelled) setError(getErrorMessage(err));
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadResults();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const sessions = useMemo(() => groupSessions(results, grouping), [results, grouping]);
+
+  // Chart and headline numbers follow the selected session, or everything
+  const visibleResults = useMemo(() => {
+    if (!selectedSession) return results;
+    return results.filter((r) =>
+      grouping === 'game'
+        ? r.gameId === selectedSession
+        : format(new Date(r.playedAt), 'yyyy-MM-dd') === selectedSession
+    );
+  }, [results, grouping, selectedSession]);
+
+  const series = useMemo(() => buildCumulativeSeries(visibleResults), [visibleResults]);
+  const variants = useMemo(() => summarizeByVariant(visibleResults), [visibleResults]);
+  const biggestPots = useMemo(
+    () => [...visibleResults].sort((a, b) => b.finalPot - a.finalPot).slice(0, 5),
+    [visibleResults]
+  );
+
+  const netChips = visibleResults.reduce((sum, r) => sum + r.netChips, 0);
+  const handsWon = visibleResults.filter((r) => r.won).length;
+  const winRate = visibleResults.length > 0 ? (handsWon / visibleResults.length) * 100 : 0;
+  const selectedLabel = sessions.find((s) => s.key === selectedSession)?.label;
+
+  const handleGroupingChange = (value: string) => {
+    setGrouping(value as SessionGrouping);
+    setSelectedSession(null);
+  };
+
+  return (
+    <div className="min-h-screen p-8 overflow-auto">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <Link
+          href="/profile"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Profile
+        </Link>
+
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">Session Results</h1>
+            <p className="text-muted-foreground text-sm">
+              {isLoading
+                ? 'Loading your results...'
+                : error
+                ? `Could not load your results: ${error}`
+                : results.length === 0
+                ? 'No hands recorded yet. Play some games to see your results!'
+                : selectedLabel
+                ? `Showing ${selectedLabel}`
+                : `Showing all ${results.length.toLocaleString()} hands`}
+            </p>
+          </div>
+          <Tabs value={grouping} onValueChange={handleGroupingChange}>
+            <TabsList>
+              <TabsTrigger value="game">By Game</TabsTrigger>
+              <TabsTrigger value="date">By Day</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+
+        {/* Headline stats */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Card className="bg-card backdrop-blur-sm border">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm text-muted-foreground">Hands Played</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-bold">{visibleResults.length.toLocaleString()}</p>
+            </CardContent>
+          </Card>
+          <Card className="bg-card backdrop-blur-sm border">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm text-muted-foreground">Net Chips</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className={cn('text-2xl font-bold', resultClass(netChips))}>
+                {formatChips(netChips)}
+              </p>
+            </CardContent>
+          </Card>
+          <Card className="bg-card backdrop-blur-sm border">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm text-muted-foreground">bb/100</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className={cn('text-2xl font-bold', resultClass(netChips))}>
+                {getBbPer100(visibleResults).toFixed(1)}
+              </p>
+            </CardContent>
+          </Card>
+          <Card className="bg-card backdrop-blur-sm border">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm text-muted-foreground">Hands Won</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-bold">{winRate.toFixed(1)}%</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Profit graph */}
+        <Card className="bg-card backdrop-blur-sm border">
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle className="text-lg">Cumulative Net Chips</CardTitle>
+            {selectedSession && (
+              <button
+                className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+                onClick={() => setSelectedSession(null)}
+              >
+                Show all sessions
+              </button>
+            )}
+          </CardHeader>
+          <CardContent>
+            <ProfitChart data={series} />
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {/* Win rate by variant */}
+          <Card className="bg-card backdrop-blur-sm border">
+            <CardHeader>
+              <CardTitle className="text-lg">By Table Size</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Variant</TableHead>
+                    <TableHead className="text-right">Hands</TableHead>
+                    <TableHead className="text-right">Won</TableHead>
+                    <TableHead className="text-right">Net</TableHead>
+                    <TableHead className="text-right">bb/100</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {variants.map((v) => (
+                    <TableRow key={v.variant}>
+                      <TableCell>{VARIANT_LABELS[v.variant]}</TableCell>
+                      <TableCell className="text-right">{v.handsPlayed.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{v.winRate.toFixed(1)}%</TableCell>
+                      <TableCell className={cn('text-right', resultClass(v.netChips))}>
+                        {formatChips(v.netChips)}
+                      </TableCell>
+                      <TableCell className="text-right">{v.bbPer100.toFixed(1)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {/* Biggest pots */}
+          <Card className="bg-card backdrop-blur-sm border">
+            <CardHeader>
+              <CardTitle className="text-lg">Biggest Pots</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Played</TableHead>
+                    <TableHead className="text-right">Pot</TableHead>
+                    <TableHead className="text-right">Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {biggestPots.map((r) => (
+                    <TableRow key={r.handId}>
+                      <TableCell>{format(new Date(r.playedAt), 'MMM d, HH:mm')}</TableCell>
+                      <TableCell className="text-right">{r.finalPot.toLocaleString()}</TableCell>
+                      <TableCell className={cn('text-right', resultClass(r.netChips))}>
+                        {formatChips(r.netChips)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Sessions */}
+        <Card className="bg-card backdrop-blur-sm border">
+          <CardHeader>
+            <CardTitle className="text-lg">Sessions</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{grouping === 'game' ? 'Game' : 'Day'}</TableHead>
+                  <TableHead>Variant</TableHead>
+                  <TableHead className="text-right">Hands</TableHead>
+                  <TableHead className="text-right">Net</TableHead>
+                  <TableHead className="text-right">bb/100</TableHead>
+                  <TableHead className="text-right">Biggest Pot</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sessions.map((session) => (
+                  <TableRow
+                    key={session.key}
+                    className={cn(
+                      'cursor-pointer',
+                      selectedSession === session.key && 'bg-muted/50'
+                    )}
+                    onClick={() =>
+                      setSelectedSession(selectedSession === session.key ? null : session.key)
+                    }
+                  >
+                    <TableCell className="font-medium">{session.label}</TableCell>
+                    <TableCell>{VARIANT_LABELS[session.variant]}</TableCell>
+                    <TableCell className="text-right">{session.handsPlayed.toLocaleString()}</TableCell>
+                    <TableCell className={cn('text-right', resultClass(session.netChips))}>
+                      {formatChips(session.netChips)}
+                    </TableCell>
+                    <TableCell className="text-right">{session.bbPer100.toFixed(1)}</TableCell>
+                    <TableCell className="text-right">{session.biggestPot.toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,3 @@
+export { SessionStatsPage } from './SessionStatsPage';
+export { ProfitChart } from './ProfitChart';
+export type { SessionStatsPageProps, ProfitChartProps } from './types';
@@ -0,0 +1,9 @@
+import type { CumulativePoint } from '@/lib/types/sessionStats';
+
+export interface ProfitChartProps {
+  data: CumulativePoint[];
+}
+
+export interface SessionStatsPageProps {
+  userId: string;
+}
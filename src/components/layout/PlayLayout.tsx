@@ -99,6 +99,7 @@ export function PlayLayout({
                   currentUserId="ambient-user"
                   isHeadsUp={false}
                   maxSeats={6}
+                  enableNotes={false}
                 />
               </div>
             )}
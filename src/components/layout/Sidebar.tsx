@@ -161,6 +161,9 @@ export function Sidebar() {
         { href: "/learn", label: "Lessons" },
         { href: "/tools/range-analysis", label: "Range Evaluator" },
         { href: "/tools/equity-calculator", label: "Equity Evaluator" },
+        { href: "/tools/ev-calculator", label: "EV Calculator" },
+        { href: "/tools/preflop-trainer", label: "Preflop Trainer" },
+        { href: "/tools/push-fold", label: "Push/Fold Charts" },
       ],
     },
     {
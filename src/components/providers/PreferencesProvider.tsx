@@ -4,6 +4,7 @@ import React, { createContext, useContext, useState, useCallback, useEffect, use
 import { createClientComponentClient } from "@/lib/api/supabase/client";
 import { Theme, THEMES, getTheme } from "@/lib/features/theme/themes";
 import { UserPreferences, CardStyle } from "@/lib/features/preferences/types";
+import type { HudLayout } from "@/lib/types/hud";
 import { PREFERENCE_REGISTRY, generateAllCSSVars } from "@/lib/features/preferences/registry";
 
 interface PreferencesContextType {
@@ -18,6 +19,8 @@ interface PreferencesContextType {
   setColorTheme: (t: string) => Promise<void>;
   cardStyle: CardStyle;
   setCardStyle: (s: CardStyle) => Promise<void>;
+  hudLayout: HudLayout;
+  setHudLayout: (l: HudLayout) => Promise<void>;
   // Backward compatibility with useTheme hook
   currentTheme: Theme;
   setTheme: (themeId: string) => Promise<void>;
@@ -29,6 +32,7 @@ const PreferencesContext = createContext<PreferencesContextType>({
     mode: PREFERENCE_REGISTRY.mode.defaultValue,
     colorTheme: PREFERENCE_REGISTRY.colorTheme.defaultValue,
     cardStyle: PREFERENCE_REGISTRY.cardStyle.defaultValue,
+    hudLayout: PREFERENCE_REGISTRY.hudLayout.defaultValue,
   },
   setPreference: async () => {},
   isLoading: false,
@@ -38,6 +42,8 @@ const PreferencesContext = createContext<PreferencesContextType>({
   setColorTheme: async () => {},
   cardStyle: PREFERENCE_REGISTRY.cardStyle.defaultValue,
   setCardStyle: async () => {},
+  hudLayout: PREFERENCE_REGISTRY.hudLayout.defaultValue,
+  setHudLayout: async () => {},
   currentTheme: getTheme(PREFERENCE_REGISTRY.colorTheme.defaultValue),
   setTheme: async () => {},
   availableThemes: THEMES,
@@ -66,6 +72,7 @@ export function PreferencesProvider({ children, initialPreferences }: Preference
     mode: initialPreferences?.mode ?? PREFERENCE_REGISTRY.mode.defaultValue,
     colorTheme: initialPreferences?.colorTheme ?? PREFERENCE_REGISTRY.colorTheme.defaultValue,
     cardStyle: initialPreferences?.cardStyle ?? PREFERENCE_REGISTRY.cardStyle.defaultValue,
+    hudLayout: initialPreferences?.hudLayout ?? PREFERENCE_REGISTRY.hudLayout.defaultValue,
   });
   const [isLoading, setIsLoading] = useState(false);
   const supabase = createClientComponentClient();
@@ -74,6 +81,7 @@ export function PreferencesProvider({ children, initialPreferences }: Preference
     mode: initialPreferences?.mode ?? PREFERENCE_REGISTRY.mode.defaultValue,
     colorTheme: initialPreferences?.colorTheme ?? PREFERENCE_REGISTRY.colorTheme.defaultValue,
     cardStyle: initialPreferences?.cardStyle ?? PREFERENCE_REGISTRY.cardStyle.defaultValue,
+    hudLayout: initialPreferences?.hudLayout ?? PREFERENCE_REGISTRY.hudLayout.defaultValue,
   });
 
   // Apply CSS vars for all preferences that have them
@@ -154,7 +162,7 @@ export function PreferencesProvider({ children, initialPreferences }: Preference
         if (user) {
           const { data, error } = await supabase
             .from("profiles")
-            .select("theme, color_theme, deck_preference")
+            .select("theme, color_theme, deck_preference, hud_layout")
             .eq("id", user.id)
             .single();
 
@@ -165,6 +173,7 @@ export function PreferencesProvider({ children, initialPreferences }: Preference
               mode: PREFERENCE_REGISTRY.mode.validate(data.theme) ? data.theme : PREFERENCE_REGISTRY.mode.defaultValue,
               colorTheme: PREFERENCE_REGISTRY.colorTheme.validate(data.color_theme) ? data.color_theme : PREFERENCE_REGISTRY.colorTheme.defaultValue,
               cardStyle: PREFERENCE_REGISTRY.cardStyle.validate(data.deck_preference) ? data.deck_preference : PREFERENCE_REGISTRY.cardStyle.defaultValue,
+              hudLayout: PREFERENCE_REGISTRY.hudLayout.validate(data.hud_layout) ? data.hud_layout : PREFERENCE_REGISTRY.hudLayout.defaultValue,
             };
             setPreferences(newPrefs);
             applyCSSVars(newPrefs);
@@ -176,6 +185,7 @@ export function PreferencesProvider({ children, initialPreferences }: Preference
             mode: PREFERENCE_REGISTRY.mode.defaultValue,
             colorTheme: PREFERENCE_REGISTRY.colorTheme.defaultValue,
             cardStyle: PREFERENCE_REGISTRY.cardStyle.defaultValue,
+            hudLayout: PREFERENCE_REGISTRY.hudLayout.defaultValue,
           };
           setPreferences(defaultPrefs);
           applyCSSVars(defaultPrefs);
@@ -216,6 +226,8 @@ export function PreferencesProvider({ children, initialPreferences }: Preference
     setColorTheme: (t: string) => setPreference('colorTheme', t),
     cardStyle: preferences.cardStyle,
     setCardStyle: (s: CardStyle) => setPreference('cardStyle', s),
+    hudLayout: preferences.hudLayout,
+    setHudLayout: (l: HudLayout) => setPreference('hudLayout', l),
     // Backward compatibility
     currentTheme,
     setTheme: (themeId: string) => setPreference('colorTheme', themeId),
@@ -0,0 +1,37 @@
+/**
+ * API response wrapper type
+ */
+export interface ApiResponse<T> {
+  data?: T;
+  error?: string;
+  /** HTTP status, when the server answered */
+  status?: number;
+}
+
+/**
+ * Helper to make authenticated fetch requests
+ */
+export async function apiFetch<T>(
+  url: string,
+  options?: RequestInit
+): Promise<ApiResponse<T>> {
+  try {
+    const response = await fetch(url, {
+      ...options,
+      headers: {
+        "Content-Type": "application/json",
+        ...options?.headers,
+      },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return { error: data.error || "Request failed", status: response.status };
+    }
+
+    return { data, status: response.status };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Request failed" };
+  }
+}
@@ -10,42 +10,7 @@ import {
   ClubListResponse,
   ClubMessagesResponse,
 } from "@/lib/types/club";
-
-/**
- * API response wrapper type
- */
-interface ApiResponse<T> {
-  data?: T;
-  error?: string;
-}
-
-/**
- * Helper to make authenticated fetch requests
- */
-async function apiFetch<T>(
-  url: string,
-  options?: RequestInit
-): Promise<ApiResponse<T>> {
-  try {
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        "Content-Type": "application/json",
-        ...options?.headers,
-      },
-    });
-
-    const data = await response.json();
-
-    if (!response.ok) {
-      return { error: data.error || "Request failed" };
-    }
-
-    return { data };
-  } catch (error) {
-    return { error: error instanceof Error ? error.message : "Request failed" };
-  }
-}
+import { apiFetch } from "./apiFetch";
 
 /**
  * Hook for club HTTP API operations
@@ -0,0 +1,78 @@
+"use client";
+
+import { useCallback } from "react";
+import type { HandShareLink } from "@/lib/types/sharedHands";
+import { apiFetch } from "./apiFetch";
+
+/** Error from a hand sharing call; status 401 means the user is signed out */
+export interface HandShareApiError {
+  error: string;
+  status?: number;
+}
+
+/**
+ * Hook for the hand share link HTTP API
+ */
+export function useHandShareApi() {
+  /**
+   * Get the hand's share link, or null when it isn't shared
+   */
+  const getShareLink = useCallback(
+    async (handId: string): Promise<{ share: HandShareLink | null } | HandShareApiError> => {
+      const result = await apiFetch<{ share: HandShareLink | null }>(`/api/hands/${handId}/share`);
+
+      if (result.error) {
+        return { error: result.error, status: result.status };
+      }
+
+      return result.data!;
+    },
+    []
+  );
+
+  /**
+   * Create the share link, or update what it shows (e.g. anonymized names)
+   */
+  const shareHand = useCallback(
+    async (
+      handId: string,
+      payload: { anonymize: boolean }
+    ): Promise<{ share: HandShareLink } | HandShareApiError> => {
+      const result = await apiFetch<{ share: HandShareLink }>(`/api/hands/${handId}/share`, {
+        method: "POST",
+        body: JSON.stringify(payload),
+      });
+
+      if (result.error) {
+        return { error: result.error, status: result.status };
+      }
+
+      return result.data!;
+    },
+    []
+  );
+
+  /**
+   * Turn the share link off; the old link stops working
+   */
+  const unshareHand = useCallback(
+    async (handId: string): Promise<{ success: boolean } | HandShareApiError> => {
+      const result = await apiFetch<{ success: boolean }>(`/api/hands/${handId}/share`, {
+        method: "DELETE",
+      });
+
+      if (result.error) {
+        return { error: result.error, status: result.status };
+      }
+
+      return { success: true };
+    },
+    []
+  );
+
+  return {
+    getShareLink,
+    shareHand,
+    unshareHand,
+  };
+}
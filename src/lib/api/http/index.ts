@@ -4,3 +4,5 @@
 
 export { useClubApi } from "./clubs";
 export { useClubRealtime } from "./clubRealtime";
+export { useRangeLibraryApi } from "./ranges";
+export { useHandShareApi } from "./hands";
@@ -0,0 +1,165 @@
+"use client";
+
+import { useCallback } from "react";
+import type { SharedRange, UserRange, UserRangeVersion } from "@/lib/types/ranges";
+import { apiFetch } from "./apiFetch";
+
+/** Error from a range library call; status 401 means the user is signed out */
+export interface RangeApiError {
+  error: string;
+  status?: number;
+}
+
+/**
+ * Hook for the user range library HTTP API
+ */
+export function useRangeLibraryApi() {
+  /**
+   * Get the user's ranges and the ranges shared with their club
+   */
+  const getRanges = useCallback(
+    async (): Promise<{ ranges: UserRange[]; clubRanges: UserRange[] } | RangeApiError> => {
+      const result = await apiFetch<{ ranges: UserRange[]; clubRanges: UserRange[] }>("/api/ranges");
+
+      if (result.error) {
+        return { error: result.error, status: result.status };
+      }
+
+      return result.data!;
+    },
+    []
+  );
+
+  /**
+   * Get a range with its version history, newest first
+   */
+  const getRange = useCallback(
+    async (
+      rangeId: string
+    ): Promise<{ range: UserRange; versions: UserRangeVersion[] } | RangeApiError> => {
+      const result = await apiFetch<{ range: UserRange; versions: UserRangeVersion[] }>(
+        `/api/ranges/${rangeId}`
+      );
+
+      if (result.error) {
+        return { error: result.error, status: result.status };
+      }
+
+      return result.data!;
+    },
+    []
+  );
+
+  /**
+   * Save a new range to the library
+   */
+  const createRange = useCallback(
+    async (payload: {
+      name: string;
+      folder?: string;
+      rangeString: string;
+    }): Promise<{ range: UserRange } | RangeApiError> => {
+      const result = await apiFetch<{ range: UserRange }>("/api/ranges", {
+        method: "POST",
+        body: JSON.stringify(payload),
+      });
+
+      if (result.error) {
+        return { error: result.error, status: result.status };
+      }
+
+      return result.data!;
+    },
+    []
+  );
+
+  /**
+   * Rename, move or edit a range. A new range string saves a new version.
+   */
+  const updateRange = useCallback(
+    async (
+      rangeId: string,
+      payload: { name?: string; folder?: string; rangeString?: string }
+    ): Promise<{ range: UserRange } | RangeApiError> => {
+      const result = await apiFetch<{ range: UserRange }>(`/api/ranges/${rangeId}`, {
+        method: "PATCH",
+        body: JSON.stringify(payload),
+      });
+
+      if (result.error) {
+        return { error: result.error, status: result.status };
+      }
+
+      return result.data!;
+    },
+    []
+  );
+
+  /**
+   * Delete a range and its history
+   */
+  const deleteRange = useCallback(
+    async (rangeId: string): Promise<{ success: boolean } | RangeApiError> => {
+      const result = await apiFetch<{ success: boolean }>(`/api/ranges/${rangeId}`, {
+        method: "DELETE",
+      });
+
+      if (result.error) {
+        return { error: result.error, status: result.status };
+      }
+
+      return { success: true };
+    },
+    []
+  );
+
+  /**
+   * Turn the public share link and/or club sharing on or off
+   */
+  const shareRange = useCallback(
+    async (
+      rangeId: string,
+      payload: { shareLink?: boolean; shareWithClub?: boolean }
+    ): Promise<{ range: UserRange } | RangeApiError> => {
+      const result = await apiFetch<{ range: UserRange }>(`/api/ranges/${rangeId}/share`, {
+        method: "POST",
+        body: JSON.stringify(payload),
+      });
+
+      if (result.error) {
+        return { error: result.error, status: result.status };
+      }
+
+      return result.data!;
+    },
+    []
+  );
+
+  /**
+   * Read a range through its share link (no sign-in needed)
+   */
+  const getSharedRange = useCallback(
+    async (token: string): Promise<{ range: SharedRange } | RangeApiError> => {
+      const result = await apiFetch<{ range: SharedRange }>(
+        `/api/ranges/shared/${encodeURIComponent(token)}`
+      );
+
+      if (result.error) {
+        return { error: result.error, status: result.status };
+      }
+
+      return result.data!;
+    },
+    []
+  );
+
+  return {
+    getRanges,
+    getRange,
+    createRange,
+    updateRange,
+    deleteRange,
+    shareRange,
+    getSharedRange,
+  };
+}
@@ -73,6 +73,7 @@ export interface UsePrivateGameSocketReturn {
   kickPlayer: (playerId: string) => void;
   updateStack: (seat: number, amount: number) => void;
   updateBlinds: (smallBlind: number, bigBlind: number) => void;
+  setHudEnabled: (enabled: boolean) => void;
   togglePause: () => void;
   startGame: () => void;
 }
@@ -544,6 +545,21 @@ export function usePrivateGameSocket(
     [adminAction, toast]
   );
 
+  // Relies on the game server handling ADMIN_SET_HUD and broadcasting it as
+  // config.hudEnabled; clients hide their HUDs, stats stay readable in the database
+  const setHudEnabled = useCallback(
+    (enabled: boolean) => {
+      adminAction("ADMIN_SET_HUD", { enabled });
+      toast({
+        title: enabled ? "HUDs Allowed" : "HUDs Disabled",
+        description: enabled
+          ? "Players can show stat HUDs at this table."
+          : "Stat HUDs are hidden for everyone at this table.",
+      });
+    },
+    [adminAction, toast]
+  );
+
   const togglePause = useCallback(() => {
     adminAction(isPaused ? "ADMIN_RESUME" : "ADMIN_PAUSE");
   }, [adminAction, isPaused]);
@@ -583,6 +599,7 @@ export function usePrivateGameSocket(
     kickPlayer,
     updateStack,
     updateBlinds,
+    setHudEnabled,
     togglePause,
     startGame,
   };
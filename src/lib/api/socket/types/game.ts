@@ -250,6 +250,10 @@ export type AdminActionPayload =
     })
   | (BaseAdminActionPayload & {
       type: "ADMIN_START_GAME";
+    })
+  | (BaseAdminActionPayload & {
+      type: "ADMIN_SET_HUD";
+      enabled: boolean;
     });
 
 export interface RequestSeatPayload {
@@ -0,0 +1,146 @@
+import { createClientComponentClient } from './client';
+import type { HandSummary } from '@/lib/types/handHistory';
+
+/** Columns selected for hand history rows */
+export const HAND_HISTORY_COLUMNS =
+  'id, game_id, hand_index, final_pot, winner_id, played_at, replay_data, player_manifest, config';
+
+/**
+ * Fetch every stored hand for a game (session), oldest first.
+ * RLS on `hand_histories` restricts results to hands the user played.
+ */
+export async function fetchHandsByGameId(gameId: string): Promise<HandSummary[]> {
+  const supabase = createClientComponentClient();
+
+  const { data, error } = await supabase
+    .from('hand_histories')
+    .select(HAND_HISTORY_COLUMNS)
+    .eq('game_id', gameId)
+    .order('hand_index', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching session hands:', error);
+    return [];
+  }
+
+  return (data as HandSummary[]) || [];
+}
+
+/**
+ * Fetch a single hand, e.g. to open it from a link. Null when it doesn't
+ * exist or the user can't see it.
+ */
+export async function fetchHandById(handId: string): Promise<HandSummary | null> {
+  const supabase = createClientComponentClient();
+
+  const { data, error } = await supabase
+    .from('hand_histories')
+    .select(HAND_HISTORY_COLUMNS)
+    .eq('id', handId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching hand:', error);
+    return null;
+  }
+
+  return (data as HandSummary | null) ?? null;
+}
+
+const PAGE_SIZE = 1000;
+
+/**
+ * Fetch the user's most recent hands (newest first) for client-side stats.
+ * Pages through results since PostgREST caps a single response.
+ */
+export async function fetchRecentHands(maxHands = 5000): Promise<HandSummary[]> {
+  const supabase = createClientComponentClient();
+  const hands: HandSummary[] = [];
+
+  while (hands.length < maxHands) {
+    const from = hands.length;
+    const to = Math.min(from + PAGE_SIZE, maxHands) - 1;
+    const { data, error } = await supabase
+      .from('hand_histories')
+      .select(HAND_HISTORY_COLUMNS)
+      .order('played_at', { ascending: false })
+      .range(from, to);
+
+    if (error) {
+      console.error('Error fetching hand histories:', error);
+      break;
+    }
+
+    const page = (data as HandSummary[]) || [];
+    hands.push(...page);
+    if (page.length < to - from + 1) break;
+  }
+
+  return hands;
+}
+
+/** Position in the newest-first hand list; the next page starts after it */
+export interface HandHistoryCursor {
+  playedAt: string;
+  id: string;
+}
+
+/** Filters applied by the database */
+export interface HandHistoryQuery {
+  /** Inclusive lower bound (ISO timestamp) */
+  playedFrom?: string;
+  /** Exclusive upper bound (ISO timestamp) */
+  playedBefore?: string;
+  gameId?: string;
+  minPot?: number;
+  maxPot?: number;
+}
+
+export interface HandHistoryPage {
+  hands: HandSummary[];
+  /** Null once there are no older hands */
+  nextCursor: HandHistoryCursor | null;
+}
+
+/**
+ * Fetch one page of the user's hands, newest first, starting after `cursor`.
+ * Ties on `played_at` are broken by id so no hand is skipped or repeated.
+ */
+export async function fetchHandHistoryPage(
+  query: HandHistoryQuery,
+  cursor: HandHistoryCursor | null,
+  limit = 50
+): Promise<HandHistoryPage> {
+  const supabase = createClientComponentClient();
+
+  let request = supabase
+    .from('hand_histories')
+    .select(HAND_HISTORY_COLUMNS)
+    .order('played_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit);
+
+  if (query.playedFrom) request = request.gte('played_at', query.playedFrom);
+  if (query.playedBefore) request = request.lt('played_at', query.playedBefore);
+  if (query.gameId) request = request.eq('game_id', query.gameId);
+  if (query.minPot !== undefined) request = request.gte('final_pot', query.minPot);
+  if (query.maxPot !== undefined) request = request.lte('final_pot', query.maxPot);
+  if (cursor) {
+    request = request.or(
+      `played_at.lt."${cursor.playedAt}",and(played_at.eq."${cursor.playedAt}",id.lt.${cursor.id})`
+    );
+  }
+
+  const { data, error } = await request;
+  if (error) {
+    console.error('Error fetching hand history page:', error);
+    throw new Error(error.message);
+  }
+
+  const hands = (data as HandSummary[]) || [];
+  const last = hands[hands.length - 1];
+  return {
+    hands,
+    nextCursor: hands.length === limit && last ? { playedAt: last.played_at, id: last.id } : null,
+  };
+}
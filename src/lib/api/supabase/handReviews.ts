@@ -0,0 +1,272 @@
+import { createClientComponentClient } from './client';
+import { HAND_HISTORY_COLUMNS } from './handHistory';
+import type { HandSummary } from '@/lib/types/handHistory';
+import type {
+  HandComment,
+  HandCommentRow,
+  HandReview,
+  HandReviewRow,
+} from '@/lib/types/handReviews';
+
+const HAND_REVIEW_COLUMNS = 'owner_id, hand_id, starred, tags, updated_at';
+const HAND_COMMENT_COLUMNS = 'id, owner_id, hand_id, action_index, comment, created_at';
+/** Reviewed hands fetched per request */
+const REVIEWED_HANDS_CHUNK_SIZE = 100;
+
+function transformReviewRow(row: HandReviewRow): HandReview {
+  return {
+    handId: row.hand_id,
+    starred: !!row.starred,
+    tags: row.tags || [],
+    updatedAt: row.updated_at,
+  };
+}
+
+function transformCommentRow(row: HandCommentRow): HandComment {
+  return {
+    id: row.id,
+    handId: row.hand_id,
+    actionIndex: row.action_index,
+    comment: row.comment || '',
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Fetch the owner's stars and tags, optionally limited to a set of hands.
+ * RLS on `hand_reviews` only exposes rows the user owns.
+ */
+export async function fetchHandReviews(
+  ownerId: string,
+  handIds?: string[]
+): Promise<Record<string, HandReview>> {
+  const supabase = createClientComponentClient();
+
+  let query = supabase
+    .from('hand_reviews')
+    .select(HAND_REVIEW_COLUMNS)
+    .eq('owner_id', ownerId);
+
+  if (handIds) {
+    if (handIds.length === 0) return {};
+    query = query.in('hand_id', handIds);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching hand reviews:', error);
+    return {};
+  }
+
+  const reviews: Record<string, HandReview> = {};
+  ((data as HandReviewRow[]) || []).forEach((row) => {
+    reviews[row.hand_id] = transformReviewRow(row);
+  });
+  return reviews;
+}
+
+/**
+ * Create or replace the owner's star and tags on a hand
+ */
+export async function saveHandReview(
+  ownerId: string,
+  handId: string,
+  starred: boolean,
+  tags: string[]
+): Promise<HandReview | null> {
+  const supabase = createClientComponentClient();
+
+  const { data, error } = await supabase
+    .from('hand_reviews')
+    .upsert(
+      {
+        owner_id: ownerId,
+        hand_id: handId,
+        starred,
+        tags,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'owner_id,hand_id' }
+    )
+    .select(HAND_REVIEW_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error('Error saving hand review:', error);
+    return null;
+  }
+
+  return transformReviewRow(data as HandReviewRow);
+}
+
+export async function deleteHandReview(ownerId: string, handId: string): Promise<boolean> {
+  const supabase = createClientComponentClient();
+
+  const { error } = await supabase
+    .from('hand_reviews')
+    .delete()
+    .eq('owner_id', ownerId)
+    .eq('hand_id', handId);
+
+  if (error) {
+    console.error('Error deleting hand review:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Fetch the owner's comments on a set of hands, in action order
+ */
+export async function fetchHandComments(
+  ownerId: string,
+  handIds: string[]
+): Promise<HandComment[]> {
+  if (handIds.length === 0) return [];
+  const supabase = createClientComponentClient();
+
+  const { data, error } = await supabase
+    .from('hand_comments')
+    .select(HAND_COMMENT_COLUMNS)
+    .eq('owner_id', ownerId)
+    .in('hand_id', handIds)
+    .order('action_index', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching hand comments:', error);
+    return [];
+  }
+
+  return ((data as HandCommentRow[]) || []).map(transformCommentRow);
+}
+
+export async function addHandComment(
+  ownerId: string,
+  handId: string,
+  actionIndex: number,
+  comment: string
+): Promise<HandComment | null> {
+  const supabase = createClientComponentClient();
+
+  const { data, error } = await supabase
+    .from('hand_comments')
+    .insert({
+      owner_id: ownerId,
+      hand_id: handId,
+      action_index: actionIndex,
+      comment,
+    })
+    .select(HAND_COMMENT_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error('Error adding hand comment:', error);
+    return null;
+  }
+
+  return transformCommentRow(data as HandCommentRow);
+}
+
+export async function deleteHandComment(ownerId: string, commentId: string): Promise<boolean> {
+  const supabase = createClientComponentClient();
+
+  const { error } = await supabase
+    .from('hand_comments')
+    .delete()
+    .eq('owner_id', ownerId)
+    .eq('id', commentId);
+
+  if (error) {
+    console.error('Error deleting hand comment:', error);
+    return false;
+  }
+
+  return true;
+}
+
+export interface ReviewQueue {
+  /** Starred, tagged or commented hands, most recently reviewed first */
+  hands: HandSummary[];
+  reviews: Record<string, HandReview>;
+  comments: Record<string, HandComment[]>;
+}
+
+/**
+ * Fetch every hand the owner has starred, tagged or commented on
+ */
+export async function fetchReviewQueue(ownerId: string): Promise<ReviewQueue> {
+  const supabase = createClientComponentClient();
+
+  const [reviewResult, commentResult] = await Promise.all([
+    supabase.from('hand_reviews').select(HAND_REVIEW_COLUMNS).eq('owner_id', ownerId),
+    supabase
+      .from('hand_comments')
+      .select(HAND_COMMENT_COLUMNS)
+      .eq('owner_id', ownerId)
+      .order('action_index', { ascending: true })
+      .order('created_at', { ascending: true }),
+  ]);
+
+  if (reviewResult.error) {
+    console.error('Error fetching hand reviews:', reviewResult.error);
+    throw new Error(reviewResult.error.message);
+  }
+  if (commentResult.error) {
+    console.error('Error fetching hand comments:', commentResult.error);
+    throw new Error(commentResult.error.message);
+  }
+
+  const reviews: Record<string, HandReview> = {};
+  ((reviewResult.data as HandReviewRow[]) || []).forEach((row) => {
+    reviews[row.hand_id] = transformReviewRow(row);
+  });
+
+  const comments: Record<string, HandComment[]> = {};
+  ((commentResult.data as HandCommentRow[]) || []).forEach((row) => {
+    if (!comments[row.hand_id]) comments[row.hand_id] = [];
+    comments[row.hand_id].push(transformCommentRow(row));
+  });
+
+  // When each hand was last reviewed, for ordering
+  const lastReviewed = new Map<string, string>();
+  const touch = (handId: string, at: string) => {
+    const current = lastReviewed.get(handId);
+    if (!current || at > current) lastReviewed.set(handId, at);
+  };
+  Object.values(reviews).forEach((review) => {
+    if (review.starred || review.tags.length > 0) touch(review.handId, review.updatedAt);
+  });
+  Object.entries(comments).forEach(([handId, handComments]) => {
+    handComments.forEach((comment) => touch(handId, comment.createdAt));
+  });
+
+  const handIds = Array.from(lastReviewed.keys());
+  if (handIds.length === 0) return { hands: [], reviews, comments };
+
+  // Keep each `in` filter short enough for the request URL
+  const chunks: string[][] = [];
+  for (let i = 0; i < handIds.length; i += REVIEWED_HANDS_CHUNK_SIZE) {
+    chunks.push(handIds.slice(i, i + REVIEWED_HANDS_CHUNK_SIZE));
+  }
+
+  const results = await Promise.all(
+    chunks.map((ids) => supabase.from('hand_histories').select(HAND_HISTORY_COLUMNS).in('id', ids))
+  );
+
+  const hands: HandSummary[] = [];
+  for (const { data, error } of results) {
+    if (error) {
+      console.error('Error fetching reviewed hands:', error);
+      throw new Error(error.message);
+    }
+    hands.push(...((data as HandSummary[]) || []));
+  }
+
+  hands.sort((a, b) =>
+    (lastReviewed.get(b.id) ?? '').localeCompare(lastReviewed.get(a.id) ?? '')
+  );
+  return { hands, reviews, comments };
+}
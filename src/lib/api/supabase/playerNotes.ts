@@ -0,0 +1,98 @@
+import { createClientComponentClient } from './client';
+import type { PlayerNote, PlayerNoteColor, PlayerNoteRow } from '@/lib/types/playerNotes';
+
+const PLAYER_NOTE_COLUMNS = 'owner_id, target_id, note, color, updated_at';
+
+function transformRow(row: PlayerNoteRow): PlayerNote {
+  return {
+    targetId: row.target_id,
+    note: row.note || '',
+    color: row.color || 'none',
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Fetch the owner's notes, optionally limited to a set of players.
+ * RLS on `player_notes` only exposes rows the user owns.
+ */
+export async function fetchPlayerNotes(
+  ownerId: string,
+  targetIds?: string[]
+): Promise<Record<string, PlayerNote>> {
+  const supabase = createClientComponentClient();
+
+  let query = supabase
+    .from('player_notes')
+    .select(PLAYER_NOTE_COLUMNS)
+    .eq('owner_id', ownerId);
+
+  if (targetIds) {
+    if (targetIds.length === 0) return {};
+    query = query.in('target_id', targetIds);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching player notes:', error);
+    return {};
+  }
+
+  const notes: Record<string, PlayerNote> = {};
+  ((data as PlayerNoteRow[]) || []).forEach((row) => {
+    notes[row.target_id] = transformRow(row);
+  });
+  return notes;
+}
+
+/**
+ * Create or replace the owner's note on a player
+ */
+export async function savePlayerNote(
+  ownerId: string,
+  targetId: string,
+  note: string,
+  color: PlayerNoteColor
+): Promise<PlayerNote | null> {
+  const supabase = createClientComponentClient();
+
+  const { data, error } = await supabase
+    .from('player_notes')
+    .upsert(
+      {
+        owner_id: ownerId,
+        target_id: targetId,
+        note,
+        color,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'owner_id,target_id' }
+    )
+    .select(PLAYER_NOTE_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error('Error saving player note:', error);
+    return null;
+  }
+
+  return transformRow(data as PlayerNoteRow);
+}
+
+export async function deletePlayerNote(ownerId: string, targetId: string): Promise<boolean> {
+  const supabase = createClientComponentClient();
+
+  const { error } = await supabase
+    .from('player_notes')
+    .delete()
+    .eq('owner_id', ownerId)
+    .eq('target_id', targetId);
+
+  if (error) {
+    console.error('Error deleting player note:', error);
+    return false;
+  }
+
+  return true;
+}
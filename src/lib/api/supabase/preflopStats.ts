@@ -8,7 +8,7 @@ import type {
   StatType
 } from '@/lib/types/preflopStats';
 
-function getPlayerCountRange(filter: PlayerCountFilter): { min: number | null; max: number | null } {
+export function getPlayerCountRange(filter: PlayerCountFilter): { min: number | null; max: number | null } {
   switch (filter) {
     case 'heads_up':
       return { min: 2, max: 2 };
@@ -0,0 +1,147 @@
+import { format } from 'date-fns';
+import { createClientComponentClient } from './client';
+import { variantFromPlayerCount } from '@/lib/features/handHistory/codec';
+import type { HandVariant } from '@/lib/types/handHistory';
+import type {
+  CumulativePoint,
+  HandResult,
+  SessionGrouping,
+  SessionResultsRawRow,
+  SessionSummary,
+  VariantSummary
+} from '@/lib/types/sessionStats';
+
+const VARIANTS: HandVariant[] = ['heads_up', 'six_max', 'full_ring'];
+
+function transformRawRow(row: SessionResultsRawRow): HandResult {
+  const playerCount = Number(row.player_count) || 0;
+  const variant =
+    VARIANTS.find((v) => v === row.game_type) ??
+    variantFromPlayerCount(playerCount) ??
+    'six_max';
+
+  return {
+    handId: row.hand_id,
+    gameId: row.game_id,
+    playedAt: row.played_at,
+    variant,
+    playerCount,
+    bigBlind: Number(row.big_blind) || 2,
+    finalPot: Number(row.final_pot) || 0,
+    netChips: Number(row.net_chips) || 0,
+    won: Boolean(row.won),
+  };
+}
+
+/**
+ * Per-hand results for a player, oldest first.
+ * Same net chips / won flags that get_preflop_stats_by_hand aggregates, one row per hand
+ * (see supabase/migrations). Throws when the RPC fails so the page can say so.
+ */
+export async function fetchHandResults(userId: string): Promise<HandResult[]> {
+  const supabase = createClientComponentClient();
+
+  const { data, error } = await supabase.rpc('get_player_hand_results', {
+    target_player_id: userId,
+  });
+
+  if (error) {
+    console.error('Error fetching hand results:', error);
+    throw new Error(error.message);
+  }
+
+  if (!data) {
+    return [];
+  }
+
+  return (data as SessionResultsRawRow[])
+    .map(transformRawRow)
+    .sort((a, b) => new Date(a.playedAt).getTime() - new Date(b.playedAt).getTime());
+}
+
+/**
+ * Big blinds won per 100 hands. Blinds are normalized per hand so mixed stakes average correctly.
+ */
+export function getBbPer100(results: HandResult[]): number {
+  if (results.length === 0) return 0;
+  const bigBlindsWon = results.reduce((sum, r) => sum + r.netChips / r.bigBlind, 0);
+  return (bigBlindsWon / results.length) * 100;
+}
+
+function summarize(key: string, label: string, results: HandResult[]): SessionSummary {
+  const variants = new Set(results.map((r) => r.variant));
+
+  return {
+    key,
+    label,
+    variant: variants.size === 1 ? results[0].variant : 'mixed',
+    startedAt: results[0].playedAt,
+    endedAt: results[results.length - 1].playedAt,
+    handsPlayed: results.length,
+    handsWon: results.filter((r) => r.won).length,
+    netChips: results.reduce((sum, r) => sum + r.netChips, 0),
+    bbPer100: getBbPer100(results),
+    biggestPot: Math.max(...results.map((r) => r.finalPot)),
+  };
+}
+
+/**
+ * Group hands into sessions by game or by calendar day (local time), newest first
+ */
+export function groupSessions(
+  results: HandResult[],
+  grouping: SessionGrouping
+): SessionSummary[] {
+  const groups = new Map<string, HandResult[]>();
+
+  for (const result of results) {
+    const key =
+      grouping === 'game' ? result.gameId : format(new Date(result.playedAt), 'yyyy-MM-dd');
+    const group = groups.get(key);
+    if (group) {
+      group.push(result);
+    } else {
+      groups.set(key, [result]);
+    }
+  }
+
+  return Array.from(groups.entries())
+    .map(([key, group]) => {
+      const label =
+        grouping === 'game'
+          ? `${format(new Date(group[0].playedAt), 'MMM d, HH:mm')} · ${key.slice(0, 8)}`
+          : format(new Date(group[0].playedAt), 'EEE, MMM d yyyy');
+      return summarize(key, label, group);
+    })
+    .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime());
+}
+
+export function summarizeByVariant(results: HandResult[]): VariantSummary[] {
+  return VARIANTS.map((variant) => {
+    const group = results.filter((r) => r.variant === variant);
+    const handsWon = group.filter((r) => r.won).length;
+
+    return {
+      variant,
+      handsPlayed: group.length,
+      handsWon,
+      winRate: group.length > 0 ? (handsWon / group.length) * 100 : 0,
+      netChips: group.reduce((sum, r) => sum + r.netChips, 0),
+      bbPer100: getBbPer100(group),
+    };
+  }).filter((summary) => summary.handsPlayed > 0);
+}
+
+export function buildCumulativeSeries(results: HandResult[]): CumulativePoint[] {
+  let cumulative = 0;
+
+  return results.map((result, index) => {
+    cumulative += result.netChips;
+    return {
+      hand: index + 1,
+      playedAt: result.playedAt,
+      netChips: result.netChips,
+      cumulative,
+    };
+  });
+}
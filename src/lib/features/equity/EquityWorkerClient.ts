@@ -0,0 +1,170 @@
+/**
+ * EquityWorkerClient
+ *
+ * Main-thread handle on the equity worker. Each client owns one worker and
+ * runs one job at a time; starting a job cancels the previous one. Where Web
+ * Workers are unavailable the same engine runs in main-thread time slices.
+ */
+
+import {
+  scheduleEquityJob,
+  type EquityJobHandlers,
+  type EquityOptions,
+  type EquityRequest,
+} from "./equityEngine";
+import {
+  createEquityJob,
+  type EquityJob,
+  type EquityJobResult,
+  type EquityWorkerMessage,
+  type EquityWorkerResponse,
+} from "./equityJobs";
+import type { RangeBreakdownRequest, RangeBreakdownResult } from "./rangeBreakdown";
+import type { RunoutResult } from "./runoutExplorer";
+import type { ReplayEquityRequest, ReplayEquityResult } from "./replayEquity";
+import type { FlopTextureRequest, FlopTextureResult } from "@/lib/features/ranges/flopTextures";
+import type { PushFoldRequest, PushFoldResult } from "@/lib/features/ranges/pushFold";
+import type {
+  PostflopStatsRequest,
+  PostflopStatsResult,
+} from "@/lib/features/handHistory/postflopStats";
+
+export class EquityWorkerClient {
+  private worker: Worker | null = null;
+  private jobId = 0;
+  private handlers: EquityJobHandlers<EquityJobResult> | null = null;
+  private stopFallback: (() => void) | null = null;
+
+  private getWorker(): Worker | null {
+    if (this.worker) return this.worker;
+    if (typeof window === "undefined" || typeof Worker === "undefined") return null;
+
+    try {
+      this.worker = new Worker(new URL("./equity.worker.ts", import.meta.url));
+    } catch (error) {
+      console.error("[EquityWorker] Failed to start worker, using main thread", error);
+      return null;
+    }
+
+    this.worker.onmessage = (event: MessageEvent<EquityWorkerResponse>) => {
+      const response = event.data;
+      // Ignore messages from jobs that were cancelled or replaced
+      if (response.id !== this.jobId || !this.handlers) return;
+      const handlers = this.handlers;
+      if (response.type === "progress") {
+        handlers.onProgress?.(response.result);
+      } else if (response.type === "done") {
+        this.handlers = null;
+        handlers.onDone(response.result);
+      } else {
+        this.handlers = null;
+        handlers.onError(response.error);
+      }
+    };
+    return this.worker;
+  }
+
+  /**
+   * Start a calculation, cancelling any job still running
+   */
+  run(request: EquityRequest, handlers: EquityJobHandlers, options?: EquityOptions): void {
+    this.start({ kind: "equity", request, options }, handlers as EquityJobHandlers<EquityJobResult>);
+  }
+
+  /**
+   * Start a hand-vs-range breakdown, cancelling any job still running
+   */
+  runBreakdown(
+    request: RangeBreakdownRequest,
+    handlers: EquityJobHandlers<RangeBreakdownResult>,
+    options?: EquityOptions
+  ): void {
+    this.start({ kind: "breakdown", request, options }, handlers as EquityJobHandlers<EquityJobResult>);
+  }
+
+  /**
+   * Start a next-card runout calculation, cancelling any job still running
+   */
+  runRunouts(request: EquityRequest, handlers: EquityJobHandlers<RunoutResult>, options?: EquityOptions): void {
+    this.start({ kind: "runouts", request, options }, handlers as EquityJobHandlers<EquityJobResult>);
+  }
+
+  /**
+   * Start a range-vs-flop-textures analysis, cancelling any job still running
+   */
+  runTextures(request: FlopTextureRequest, handlers: EquityJobHandlers<FlopTextureResult>): void {
+    this.start({ kind: "textures", request }, handlers as EquityJobHandlers<EquityJobResult>);
+  }
+
+  /**
+   * Start a push/fold chart calculation, cancelling any job still running
+   */
+  runPushFold(request: PushFoldRequest, handlers: EquityJobHandlers<PushFoldResult>): void {
+    this.start({ kind: "pushFold", request }, handlers as EquityJobHandlers<EquityJobResult>);
+  }
+
+  /**
+   * Start a frame-by-frame equity calculation for a replay, cancelling any job still running
+   */
+  runReplay(
+    request: ReplayEquityRequest,
+    handlers: EquityJobHandlers<ReplayEquityResult>,
+    options?: EquityOptions
+  ): void {
+    this.start({ kind: "replay", request, options }, handlers as EquityJobHandlers<EquityJobResult>);
+  }
+
+  /**
+   * Start reading postflop stats out of stored hands, cancelling any job still running
+   */
+  runPostflopStats(request: PostflopStatsRequest, handlers: EquityJobHandlers<PostflopStatsResult>): void {
+    this.start({ kind: "postflop", request }, handlers as EquityJobHandlers<EquityJobResult>);
+  }
+
+  private start(job: EquityJob, handlers: EquityJobHandlers<EquityJobResult>): void {
+    this.cancel();
+    const id = ++this.jobId;
+    this.handlers = handlers;
+
+    const worker = this.getWorker();
+    if (worker) {
+      const message: EquityWorkerMessage = { type: "start", id, job };
+      worker.postMessage(message);
+      return;
+    }
+
+    this.stopFallback = scheduleEquityJob(createEquityJob(job), {
+      onProgress: (result) => {
+        if (id === this.jobId) handlers.onProgress?.(result);
+      },
+      onDone: (result) => {
+        if (id !== this.jobId) return;
+        this.handlers = null;
+        handlers.onDone(result);
+      },
+      onError: (error) => {
+        if (id !== this.jobId) return;
+        this.handlers = null;
+        handlers.onError(error);
+      },
+    });
+  }
+
+  cancel(): void {
+    if (!this.handlers) return;
+    this.handlers = null;
+    this.stopFallback?.();
+    this.stopFallback = null;
+    if (this.worker) {
+      const message: EquityWorkerMessage = { type: "cancel", id: this.jobId };
+      this.worker.postMessage(message);
+    }
+    this.jobId++;
+  }
+
+  dispose(): void {
+    this.cancel();
+    this.worker?.terminate();
+    this.worker = null;
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Equity Worker
+ *
+ * Runs equity, breakdown, runout, flop texture, push/fold, replay and
+ * postflop stats jobs off the main thread. One job at a time: a new "start" or a "cancel" stops
+ * whatever is running.
+ */
+
+import { scheduleEquityJob } from "./equityEngine";
+import {
+  createEquityJob,
+  type EquityWorkerMessage,
+  type EquityWorkerResponse,
+} from "./equityJobs";
+
+let stopCurrent: (() => void) | null = null;
+
+const post = (response: EquityWorkerResponse) => postMessage(response);
+
+addEventListener("message", (event: MessageEvent<EquityWorkerMessage>) => {
+  const message = event.data;
+  stopCurrent?.();
+  stopCurrent = null;
+  if (message.type !== "start") return;
+
+  const { id } = message;
+  stopCurrent = scheduleEquityJob(createEquityJob(message.job), {
+    onProgress: (result) => post({ type: "progress", id, result }),
+    onDone: (result) => {
+      stopCurrent = null;
+      post({ type: "done", id, result });
+    },
+    onError: (error) => {
+      stopCurrent = null;
+      post({ type: "error", id, error });
+    },
+  });
+});
@@ -0,0 +1,490 @@
+/**
+ * Equity Engine
+ *
+ * Computes all-in equity for hands and ranges. Small problems (few combos,
+ * one or two board cards to come) are enumerated exactly; larger ones run a
+ * Monte Carlo simulation that reports a 95% confidence interval as it goes.
+ *
+ * `runEquity` is a generator so callers can interleave work with other tasks:
+ * the Web Worker runs it in time slices, and the fallback client runs it on
+ * the main thread the same way.
+ */
+
+import { getErrorMessage } from "@/lib/utils";
+import { expandWeightedRange } from "@/lib/features/ranges/weightedRange";
+import { evaluateHand, parseCard } from "./handEvaluator";
+
+/** A player's holding: two cards (["Ah", "Kd"]) or a range string ("QQ+,AKs,AQo:0.5") */
+export type EquityPlayerInput = string[] | string;
+
+export interface EquityRequest {
+  players: EquityPlayerInput[];
+  board: string[];
+}
+
+export interface EquityOptions {
+  /** Monte Carlo stops after this many runouts */
+  maxIterations?: number;
+  /** Enumerate exactly when the number of showdowns is at most this */
+  exactLimit?: number;
+  /** Monte Carlo stops early once every player's 95% margin is below this */
+  targetMargin?: number;
+}
+
+export type EquityMode = "exact" | "monte_carlo";
+
+export interface EquityResult {
+  /** Share of the pot won per player (0-1), in request order */
+  equities: number[];
+  /** 95% confidence half-width per player; 0 for exact results */
+  margins: number[];
+  iterations: number;
+  mode: EquityMode;
+  /** Fraction of the planned work completed (0-1) */
+  progress: number;
+  done: boolean;
+  /**
+   * Per player, the equity of each combo in their range, strongest first.
+   * Only on the final result; a fixed hand has a single entry.
+   */
+  distributions?: number[][];
+}
+
+export const DEFAULT_EQUITY_OPTIONS: Required<EquityOptions> = {
+  maxIterations: 200000,
+  exactLimit: 1000000,
+  targetMargin: 0.002,
+};
+
+/** Runouts between progress reports */
+export const REPORT_EVERY = 2000;
+/** Monte Carlo never stops on margin before this many runouts */
+export const MIN_ITERATIONS = 5000;
+const MAX_DEAL_ATTEMPTS = 1000;
+
+type Combo = [number, number];
+
+export interface PreparedEquity {
+  board: number[];
+  combos: Combo[][];
+  /** Frequency (0-1] of each combo, parallel to `combos` */
+  weights: number[][];
+  /** Cards still in the deck once the board and fixed hands are out */
+  deck: number[];
+  cardsToCome: number;
+}
+
+export function binomial(n: number, k: number): number {
+  if (k < 0 || k > n) return 0;
+  let result = 1;
+  for (let i = 1; i <= k; i++) {
+    result = (result * (n - k + i)) / i;
+  }
+  return Math.round(result);
+}
+
+function toCards(cards: string[], label: string): number[] {
+  return cards.map((card) => {
+    const parsed = parseCard(card);
+    if (parsed === -1) throw new Error(`${label}: invalid card "${card}"`);
+    return parsed;
+  });
+}
+
+/**
+ * Parse and validate a request. Range combos that clash with the board or a
+ * fixed hand are removed.
+ */
+export function prepareEquity(request: EquityRequest): PreparedEquity {
+  if (request.players.length < 2) {
+    throw new Error("At least two players are needed");
+  }
+  if (request.board.length > 5) {
+    throw new Error("The board can have at most five cards");
+  }
+
+  const board = toCards(request.board, "Board");
+  const dead = new Set<number>(board);
+  const claim = (card: number, label: string) => {
+    if (dead.has(card)) throw new Error(`${label}: card used twice`);
+    dead.add(card);
+  };
+  board.forEach((card, i) => {
+    if (board.indexOf(card) !== i) throw new Error("Board: card used twice");
+  });
+
+  const fixed: (Combo | null)[] = request.players.map((input, i) => {
+    if (typeof input === "string") return null;
+    if (input.length !== 2) throw new Error(`Player ${i + 1}: a hand needs two cards`);
+    const [a, b] = toCards(input, `Player ${i + 1}`);
+    claim(a, `Player ${i + 1}`);
+    claim(b, `Player ${i + 1}`);
+    return [a, b];
+  });
+
+  const weights: number[][] = [];
+  const combos = request.players.map((input, i): Combo[] => {
+    const fixedCombo = fixed[i];
+    if (fixedCombo) {
+      weights.push([1]);
+      return [fixedCombo];
+    }
+
+    const seen = new Set<number>();
+    const playerCombos: Combo[] = [];
+    const playerWeights: number[] = [];
+    for (const { cards, weight } of expandWeightedRange(input as string)) {
+      const a = parseCard(cards[0]);
+      const b = parseCard(cards[1]);
+      if (a === -1 || b === -1 || a === b || dead.has(a) || dead.has(b)) continue;
+      const key = Math.min(a, b) * 52 + Math.max(a, b);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      playerCombos.push([a, b]);
+      playerWeights.push(weight);
+    }
+    if (playerCombos.length === 0) {
+      throw new Error(`Player ${i + 1}: range has no combos left`);
+    }
+    weights.push(playerWeights);
+    return playerCombos;
+  });
+
+  const deck: number[] = [];
+  for (let card = 0; card < 52; card++) {
+    if (!dead.has(card)) deck.push(card);
+  }
+
+  return { board, combos, weights, deck, cardsToCome: 5 - board.length };
+}
+
+/**
+ * Upper bound on the showdowns an exact enumeration would evaluate
+ */
+export function countExactShowdowns(prepared: PreparedEquity): number {
+  const rangePlayers = prepared.combos.filter((c) => c.length > 1).length;
+  const comboSpace = prepared.combos.reduce((product, c) => product * c.length, 1);
+  const deckAfterDeal = prepared.deck.length - 2 * rangePlayers;
+  return comboSpace * binomial(deckAfterDeal, prepared.cardsToCome);
+}
+
+/**
+ * Advance `index` to the next k-subset of 0..n-1 in lexicographic order.
+ * Returns false once every subset has been visited.
+ */
+export function nextCombination(index: number[], n: number): boolean {
+  const k = index.length;
+  let i = k - 1;
+  while (i >= 0 && index[i] === n - k + i) i--;
+  if (i < 0) return false;
+  index[i]++;
+  for (let j = i + 1; j < k; j++) index[j] = index[j - 1] + 1;
+  return true;
+}
+
+/** Running pot share per combo, for equity distributions */
+function createComboTotals(prepared: PreparedEquity) {
+  const totals = prepared.combos.map((c) => new Float64Array(c.length));
+  const counts = prepared.combos.map((c) => new Float64Array(c.length));
+
+  return {
+    add(holdingIndex: Int32Array, shares: Float64Array, weight = 1) {
+      for (let p = 0; p < totals.length; p++) {
+        totals[p][holdingIndex[p]] += shares[p] * weight;
+        counts[p][holdingIndex[p]] += weight;
+      }
+    },
+    distributions(): number[][] {
+      return totals.map((playerTotals, p) => {
+        const equities: number[] = [];
+        playerTotals.forEach((total, i) => {
+          if (counts[p][i] > 0) equities.push(total / counts[p][i]);
+        });
+        return equities.sort((a, b) => b - a);
+      });
+    },
+  };
+}
+
+/** Shared scoring for one showdown; writes each player's pot share into `shares` */
+function createShowdown(prepared: PreparedEquity) {
+  const playerCount = prepared.combos.length;
+  const hand = new Int32Array(7);
+  const scores = new Float64Array(playerCount);
+  for (let i = 0; i < prepared.board.length; i++) hand[i + 2] = prepared.board[i];
+
+  return (holdings: Combo[], runout: ArrayLike<number>, shares: Float64Array) => {
+    for (let i = 0; i < prepared.cardsToCome; i++) {
+      hand[prepared.board.length + 2 + i] = runout[i];
+    }
+    let best = -1;
+    let winners = 0;
+    for (let p = 0; p < playerCount; p++) {
+      hand[0] = holdings[p][0];
+      hand[1] = holdings[p][1];
+      scores[p] = evaluateHand(hand, 7);
+      if (scores[p] > best) {
+        best = scores[p];
+        winners = 1;
+      } else if (scores[p] === best) {
+        winners++;
+      }
+    }
+    for (let p = 0; p < playerCount; p++) {
+      shares[p] = scores[p] === best ? 1 / winners : 0;
+    }
+  };
+}
+
+function* enumerateExact(
+  prepared: PreparedEquity,
+  planned: number
+): Generator<EquityResult, EquityResult> {
+  const playerCount = prepared.combos.length;
+  const totals = new Float64Array(playerCount);
+  const shares = new Float64Array(playerCount);
+  const showdown = createShowdown(prepared);
+  const used = new Uint8Array(52);
+  const holdings: Combo[] = new Array(playerCount);
+  const holdingIndex = new Int32Array(playerCount);
+  const comboTotals = createComboTotals(prepared);
+  const runout = new Int32Array(5);
+  let iterations = 0;
+  // Each deal counts with the product of its combo weights
+  let dealWeight = 1;
+  let totalWeight = 0;
+
+  const snapshot = (done: boolean): EquityResult => ({
+    equities: Array.from(totals, (t) => (totalWeight > 0 ? t / totalWeight : 0)),
+    margins: Array.from(totals, () => 0),
+    iterations,
+    mode: "exact",
+    progress: done ? 1 : Math.min(1, iterations / Math.max(1, planned)),
+    done,
+    distributions: done ? comboTotals.distributions() : undefined,
+  });
+
+  // Every runout from the remaining deck
+  function* runouts(deck: number[]): Generator<EquityResult, void> {
+    const index = Array.from({ length: prepared.cardsToCome }, (_, i) => i);
+    do {
+      for (let i = 0; i < index.length; i++) runout[i] = deck[index[i]];
+      showdown(holdings, runout, shares);
+      for (let p = 0; p < playerCount; p++) totals[p] += shares[p] * dealWeight;
+      comboTotals.add(holdingIndex, shares, dealWeight);
+      totalWeight += dealWeight;
+      iterations++;
+      if (iterations % REPORT_EVERY === 0) yield snapshot(false);
+    } while (nextCombination(index, deck.length));
+  }
+
+  function* assign(player: number): Generator<EquityResult, void> {
+    if (player === playerCount) {
+      const deck = prepared.deck.filter((card) => !used[card]);
+      yield* runouts(deck);
+      return;
+    }
+    const combos = prepared.combos[player];
+    const weights = prepared.weights[player];
+    const outerWeight = dealWeight;
+    for (let i = 0; i < combos.length; i++) {
+      const combo = combos[i];
+      if (used[combo[0]] || used[combo[1]]) continue;
+      used[combo[0]] = 1;
+      used[combo[1]] = 1;
+      holdings[player] = combo;
+      holdingIndex[player] = i;
+      dealWeight = outerWeight * weights[i];
+      yield* assign(player + 1);
+      used[combo[0]] = 0;
+      used[combo[1]] = 0;
+    }
+    dealWeight = outerWeight;
+  }
+
+  yield* assign(0);
+
+  if (iterations === 0) {
+    throw new Error("No valid deal: the ranges overlap completely");
+  }
+  return snapshot(true);
+}
+
+function* simulate(
+  prepared: PreparedEquity,
+  options: Required<EquityOptions>
+): Generator<EquityResult, EquityResult> {
+  const playerCount = prepared.combos.length;
+  const totals = new Float64Array(playerCount);
+  const squares = new Float64Array(playerCount);
+  const shares = new Float64Array(playerCount);
+  const showdown = createShowdown(prepared);
+  const used = new Uint8Array(52);
+  const holdings: Combo[] = new Array(playerCount);
+  const holdingIndex = new Int32Array(playerCount);
+  const comboTotals = createComboTotals(prepared);
+  const deck = prepared.deck.slice();
+  const runout = new Int32Array(5);
+  let iterations = 0;
+  let failedDeals = 0;
+  // Combos are drawn uniformly and kept with probability weight / max weight
+  const maxWeights = prepared.weights.map((w) => Math.max(...w));
+
+  const margins = () =>
+    Array.from(totals, (total, p) => {
+      if (iterations < 2) return 1;
+      const mean = total / iterations;
+      const variance = Math.max(0, squares[p] / iterations - mean * mean);
+      return 1.96 * Math.sqrt(variance / iterations);
+    });
+
+  const snapshot = (done: boolean): EquityResult => ({
+    equities: Array.from(totals, (t) => (iterations > 0 ? t / iterations : 0)),
+    margins: margins(),
+    iterations,
+    mode: "monte_carlo",
+    progress: done ? 1 : iterations / options.maxIterations,
+    done,
+    distributions: done ? comboTotals.distributions() : undefined,
+  });
+
+  // Whole-deal rejection sampling keeps overlapping ranges unbiased
+  const deal = (): boolean => {
+    for (let attempt = 0; attempt < MAX_DEAL_ATTEMPTS; attempt++) {
+      used.fill(0);
+      let ok = true;
+      for (let p = 0; p < playerCount && ok; p++) {
+        const combos = prepared.combos[p];
+        const index = (Math.random() * combos.length) | 0;
+        const combo = combos[index];
+        if (Math.random() * maxWeights[p] >= prepared.weights[p][index]) {
+          ok = false;
+        } else if (used[combo[0]] || used[combo[1]]) {
+          ok = false;
+        } else {
+          used[combo[0]] = 1;
+          used[combo[1]] = 1;
+          holdings[p] = combo;
+          holdingIndex[p] = index;
+        }
+      }
+      if (ok) return true;
+    }
+    return false;
+  };
+
+  while (iterations < options.maxIterations) {
+    if (!deal()) {
+      failedDeals++;
+      if (failedDeals > 10) throw new Error("No valid deal: the ranges overlap completely");
+      continue;
+    }
+
+    // Partial Fisher-Yates over the cards not held by anyone
+    let available = deck.length;
+    for (let i = 0; i < prepared.cardsToCome; i++) {
+      let card: number;
+      do {
+        const j = (Math.random() * available) | 0;
+        card = deck[j];
+        deck[j] = deck[available - 1];
+        deck[available - 1] = card;
+        available--;
+      } while (used[card]);
+      runout[i] = card;
+    }
+
+    showdown(holdings, runout, shares);
+    for (let p = 0; p < playerCount; p++) {
+      totals[p] += shares[p];
+      squares[p] += shares[p] * shares[p];
+    }
+    comboTotals.add(holdingIndex, shares);
+    iterations++;
+
+    if (iterations % REPORT_EVERY === 0) {
+      const result = snapshot(false);
+      if (iterations >= MIN_ITERATIONS && Math.max(...result.margins) <= options.targetMargin) {
+        break;
+      }
+      yield result;
+    }
+  }
+
+  return snapshot(true);
+}
+
+/**
+ * Run an equity calculation, yielding progressive results and returning the final one
+ */
+export function* runEquity(
+  request: EquityRequest,
+  options: EquityOptions = {}
+): Generator<EquityResult, EquityResult> {
+  const resolved: Required<EquityOptions> = {
+    maxIterations: options.maxIterations ?? DEFAULT_EQUITY_OPTIONS.maxIterations,
+    exactLimit: options.exactLimit ?? DEFAULT_EQUITY_OPTIONS.exactLimit,
+    targetMargin: options.targetMargin ?? DEFAULT_EQUITY_OPTIONS.targetMargin,
+  };
+  const prepared = prepareEquity(request);
+  const showdowns = countExactShowdowns(prepared);
+
+  if (showdowns <= resolved.exactLimit) {
+    return yield* enumerateExact(prepared, showdowns);
+  }
+  return yield* simulate(prepared, resolved);
+}
+
+/**
+ * Run a calculation to completion synchronously
+ */
+export function calculateEquitySync(request: EquityRequest, options: EquityOptions = {}): EquityResult {
+  const job = runEquity(request, options);
+  let step = job.next();
+  while (!step.done) step = job.next();
+  return step.value;
+}
+
+export interface EquityJobHandlers<T = EquityResult> {
+  onProgress?: (result: T) => void;
+  onDone: (result: T) => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * Drive a job in short time slices, reporting the latest result after each
+ * slice. Returns a function that stops the job.
+ */
+export function scheduleEquityJob<T>(
+  job: Generator<T, T>,
+  handlers: EquityJobHandlers<T>,
+  sliceMs = 50
+): () => void {
+  let cancelled = false;
+
+  const tick = () => {
+    if (cancelled) return;
+    const sliceEnd = Date.now() + sliceMs;
+    let latest: T | null = null;
+    try {
+      while (Date.now() < sliceEnd) {
+        const step = job.next();
+        if (step.done) {
+          handlers.onDone(step.value);
+          return;
+        }
+        latest = step.value;
+      }
+    } catch (error: unknown) {
+      handlers.onError(getErrorMessage(error));
+      return;
+    }
+    if (latest) handlers.onProgress?.(latest);
+    setTimeout(tick, 0);
+  };
+
+  setTimeout(tick, 0);
+  return () => {
+    cancelled = true;
+  };
+}
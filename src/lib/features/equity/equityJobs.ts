@@ -0,0 +1,88 @@
+/**
+ * Equity Jobs
+ *
+ * The jobs the equity worker can run and the messages it exchanges with
+ * EquityWorkerClient.
+ */
+
+import {
+  runEquity,
+  type EquityOptions,
+  type EquityRequest,
+  type EquityResult,
+} from "./equityEngine";
+import {
+  runRangeBreakdown,
+  type RangeBreakdownRequest,
+  type RangeBreakdownResult,
+} from "./rangeBreakdown";
+import { runRunouts, type RunoutResult } from "./runoutExplorer";
+import {
+  runReplayEquity,
+  type ReplayEquityRequest,
+  type ReplayEquityResult,
+} from "./replayEquity";
+import {
+  runFlopTextureAnalysis,
+  type FlopTextureRequest,
+  type FlopTextureResult,
+} from "@/lib/features/ranges/flopTextures";
+import {
+  runPushFold,
+  type PushFoldRequest,
+  type PushFoldResult,
+} from "@/lib/features/ranges/pushFold";
+import {
+  runPostflopStats,
+  type PostflopStatsRequest,
+  type PostflopStatsResult,
+} from "@/lib/features/handHistory/postflopStats";
+
+export type EquityJob =
+  | { kind: "equity"; request: EquityRequest; options?: EquityOptions }
+  | { kind: "breakdown"; request: RangeBreakdownRequest; options?: EquityOptions }
+  | { kind: "runouts"; request: EquityRequest; options?: EquityOptions }
+  | { kind: "textures"; request: FlopTextureRequest }
+  | { kind: "pushFold"; request: PushFoldRequest }
+  | { kind: "replay"; request: ReplayEquityRequest; options?: EquityOptions }
+  | { kind: "postflop"; request: PostflopStatsRequest };
+
+export type EquityJobResult =
+  | EquityResult
+  | RangeBreakdownResult
+  | RunoutResult
+  | FlopTextureResult
+  | PushFoldResult
+  | ReplayEquityResult
+  | PostflopStatsResult;
+
+export type EquityWorkerMessage =
+  | { type: "start"; id: number; job: EquityJob }
+  | { type: "cancel"; id: number };
+
+export type EquityWorkerResponse =
+  | { type: "progress"; id: number; result: EquityJobResult }
+  | { type: "done"; id: number; result: EquityJobResult }
+  | { type: "error"; id: number; error: string };
+
+/**
+ * Engine generator for a job, shared by the worker and the main-thread fallback
+ */
+export function createEquityJob(job: EquityJob): Generator<EquityJobResult, EquityJobResult> {
+  switch (job.kind) {
+    case "breakdown":
+      return runRangeBreakdown(job.request, job.options);
+    case "runouts":
+      return runRunouts(job.request, job.options);
+    case "textures":
+      return runFlopTextureAnalysis(job.request);
+    case "pushFold":
+      return runPushFold(job.request);
+    case "replay":
+      return runReplayEquity(job.request, job.options);
+    case "postflop":
+      return runPostflopStats(job.request);
+    default:
+      return runEquity(job.request, job.options);
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Hand Evaluator
+ *
+ * Small, allocation-free 7-card evaluator behind every equity number in the
+ * client: the equity engine (worker jobs, tools, replay analysis) and the
+ * table's runout equities all score hands here. Cards are integers
+ * (rank * 4 + suit, rank 0 = deuce); scores compare numerically, higher is
+ * better.
+ */
+
+const RANKS = "23456789TJQKA";
+const SUITS = "cdhs";
+
+/** Hand categories, used as the top bits of a score */
+export const HAND_CATEGORIES = [
+  "High Card",
+  "Pair",
+  "Two Pair",
+  "Three of a Kind",
+  "Straight",
+  "Flush",
+  "Full House",
+  "Four of a Kind",
+  "Straight Flush",
+] as const;
+
+export type HandCategory = (typeof HAND_CATEGORIES)[number];
+
+/**
+ * Parse display notation ("Ah", "td") into a card integer, or -1 if invalid
+ */
+export function parseCard(card: string): number {
+  if (!card || card.length !== 2) return -1;
+  const rank = RANKS.indexOf(card[0].toUpperCase());
+  const suit = SUITS.indexOf(card[1].toLowerCase());
+  return rank === -1 || suit === -1 ? -1 : rank * 4 + suit;
+}
+
+export function formatCard(card: number): string {
+  return RANKS[card >> 2] + SUITS[card & 3];
+}
+
+const rankCounts = new Int8Array(13);
+const suitMasks = new Int32Array(4);
+const suitCounts = new Int8Array(4);
+
+/**
+ * Highest straight in a 13-bit rank mask (rank index of the top card), or -1.
+ * The wheel (A-5) counts as a five-high straight.
+ */
+function straightHigh(mask: number): number {
+  for (let high = 12; high >= 4; high--) {
+    if (((mask >> (high - 4)) & 0x1f) === 0x1f) return high;
+  }
+  // A2345: ace bit plus 2-5
+  if ((mask & 0x100f) === 0x100f) return 3;
+  return -1;
+}
+
+/** Top `count` ranks of a mask packed 4 bits each, highest first */
+function packTopRanks(mask: number, count: number): number {
+  let packed = 0;
+  let taken = 0;
+  for (let r = 12; r >= 0 && taken < count; r--) {
+    if (mask & (1 << r)) {
+      packed = (packed << 4) | r;
+      taken++;
+    }
+  }
+  return packed << (4 * (count - taken));
+}
+
+function score(category: number, kickers: number): number {
+  return category * 0x100000 + kickers;
+}
+
+/**
+ * Score the best five-card hand out of 5-7 cards
+ */
+export function evaluateHand(cards: ArrayLike<number>, length = cards.length): number {
+  rankCounts.fill(0);
+  suitMasks.fill(0);
+  suitCounts.fill(0);
+
+  let rankMask = 0;
+  for (let i = 0; i < length; i++) {
+    const rank = cards[i] >> 2;
+    const suit = cards[i] & 3;
+    rankCounts[rank]++;
+    suitCounts[suit]++;
+    suitMasks[suit] |= 1 << rank;
+    rankMask |= 1 << rank;
+  }
+
+  for (let s = 0; s < 4; s++) {
+    if (suitCounts[s] >= 5) {
+      const high = straightHigh(suitMasks[s]);
+      if (high >= 0) return score(8, high);
+      // A flush can't coexist with quads or a full house in 7 cards
+      return score(5, packTopRanks(suitMasks[s], 5));
+    }
+  }
+
+  let quad = -1;
+  let trips = -1;
+  let secondTrips = -1;
+  let pair = -1;
+  let secondPair = -1;
+  for (let r = 12; r >= 0; r--) {
+    const count = rankCounts[r];
+    if (count === 4) quad = r;
+    else if (count === 3) {
+      if (trips === -1) trips = r;
+      else if (secondTrips === -1) secondTrips = r;
+    } else if (count === 2) {
+      if (pair === -1) pair = r;
+      else if (secondPair === -1) secondPair = r;
+    }
+  }
+
+  if (quad >= 0) {
+    return score(7, (quad << 4) | packTopRanks(rankMask & ~(1 << quad), 1));
+  }
+  if (trips >= 0 && (secondTrips >= 0 || pair >= 0)) {
+    return score(6, (trips << 4) | Math.max(secondTrips, pair));
+  }
+
+  const high = straightHigh(rankMask);
+  if (high >= 0) return score(4, high);
+
+  if (trips >= 0) {
+    return score(3, (trips << 8) | packTopRanks(rankMask & ~(1 << trips), 2));
+  }
+  if (pair >= 0 && secondPair >= 0) {
+    const kicker = packTopRanks(rankMask & ~(1 << pair) & ~(1 << secondPair), 1);
+    return score(2, (pair << 8) | (secondPair << 4) | kicker);
+  }
+  if (pair >= 0) {
+    return score(1, (pair << 12) | packTopRanks(rankMask & ~(1 << pair), 3));
+  }
+  return score(0, packTopRanks(rankMask, 5));
+}
+
+export function getHandCategory(handScore: number): HandCategory {
+  return HAND_CATEGORIES[Math.floor(handScore / 0x100000)];
+}
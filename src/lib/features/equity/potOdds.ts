@@ -0,0 +1,175 @@
+/**
+ * Pot Odds & EV
+ *
+ * Turns equity into a decision: the equity a call needs, and the EV of
+ * folding, calling and shoving. EVs are in chips relative to folding, so
+ * money already in the pot counts as won or lost rather than as hero's, and
+ * they assume the hand is checked down once the chips are in.
+ */
+
+import type { GameState } from "@/lib/types/poker";
+import { parseWeightedRange } from "@/lib/features/ranges/weightedRange";
+
+export interface DecisionSpot {
+  /** Everything in the middle, including bets made on this street */
+  pot: number;
+  /** Chips hero must add to call (0 when checking is an option) */
+  toCall: number;
+  /** Hero's chips behind */
+  heroStack: number;
+  /** Villain's chips behind after their bet */
+  villainStack: number;
+}
+
+export interface ShoveAmounts {
+  /** Chips hero puts in by shoving, capped at what villain can match */
+  shove: number;
+  /** Chips villain adds to call the shove */
+  villainCall: number;
+}
+
+export interface DecisionEv {
+  /** Equity a call needs to break even (0-1); 0 when there is nothing to call */
+  requiredEquity: number;
+  foldEv: number;
+  callEv: number;
+  /** Null when hero can't raise: the call already puts them or villain all in */
+  shoveEv: number | null;
+}
+
+const normalizeCard = (card: string) => card[0].toUpperCase() + card[1].toLowerCase();
+
+/**
+ * A call for more than hero has only risks their stack; villain's excess bet
+ * goes back to them, so it is not part of the pot hero can win.
+ */
+function getCallAmounts(spot: DecisionSpot) {
+  const call = Math.min(spot.toCall, spot.heroStack);
+  return { call, pot: spot.pot - (spot.toCall - call) };
+}
+
+export function getRequiredEquity(spot: DecisionSpot): number {
+  const { call, pot } = getCallAmounts(spot);
+  return call > 0 ? call / (pot + call) : 0;
+}
+
+export function calculateCallEv(spot: DecisionSpot, equity: number): number {
+  const { call, pot } = getCallAmounts(spot);
+  return equity * (pot + call) - call;
+}
+
+export function getShoveAmounts(spot: DecisionSpot): ShoveAmounts | null {
+  const shove = Math.min(spot.heroStack, spot.toCall + spot.villainStack);
+  if (shove <= spot.toCall) return null;
+  return { shove, villainCall: shove - spot.toCall };
+}
+
+/**
+ * Shove EV: villain folds and hero takes the pot, or calls and hero wins
+ * their share of the full pot.
+ *
+ * @param equityWhenCalled - Hero's equity against villain's calling range
+ * @param callFrequency - How often villain calls (0-1)
+ */
+export function calculateShoveEv(
+  spot: DecisionSpot,
+  equityWhenCalled: number,
+  callFrequency: number
+): number | null {
+  const amounts = getShoveAmounts(spot);
+  if (!amounts) return null;
+  const calledPot = spot.pot + amounts.shove + amounts.villainCall;
+  return (
+    (1 - callFrequency) * spot.pot +
+    callFrequency * (equityWhenCalled * calledPot - amounts.shove)
+  );
+}
+
+export function calculateDecisionEv(
+  spot: DecisionSpot,
+  equity: number,
+  equityWhenCalled: number,
+  callFrequency: number
+): DecisionEv {
+  return {
+    requiredEquity: getRequiredEquity(spot),
+    foldEv: 0,
+    callEv: calculateCallEv(spot, equity),
+    shoveEv: calculateShoveEv(spot, equityWhenCalled, callFrequency),
+  };
+}
+
+/**
+ * Share (0-1) of a villain range that continues with the calling range.
+ * Combos blocked by hero's cards or the board don't count; a calling combo
+ * outside the range, or at a higher weight, is capped at its range weight.
+ */
+export function getCallingFrequency(range: string, callingRange: string, deadCards: string[]): number {
+  const dead = new Set(deadCards.map(normalizeCard));
+  const calls = parseWeightedRange(callingRange);
+  let total = 0;
+  let called = 0;
+  parseWeightedRange(range).forEach((weight, combo) => {
+    if (dead.has(combo.slice(0, 2)) || dead.has(combo.slice(2, 4))) return;
+    total += weight;
+    called += Math.min(weight, calls.get(combo) ?? 0);
+  });
+  return total > 0 ? called / total : 0;
+}
+
+export interface GameDecision {
+  seat: number;
+  spot: DecisionSpot;
+  /** The acting player's cards; empty while they are hidden */
+  heroCards: string[];
+  board: string[];
+}
+
+/**
+ * The spot facing the player to act in a game or replay frame, or null when
+ * no one is to act. Multiway pots are simplified to heads up against the
+ * biggest bettor (or the biggest stack when there is no bet).
+ */
+export function getGameDecision(gameState: GameState): GameDecision | null {
+  const seat = gameState.currentActorSeat;
+  if (seat === null || seat === undefined) return null;
+  const actor = gameState.players.find((p) => p.seat === seat);
+  if (!actor) return null;
+
+  const opponents = gameState.players.filter((p) => p.seat !== seat && !p.folded);
+  if (opponents.length === 0) return null;
+  const villain = opponents.reduce((best, p) =>
+    p.currentBet > best.currentBet || (p.currentBet === best.currentBet && p.chips > best.chips)
+      ? p
+      : best
+  );
+
+  // totalBet covers the whole hand, so it counts chips before and after they
+  // are swept into the pots
+  const committed = gameState.players.reduce(
+    (sum, p) => sum + Math.max(p.totalBet || 0, p.currentBet || 0),
+    0
+  );
+  const pot =
+    committed > 0
+      ? committed
+      : gameState.pot +
+        (gameState.sidePots ?? []).reduce((sum, side) => sum + side.amount, 0) +
+        gameState.players.reduce((sum, p) => sum + (p.currentBet || 0), 0);
+
+  const heroCards = (actor.holeCards ?? []).filter(
+    (card): card is string => !!card && card !== "HIDDEN"
+  );
+
+  return {
+    seat,
+    spot: {
+      pot,
+      toCall: Math.max(0, villain.currentBet - actor.currentBet),
+      heroStack: actor.chips,
+      villainStack: villain.chips,
+    },
+    heroCards: heroCards.length === 2 ? heroCards : [],
+    board: gameState.communityCards.filter((card) => card && card !== "HIDDEN"),
+  };
+}
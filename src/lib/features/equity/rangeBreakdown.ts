@@ -0,0 +1,207 @@
+/**
+ * Range Breakdown
+ *
+ * Hero's equity against each combo of a villain range, grouped by starting
+ * hand class (AA, AKs, 76s...) with win/tie/lose splits. Runs on the same
+ * engine as `runEquity`: exact when every combo's runouts fit in the exact
+ * limit, otherwise Monte Carlo sampling every combo in turn.
+ */
+
+import { cardsToHandClass } from "@/lib/features/ranges/handClasses";
+import { evaluateHand, formatCard } from "./handEvaluator";
+import {
+  DEFAULT_EQUITY_OPTIONS,
+  MIN_ITERATIONS,
+  REPORT_EVERY,
+  binomial,
+  nextCombination,
+  prepareEquity,
+  type EquityMode,
+  type EquityOptions,
+} from "./equityEngine";
+
+export interface RangeBreakdownRequest {
+  hero: string[];
+  /** Villain range string ("QQ+,AKs,AQo:0.5") */
+  range: string;
+  board: string[];
+}
+
+/** Win/tie/lose shares (0-1); equity counts ties as half the pot */
+export interface EquitySplit {
+  win: number;
+  tie: number;
+  lose: number;
+  equity: number;
+}
+
+export interface HandClassEquity extends EquitySplit {
+  handClass: string;
+  /**
+   * Combos of this class left once the board and hero's cards are removed,
+   * counted by weight
+   */
+  combos: number;
+}
+
+export interface RangeBreakdownResult {
+  classes: HandClassEquity[];
+  overall: EquitySplit;
+  iterations: number;
+  mode: EquityMode;
+  progress: number;
+  done: boolean;
+}
+
+interface ComboTally {
+  handClass: string;
+  cards: [number, number];
+  weight: number;
+  /** Cards left for the runout once this combo is dealt */
+  deck: number[];
+  wins: number;
+  ties: number;
+  samples: number;
+}
+
+function toSplit(wins: number, ties: number, samples: number): EquitySplit {
+  if (samples === 0) return { win: 0, tie: 0, lose: 0, equity: 0 };
+  const win = wins / samples;
+  const tie = ties / samples;
+  return { win, tie, lose: 1 - win - tie, equity: win + tie / 2 };
+}
+
+export function* runRangeBreakdown(
+  request: RangeBreakdownRequest,
+  options: EquityOptions = {}
+): Generator<RangeBreakdownResult, RangeBreakdownResult> {
+  const maxIterations = options.maxIterations ?? DEFAULT_EQUITY_OPTIONS.maxIterations;
+  const exactLimit = options.exactLimit ?? DEFAULT_EQUITY_OPTIONS.exactLimit;
+  const targetMargin = options.targetMargin ?? DEFAULT_EQUITY_OPTIONS.targetMargin;
+
+  const prepared = prepareEquity({ players: [request.hero, request.range], board: request.board });
+  const [heroA, heroB] = prepared.combos[0][0];
+  const k = prepared.cardsToCome;
+
+  const tallies: ComboTally[] = prepared.combos[1].map((cards, i) => ({
+    handClass: cardsToHandClass(cards.map(formatCard)) ?? "",
+    cards,
+    weight: prepared.weights[1][i],
+    deck: prepared.deck.filter((card) => card !== cards[0] && card !== cards[1]),
+    wins: 0,
+    ties: 0,
+    samples: 0,
+  }));
+
+  const heroHand = new Int32Array(7);
+  const villainHand = new Int32Array(7);
+  heroHand[0] = heroA;
+  heroHand[1] = heroB;
+  prepared.board.forEach((card, i) => {
+    heroHand[i + 2] = card;
+    villainHand[i + 2] = card;
+  });
+  const firstRunoutSlot = prepared.board.length + 2;
+
+  const showdown = (tally: ComboTally) => {
+    villainHand[0] = tally.cards[0];
+    villainHand[1] = tally.cards[1];
+    for (let i = firstRunoutSlot; i < 7; i++) villainHand[i] = heroHand[i];
+    const hero = evaluateHand(heroHand, 7);
+    const villain = evaluateHand(villainHand, 7);
+    if (hero > villain) tally.wins++;
+    else if (hero === villain) tally.ties++;
+    tally.samples++;
+  };
+
+  const runoutsPerCombo = binomial(prepared.deck.length - 2, k);
+  const mode: EquityMode = tallies.length * runoutsPerCombo <= exactLimit ? "exact" : "monte_carlo";
+  const planned = mode === "exact" ? tallies.length * runoutsPerCombo : maxIterations;
+  let iterations = 0;
+
+  const snapshot = (done: boolean): RangeBreakdownResult => {
+    const byClass = new Map<string, { combos: number; wins: number; ties: number; samples: number }>();
+    let wins = 0;
+    let ties = 0;
+    let samples = 0;
+    // Every combo's results count in proportion to its weight
+    tallies.forEach((t) => {
+      const entry = byClass.get(t.handClass) ?? { combos: 0, wins: 0, ties: 0, samples: 0 };
+      entry.combos += t.weight;
+      entry.wins += t.wins * t.weight;
+      entry.ties += t.ties * t.weight;
+      entry.samples += t.samples * t.weight;
+      byClass.set(t.handClass, entry);
+      wins += t.wins * t.weight;
+      ties += t.ties * t.weight;
+      samples += t.samples * t.weight;
+    });
+
+    return {
+      classes: Array.from(byClass.entries())
+        .filter(([, entry]) => entry.samples > 0)
+        .map(([handClass, entry]) => ({
+          handClass,
+          combos: entry.combos,
+          ...toSplit(entry.wins, entry.ties, entry.samples),
+        }))
+        .sort((a, b) => b.equity - a.equity),
+      overall: toSplit(wins, ties, samples),
+      iterations,
+      mode,
+      progress: done ? 1 : Math.min(1, iterations / Math.max(1, planned)),
+      done,
+    };
+  };
+
+  if (mode === "exact") {
+    for (const tally of tallies) {
+      const index = Array.from({ length: k }, (_, i) => i);
+      do {
+        for (let i = 0; i < k; i++) heroHand[firstRunoutSlot + i] = tally.deck[index[i]];
+        showdown(tally);
+        iterations++;
+        if (iterations % REPORT_EVERY === 0) yield snapshot(false);
+      } while (nextCombination(index, tally.deck.length));
+    }
+    return snapshot(true);
+  }
+
+  // Monte Carlo: one random runout per combo per pass keeps combos equally weighted
+  let squares = 0;
+  let equitySum = 0;
+  let weightSum = 0;
+  while (iterations < maxIterations) {
+    for (const tally of tallies) {
+      const deck = tally.deck;
+      let available = deck.length;
+      for (let i = 0; i < k; i++) {
+        const j = (Math.random() * available) | 0;
+        const card = deck[j];
+        deck[j] = deck[available - 1];
+        deck[available - 1] = card;
+        available--;
+        heroHand[firstRunoutSlot + i] = card;
+      }
+
+      const before = tally.wins * 2 + tally.ties;
+      showdown(tally);
+      const share = (tally.wins * 2 + tally.ties - before) / 2;
+      equitySum += share * tally.weight;
+      squares += share * share * tally.weight;
+      weightSum += tally.weight;
+      iterations++;
+
+      if (iterations % REPORT_EVERY === 0) {
+        const mean = equitySum / weightSum;
+        const margin = 1.96 * Math.sqrt(Math.max(0, squares / weightSum - mean * mean) / iterations);
+        if (iterations >= MIN_ITERATIONS && margin <= targetMargin) {
+          return snapshot(true);
+        }
+        yield snapshot(false);
+      }
+    }
+  }
+
+  return snapshot(true);
+}
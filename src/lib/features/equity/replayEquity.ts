@@ -0,0 +1,181 @@
+/**
+ * Replay Equity
+ *
+ * Equity of every player still in a replayed hand, frame by frame. Cards the
+ * viewer can see at a frame are used as they are (all-in equity once
+ * everything is shown); hidden hands play as an assumed range. Frames with
+ * the same board, players and known cards share one calculation.
+ */
+
+import {
+  runEquity,
+  type EquityOptions,
+  type EquityRequest,
+  type EquityResult,
+} from "./equityEngine";
+import { getGameDecision, getRequiredEquity } from "./potOdds";
+import type { GameState } from "@/lib/types/poker";
+
+export interface ReplayEquityRequest {
+  /** Distinct spots in the hand; plan frames point at them by index */
+  spots: EquityRequest[];
+}
+
+export interface ReplayEquityResult {
+  /** Equity per player of each spot, in request order; null until calculated or when it can't be */
+  equities: (number[] | null)[];
+  progress: number;
+  done: boolean;
+}
+
+export interface ReplayFacingBet {
+  seat: number;
+  toCall: number;
+  pot: number;
+  /** Equity a call needs to break even (0-1) */
+  requiredEquity: number;
+}
+
+export interface ReplayEquityFrame {
+  street: GameState["currentPhase"];
+  /** Seats still in the hand, in the order of the spot's players */
+  seats: number[];
+  /** Seats whose cards are hidden at this frame, played as the assumed range */
+  rangeSeats: number[];
+  /** Spot holding this frame's equities; null when fewer than two players are in */
+  spotIndex: number | null;
+  /** The bet the player to act is facing, if any */
+  facingBet: ReplayFacingBet | null;
+}
+
+export interface ReplayEquityPlan {
+  frames: ReplayEquityFrame[];
+  request: ReplayEquityRequest;
+}
+
+/** Per-spot budget: a hand can have a dozen or more spots */
+const PER_SPOT_OPTIONS: Required<EquityOptions> = {
+  maxIterations: 20000,
+  exactLimit: 100000,
+  targetMargin: 0.005,
+};
+
+const isKnownCard = (card: string | null | undefined): card is string => !!card && card !== "HIDDEN";
+
+function getFacingBet(state: GameState): ReplayFacingBet | null {
+  const decision = getGameDecision(state);
+  if (!decision || decision.spot.toCall <= 0) return null;
+  return {
+    seat: decision.seat,
+    toCall: decision.spot.toCall,
+    pot: decision.spot.pot,
+    requiredEquity: getRequiredEquity(decision.spot),
+  };
+}
+
+/**
+ * The equity spots behind each frame's state. Players without two hole cards
+ * (not dealt in yet, or folded) are left out.
+ */
+export function buildReplayEquityPlan(states: GameState[], assumedRange: string): ReplayEquityPlan {
+  const spots: EquityRequest[] = [];
+  const spotIndexes = new Map<string, number>();
+
+  const frames = states.map((state): ReplayEquityFrame => {
+    const inHand = state.players
+      .filter((p) => !p.folded && !p.left && (p.holeCards ?? []).length === 2)
+      .sort((a, b) => a.seat - b.seat);
+    const board = state.communityCards.filter(isKnownCard);
+    const rangeSeats: number[] = [];
+
+    const players = inHand.map((p) => {
+      const cards = p.holeCards.filter(isKnownCard);
+      if (cards.length === 2) return cards;
+      rangeSeats.push(p.seat);
+      return assumedRange;
+    });
+
+    let spotIndex: number | null = null;
+    if (players.length >= 2) {
+      const spot: EquityRequest = { players, board };
+      const key = JSON.stringify(spot);
+      spotIndex = spotIndexes.get(key) ?? null;
+      if (spotIndex === null) {
+        spotIndex = spots.push(spot) - 1;
+        spotIndexes.set(key, spotIndex);
+      }
+    }
+
+    return {
+      street: state.currentPhase,
+      seats: inHand.map((p) => p.seat),
+      rangeSeats,
+      spotIndex,
+      facingBet: getFacingBet(state),
+    };
+  });
+
+  return { frames, request: { spots } };
+}
+
+/**
+ * Equity (0-1) per seat at a frame, or null while it is being calculated.
+ * A player left alone in the hand has all of it.
+ */
+export function getFrameEquities(
+  frame: ReplayEquityFrame,
+  result: ReplayEquityResult | null
+): Record<number, number> | null {
+  if (frame.spotIndex === null) {
+    return frame.seats.length === 1 ? { [frame.seats[0]]: 1 } : null;
+  }
+  const equities = result?.equities[frame.spotIndex];
+  if (!equities) return null;
+
+  const bySeat: Record<number, number> = {};
+  frame.seats.forEach((seat, i) => {
+    bySeat[seat] = equities[i];
+  });
+  return bySeat;
+}
+
+export function* runReplayEquity(
+  request: ReplayEquityRequest,
+  options: EquityOptions = {}
+): Generator<ReplayEquityResult, ReplayEquityResult> {
+  const resolved: Required<EquityOptions> = {
+    maxIterations: options.maxIterations ?? PER_SPOT_OPTIONS.maxIterations,
+    exactLimit: options.exactLimit ?? PER_SPOT_OPTIONS.exactLimit,
+    targetMargin: options.targetMargin ?? PER_SPOT_OPTIONS.targetMargin,
+  };
+  const equities: (number[] | null)[] = request.spots.map(() => null);
+  let finished = 0;
+
+  const snapshot = (done: boolean): ReplayEquityResult => ({
+    equities: [...equities],
+    progress: done ? 1 : finished / Math.max(1, request.spots.length),
+    done,
+  });
+
+  // Drain an equity job, reporting between its slices
+  function* drain(job: Generator<EquityResult, EquityResult>): Generator<ReplayEquityResult, EquityResult> {
+    let step = job.next();
+    while (!step.done) {
+      yield snapshot(false);
+      step = job.next();
+    }
+    return step.value;
+  }
+
+  for (let i = 0; i < request.spots.length; i++) {
+    try {
+      equities[i] = (yield* drain(runEquity(request.spots[i], resolved))).equities;
+    } catch {
+      // The assumed range has no combos left next to the known cards, so the spot stays blank
+    }
+    finished++;
+    yield snapshot(false);
+  }
+
+  return snapshot(true);
+}
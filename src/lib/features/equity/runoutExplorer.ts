@@ -0,0 +1,117 @@
+/**
+ * Runout Explorer
+ *
+ * Equity after every possible next card on a flop or turn. Each card is
+ * compared to the equity on the current board and grouped by who it helps.
+ */
+
+import { formatCard } from "./handEvaluator";
+import {
+  DEFAULT_EQUITY_OPTIONS,
+  prepareEquity,
+  runEquity,
+  type EquityOptions,
+  type EquityRequest,
+  type EquityResult,
+} from "./equityEngine";
+
+/** Who a card helps, judged by the change in hero's (player 1's) equity */
+export type RunoutEffect = "hero" | "villain" | "neutral";
+
+export interface RunoutCard {
+  card: string;
+  /** Equity per player (0-1) with this card on the board, in request order */
+  equities: number[];
+  /** Change in hero's equity compared with the current board */
+  delta: number;
+  effect: RunoutEffect;
+}
+
+export interface RunoutResult {
+  street: "turn" | "river";
+  /** Equity per player on the current board; null until calculated */
+  base: number[] | null;
+  cards: RunoutCard[];
+  progress: number;
+  done: boolean;
+}
+
+/** Hero equity swing (0-1) below which a card counts as neutral */
+export const RUNOUT_NEUTRAL_THRESHOLD = 0.05;
+
+/** Per-card budget: up to 48 cards are calculated for every request */
+const PER_CARD_OPTIONS: Required<EquityOptions> = {
+  maxIterations: 20000,
+  exactLimit: 100000,
+  targetMargin: 0.005,
+};
+
+function classify(delta: number): RunoutEffect {
+  if (delta >= RUNOUT_NEUTRAL_THRESHOLD) return "hero";
+  if (delta <= -RUNOUT_NEUTRAL_THRESHOLD) return "villain";
+  return "neutral";
+}
+
+export function* runRunouts(
+  request: EquityRequest,
+  options: EquityOptions = {}
+): Generator<RunoutResult, RunoutResult> {
+  if (request.board.length !== 3 && request.board.length !== 4) {
+    throw new Error("Runouts need a flop or a turn on the board");
+  }
+
+  const prepared = prepareEquity(request);
+  const nextCards = prepared.deck.map(formatCard);
+  const street = request.board.length === 3 ? "turn" : "river";
+  const cards: RunoutCard[] = [];
+  let base: number[] | null = null;
+  let finished = 0;
+
+  const snapshot = (done: boolean): RunoutResult => ({
+    street,
+    base,
+    cards: [...cards],
+    progress: done ? 1 : finished / (nextCards.length + 1),
+    done,
+  });
+
+  // Drain an equity job, reporting between its slices
+  function* drain(job: Generator<EquityResult, EquityResult>): Generator<RunoutResult, EquityResult> {
+    let step = job.next();
+    while (!step.done) {
+      yield snapshot(false);
+      step = job.next();
+    }
+    return step.value;
+  }
+
+  base = (
+    yield* drain(
+      runEquity(request, {
+        maxIterations: options.maxIterations ?? DEFAULT_EQUITY_OPTIONS.maxIterations,
+        exactLimit: options.exactLimit ?? DEFAULT_EQUITY_OPTIONS.exactLimit,
+        targetMargin: options.targetMargin ?? DEFAULT_EQUITY_OPTIONS.targetMargin,
+      })
+    )
+  ).equities;
+  finished++;
+  const heroBase = base[0];
+
+  for (const card of nextCards) {
+    let result: EquityResult;
+    try {
+      result = yield* drain(runEquity({ ...request, board: [...request.board, card] }, PER_CARD_OPTIONS));
+    } catch {
+      // The card leaves a range with no combos, so it can't come
+      finished++;
+      continue;
+    }
+
+    const delta = result.equities[0] - heroBase;
+    cards.push({ card, equities: result.equities, delta, effect: classify(delta) });
+    finished++;
+    yield snapshot(false);
+  }
+
+  return snapshot(true);
+}
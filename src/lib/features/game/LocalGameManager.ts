@@ -2,6 +2,21 @@ import { TexasHoldemEngine } from '@backend/domain/game/engine/TexasHoldemEngine
 import { EffectType } from '@backend/shared/types/engine.js';
 import { makeDecision } from '@backend/domain/game/bots/botStrategies.js';
 import type { GameState } from '@/lib/types/poker';
+import { DEFAULT_TABLE_SETUP, type BotSeatConfig, type BotStyle } from './botSetup';
+import {
+  compileRangeBotProfile,
+  decideRangeBotAction,
+  type CompiledRangeBotProfile,
+  type RangeBotTable,
+} from './rangeBot';
+import type { LocalHandLogEntry, LocalSessionSnapshot } from './localSession';
+import {
+  recordBoardCards,
+  recordPlayerAction,
+  startHandRecord,
+  type LocalActionSnapshot,
+  type LocalHandRecord,
+} from './localHandHistory';
 
 // =============================================================================
 // LOCAL TYPE DEFINITIONS FOR BACKEND ENGINE INTERFACE
@@ -17,6 +32,8 @@ interface LocalGameConfig {
   buyIn: number;
   startingStack?: number;
   variantSlug?: string;
+  /** Bot lineup, seated after the hero. Defaults to the standard 5-bot table. */
+  opponents?: BotSeatConfig[];
 }
 
 /** Local player type matching backend engine output */
@@ -91,6 +108,20 @@ interface LocalGameResult {
   effects: LocalEffect[];
 }
 
+interface LocalGameOptions {
+  /** Saved session to continue instead of seating a fresh table */
+  resume?: LocalSessionSnapshot;
+  /** Called after every transition with a serializable snapshot of the session */
+  onPersist?: (snapshot: LocalSessionSnapshot) => void;
+  /**
+   * Called with each hand's record and the stacks it ended with as soon as the
+   * hand ends, so the last hand before quitting or a game-ending hand is kept
+   */
+  onHandComplete?: (record: LocalHandRecord, endStacks: Record<string, number>) => void;
+}
+
+const BETTING_PHASES = ['preflop', 'flop', 'turn', 'river'];
+
 // Extended UI state that includes all game fields
 type UIGameState = GameState & {
   dealerSeat?: number;
@@ -106,13 +137,38 @@ export class LocalGameManager {
   private startGameTimeout: NodeJS.Timeout | null = null;
   private currentHeroId: string;
   private isDestroyed: boolean = false;
-
-  constructor(config: LocalGameConfig, heroId: string, onStateUpdate: (state: UIGameState) => void) {
+  private botStyles = new Map<string, BotStyle>();
+  private botRangeProfiles = new Map<string, CompiledRangeBotProfile>();
+  private onPersist?: (snapshot: LocalSessionSnapshot) => void;
+  private sessionLog: LocalHandLogEntry[] = [];
+  private currentHandNumber = 0;
+  private handStartStacks: Record<string, number> = {};
+  private onHandComplete?: (record: LocalHandRecord, endStacks: Record<string, number>) => void;
+  private handRecord: LocalHandRecord | null = null;
+  /** The current hand has been logged and recorded */
+  private handFinished = false;
+
+  constructor(
+    config: LocalGameConfig,
+    heroId: string,
+    onStateUpdate: (state: UIGameState) => void,
+    options: LocalGameOptions = {}
+  ) {
     this.updateUI = onStateUpdate;
     this.currentHeroId = heroId;
+    this.onPersist = options.onPersist;
+    this.onHandComplete = options.onHandComplete;
 
     this.engine = new TexasHoldemEngine('local-game-1', config);
-    this.setupPlayers(heroId, config.startingStack || 200);
+    const opponents = config.opponents || DEFAULT_TABLE_SETUP.opponents;
+
+    if (options.resume) {
+      this.registerBots(opponents);
+      this.resumeSession(options.resume);
+      return;
+    }
+
+    this.setupPlayers(heroId, config.startingStack || 200, opponents);
 
     // Send initial state (empty table) so UI can mount and render
     const initialUiState = this.engine.getPlayerContext(this.currentHeroId) as unknown as UIGameState;
@@ -135,27 +191,32 @@ export class LocalGameManager {
     this.processResult(result);
   }
 
-  private setupPlayers(heroId: string, startingStack: number) {
+  private setupPlayers(heroId: string, startingStack: number, opponents: BotSeatConfig[]) {
+    const maxPlayers = (this.engine.config as LocalGameConfig).maxPlayers;
+    const bots = opponents.slice(0, Math.max(1, maxPlayers - 1));
+
     const playersData = [
       { id: heroId, username: 'You', isBot: false, chips: startingStack, seat: 1 },
-      { id: 'bot-1', username: 'AggroBot', isBot: true, chips: startingStack, seat: 2 },
-      { id: 'bot-2', username: 'TightBot', isBot: true, chips: startingStack, seat: 3 },
-      { id: 'bot-3', username: 'CallingStation', isBot: true, chips: startingStack, seat: 4 },
-      { id: 'bot-4', username: 'RandomBot', isBot: true, chips: startingStack, seat: 5 },
-      { id: 'bot-5', username: 'SolidBot', isBot: true, chips: startingStack, seat: 6 },
+      ...bots.map((bot, i) => ({
+        id: `bot-${i + 1}`,
+        username: bot.name,
+        isBot: true,
+        chips: bot.stack,
+        seat: i + 2,
+      })),
     ];
 
-    const maxPlayers = (this.engine.config as LocalGameConfig).maxPlayers;
-    const players = maxPlayers === 2 ? playersData.slice(0, 2) : playersData;
-    this.engine.addPlayers(players);
+    this.registerBots(bots);
+    this.engine.addPlayers(playersData);
 
+    const stacks = new Map(playersData.map((p) => [p.id, p.chips]));
     const ctx = this.engine.context as unknown as LocalEngineContext;
     if (ctx.players) {
         ctx.players.forEach((p: LocalPlayer) => {
             p.status = 'ACTIVE';
             p.folded = false;
             p.left = false;
-            p.chips = startingStack;
+            p.chips = stacks.get(p.id) ?? startingStack;
             p.isOffline = false;
         });
     }
@@ -163,6 +224,148 @@ export class LocalGameManager {
     if (!ctx.left_players) ctx.left_players = [];
   }
 
+  private registerBots(bots: BotSeatConfig[]) {
+    this.botStyles.clear();
+    this.botRangeProfiles.clear();
+    bots.forEach((bot, i) => {
+      this.botStyles.set(`bot-${i + 1}`, bot.style);
+      if (bot.rangeProfile) {
+        this.botRangeProfiles.set(`bot-${i + 1}`, compileRangeBotProfile(bot.rangeProfile));
+      }
+    });
+  }
+
+  /**
+   * Restore a saved session. A hand waiting on a player's action continues where it
+   * left off; a hand caught mid-transition (timers are lost on reload) is voided and
+   * re-dealt from the stacks it started with.
+   */
+  private resumeSession(snapshot: LocalSessionSnapshot) {
+    (this.engine as { context: unknown }).context = JSON.parse(JSON.stringify(snapshot.context));
+    this.sessionLog = [...snapshot.log];
+    this.currentHandNumber = snapshot.handNumber;
+    this.handStartStacks = { ...snapshot.handStartStacks };
+    this.handRecord = snapshot.handRecord ?? null;
+
+    const ctx = this.engine.context as unknown as LocalEngineContext;
+    const canContinue =
+      ctx.currentActorSeat !== null &&
+      BETTING_PHASES.includes(ctx.currentPhase) &&
+      ctx.players?.some((p) => p.seat === ctx.currentActorSeat);
+
+    console.log('[LocalGame] Resuming session at hand', snapshot.handNumber, canContinue ? '(in progress)' : '(re-deal)');
+
+    if (canContinue) {
+      this.startGameTimeout = setTimeout(() => {
+        if (this.isDestroyed) return;
+        this.processResult({ success: true, state: ctx, events: [], effects: [] });
+      }, 500);
+      return;
+    }
+
+    ctx.players?.forEach((p: LocalPlayer) => {
+      if (this.handStartStacks[p.id] !== undefined) {
+        p.chips = this.handStartStacks[p.id];
+      }
+      p.currentBet = 0;
+      p.totalBet = 0;
+    });
+    // The voided hand shouldn't be logged or recorded when the next one is dealt
+    this.handStartStacks = {};
+    this.handRecord = null;
+
+    this.updateUI(this.engine.getPlayerContext(this.currentHeroId) as unknown as UIGameState);
+    this.startGameTimeout = setTimeout(() => {
+      if (this.isDestroyed) return;
+      this.startGame();
+    }, 500);
+  }
+
+  /**
+   * Log and record the current hand with the stacks it ended with. Later hands
+   * start from these stacks, so a re-deal after a reload won't undo it.
+   */
+  private finishHand(stacks: Record<string, number>) {
+    if (this.handFinished || Object.keys(this.handStartStacks).length === 0) return;
+
+    this.sessionLog.push({
+      handNumber: this.currentHandNumber,
+      endedAt: new Date().toISOString(),
+      heroNet: (stacks[this.currentHeroId] ?? 0) - (this.handStartStacks[this.currentHeroId] ?? 0),
+      stacks,
+    });
+    if (this.handRecord) {
+      this.onHandComplete?.(this.handRecord, stacks);
+    }
+
+    this.handFinished = true;
+    this.handStartStacks = stacks;
+    this.handRecord = null;
+  }
+
+  /**
+   * Start a record for each new hand, log and record it as soon as it ends
+   * (the engine schedules the next deal or ends the game), then save a snapshot
+   */
+  private trackSession(ctx: LocalEngineContext, effects: LocalEffect[] = []) {
+    if (ctx.handNumber && ctx.handNumber !== this.currentHandNumber) {
+      // Stacks before this hand's blinds went in
+      const stacks: Record<string, number> = {};
+      ctx.players?.forEach((p: LocalPlayer) => {
+        stacks[p.id] = (p.chips || 0) + (p.totalBet || p.currentBet || 0);
+      });
+
+      // A hand whose end went unseen still ended with the stacks this one starts from
+      this.finishHand(stacks);
+
+      this.currentHandNumber = ctx.handNumber;
+      this.handFinished = false;
+      this.handStartStacks = stacks;
+      this.handRecord = startHandRecord(
+        {
+          handNumber: ctx.handNumber,
+          players: ctx.players || [],
+          sbSeat: ctx.sbSeat,
+          bbSeat: ctx.bbSeat,
+          blinds: { small: ctx.smallBlind || ctx.config.blinds.small, big: ctx.bigBlind || ctx.config.blinds.big },
+          tableSize: ctx.config.maxPlayers,
+        },
+        stacks
+      );
+    } else if (this.handRecord) {
+      recordBoardCards(this.handRecord, ctx.communityCards);
+    }
+
+    const handOver =
+      ctx.status === 'finished' ||
+      ctx.status === 'complete' ||
+      effects.some(
+        (effect) =>
+          effect.type === EffectType.GAME_END ||
+          (effect.type === EffectType.SCHEDULE_TRANSITION && effect.targetPhase === 'preflop')
+      );
+    if (handOver) {
+      // Pots are paid out by now
+      const stacks: Record<string, number> = {};
+      ctx.players?.forEach((p: LocalPlayer) => {
+        stacks[p.id] = p.chips || 0;
+      });
+      this.finishHand(stacks);
+    }
+
+    this.onPersist?.({
+      context: JSON.parse(JSON.stringify(ctx)),
+      handNumber: this.currentHandNumber,
+      handStartStacks: this.handStartStacks,
+      log: this.sessionLog,
+      handRecord: this.handRecord,
+    });
+  }
+
+  public getSessionLog(): LocalHandLogEntry[] {
+    return [...this.sessionLog];
+  }
+
   public handleAction(actionType: string, amount?: number) {
     if (this.isDestroyed) return;
 
@@ -178,7 +381,29 @@ export class LocalGameManager {
     };
 
     console.log('[LocalGame] Hero Action:', action);
+    this.applyAction(action);
+  }
+
+  /**
+   * Send an action to the engine, recording it in the hand history if it was accepted
+   */
+  private applyAction(action: { seat: number }) {
+    const ctx = this.engine.context as unknown as LocalEngineContext;
+    const toSnapshot = (p: LocalPlayer): LocalActionSnapshot => ({
+      currentBet: p.currentBet || 0,
+      totalBet: p.totalBet || 0,
+      folded: !!p.folded,
+    });
+    const actor = ctx.players?.find((p: LocalPlayer) => p.seat === action.seat);
+    const before = actor ? toSnapshot(actor) : null;
+    const highBet = Math.max(0, ...(ctx.players || []).map((p: LocalPlayer) => p.currentBet || 0));
+
     const result = this.engine.processAction(action as Parameters<typeof this.engine.processAction>[0]) as unknown as LocalGameResult;
+
+    const after = result.state?.players?.find((p: LocalPlayer) => p.seat === action.seat);
+    if (result.success && this.handRecord && before && after) {
+      recordPlayerAction(this.handRecord, action.seat, before, toSnapshot(after), highBet);
+    }
     this.processResult(result);
   }
 
@@ -302,6 +527,7 @@ export class LocalGameManager {
     uiState.handNumber = ctx.handNumber || 1;
 
     this.updateUI(uiState as UIGameState);
+    this.trackSession(ctx, result.effects);
 
     if (result.effects) {
       result.effects.forEach((effect: LocalEffect) => {
@@ -354,21 +580,23 @@ export class LocalGameManager {
 
      const ctx = this.engine.context as unknown as LocalEngineContext;
 
-     // Use backend bot strategies - assign different strategies to different bots
-     const botStrategies = ['aggressive', 'balanced', 'tight', 'loose', 'calling'];
-     const botIdStr = actor.id.replace('bot-', '');
-     const botIndex = parseInt(botIdStr) - 1; // bot-1 -> index 0, bot-2 -> index 1, etc.
-     const strategy = botStrategies[botIndex % botStrategies.length];
-
-     const botProfile = { strategy };
-
-     // Use the same decision-making logic as the backend
-     const action = makeDecision(ctx, actor, botProfile);
-     action.seat = actor.seat;
-     action.gameId = this.engine.gameId;
-
-     const result = this.engine.processAction(action) as unknown as LocalGameResult;
-     this.processResult(result);
+     // Range profiles take precedence; otherwise use the backend strategy for the seat's style
+     const rangeProfile = this.botRangeProfiles.get(actor.id);
+     let action;
+     if (rangeProfile) {
+       const table: RangeBotTable = { ...ctx, buttonSeat: ctx.buttonSeat ?? ctx.dealerSeat ?? 0 };
+       action = { ...decideRangeBotAction(table, actor.id, rangeProfile), seat: actor.seat, gameId: this.engine.gameId };
+     } else {
+       const strategy = this.botStyles.get(actor.id) || 'balanced';
+       const botProfile = { strategy };
+
+       // Use the same decision-making logic as the backend
+       action = makeDecision(ctx, actor, botProfile);
+       action.seat = actor.seat;
+       action.gameId = this.engine.gameId;
+     }
+
+     this.applyAction(action);
   }
 
   public cleanup() {
@@ -0,0 +1,250 @@
+/**
+ * Bot Table Setup
+ *
+ * Table configuration for local bot games (opponent lineup, stacks, blinds)
+ * and the presets users can save from the bots page. Presets live in
+ * localStorage since bot games run entirely in the browser.
+ */
+
+import type { RangeBotProfile } from './rangeBot';
+
+export type BotStyle = 'aggressive' | 'balanced' | 'tight' | 'loose' | 'calling';
+
+export interface BotStyleOption {
+  value: BotStyle;
+  label: string;
+  description: string;
+  defaultName: string;
+}
+
+/** Styles map 1:1 onto the backend `makeDecision` strategies */
+export const BOT_STYLES: BotStyleOption[] = [
+  { value: 'aggressive', label: 'Aggressive', description: 'Bets and raises often', defaultName: 'AggroBot' },
+  { value: 'balanced', label: 'Balanced', description: 'Solid, mixed play', defaultName: 'SolidBot' },
+  { value: 'tight', label: 'Tight', description: 'Plays few hands', defaultName: 'TightBot' },
+  { value: 'loose', label: 'Loose', description: 'Plays many hands', defaultName: 'LooseBot' },
+  { value: 'calling', label: 'Calling Station', description: 'Calls too much, rarely raises', defaultName: 'CallingStation' },
+];
+
+export interface BotSeatConfig {
+  name: string;
+  style: BotStyle;
+  stack: number;
+  /** When set, the bot plays these ranges instead of its built-in style */
+  rangeProfile?: RangeBotProfile;
+}
+
+export interface LocalTableSetup {
+  opponents: BotSeatConfig[];
+  /** Hero's stack, and the default for newly added bots */
+  startingStack: number;
+  blinds: { small: number; big: number };
+}
+
+export interface BotPreset {
+  id: string;
+  name: string;
+  setup: LocalTableSetup;
+  /** Built-in presets can't be deleted */
+  builtIn?: boolean;
+}
+
+export const MIN_BOT_OPPONENTS = 1;
+export const MAX_BOT_OPPONENTS = 8;
+
+export function getBotStyle(style: BotStyle): BotStyleOption {
+  return BOT_STYLES.find((s) => s.value === style) ?? BOT_STYLES[1];
+}
+
+export function createBotSeat(style: BotStyle, stack: number, existing: BotSeatConfig[] = []): BotSeatConfig {
+  // Number repeated styles so every seat has a distinct name (AggroBot, AggroBot 2, ...)
+  const baseName = getBotStyle(style).defaultName;
+  const taken = new Set(existing.map((b) => b.name));
+  let name = baseName;
+  for (let i = 2; taken.has(name); i++) {
+    name = `${baseName} ${i}`;
+  }
+  return { name, style, stack };
+}
+
+/**
+ * Grow or shrink the lineup to `count` bots, keeping existing seats
+ */
+export function resizeOpponents(setup: LocalTableSetup, count: number): BotSeatConfig[] {
+  const target = Math.min(MAX_BOT_OPPONENTS, Math.max(MIN_BOT_OPPONENTS, count));
+  const opponents = setup.opponents.slice(0, target);
+  while (opponents.length < target) {
+    const style = BOT_STYLES[opponents.length % BOT_STYLES.length].value;
+    opponents.push(createBotSeat(style, setup.startingStack, opponents));
+  }
+  return opponents;
+}
+
+export const DEFAULT_TABLE_SETUP: LocalTableSetup = {
+  opponents: [
+    { name: 'AggroBot', style: 'aggressive', stack: 200 },
+    { name: 'TightBot', style: 'tight', stack: 200 },
+    { name: 'CallingStation', style: 'calling', stack: 200 },
+    { name: 'LooseBot', style: 'loose', stack: 200 },
+    { name: 'SolidBot', style: 'balanced', stack: 200 },
+  ],
+  startingStack: 200,
+  blinds: { small: 1, big: 2 },
+};
+
+export const BUILT_IN_BOT_PRESETS: BotPreset[] = [
+  { id: 'builtin-default', name: 'Mixed 6-max', setup: DEFAULT_TABLE_SETUP, builtIn: true },
+  {
+    id: 'builtin-short-aggro',
+    name: 'Short-handed aggro',
+    setup: {
+      opponents: [
+        { name: 'AggroBot', style: 'aggressive', stack: 200 },
+        { name: 'AggroBot 2', style: 'aggressive', stack: 200 },
+        { name: 'LooseBot', style: 'loose', stack: 200 },
+      ],
+      startingStack: 200,
+      blinds: { small: 1, big: 2 },
+    },
+    builtIn: true,
+  },
+  {
+    id: 'builtin-heads-up',
+    name: 'Heads-up',
+    setup: {
+      opponents: [{ name: 'SolidBot', style: 'balanced', stack: 200 }],
+      startingStack: 200,
+      blinds: { small: 1, big: 2 },
+    },
+    builtIn: true,
+  },
+  {
+    id: 'builtin-full-ring-passive',
+    name: 'Full ring, passive',
+    setup: {
+      opponents: [
+        { name: 'CallingStation', style: 'calling', stack: 200 },
+        { name: 'CallingStation 2', style: 'calling', stack: 200 },
+        { name: 'TightBot', style: 'tight', stack: 200 },
+        { name: 'TightBot 2', style: 'tight', stack: 200 },
+        { name: 'LooseBot', style: 'loose', stack: 200 },
+        { name: 'SolidBot', style: 'balanced', stack: 200 },
+        { name: 'CallingStation 3', style: 'calling', stack: 200 },
+        { name: 'SolidBot 2', style: 'balanced', stack: 200 },
+      ],
+      startingStack: 200,
+      blinds: { small: 1, big: 2 },
+    },
+    builtIn: true,
+  },
+];
+
+/**
+ * Returns an error message for an unplayable setup, or null if it's valid
+ */
+export function validateTableSetup(setup: LocalTableSetup): string | null {
+  const { opponents, startingStack, blinds } = setup;
+  if (opponents.length < MIN_BOT_OPPONENTS || opponents.length > MAX_BOT_OPPONENTS) {
+    return `Choose between ${MIN_BOT_OPPONENTS} and ${MAX_BOT_OPPONENTS} opponents`;
+  }
+  if (!Number.isInteger(blinds.small) || !Number.isInteger(blinds.big) || blinds.small <= 0) {
+    return 'Blinds must be whole numbers above zero';
+  }
+  if (blinds.big < blinds.small) {
+    return 'Big blind must be at least the small blind';
+  }
+  if (!Number.isInteger(startingStack) || startingStack < blinds.big) {
+    return 'Your stack must cover at least one big blind';
+  }
+  if (opponents.some((b) => !Number.isInteger(b.stack) || b.stack < blinds.big)) {
+    return 'Every bot stack must cover at least one big blind';
+  }
+  if (opponents.some((b) => !b.name.trim())) {
+    return 'Every bot needs a name';
+  }
+  return null;
+}
+
+function isRangeBotProfile(value: unknown): value is RangeBotProfile {
+  if (!value || typeof value !== 'object') return false;
+  const profile = value as Record<string, unknown>;
+  const ranges = profile.ranges as Record<string, Record<string, unknown>> | undefined;
+  return (
+    typeof profile.name === 'string' &&
+    !!ranges &&
+    ['early', 'middle', 'late', 'blinds'].every(
+      (group) =>
+        !!ranges[group] &&
+        typeof ranges[group].open === 'string' &&
+        typeof ranges[group].threeBet === 'string' &&
+        typeof ranges[group].call === 'string'
+    ) &&
+    !!profile.postflop &&
+    typeof profile.postflop === 'object'
+  );
+}
+
+function isTableSetup(value: unknown): value is LocalTableSetup {
+  if (!value || typeof value !== 'object') return false;
+  const setup = value as Record<string, unknown>;
+  const blinds = setup.blinds as Record<string, unknown> | undefined;
+  return (
+    typeof setup.startingStack === 'number' &&
+    !!blinds &&
+    typeof blinds.small === 'number' &&
+    typeof blinds.big === 'number' &&
+    Array.isArray(setup.opponents) &&
+    setup.opponents.every(
+      (b) =>
+        b &&
+        typeof b.name === 'string' &&
+        typeof b.stack === 'number' &&
+        BOT_STYLES.some((s) => s.value === b.style) &&
+        (b.rangeProfile === undefined || isRangeBotProfile(b.rangeProfile))
+    )
+  );
+}
+
+const PRESETS_KEY = 'botTable_presets';
+
+/** User-saved presets (built-ins are not stored) */
+export function loadBotPresets(): BotPreset[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(PRESETS_KEY);
+    if (!stored) return [];
+    const parsed = JSON.parse(stored) as unknown;
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (p): p is BotPreset =>
+        p && typeof p.id === 'string' && typeof p.name === 'string' && isTableSetup(p.setup)
+    );
+  } catch {
+    return [];
+  }
+}
+
+function writeBotPresets(presets: BotPreset[]): void {
+  try {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  } catch (error) {
+    console.error('[BotSetup] Failed to save presets', error);
+  }
+}
+
+/**
+ * Save a preset, replacing any saved preset with the same name
+ */
+export function saveBotPreset(name: string, setup: LocalTableSetup): BotPreset[] {
+  const trimmed = name.trim();
+  const presets = loadBotPresets().filter((p) => p.name !== trimmed);
+  presets.push({ id: `preset-${Date.now()}`, name: trimmed, setup });
+  writeBotPresets(presets);
+  return presets;
+}
+
+export function deleteBotPreset(id: string): BotPreset[] {
+  const presets = loadBotPresets().filter((p) => p.id !== id);
+  writeBotPresets(presets);
+  return presets;
+}
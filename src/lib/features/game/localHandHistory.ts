@@ -0,0 +1,319 @@
+/**
+ * Local Hand History
+ *
+ * Records hands played against bots in the same PokerCodec format as online
+ * hands and keeps them in localStorage, so HandHistoryList, ReplayViewer, the
+ * exporter and the stats tools can use them like any other `HandSummary`.
+ */
+
+// @ts-ignore - Importing from shared backend
+import { ActionType } from '@backend/domain/handHistory/PokerCodec';
+import type { DecodedHandAction, HandSummary } from '@/lib/types/handHistory';
+import {
+  cardStringToIndex,
+  encodeReplayData,
+  variantFromPlayerCount,
+} from '@/lib/features/handHistory/codec';
+
+/** Stands in for the hero in stored hands; swapped for the signed-in user's id on load */
+export const LOCAL_HERO_ID = 'local-hero';
+
+/** Minimal player shape read from the engine context */
+export interface LocalHandPlayer {
+  id: string;
+  username: string;
+  seat: number;
+  chips: number;
+  currentBet: number;
+  totalBet: number;
+  holeCards: string[];
+  folded: boolean;
+}
+
+/** In-progress hand, kept in the session snapshot so a resumed hand keeps recording */
+export interface LocalHandRecord {
+  handNumber: number;
+  startedAt: string;
+  tableSize: number;
+  blinds: { small: number; big: number };
+  /** Seat number -> player id; codec seat indexes follow ascending seat order */
+  manifest: Record<string, string>;
+  playerNames: Record<string, string>;
+  startingStacks: number[];
+  holeCards: number[][];
+  board: number[];
+  actions: DecodedHandAction[];
+  /** Chips each seat has put in this hand, indexed like `startingStacks` */
+  contributed: number[];
+}
+
+/** Actor's betting state either side of an action, used to work out what the action was */
+export interface LocalActionSnapshot {
+  currentBet: number;
+  totalBet: number;
+  folded: boolean;
+}
+
+const STREET_BY_BOARD_SIZE: Record<number, string> = { 3: 'flop', 4: 'turn', 5: 'river' };
+
+function getSeatIndex(record: LocalHandRecord, seat: number): number {
+  return Object.keys(record.manifest)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .indexOf(seat);
+}
+
+/**
+ * Start recording a freshly dealt hand. Blinds already posted by the deal are
+ * recorded from each player's current bet.
+ */
+export function startHandRecord(
+  table: {
+    handNumber: number;
+    players: LocalHandPlayer[];
+    sbSeat: number;
+    bbSeat: number;
+    blinds: { small: number; big: number };
+    tableSize: number;
+  },
+  startStacks: Record<string, number>
+): LocalHandRecord | null {
+  const dealtIn = table.players
+    .filter((p) => p.holeCards?.length === 2)
+    .sort((a, b) => a.seat - b.seat);
+  if (dealtIn.length < 2) return null;
+
+  let holeCards: number[][];
+  try {
+    holeCards = dealtIn.map((p) => p.holeCards.map(cardStringToIndex));
+  } catch (error) {
+    console.error('[LocalHandHistory] Unreadable hole cards, hand not recorded', error);
+    return null;
+  }
+
+  const record: LocalHandRecord = {
+    handNumber: table.handNumber,
+    startedAt: new Date().toISOString(),
+    tableSize: table.tableSize,
+    blinds: table.blinds,
+    manifest: {},
+    playerNames: {},
+    startingStacks: dealtIn.map((p) => startStacks[p.id] ?? p.chips + (p.totalBet || 0)),
+    holeCards,
+    board: [],
+    actions: [],
+    contributed: dealtIn.map(() => 0),
+  };
+
+  dealtIn.forEach((p) => {
+    record.manifest[String(p.seat)] = p.id;
+    record.playerNames[p.id] = p.username;
+  });
+
+  const postBlind = (seat: number, type: number) => {
+    const seatIndex = getSeatIndex(record, seat);
+    const amount = dealtIn[seatIndex]?.currentBet || 0;
+    if (seatIndex < 0 || amount <= 0) return;
+    record.contributed[seatIndex] += amount;
+    record.actions.push({ seatIndex, type, amount });
+  };
+  postBlind(table.sbSeat, ActionType.POST_SMALL_BLIND);
+  postBlind(table.bbSeat, ActionType.POST_BIG_BLIND);
+
+  return record;
+}
+
+/**
+ * Record one player action by comparing the actor before and after the engine
+ * processed it. Bets and raises are stored as "raise to" totals, like PokerCodec.
+ */
+export function recordPlayerAction(
+  record: LocalHandRecord,
+  seat: number,
+  before: LocalActionSnapshot,
+  after: LocalActionSnapshot,
+  highBet: number
+): void {
+  const seatIndex = getSeatIndex(record, seat);
+  if (seatIndex < 0) return;
+
+  if (after.folded && !before.folded) {
+    record.actions.push({ seatIndex, type: ActionType.FOLD });
+    return;
+  }
+
+  // totalBet survives the end of a betting round, unlike currentBet
+  const added = Math.max(0, (after.totalBet || 0) - (before.totalBet || 0));
+  const total = (before.currentBet || 0) + added;
+  record.contributed[seatIndex] += added;
+
+  if (added === 0) {
+    record.actions.push({ seatIndex, type: ActionType.CHECK });
+  } else if (total > highBet) {
+    record.actions.push({ seatIndex, type: ActionType.BET_OR_RAISE, amount: total });
+  } else {
+    record.actions.push({ seatIndex, type: ActionType.CALL, amount: added });
+  }
+}
+
+/**
+ * Add newly dealt community cards, marking each street that was dealt
+ */
+export function recordBoardCards(record: LocalHandRecord, communityCards: string[]): void {
+  if (!communityCards || communityCards.length <= record.board.length) return;
+
+  try {
+    const cards = communityCards.map(cardStringToIndex);
+    for (let size = record.board.length + 1; size <= cards.length; size++) {
+      const street = STREET_BY_BOARD_SIZE[size];
+      if (street) {
+        record.actions.push({ seatIndex: 0, type: ActionType.NEXT_STREET, street });
+      }
+    }
+    record.board = cards;
+  } catch (error) {
+    console.error('[LocalHandHistory] Unreadable board cards', error);
+  }
+}
+
+/**
+ * Close the hand with its pot awards and encode it as a stored hand row.
+ * Winnings are what each seat ended with beyond its stack less its contributions.
+ */
+export function finishHandRecord(
+  record: LocalHandRecord,
+  endStacks: Record<string, number>,
+  gameId: string,
+  heroId: string
+): HandSummary | null {
+  const seats = Object.keys(record.manifest)
+    .map(Number)
+    .sort((a, b) => a - b);
+  const playerIds = seats.map((seat) => record.manifest[String(seat)]);
+
+  const actions = [...record.actions];
+  let winnerIndex = -1;
+  let biggestWin = 0;
+  playerIds.forEach((id, seatIndex) => {
+    const endStack = endStacks[id];
+    if (endStack === undefined) return;
+    const won = endStack - record.startingStacks[seatIndex] + record.contributed[seatIndex];
+    if (won <= 0) return;
+    actions.push({ seatIndex, type: ActionType.WIN_POT, amount: won, potIndex: 0 });
+    if (won > biggestWin) {
+      biggestWin = won;
+      winnerIndex = seatIndex;
+    }
+  });
+
+  let replayData: string;
+  try {
+    replayData = encodeReplayData({
+      startingStacks: record.startingStacks,
+      actions,
+      board: record.board,
+      holeCards: record.holeCards,
+    });
+  } catch (error) {
+    console.error('[LocalHandHistory] Failed to encode hand', error);
+    return null;
+  }
+
+  const toStoredId = (id: string) => (id === heroId ? LOCAL_HERO_ID : id);
+  const manifest: Record<string, string> = {};
+  Object.entries(record.manifest).forEach(([seat, id]) => {
+    manifest[seat] = toStoredId(id);
+  });
+  // Bot names travel with the hand; the hero's name comes from their profile
+  const playerNames: Record<string, string> = {};
+  Object.entries(record.playerNames).forEach(([id, name]) => {
+    if (id !== heroId) playerNames[id] = name;
+  });
+
+  return {
+    id: `local-${gameId}-${record.handNumber}`,
+    game_id: gameId,
+    hand_index: record.handNumber,
+    final_pot: record.contributed.reduce((sum, amount) => sum + amount, 0),
+    winner_id: winnerIndex >= 0 ? toStoredId(playerIds[winnerIndex]) : null,
+    played_at: record.startedAt,
+    replay_data: replayData,
+    player_manifest: manifest,
+    config: {
+      gameType: variantFromPlayerCount(record.tableSize) ?? undefined,
+      sb: record.blinds.small,
+      bb: record.blinds.big,
+      buyIn: 0,
+      local: true,
+      playerNames,
+    },
+  };
+}
+
+/** True for hands recorded from local bot games */
+export function isLocalHand(hand: Pick<HandSummary, 'config'>): boolean {
+  return hand.config?.local === true;
+}
+
+/** Bot display names stored with a local hand */
+export function getLocalHandPlayerNames(hand: Pick<HandSummary, 'config'>): Record<string, string> {
+  return (hand.config?.playerNames as Record<string, string> | undefined) ?? {};
+}
+
+function sortNewestFirst(hands: HandSummary[]): HandSummary[] {
+  return hands.sort((a, b) => new Date(b.played_at).getTime() - new Date(a.played_at).getTime());
+}
+
+const HANDS_KEY = 'localGame_hands';
+/** Oldest hands are dropped past this to stay well inside the storage quota */
+export const MAX_LOCAL_HANDS = 1000;
+
+function readStoredHands(): HandSummary[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(HANDS_KEY);
+    if (!stored) return [];
+    const parsed = JSON.parse(stored) as unknown;
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (h): h is HandSummary =>
+        h && typeof h.id === 'string' && typeof h.replay_data === 'string' && !!h.player_manifest
+    );
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Stored local hands, newest first, with the hero placeholder replaced by `userId`
+ */
+export function loadLocalHands(userId: string): HandSummary[] {
+  const swap = (id: string | null) => (id === LOCAL_HERO_ID ? userId : id);
+  return sortNewestFirst(
+    readStoredHands().map((hand) => ({
+      ...hand,
+      winner_id: swap(hand.winner_id),
+      player_manifest: Object.fromEntries(
+        Object.entries(hand.player_manifest).map(([seat, id]) => [seat, swap(id) as string])
+      ),
+    }))
+  );
+}
+
+export function saveLocalHand(hand: HandSummary): void {
+  if (typeof window === 'undefined') return;
+  try {
+    const hands = readStoredHands().filter((h) => h.id !== hand.id);
+    hands.push(hand);
+    localStorage.setItem(HANDS_KEY, JSON.stringify(hands.slice(-MAX_LOCAL_HANDS)));
+  } catch (error) {
+    console.error('[LocalHandHistory] Failed to save hand', error);
+  }
+}
+
+/**
+ * Merge local hands into a list of stored hands, newest first
+ */
+export function mergeWithLocalHands(hands: HandSummary[], userId: string): HandSummary[] {
+  return sortNewestFirst([...hands, ...loadLocalHands(userId)]);
+}
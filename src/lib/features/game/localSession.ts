@@ -0,0 +1,116 @@
+/**
+ * Local Session Persistence
+ *
+ * Saves the running bot game (engine context, stacks and a per-hand log) to
+ * localStorage so a refresh or navigation doesn't lose the session, and
+ * builds the summary shown when the user quits.
+ */
+
+import type { LocalTableSetup } from './botSetup';
+import type { LocalHandRecord } from './localHandHistory';
+
+/** One completed hand in the running session log */
+export interface LocalHandLogEntry {
+  handNumber: number;
+  endedAt: string;
+  /** Hero's stack change over the hand */
+  heroNet: number;
+  /** Every player's stack after the hand, by player id */
+  stacks: Record<string, number>;
+}
+
+/** Everything needed to rebuild a LocalGameManager after a reload */
+export interface LocalSessionSnapshot {
+  /** Serialized engine context as of the last transition */
+  context: unknown;
+  handNumber: number;
+  /** Stacks when the current hand was dealt; used if the hand can't be resumed */
+  handStartStacks: Record<string, number>;
+  log: LocalHandLogEntry[];
+  /** Hand history recorded so far for the current hand */
+  handRecord?: LocalHandRecord | null;
+}
+
+export interface SavedLocalSession extends LocalSessionSnapshot {
+  version: 1;
+  heroId: string;
+  tableSetup: LocalTableSetup;
+  startedAt: string;
+  updatedAt: string;
+}
+
+export interface LocalSessionSummary {
+  handsPlayed: number;
+  startingStack: number;
+  finalStack: number;
+  netChips: number;
+  bbPer100: number;
+  biggestWin: number;
+  biggestLoss: number;
+  startedAt: string;
+  endedAt: string;
+}
+
+const SESSION_KEY = 'localGame_session';
+
+export function loadLocalSession(): SavedLocalSession | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const stored = localStorage.getItem(SESSION_KEY);
+    if (!stored) return null;
+    const parsed = JSON.parse(stored) as SavedLocalSession;
+    if (parsed?.version !== 1 || !parsed.heroId || !parsed.context || !parsed.tableSetup) {
+      return null;
+    }
+    return { ...parsed, log: Array.isArray(parsed.log) ? parsed.log : [] };
+  } catch {
+    return null;
+  }
+}
+
+export function saveLocalSession(session: SavedLocalSession): void {
+  if (typeof window === 'undefined') return;
+  try {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  } catch (error) {
+    // Quota errors shouldn't interrupt play; the session just won't be resumable
+    console.error('[LocalSession] Failed to save session', error);
+  }
+}
+
+export function clearLocalSession(): void {
+  if (typeof window === 'undefined') return;
+  try {
+    localStorage.removeItem(SESSION_KEY);
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+/**
+ * Hero's current stack: the latest logged stack, or the starting stack before any hand finished
+ */
+export function getHeroStack(session: Pick<SavedLocalSession, 'heroId' | 'log' | 'tableSetup'>): number {
+  const last = session.log[session.log.length - 1];
+  return last?.stacks[session.heroId] ?? session.tableSetup.startingStack;
+}
+
+export function summarizeLocalSession(
+  session: Pick<SavedLocalSession, 'heroId' | 'log' | 'tableSetup' | 'startedAt'>
+): LocalSessionSummary {
+  const { log, tableSetup } = session;
+  const netChips = log.reduce((sum, entry) => sum + entry.heroNet, 0);
+  const bigBlind = tableSetup.blinds.big || 1;
+
+  return {
+    handsPlayed: log.length,
+    startingStack: tableSetup.startingStack,
+    finalStack: getHeroStack(session),
+    netChips,
+    bbPer100: log.length > 0 ? (netChips / bigBlind / log.length) * 100 : 0,
+    biggestWin: Math.max(0, ...log.map((entry) => entry.heroNet)),
+    biggestLoss: Math.min(0, ...log.map((entry) => entry.heroNet)),
+    startedAt: session.startedAt,
+    endedAt: log[log.length - 1]?.endedAt ?? session.startedAt,
+  };
+}
@@ -0,0 +1,386 @@
+/**
+ * Range Bot
+ *
+ * Bot strategy driven by range strings: preflop it opens, 3-bets and calls
+ * from per-position ranges (the same notation `parseRange` and the range
+ * presets use), and postflop it bets, raises and bluffs according to its
+ * aggression settings and made-hand strength.
+ */
+
+// @ts-ignore - Importing from shared backend
+import { getClientHandStrength } from '@backend/domain/evaluation/ClientHandEvaluator';
+import type { PokerPosition } from '@/lib/types/preflopStats';
+import type { RangePreset } from '@/lib/types/ranges';
+import { getSeatPosition } from '@/lib/features/handHistory/positions';
+import { RANK_ORDER, cardsToHandClass, rangeToHandClasses } from '@/lib/features/ranges/handClasses';
+
+export type BotPositionGroup = 'early' | 'middle' | 'late' | 'blinds';
+
+export const BOT_POSITION_GROUPS: BotPositionGroup[] = ['early', 'middle', 'late', 'blinds'];
+
+export interface PositionRanges {
+  /** Hands raised first in */
+  open: string;
+  /** Hands re-raised against an open */
+  threeBet: string;
+  /** Hands flatted against an open (also used to continue vs 3-bets) */
+  call: string;
+}
+
+/** Postflop tendencies, each 0-100 */
+export interface PostflopAggression {
+  /** How often made hands are bet when checked to */
+  betFrequency: number;
+  /** How often air is bet when checked to */
+  bluffFrequency: number;
+  /** How often strong hands raise a bet instead of calling */
+  raiseFrequency: number;
+  /** Willingness to call bets with weak made hands */
+  stickiness: number;
+}
+
+export type PostflopAggressionLevel = 'passive' | 'balanced' | 'aggressive';
+
+export const POSTFLOP_AGGRESSION_LEVELS: Record<PostflopAggressionLevel, PostflopAggression> = {
+  passive: { betFrequency: 40, bluffFrequency: 5, raiseFrequency: 10, stickiness: 60 },
+  balanced: { betFrequency: 65, bluffFrequency: 15, raiseFrequency: 25, stickiness: 40 },
+  aggressive: { betFrequency: 85, bluffFrequency: 35, raiseFrequency: 45, stickiness: 30 },
+};
+
+export interface RangeBotProfile {
+  name: string;
+  ranges: Record<BotPositionGroup, PositionRanges>;
+  postflop: PostflopAggression;
+}
+
+const PREMIUM_THREE_BET = 'QQ+,AKs,AKo';
+
+function sameRangesEverywhere(ranges: PositionRanges): Record<BotPositionGroup, PositionRanges> {
+  return { early: ranges, middle: ranges, late: ranges, blinds: ranges };
+}
+
+export const BUILT_IN_RANGE_PROFILES: RangeBotProfile[] = [
+  {
+    name: 'Nit',
+    ranges: {
+      early: { open: '88+,AJs+,KQs,AKo', threeBet: 'KK+', call: 'QQ-99,AKs,AQs' },
+      middle: { open: '77+,ATs+,KJs+,QJs,AQo+', threeBet: 'QQ+,AKs', call: 'JJ-88,AQs-AJs,KQs,AKo' },
+      late: { open: '55+,A8s+,KTs+,QTs+,JTs,AJo+,KQo', threeBet: PREMIUM_THREE_BET, call: 'JJ-77,AQs-ATs,KQs,AQo' },
+      blinds: { open: '66+,A9s+,KTs+,QJs,AJo+,KQo', threeBet: PREMIUM_THREE_BET, call: 'JJ-77,AQs-ATs,KQs,AQo' },
+    },
+    postflop: POSTFLOP_AGGRESSION_LEVELS.passive,
+  },
+  {
+    name: 'TAG',
+    ranges: {
+      early: { open: '66+,ATs+,KTs+,QTs+,JTs,AJo+,KQo', threeBet: 'QQ+,AKs,AKo', call: 'JJ-77,AQs-AJs,KQs' },
+      middle: { open: '44+,A8s+,K9s+,Q9s+,J9s+,T9s,ATo+,KJo+', threeBet: 'JJ+,AQs+,AKo', call: 'TT-66,AJs-ATs,KQs-KJs,QJs,AQo' },
+      late: {
+        open: '22+,A2s+,K7s+,Q8s+,J8s+,T8s+,97s+,87s,76s,65s,A8o+,KTo+,QTo+,JTo',
+        threeBet: 'JJ+,AQs+,AKo,A5s-A4s',
+        call: 'TT-22,AJs-A9s,KQs-KTs,QJs,JTs,T9s,AQo-AJo,KQo',
+      },
+      blinds: {
+        open: '22+,A2s+,K8s+,Q9s+,J9s+,T9s,98s,A9o+,KTo+,QJo',
+        threeBet: 'JJ+,AQs+,AKo,A5s-A4s',
+        call: 'TT-22,AJs-A9s,KQs-KTs,QJs,JTs,T9s,AQo-AJo,KQo',
+      },
+    },
+    postflop: POSTFLOP_AGGRESSION_LEVELS.balanced,
+  },
+  {
+    name: 'LAG',
+    ranges: {
+      early: {
+        open: '22+,A2s+,K9s+,Q9s+,J9s+,T9s,98s,87s,ATo+,KJo+',
+        threeBet: 'TT+,AJs+,KQs,AQo+,A5s-A2s',
+        call: '99-22,ATs-A6s,KJs-KTs,QTs+,JTs,T9s,98s,AJo',
+      },
+      middle: {
+        open: '22+,A2s+,K6s+,Q8s+,J8s+,T8s+,97s+,86s+,75s+,65s,54s,A8o+,KTo+,QTo+,JTo',
+        threeBet: 'TT+,AJs+,KQs,AQo+,A5s-A2s,K9s,T8s,97s',
+        call: '99-22,ATs-A6s,KJs-KTs,QTs+,JTs,T9s,98s,87s,ATo+,KJo+',
+      },
+      late: {
+        open: '22+,A2s+,K2s+,Q5s+,J7s+,T7s+,96s+,85s+,74s+,64s+,53s+,43s,A2o+,K8o+,Q9o+,J9o+,T9o',
+        threeBet: 'TT+,AJs+,KQs,AQo+,A5s-A2s,K9s,T8s,97s,86s,76s',
+        call: '99-22,ATs-A6s,KJs-KTs,QTs+,JTs,T9s,98s,87s,ATo+,KJo+',
+      },
+      blinds: {
+        open: '22+,A2s+,K5s+,Q7s+,J7s+,T7s+,97s+,86s+,75s+,65s,54s,A5o+,K9o+,QTo+,JTo',
+        threeBet: 'TT+,AJs+,KQs,AQo+,A5s-A2s,K9s,T8s,97s,86s,76s',
+        call: '99-22,ATs-A6s,KJs-KTs,QTs+,JTs,T9s,98s,87s,ATo+,KJo+',
+      },
+    },
+    postflop: POSTFLOP_AGGRESSION_LEVELS.aggressive,
+  },
+];
+
+/**
+ * Build a profile that plays a single range preset everywhere: it opens and
+ * calls with the preset range and only 3-bets premiums.
+ */
+export function createProfileFromPreset(
+  preset: Pick<RangePreset, 'name' | 'range_string'>,
+  postflop: PostflopAggression = POSTFLOP_AGGRESSION_LEVELS.balanced
+): RangeBotProfile {
+  return {
+    name: preset.name,
+    ranges: sameRangesEverywhere({
+      open: preset.range_string,
+      threeBet: PREMIUM_THREE_BET,
+      call: preset.range_string,
+    }),
+    postflop,
+  };
+}
+
+export function getPositionGroup(position: PokerPosition): BotPositionGroup {
+  switch (position) {
+    case 'UTG':
+    case 'UTG+1':
+    case 'UTG+2':
+      return 'early';
+    case 'MP':
+    case 'MP+1':
+    case 'LJ':
+    case 'HJ':
+      return 'middle';
+    case 'CO':
+    case 'BTN':
+      return 'late';
+    case 'SB':
+    case 'BB':
+    default:
+      return 'blinds';
+  }
+}
+
+interface CompiledPositionRanges {
+  open: Set<string>;
+  threeBet: Set<string>;
+  call: Set<string>;
+}
+
+/** Profile with range strings expanded to hand class sets, ready for decisions */
+export type CompiledRangeBotProfile = Omit<RangeBotProfile, 'ranges'> & {
+  ranges: Record<BotPositionGroup, CompiledPositionRanges>;
+};
+
+export function compileRangeBotProfile(profile: RangeBotProfile): CompiledRangeBotProfile {
+  const ranges = {} as Record<BotPositionGroup, CompiledPositionRanges>;
+  BOT_POSITION_GROUPS.forEach((group) => {
+    const r = profile.ranges[group];
+    ranges[group] = {
+      open: rangeToHandClasses(r.open),
+      threeBet: rangeToHandClasses(r.threeBet),
+      call: rangeToHandClasses(r.call),
+    };
+  });
+  return { ...profile, ranges };
+}
+
+// =============================================================================
+// DECISIONS
+// =============================================================================
+
+/** Minimal view of the engine context a range bot needs */
+export interface RangeBotTable {
+  players: Array<{
+    id: string;
+    seat: number;
+    chips: number;
+    currentBet: number;
+    holeCards: string[];
+    folded: boolean;
+    lastAction: string | null;
+  }>;
+  communityCards: string[];
+  pots: Array<{ amount: number }>;
+  buttonSeat: number;
+  bigBlind: number;
+  minRaise: number;
+  currentPhase: string;
+}
+
+export interface RangeBotAction {
+  type: 'fold' | 'check' | 'call' | 'bet' | 'allin';
+  /** Call: amount to call. Bet: total bet (raise-to). All-in: stack. */
+  amount?: number;
+}
+
+type MadeHandTier = 'strong' | 'medium' | 'weak' | 'air';
+
+const STRONG_HANDS = [
+  'Set', 'Trips', 'Three of a Kind', 'Two Pair', 'Straight', 'Flush', 'Full House', 'Quads', 'Four of a Kind', 'Royal Flush',
+];
+
+function rankValue(card: string): number {
+  return RANK_ORDER.length - RANK_ORDER.indexOf(card[0]);
+}
+
+/**
+ * Rough made-hand strength: two pair or better is strong, top pair or an
+ * overpair is medium, other pairs are weak.
+ */
+function getMadeHandTier(holeCards: string[], board: string[]): MadeHandTier {
+  let description: string | null = null;
+  try {
+    description = getClientHandStrength(holeCards, board);
+  } catch {
+    description = null;
+  }
+  if (!description) return 'air';
+  if (STRONG_HANDS.some((name) => description!.startsWith(name))) return 'strong';
+  if (!description.startsWith('Pair')) return 'air';
+
+  const topBoardRank = Math.max(...board.map(rankValue));
+  const isPocketPair = holeCards[0][0] === holeCards[1][0];
+  const pairsTopCard = holeCards.some((c) => rankValue(c) === topBoardRank);
+  if ((isPocketPair && rankValue(holeCards[0]) > topBoardRank) || pairsTopCard) return 'medium';
+
+  // Pair made only by the board doesn't count
+  const boardRanks = board.map((c) => c[0]);
+  const holePairsBoard = holeCards.some((c) => boardRanks.includes(c[0]));
+  return isPocketPair || holePairsBoard ? 'weak' : 'air';
+}
+
+function chance(percent: number): boolean {
+  return Math.random() * 100 < percent;
+}
+
+function getActorPosition(table: RangeBotTable, actorId: string): PokerPosition | null {
+  const dealt = table.players
+    .filter((p) => p.holeCards && p.holeCards.length > 0)
+    .sort((a, b) => a.seat - b.seat);
+  const seatIndex = dealt.findIndex((p) => p.id === actorId);
+  const buttonIndex = dealt.findIndex((p) => p.seat === table.buttonSeat);
+  if (seatIndex === -1 || buttonIndex === -1) return null;
+  return getSeatPosition(seatIndex, buttonIndex, dealt.length);
+}
+
+/**
+ * Bet or raise to `target` total, clamped to the legal minimum and to the actor's stack
+ */
+function betTo(
+  target: number,
+  actor: RangeBotTable['players'][number],
+  highBet: number,
+  table: RangeBotTable
+): RangeBotAction {
+  const minTotal = highBet + Math.max(table.minRaise, table.bigBlind);
+  const maxTotal = actor.chips + actor.currentBet;
+  const total = Math.max(Math.round(target), minTotal);
+  if (total >= maxTotal) return { type: 'allin', amount: actor.chips };
+  return { type: 'bet', amount: total };
+}
+
+function callOrCheck(toCall: number, actor: RangeBotTable['players'][number]): RangeBotAction {
+  if (toCall <= 0) return { type: 'check' };
+  if (toCall >= actor.chips) return { type: 'allin', amount: actor.chips };
+  return { type: 'call', amount: toCall };
+}
+
+function decidePreflop(
+  table: RangeBotTable,
+  actor: RangeBotTable['players'][number],
+  profile: CompiledRangeBotProfile,
+  highBet: number
+): RangeBotAction {
+  const toCall = highBet - actor.currentBet;
+  const handClass = cardsToHandClass(actor.holeCards);
+  const position = getActorPosition(table, actor.id);
+  const ranges = profile.ranges[position ? getPositionGroup(position) : 'blinds'];
+  const bb = table.bigBlind || 1;
+
+  if (!handClass) return callOrCheck(toCall, actor);
+
+  // Unopened (or limped) pot
+  if (highBet <= bb) {
+    if (ranges.open.has(handClass)) {
+      const limpers = table.players.filter(
+        (p) => p.id !== actor.id && !p.folded && p.currentBet === bb && p.lastAction === 'call'
+      ).length;
+      return betTo(bb * (3 + limpers), actor, highBet, table);
+    }
+    return toCall > 0 ? { type: 'fold' } : { type: 'check' };
+  }
+
+  const raisers = table.players.filter(
+    (p) => p.id !== actor.id && !p.folded && (p.lastAction === 'bet' || p.lastAction === 'raise')
+  ).length;
+
+  // Facing a single open
+  if (raisers <= 1 && highBet <= bb * 5) {
+    if (ranges.threeBet.has(handClass)) return betTo(highBet * 3, actor, highBet, table);
+    if (ranges.call.has(handClass)) return callOrCheck(toCall, actor);
+    return { type: 'fold' };
+  }
+
+  // Facing a 3-bet or more: continue with the 3-bet range only
+  if (ranges.threeBet.has(handClass)) {
+    return ranges.call.has(handClass) || highBet > actor.chips / 3
+      ? callOrCheck(toCall, actor)
+      : betTo(highBet * 2.5, actor, highBet, table);
+  }
+  return { type: 'fold' };
+}
+
+function decidePostflop(
+  table: RangeBotTable,
+  actor: RangeBotTable['players'][number],
+  profile: CompiledRangeBotProfile,
+  highBet: number
+): RangeBotAction {
+  const { postflop } = profile;
+  const toCall = highBet - actor.currentBet;
+  const pot =
+    table.pots.reduce((sum, p) => sum + (p.amount || 0), 0) +
+    table.players.reduce((sum, p) => sum + (p.currentBet || 0), 0);
+  const tier = getMadeHandTier(actor.holeCards, table.communityCards);
+
+  if (toCall <= 0) {
+    if (tier === 'strong' && chance(postflop.betFrequency)) return betTo(pot * 0.66, actor, highBet, table);
+    if (tier === 'medium' && chance(postflop.betFrequency * 0.6)) return betTo(pot * 0.5, actor, highBet, table);
+    if ((tier === 'weak' || tier === 'air') && chance(postflop.bluffFrequency)) {
+      return betTo(pot * 0.5, actor, highBet, table);
+    }
+    return { type: 'check' };
+  }
+
+  switch (tier) {
+    case 'strong':
+      return chance(postflop.raiseFrequency)
+        ? betTo(highBet * 3, actor, highBet, table)
+        : callOrCheck(toCall, actor);
+    case 'medium':
+      return toCall <= pot || chance(postflop.stickiness) ? callOrCheck(toCall, actor) : { type: 'fold' };
+    case 'weak':
+      return toCall <= pot / 2 && chance(postflop.stickiness) ? callOrCheck(toCall, actor) : { type: 'fold' };
+    case 'air':
+    default:
+      return chance(postflop.bluffFrequency / 3) ? betTo(highBet * 3, actor, highBet, table) : { type: 'fold' };
+  }
+}
+
+/**
+ * Choose an action for `actorId` using its compiled range profile
+ */
+export function decideRangeBotAction(
+  table: RangeBotTable,
+  actorId: string,
+  profile: CompiledRangeBotProfile
+): RangeBotAction {
+  const actor = table.players.find((p) => p.id === actorId);
+  if (!actor) return { type: 'fold' };
+
+  const highBet = Math.max(0, ...table.players.map((p) => p.currentBet || 0));
+
+  if (!actor.holeCards || actor.holeCards.length < 2) {
+    return callOrCheck(highBet - actor.currentBet, actor);
+  }
+
+  return table.currentPhase === 'preflop'
+    ? decidePreflop(table, actor, profile, highBet)
+    : decidePostflop(table, actor, profile, highBet);
+}
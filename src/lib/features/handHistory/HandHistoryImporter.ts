@@ -0,0 +1,338 @@
+/**
+ * HandHistoryImporter
+ *
+ * Parses PokerStars / GGPoker style No-Limit Hold'em text hand histories into
+ * ReplayInput so they can be played back through ReplayOrchestrator.
+ *
+ * Amounts with decimals (cash games) are scaled to integer chips.
+ * Hole cards that were never shown are filled with unused deck cards so the
+ * engine can deal; they stay hidden unless the player reaches showdown.
+ */
+
+// @ts-ignore - Importing from shared backend
+import { ActionType } from "@backend/domain/handHistory/PokerCodec";
+import type { ReplayInput } from "@/lib/features/replay/ReplayOrchestrator";
+import type { DecodedHandAction, HandVariant } from "@/lib/types/handHistory";
+import { getErrorMessage } from "@/lib/utils";
+import { cardStringToIndex } from "./codec";
+
+export interface ImportedHand {
+  /** Hand number from the source site */
+  sourceHandId: string;
+  site: "PokerStars" | "GGPoker" | "Unknown";
+  playedAt: string;
+  tableName: string;
+  replayInput: ReplayInput;
+  /** Synthetic player ID -> screen name */
+  playerNames: Record<string, string>;
+  /** Synthetic ID of the "Dealt to" player, if any */
+  heroId?: string;
+}
+
+export interface HandImportResult {
+  hands: ImportedHand[];
+  errors: string[];
+}
+
+interface ParsedSeat {
+  seatNumber: number;
+  name: string;
+  stack: number;
+}
+
+const HAND_START_REGEX = /^(?:PokerStars(?: Zoom)?|Poker|GGPoker) Hand #/;
+const CARD_REGEX = /\b([2-9TJQKA][hdcs])\b/g;
+const AMOUNT_PATTERN = "[$€£]?([\\d,]+(?:\\.\\d+)?)";
+
+function extractCards(text: string): string[] {
+  return Array.from(text.matchAll(CARD_REGEX)).map((m) => m[1]);
+}
+
+/**
+ * Split a text blob into individual hand blocks
+ */
+function splitHands(text: string): string[] {
+  const blocks: string[] = [];
+  let current: string[] = [];
+
+  for (const rawLine of text.replace(/\r\n/g, "\n").split("\n")) {
+    const line = rawLine.replace(/^\uFEFF/, "").trimEnd();
+    if (HAND_START_REGEX.test(line)) {
+      if (current.length > 0) blocks.push(current.join("\n"));
+      current = [line];
+    } else if (current.length > 0) {
+      current.push(line);
+    }
+  }
+  if (current.length > 0) blocks.push(current.join("\n"));
+
+  return blocks;
+}
+
+/**
+ * Parse one or more hand histories from pasted text or an uploaded file
+ */
+export function parseHandHistories(text: string): HandImportResult {
+  const hands: ImportedHand[] = [];
+  const errors: string[] = [];
+
+  const blocks = splitHands(text);
+  if (blocks.length === 0) {
+    return { hands, errors: ["No PokerStars or GGPoker hand histories found"] };
+  }
+
+  blocks.forEach((block, index) => {
+    try {
+      hands.push(parseHand(block));
+    } catch (error: unknown) {
+      const header = block.split("\n")[0].slice(0, 60);
+      errors.push(`Hand ${index + 1} (${header}): ${getErrorMessage(error)}`);
+    }
+  });
+
+  return { hands, errors };
+}
+
+function parseHand(block: string): ImportedHand {
+  const lines = block.split("\n").map((l) => l.trim()).filter(Boolean);
+  const header = lines[0];
+
+  if (!/Hold'em No Limit/i.test(header)) {
+    throw new Error("Only No-Limit Hold'em hands are supported");
+  }
+
+  const site: ImportedHand["site"] = header.startsWith("PokerStars")
+    ? "PokerStars"
+    : header.startsWith("Poker Hand") || header.startsWith("GGPoker")
+    ? "GGPoker"
+    : "Unknown";
+
+  const sourceHandId = header.match(/Hand #([^:\s]+)/)?.[1] || "unknown";
+  const dateMatch = header.match(/(\d{4})\/(\d{2})\/(\d{2}) (\d{1,2}):(\d{2}):(\d{2})/);
+  const playedAt = dateMatch
+    ? new Date(
+        Date.UTC(
+          Number(dateMatch[1]),
+          Number(dateMatch[2]) - 1,
+          Number(dateMatch[3]),
+          Number(dateMatch[4]),
+          Number(dateMatch[5]),
+          Number(dateMatch[6])
+        )
+      ).toISOString()
+    : new Date().toISOString();
+
+  // Scale decimal amounts (e.g. $0.02) to integer chips
+  const decimals = Math.min(
+    2,
+    Math.max(
+      0,
+      ...Array.from(block.matchAll(/[$€£]?\d[\d,]*\.(\d+)/g)).map((m) => m[1].length)
+    )
+  );
+  const scale = Math.pow(10, decimals);
+  const toChips = (raw: string) => Math.round(parseFloat(raw.replace(/,/g, "")) * scale);
+
+  const blindsMatch = header.match(
+    new RegExp(`\\(${AMOUNT_PATTERN}\\/${AMOUNT_PATTERN}`)
+  );
+
+  // --- Table & seats ---
+  const tableLine = lines.find((l) => l.startsWith("Table '")) || "";
+  const tableName = tableLine.match(/^Table '([^']+)'/)?.[1] || "Imported";
+  const maxPlayersMatch = tableLine.match(/(\d+)-max/);
+
+  const seats: ParsedSeat[] = [];
+  const seatRegex = new RegExp(`^Seat (\\d+): (.+?) \\(${AMOUNT_PATTERN} in chips`);
+  for (const line of lines) {
+    if (line.startsWith("*** SUMMARY")) break;
+    const m = line.match(seatRegex);
+    if (m && !/is sitting out/.test(line)) {
+      seats.push({ seatNumber: Number(m[1]), name: m[2], stack: toChips(m[3]) });
+    }
+  }
+  if (seats.length < 2) {
+    throw new Error("Hand needs at least two seated players");
+  }
+  seats.sort((a, b) => a.seatNumber - b.seatNumber);
+
+  const playerIds = seats.map((s) => `import-${s.seatNumber}-${s.name}`);
+  const manifest: Record<string, string> = {};
+  const playerNames: Record<string, string> = {};
+  seats.forEach((s, i) => {
+    manifest[String(s.seatNumber)] = playerIds[i];
+    playerNames[playerIds[i]] = s.name;
+  });
+
+  // Longest names first so "Bob Jr" is not matched as "Bob"
+  const namesByLength = seats
+    .map((s, i) => ({ name: s.name, index: i }))
+    .sort((a, b) => b.name.length - a.name.length);
+  const findSeat = (line: string, separator: string) =>
+    namesByLength.find((n) => line.startsWith(n.name + separator));
+
+  // --- Actions ---
+  const actions: DecodedHandAction[] = [];
+  const knownCards: (string[] | null)[] = seats.map(() => null);
+  let board: string[] = [];
+  let heroIndex: number | undefined;
+  let section: "preflop" | "flop" | "turn" | "river" | "showdown" | "summary" = "preflop";
+  const committed = seats.map(() => 0);
+
+  const resetStreet = () => committed.fill(0);
+
+  for (const line of lines.slice(1)) {
+    if (line.startsWith("*** SUMMARY")) {
+      section = "summary";
+      continue;
+    }
+
+    if (section === "summary") {
+      const boardMatch = line.match(/^Board \[(.+)\]/);
+      if (boardMatch) board = extractCards(boardMatch[1]);
+      const shown = line.match(/^Seat \d+: (.+?) (?:\([^)]*\) )?(?:showed|mucked) \[(.+?)\]/);
+      if (shown) {
+        const seat = namesByLength.find((n) => n.name === shown[1]);
+        if (seat) knownCards[seat.index] = extractCards(shown[2]);
+      }
+      continue;
+    }
+
+    // Street markers (run-it-twice: only the first board is replayed)
+    const streetMatch = line.match(/^\*\*\* (?:FIRST )?(FLOP|TURN|RIVER) \*\*\*/);
+    if (streetMatch) {
+      const street = streetMatch[1].toLowerCase() as "flop" | "turn" | "river";
+      section = street;
+      board = extractCards(line).slice(0, street === "flop" ? 3 : street === "turn" ? 4 : 5);
+      resetStreet();
+      actions.push({ seatIndex: 0, type: ActionType.NEXT_STREET, street });
+      continue;
+    }
+    if (/^\*\*\* (?:SECOND|THIRD) /.test(line)) continue;
+    if (line.startsWith("*** SHOW DOWN") || line.startsWith("*** FIRST SHOW DOWN")) {
+      section = "showdown";
+      continue;
+    }
+
+    const dealt = line.match(/^Dealt to (.+?) \[(.+)\]/);
+    if (dealt) {
+      const seat = namesByLength.find((n) => n.name === dealt[1]);
+      if (seat) {
+        knownCards[seat.index] = extractCards(dealt[2]);
+        heroIndex = seat.index;
+      }
+      continue;
+    }
+
+    const collected = line.match(
+      new RegExp(`^(.+?) collected ${AMOUNT_PATTERN} from (?:(main )?pot|side pot(?:-| )?(\\d+))`)
+    );
+    if (collected) {
+      const seat = namesByLength.find((n) => n.name === collected[1]);
+      if (seat) {
+        actions.push({
+          seatIndex: seat.index,
+          type: ActionType.WIN_POT,
+          amount: toChips(collected[2]),
+          potIndex: collected[4] ? Number(collected[4]) : 0,
+        });
+      }
+      continue;
+    }
+
+    const actor = findSeat(line, ": ");
+    if (!actor) continue;
+    const rest = line.slice(actor.name.length + 2);
+    const i = actor.index;
+
+    let m: RegExpMatchArray | null;
+    if ((m = rest.match(new RegExp(`^posts small blind ${AMOUNT_PATTERN}`)))) {
+      const amount = toChips(m[1]);
+      committed[i] += amount;
+      actions.push({ seatIndex: i, type: ActionType.POST_SMALL_BLIND, amount });
+    } else if ((m = rest.match(new RegExp(`^posts big blind ${AMOUNT_PATTERN}`)))) {
+      const amount = toChips(m[1]);
+      committed[i] += amount;
+      actions.push({ seatIndex: i, type: ActionType.POST_BIG_BLIND, amount });
+    } else if ((m = rest.match(new RegExp(`^posts (?:the )?ante ${AMOUNT_PATTERN}`)))) {
+      actions.push({ seatIndex: i, type: ActionType.POST_ANTE, amount: toChips(m[1]) });
+    } else if (rest.startsWith("folds")) {
+      actions.push({ seatIndex: i, type: ActionType.FOLD });
+      const cards = rest.match(/\[(.+)\]/);
+      if (cards) knownCards[i] = extractCards(cards[1]);
+    } else if (rest.startsWith("checks")) {
+      actions.push({ seatIndex: i, type: ActionType.CHECK });
+    } else if ((m = rest.match(new RegExp(`^calls ${AMOUNT_PATTERN}`)))) {
+      const amount = toChips(m[1]);
+      committed[i] += amount;
+      actions.push({ seatIndex: i, type: ActionType.CALL, amount });
+    } else if ((m = rest.match(new RegExp(`^bets ${AMOUNT_PATTERN}`)))) {
+      // Bets are recorded as "raise to" totals for the street
+      const amount = committed[i] + toChips(m[1]);
+      committed[i] = amount;
+      actions.push({ seatIndex: i, type: ActionType.BET_OR_RAISE, amount });
+    } else if ((m = rest.match(new RegExp(`^raises ${AMOUNT_PATTERN} to ${AMOUNT_PATTERN}`)))) {
+      const amount = toChips(m[2]);
+      committed[i] = amount;
+      actions.push({ seatIndex: i, type: ActionType.BET_OR_RAISE, amount });
+    } else if ((m = rest.match(/^shows \[(.+?)\]/))) {
+      knownCards[i] = extractCards(m[1]);
+    }
+  }
+
+  // --- Cards ---
+  const boardIndices = board.map(cardStringToIndex);
+  const used = new Set<number>(boardIndices);
+  knownCards.forEach((cards) => cards?.forEach((c) => used.add(cardStringToIndex(c))));
+
+  let filler = 0;
+  const nextUnusedCard = () => {
+    while (used.has(filler)) filler++;
+    used.add(filler);
+    return filler;
+  };
+  const holeCards = knownCards.map((cards) =>
+    cards && cards.length === 2 ? cards.map(cardStringToIndex) : [nextUnusedCard(), nextUnusedCard()]
+  );
+
+  // --- Config ---
+  const smallBlind = blindsMatch
+    ? toChips(blindsMatch[1])
+    : actions.find((a) => a.type === ActionType.POST_SMALL_BLIND)?.amount || 1;
+  const bigBlind = blindsMatch
+    ? toChips(blindsMatch[2])
+    : actions.find((a) => a.type === ActionType.POST_BIG_BLIND)?.amount || 2;
+  const maxPlayers = maxPlayersMatch
+    ? Number(maxPlayersMatch[1])
+    : seats.length === 2
+    ? 2
+    : seats.length <= 6
+    ? 6
+    : 9;
+  const variant: HandVariant =
+    maxPlayers === 2 ? "heads_up" : maxPlayers <= 6 ? "six_max" : "full_ring";
+
+  return {
+    sourceHandId,
+    site,
+    playedAt,
+    tableName,
+    playerNames,
+    heroId: heroIndex !== undefined ? playerIds[heroIndex] : undefined,
+    replayInput: {
+      gameId: `import-${sourceHandId}`,
+      variant,
+      manifest,
+      startingStacks: seats.map((s) => s.stack),
+      actions,
+      board: boardIndices,
+      holeCards,
+      config: {
+        maxPlayers,
+        blinds: { small: smallBlind, big: bigBlind },
+        buyIn: 0,
+        variantSlug: variant,
+      },
+    },
+  };
+}
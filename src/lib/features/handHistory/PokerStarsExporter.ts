@@ -0,0 +1,254 @@
+/**
+ * PokerStarsExporter
+ *
+ * Converts stored PokerCodec hands into PokerStars-style hand history text so
+ * they can be loaded into standard tracking and review software.
+ * Amounts are play-money chips; BET_OR_RAISE amounts are "raise to" totals,
+ * matching what the engine receives in ReplayOrchestrator.
+ */
+
+import type { DecodedHand, HandSummary } from "@/lib/types/handHistory";
+import { decodeReplayData, cardIndexToString, resolveHandVariant } from "./codec";
+import { buildHandTimeline, STREET_BOARD_SIZE, type Street } from "./handTimeline";
+
+export interface PokerStarsExportOptions {
+  /** Player ID -> username lookup (from profiles) */
+  playerNames?: Record<string, string>;
+  /** Player whose hole cards are printed on the "Dealt to" line */
+  heroId?: string;
+}
+
+const STREET_HEADERS: Record<Street, string> = {
+  preflop: "HOLE CARDS",
+  flop: "FLOP",
+  turn: "TURN",
+  river: "RIVER",
+};
+
+const MAX_SEATS_LABEL: Record<string, string> = {
+  heads_up: "2-max",
+  six_max: "6-max",
+  full_ring: "9-max",
+};
+
+/**
+ * Derive a stable numeric hand number from the row UUID.
+ * Trackers require numeric IDs; the first 12 hex digits fit safely in a double.
+ */
+function toHandNumber(hand: HandSummary): string {
+  const hex = hand.id.replace(/-/g, "").slice(0, 12);
+  const parsed = parseInt(hex, 16);
+  return isNaN(parsed) ? String(hand.hand_index) : String(parsed);
+}
+
+function formatTimestamp(playedAt: string): string {
+  const date = new Date(playedAt);
+  if (isNaN(date.getTime())) return "1970/01/01 00:00:00 UTC";
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return (
+    `${date.getUTCFullYear()}/${pad(date.getUTCMonth() + 1)}/${pad(date.getUTCDate())} ` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} UTC`
+  );
+}
+
+function formatCards(indices: number[]): string {
+  return `[${indices.map(cardIndexToString).join(" ")}]`;
+}
+
+/**
+ * Export a single stored hand as PokerStars hand history text
+ */
+export function exportHandToPokerStars(
+  hand: HandSummary,
+  options: PokerStarsExportOptions = {}
+): string {
+  const decoded = decodeReplayData(hand.replay_data);
+  return formatDecodedHand(hand, decoded, options);
+}
+
+/**
+ * Export several hands (e.g. a whole session) as one text file.
+ * Hands are ordered oldest first and separated by blank lines, as in PokerStars files.
+ */
+export function exportHandsToPokerStars(
+  hands: HandSummary[],
+  options: PokerStarsExportOptions = {}
+): string {
+  const ordered = [...hands].sort(
+    (a, b) =>
+      new Date(a.played_at).getTime() - new Date(b.played_at).getTime() ||
+      a.hand_index - b.hand_index
+  );
+
+  const blocks: string[] = [];
+  for (const hand of ordered) {
+    try {
+      blocks.push(exportHandToPokerStars(hand, options));
+    } catch (error) {
+      console.error(`[PokerStarsExporter] Skipping hand ${hand.id}:`, error);
+    }
+  }
+  return blocks.join("\n\n\n") + "\n";
+}
+
+function formatDecodedHand(
+  hand: HandSummary,
+  decoded: DecodedHand,
+  options: PokerStarsExportOptions
+): string {
+  const { playerNames = {}, heroId } = options;
+  const timeline = buildHandTimeline(hand, decoded);
+  const { seats, buttonIndex, sbIndex, bbIndex, isShowdown } = timeline;
+  // Present seats 1-based even if the server stored them 0-based
+  const seatOffset = seats[0]?.manifestSeat === 0 ? 1 : 0;
+  const seatNumber = (index: number) => seats[index].manifestSeat + seatOffset;
+  const names = seats.map(
+    (s, index) => playerNames[s.playerId] || `Player ${seatNumber(index)}`
+  );
+
+  const variant = resolveHandVariant(hand);
+  const maxSeats =
+    MAX_SEATS_LABEL[variant || ""] || `${Math.max(seats.length, 2)}-max`;
+
+  const lines: string[] = [];
+  lines.push(
+    `PokerStars Hand #${toHandNumber(hand)}:  Hold'em No Limit (${timeline.smallBlind}/${timeline.bigBlind}) - ${formatTimestamp(hand.played_at)}`
+  );
+  lines.push(
+    `Table 'POKROnline ${hand.game_id.slice(0, 8)}' ${maxSeats} (Play Money) Seat #${seats[buttonIndex] ? seatNumber(buttonIndex) : 1} is the button`
+  );
+  seats.forEach((s, index) => {
+    lines.push(`Seat ${seatNumber(index)}: ${names[index]} (${s.startingStack} in chips)`);
+  });
+
+  let holeCardsPrinted = false;
+  const printHoleCards = () => {
+    if (holeCardsPrinted) return;
+    holeCardsPrinted = true;
+    lines.push("*** HOLE CARDS ***");
+    if (heroId) {
+      const heroIndex = seats.findIndex((s) => s.playerId === heroId);
+      const heroCards = decoded.holeCards[heroIndex];
+      if (heroIndex !== -1 && heroCards && heroCards.length > 0) {
+        lines.push(`Dealt to ${names[heroIndex]} ${formatCards(heroCards)}`);
+      }
+    }
+  };
+
+  const winEvents = timeline.events.filter((e) => e.kind === "win");
+  const potCount = Math.max(1, ...winEvents.map((e) => (e.potIndex ?? 0) + 1));
+  const collectLines: string[] = [];
+
+  for (const event of timeline.events) {
+    const name = event.seatIndex >= 0 ? names[event.seatIndex] : "";
+    const allIn = event.allIn ? " and is all-in" : "";
+
+    switch (event.kind) {
+      case "ante":
+        lines.push(`${name}: posts the ante ${event.amount}`);
+        break;
+      case "small_blind":
+        lines.push(`${name}: posts small blind ${event.amount}${allIn}`);
+        break;
+      case "big_blind":
+        lines.push(`${name}: posts big blind ${event.amount}${allIn}`);
+        break;
+      case "fold":
+        printHoleCards();
+        lines.push(`${name}: folds`);
+        break;
+      case "check":
+        printHoleCards();
+        lines.push(`${name}: checks`);
+        break;
+      case "call":
+        printHoleCards();
+        lines.push(`${name}: calls ${event.amount}${allIn}`);
+        break;
+      case "bet":
+        printHoleCards();
+        lines.push(`${name}: bets ${event.total}${allIn}`);
+        break;
+      case "raise":
+        printHoleCards();
+        lines.push(
+          `${name}: raises ${(event.total ?? 0) - event.facingBet} to ${event.total}${allIn}`
+        );
+        break;
+      case "uncalled":
+        printHoleCards();
+        lines.push(`Uncalled bet (${event.amount}) returned to ${name}`);
+        break;
+      case "street": {
+        printHoleCards();
+        if (!event.cards || event.cards.length === 0) break;
+        const boardBefore = decoded.board.slice(0, STREET_BOARD_SIZE[event.street] - event.cards.length);
+        const header = `*** ${STREET_HEADERS[event.street]} ***`;
+        lines.push(
+          boardBefore.length > 0
+            ? `${header} ${formatCards(boardBefore)} ${formatCards(event.cards)}`
+            : `${header} ${formatCards(event.cards)}`
+        );
+        break;
+      }
+      case "win": {
+        const potLabel =
+          potCount === 1
+            ? "pot"
+            : (event.potIndex ?? 0) === 0
+            ? "main pot"
+            : `side pot-${event.potIndex}`;
+        collectLines.push(`${name} collected ${event.amount} from ${potLabel}`);
+        break;
+      }
+    }
+  }
+
+  printHoleCards();
+
+  if (isShowdown) {
+    lines.push("*** SHOW DOWN ***");
+  }
+  // Showdown hands, or voluntary shows after everyone else folded
+  seats.forEach((s, index) => {
+    if (s.shownCards.length > 0) {
+      lines.push(`${names[index]}: shows ${formatCards(s.shownCards)}`);
+    }
+  });
+  lines.push(...collectLines);
+
+  // --- Summary ---
+  lines.push("*** SUMMARY ***");
+  lines.push(`Total pot ${timeline.totalPot} | Rake 0`);
+  const dealtBoard = decoded.board.slice(0, STREET_BOARD_SIZE[timeline.finalStreet]);
+  if (dealtBoard.length > 0) {
+    lines.push(`Board ${formatCards(dealtBoard)}`);
+  }
+
+  seats.forEach((s, index) => {
+    let label = "";
+    if (index === buttonIndex) label = " (button)";
+    else if (index === sbIndex) label = " (small blind)";
+    else if (index === bbIndex) label = " (big blind)";
+
+    let outcome: string;
+    if (s.folded) {
+      const where =
+        s.foldedStreet === "preflop" || s.foldedStreet === null
+          ? "before Flop"
+          : `on the ${s.foldedStreet.charAt(0).toUpperCase()}${s.foldedStreet.slice(1)}`;
+      const didntBet =
+        !s.voluntary && s.foldedStreet === "preflop" && index !== sbIndex && index !== bbIndex;
+      outcome = `folded ${where}${didntBet ? " (didn't bet)" : ""}`;
+    } else if (isShowdown) {
+      const shown = formatCards(s.shownCards);
+      outcome = s.won > 0 ? `showed ${shown} and won (${s.won})` : `showed ${shown} and lost`;
+    } else {
+      outcome = s.won > 0 ? `collected (${s.won})` : "mucked";
+    }
+
+    lines.push(`Seat ${seatNumber(index)}: ${names[index]}${label} ${outcome}`);
+  });
+
+  return lines.join("\n");
+}
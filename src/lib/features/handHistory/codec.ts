@@ -0,0 +1,109 @@
+/**
+ * Hand History Codec Helpers
+ *
+ * Thin wrappers around the shared-backend PokerCodec so that exporters,
+ * importers and stats tools decode stored hands the same way.
+ */
+
+// @ts-ignore - Importing from shared backend
+import { PokerCodec, indexToCard } from "@backend/domain/handHistory/PokerCodec";
+import type { DecodedHand, HandSummary, HandVariant } from "@/lib/types/handHistory";
+import { cardsToHandClass } from "@/lib/features/ranges/handClasses";
+
+const VALID_VARIANTS: HandVariant[] = ["six_max", "heads_up", "full_ring"];
+
+/**
+ * Decode a PokerCodec hex string into its structured form.
+ * Missing sections are normalized to empty arrays.
+ */
+export function decodeReplayData(replayData: string): DecodedHand {
+  const buffer = PokerCodec.fromHex(replayData);
+  const decoded = PokerCodec.decode(buffer) as Partial<DecodedHand>;
+  return {
+    startingStacks: decoded.startingStacks || [],
+    actions: decoded.actions || [],
+    board: decoded.board || [],
+    holeCards: decoded.holeCards || [],
+  };
+}
+
+/**
+ * Encode a hand into the PokerCodec hex format stored in `replay_data`
+ */
+export function encodeReplayData(hand: DecodedHand): string {
+  return PokerCodec.toHex(PokerCodec.encode(hand));
+}
+
+/**
+ * Convert a codec card index to display notation (e.g. "Ah")
+ */
+export function cardIndexToString(index: number): string {
+  try {
+    return indexToCard(index);
+  } catch {
+    return "??";
+  }
+}
+
+let cardIndexLookup: Map<string, number> | null = null;
+
+/**
+ * Convert a card string (e.g. "Ah") to its codec index.
+ * The lookup is built from the codec's own decoder so the mapping always matches.
+ */
+export function cardStringToIndex(card: string): number {
+  if (!cardIndexLookup) {
+    cardIndexLookup = new Map();
+    for (let i = 0; i < 52; i++) {
+      cardIndexLookup.set(indexToCard(i), i);
+    }
+  }
+  const normalized = card[0].toUpperCase() + card[1].toLowerCase();
+  const index = cardIndexLookup.get(normalized);
+  if (index === undefined) {
+    throw new Error(`Unknown card: ${card}`);
+  }
+  return index;
+}
+
+/**
+ * Starting hand class for a pair of hole cards (e.g. "AKs", "T9o", "77"),
+ * matching the RangeGrid labels. Returns null for unknown cards.
+ */
+export function getHandClass(cards: number[]): string | null {
+  if (cards.length !== 2) return null;
+  return cardsToHandClass(cards.map(cardIndexToString));
+}
+
+/**
+ * Manifest seat keys sorted ascending.
+ * Codec `seatIndex` values index into this list.
+ */
+export function getManifestSeats(manifest: Record<string, string>): number[] {
+  return Object.keys(manifest)
+    .map((k) => parseInt(k, 10))
+    .filter((n) => !isNaN(n))
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Resolve the table variant from hand config, falling back to player count
+ */
+export function resolveHandVariant(hand: Pick<HandSummary, "config" | "player_manifest">): HandVariant | null {
+  const configured = hand.config?.gameType as HandVariant | undefined;
+  if (configured && VALID_VARIANTS.includes(configured)) {
+    return configured;
+  }
+
+  return variantFromPlayerCount(Object.keys(hand.player_manifest || {}).length);
+}
+
+/**
+ * Infer the table variant from the number of dealt-in players
+ */
+export function variantFromPlayerCount(playerCount: number): HandVariant | null {
+  if (playerCount === 2) return "heads_up";
+  if (playerCount > 2 && playerCount <= 6) return "six_max";
+  if (playerCount > 6 && playerCount <= 9) return "full_ring";
+  return null;
+}
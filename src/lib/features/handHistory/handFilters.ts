@@ -0,0 +1,162 @@
+/**
+ * Hand History Filters
+ *
+ * Filters for the hand history browser. Date, game and pot filters run in
+ * the database query; anything that needs the decoded hand (hero position,
+ * hole cards, result) runs on the client against `getHandFacts`.
+ */
+
+import type { HandSummary, HandVariant } from "@/lib/types/handHistory";
+import type { PokerPosition } from "@/lib/types/preflopStats";
+import { RANK_ORDER } from "@/lib/features/ranges/handClasses";
+import { cardIndexToString, decodeReplayData, getHandClass, resolveHandVariant } from "./codec";
+import { buildHandTimeline } from "./handTimeline";
+import { getSeatPosition } from "./positions";
+
+export type HandResultFilter = "won" | "lost" | "showdown";
+
+export const HAND_POSITIONS: PokerPosition[] = [
+  "UTG",
+  "UTG+1",
+  "UTG+2",
+  "MP",
+  "LJ",
+  "HJ",
+  "CO",
+  "BTN",
+  "SB",
+  "BB",
+];
+
+export interface HandHistoryFilters {
+  /** Local dates ("2024-05-01"), inclusive */
+  from?: string;
+  to?: string;
+  /** Full game id, or the first characters of one */
+  gameId?: string;
+  variant?: HandVariant;
+  minPot?: number;
+  maxPot?: number;
+  position?: PokerPosition;
+  /**
+   * Comma-separated hero holdings: exact cards ("AhKd"), hand classes
+   * ("AKs", "TT") or both suitedness variants ("AK")
+   */
+  holeCards?: string;
+  /** Hands matching any of these */
+  results?: HandResultFilter[];
+}
+
+/** What the client-side filters need to know about the hero's hand */
+export interface HandFacts {
+  heroCards: string[];
+  handClass: string | null;
+  position: PokerPosition | null;
+  /** Chips won minus chips put in */
+  net: number;
+  showdown: boolean;
+}
+
+const FULL_GAME_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Only a full game id can be matched by the database; prefixes are matched here */
+export function isFullGameId(gameId: string): boolean {
+  return FULL_GAME_ID.test(gameId.trim());
+}
+
+/**
+ * Decode a hand and pull out the hero's cards, position and result.
+ * Returns null when the hero didn't play the hand or it can't be decoded.
+ */
+export function getHandFacts(hand: HandSummary, userId: string): HandFacts | null {
+  try {
+    const decoded = decodeReplayData(hand.replay_data);
+    const timeline = buildHandTimeline(hand, decoded);
+    const heroIndex = timeline.seats.findIndex((seat) => seat.playerId === userId);
+    if (heroIndex === -1) return null;
+
+    const seat = timeline.seats[heroIndex];
+    const cards = decoded.holeCards[heroIndex] ?? [];
+    return {
+      heroCards: cards.map(cardIndexToString),
+      handClass: getHandClass(cards),
+      position: getSeatPosition(heroIndex, timeline.buttonIndex, timeline.seats.length),
+      net: seat.net,
+      showdown: seat.wentToShowdown,
+    };
+  } catch {
+    return null;
+  }
+}
+
+const normalizeCard = (card: string) => card[0].toUpperCase() + card[1].toLowerCase();
+const byRank = (a: string, b: string) => RANK_ORDER.indexOf(a) - RANK_ORDER.indexOf(b);
+
+/** Does one hole-cards token ("AhKd", "AKs", "AK", "TT") match the hero's hand? */
+function matchesHoldingToken(token: string, facts: HandFacts): boolean {
+  if (/^[2-9TJQKA][shdc][2-9TJQKA][shdc]$/i.test(token)) {
+    const wanted = [normalizeCard(token.slice(0, 2)), normalizeCard(token.slice(2, 4))].sort();
+    const held = facts.heroCards.map(normalizeCard).sort();
+    return held.length === 2 && held[0] === wanted[0] && held[1] === wanted[1];
+  }
+
+  const match = /^([2-9TJQKA])([2-9TJQKA])([so])?$/i.exec(token);
+  if (!match || !facts.handClass) return false;
+  const ranks = [match[1].toUpperCase(), match[2].toUpperCase()].sort(byRank).join("");
+  const suffix = match[3]?.toLowerCase() ?? "";
+  return suffix ? facts.handClass === ranks + suffix : facts.handClass.startsWith(ranks);
+}
+
+export function matchesHoleCards(holeCards: string, facts: HandFacts): boolean {
+  const tokens = holeCards
+    .split(/[\s,]+/)
+    .map((token) => token.trim())
+    .filter(Boolean);
+  return tokens.length === 0 || tokens.some((token) => matchesHoldingToken(token, facts));
+}
+
+/** True when some filter needs the decoded hand */
+export function needsHandFacts(filters: HandHistoryFilters): boolean {
+  return !!filters.position || !!filters.holeCards?.trim() || (filters.results?.length ?? 0) > 0;
+}
+
+/**
+ * The client-side part of the filters. Database filters are checked again
+ * too, so local bot hands can go through the same function.
+ */
+export function matchesHandFilters(
+  hand: HandSummary,
+  filters: HandHistoryFilters,
+  userId: string
+): boolean {
+  const playedAt = new Date(hand.played_at).getTime();
+  if (filters.from && playedAt < new Date(`${filters.from}T00:00:00`).getTime()) return false;
+  if (filters.to && playedAt >= getDayAfter(filters.to).getTime()) return false;
+  if (filters.gameId?.trim() && !hand.game_id.toLowerCase().startsWith(filters.gameId.trim().toLowerCase())) {
+    return false;
+  }
+  if (filters.minPot !== undefined && hand.final_pot < filters.minPot) return false;
+  if (filters.maxPot !== undefined && hand.final_pot > filters.maxPot) return false;
+  if (filters.variant && resolveHandVariant(hand) !== filters.variant) return false;
+
+  if (!needsHandFacts(filters)) return true;
+  const facts = getHandFacts(hand, userId);
+  if (!facts) return false;
+
+  if (filters.position && facts.position !== filters.position) return false;
+  if (filters.holeCards && !matchesHoleCards(filters.holeCards, facts)) return false;
+  if (filters.results && filters.results.length > 0) {
+    const matchesResult = filters.results.some((result) =>
+      result === "won" ? facts.net > 0 : result === "lost" ? facts.net < 0 : facts.showdown
+    );
+    if (!matchesResult) return false;
+  }
+  return true;
+}
+
+/** Midnight at the start of the day after a local date, for inclusive "to" dates */
+export function getDayAfter(date: string): Date {
+  const day = new Date(`${date}T00:00:00`);
+  day.setDate(day.getDate() + 1);
+  return day;
+}
@@ -0,0 +1,41 @@
+/**
+ * Hand Tags
+ *
+ * Free-form labels users put on hands for review ("bluff-catch", "cooler").
+ * Tags are stored lower-case with dashes so the same idea is one tag.
+ */
+
+import type { HandReview } from "@/lib/types/handReviews";
+
+export const MAX_HAND_TAGS = 10;
+const MAX_TAG_LENGTH = 32;
+
+/** "Bluff Catch " -> "bluff-catch"; empty when nothing usable is left */
+export function normalizeHandTag(tag: string): string {
+  return tag
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, "-")
+    .replace(/[^a-z0-9-]/g, "")
+    .replace(/-+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+/** Add a tag to a list, keeping it unique and under the limit */
+export function addHandTag(tags: string[], tag: string): string[] {
+  const normalized = normalizeHandTag(tag);
+  if (!normalized || tags.includes(normalized) || tags.length >= MAX_HAND_TAGS) return tags;
+  return [...tags, normalized];
+}
+
+/** Every tag in use, most used first */
+export function getTagCounts(reviews: HandReview[]): { tag: string; count: number }[] {
+  const counts = new Map<string, number>();
+  reviews.forEach((review) =>
+    review.tags.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1))
+  );
+  return Array.from(counts, ([tag, count]) => ({ tag, count })).sort(
+    (a, b) => b.count - a.count || a.tag.localeCompare(b.tag)
+  );
+}
@@ -0,0 +1,340 @@
+/**
+ * Hand Timeline
+ *
+ * Walks decoded PokerCodec actions and normalizes them into street-aware
+ * betting events with per-seat chip accounting, so every tool that reads
+ * stored hands agrees on who put in what, and when.
+ *
+ * BET_OR_RAISE amounts are "raise to" totals for the street (the same value the
+ * engine receives); CALL amounts are derived from the table state.
+ */
+
+// @ts-ignore - Importing from shared backend
+import { ActionType } from "@backend/domain/handHistory/PokerCodec";
+import type { DecodedHand, HandSummary } from "@/lib/types/handHistory";
+import { getManifestSeats, resolveHandVariant } from "./codec";
+
+export type Street = "preflop" | "flop" | "turn" | "river";
+
+export const STREETS: Street[] = ["preflop", "flop", "turn", "river"];
+
+/** Board size once each street has been dealt */
+export const STREET_BOARD_SIZE: Record<Street, number> = {
+  preflop: 0,
+  flop: 3,
+  turn: 4,
+  river: 5,
+};
+
+export type HandEventKind =
+  | "ante"
+  | "small_blind"
+  | "big_blind"
+  | "fold"
+  | "check"
+  | "call"
+  | "bet"
+  | "raise"
+  | "uncalled"
+  | "street"
+  | "win";
+
+export interface HandEvent {
+  kind: HandEventKind;
+  /** Manifest index of the acting seat (-1 for street markers) */
+  seatIndex: number;
+  street: Street;
+  /** Index into decoded.actions that produced this event (-1 if synthesized) */
+  actionIndex: number;
+  /** Chips moved by this event (put in, returned or collected) */
+  amount: number;
+  /** Street total after a bet/raise ("raises X to total") */
+  total?: number;
+  /** Highest street bet the actor was facing before acting */
+  facingBet: number;
+  allIn: boolean;
+  /** Street markers: cards added by this street */
+  cards?: number[];
+  potIndex?: number;
+}
+
+export interface TimelineSeat {
+  playerId: string;
+  manifestSeat: number;
+  startingStack: number;
+  stack: number;
+  invested: number;
+  won: number;
+  net: number;
+  folded: boolean;
+  foldedStreet: Street | null;
+  /** Put chips in voluntarily (calls/bets/raises, not blinds) */
+  voluntary: boolean;
+  sawFlop: boolean;
+  wentToShowdown: boolean;
+  /** Hole cards shown at showdown or voluntarily */
+  shownCards: number[];
+}
+
+export interface HandTimeline {
+  events: HandEvent[];
+  seats: TimelineSeat[];
+  buttonIndex: number;
+  sbIndex?: number;
+  bbIndex?: number;
+  smallBlind: number;
+  bigBlind: number;
+  /** Last street that was dealt */
+  finalStreet: Street;
+  isShowdown: boolean;
+  totalPot: number;
+}
+
+/**
+ * Build a normalized timeline from a stored hand and its decoded replay data
+ */
+export function buildHandTimeline(
+  hand: Pick<HandSummary, "player_manifest" | "config" | "winner_id" | "final_pot">,
+  decoded: DecodedHand
+): HandTimeline {
+  const manifestSeats = getManifestSeats(hand.player_manifest);
+  const seats: TimelineSeat[] = manifestSeats.map((manifestSeat, index) => {
+    const startingStack = decoded.startingStacks[index] ?? 0;
+    return {
+      playerId: hand.player_manifest[String(manifestSeat)],
+      manifestSeat,
+      startingStack,
+      stack: startingStack,
+      invested: 0,
+      won: 0,
+      net: 0,
+      folded: false,
+      foldedStreet: null,
+      voluntary: false,
+      sawFlop: false,
+      wentToShowdown: false,
+      shownCards: [],
+    };
+  });
+
+  const actions = decoded.actions;
+  const sbAction = actions.find((a) => a.type === ActionType.POST_SMALL_BLIND);
+  const bbAction = actions.find((a) => a.type === ActionType.POST_BIG_BLIND);
+  const sbIndex = sbAction?.seatIndex;
+  const bbIndex = bbAction?.seatIndex;
+  const variant = resolveHandVariant(hand);
+
+  // Heads-up: SB is the button. Ring games: button sits directly before the SB.
+  let buttonIndex = 0;
+  if (sbIndex !== undefined) {
+    buttonIndex =
+      variant === "heads_up" || seats.length === 2
+        ? sbIndex
+        : (sbIndex - 1 + seats.length) % seats.length;
+  }
+
+  const smallBlind = hand.config?.sb ?? sbAction?.amount ?? 1;
+  const bigBlind = hand.config?.bb ?? bbAction?.amount ?? 2;
+
+  const events: HandEvent[] = [];
+  const committed = seats.map(() => 0);
+  const voluntaryShows = seats.map(() => new Set<number>());
+  let streetIndex = 0;
+  let highestBet = 0;
+
+  const street = () => STREETS[streetIndex];
+
+  const put = (index: number, amount: number) => {
+    const seat = seats[index];
+    const chips = Math.max(0, Math.min(amount, seat.stack));
+    seat.stack -= chips;
+    seat.invested += chips;
+    committed[index] += chips;
+    return chips;
+  };
+
+  const push = (
+    kind: HandEventKind,
+    seatIndex: number,
+    actionIndex: number,
+    amount: number,
+    extra: Partial<HandEvent> = {}
+  ) => {
+    events.push({
+      kind,
+      seatIndex,
+      street: street(),
+      actionIndex,
+      amount,
+      facingBet: highestBet,
+      allIn: seatIndex >= 0 ? seats[seatIndex].stack === 0 && amount > 0 : false,
+      ...extra,
+    });
+  };
+
+  // Return the unmatched part of the top bet at the end of a betting round
+  const closeStreet = () => {
+    const order = committed
+      .map((value, index) => ({ value, index }))
+      .sort((a, b) => b.value - a.value);
+    const [top, second] = order;
+    if (top && top.value > (second?.value ?? 0)) {
+      const returned = top.value - (second?.value ?? 0);
+      seats[top.index].stack += returned;
+      seats[top.index].invested -= returned;
+      push("uncalled", top.index, -1, returned);
+    }
+    committed.fill(0);
+    highestBet = 0;
+  };
+
+  const dealStreet = () => {
+    if (streetIndex >= 3) return;
+    const before = STREET_BOARD_SIZE[street()];
+    streetIndex++;
+    const cards = decoded.board.slice(before, STREET_BOARD_SIZE[street()]);
+    if (street() === "flop") {
+      seats.forEach((s) => {
+        if (!s.folded) s.sawFlop = true;
+      });
+    }
+    push("street", -1, -1, 0, { cards });
+  };
+
+  actions.forEach((action, actionIndex) => {
+    const i = action.seatIndex;
+    const seat = seats[i];
+
+    switch (action.type) {
+      case ActionType.POST_ANTE: {
+        if (!seat) break;
+        const posted = put(i, action.amount ?? 0);
+        // Antes are dead money and do not count towards the street bet
+        committed[i] -= posted;
+        push("ante", i, actionIndex, posted);
+        break;
+      }
+
+      case ActionType.POST_SMALL_BLIND:
+      case ActionType.POST_BIG_BLIND: {
+        if (!seat) break;
+        const isSmall = action.type === ActionType.POST_SMALL_BLIND;
+        const posted = put(i, action.amount ?? (isSmall ? smallBlind : bigBlind));
+        push(isSmall ? "small_blind" : "big_blind", i, actionIndex, posted);
+        highestBet = Math.max(highestBet, committed[i]);
+        break;
+      }
+
+      case ActionType.FOLD:
+        if (!seat) break;
+        seat.folded = true;
+        seat.foldedStreet = street();
+        push("fold", i, actionIndex, 0);
+        break;
+
+      case ActionType.CHECK:
+        if (!seat) break;
+        push("check", i, actionIndex, 0);
+        break;
+
+      case ActionType.CALL: {
+        if (!seat) break;
+        const facing = highestBet;
+        const called = put(i, facing - committed[i]);
+        seat.voluntary = true;
+        push("call", i, actionIndex, called, { facingBet: facing });
+        break;
+      }
+
+      case ActionType.BET_OR_RAISE: {
+        if (!seat) break;
+        const facing = highestBet;
+        const target = Math.min(action.amount ?? 0, committed[i] + seat.stack);
+        seat.voluntary = true;
+        if (target <= facing) {
+          // All-in for less than (or equal to) the current bet is a call
+          const called = put(i, target - committed[i]);
+          push("call", i, actionIndex, called, { facingBet: facing });
+          break;
+        }
+        const added = put(i, target - committed[i]);
+        highestBet = committed[i];
+        push(facing === 0 ? "bet" : "raise", i, actionIndex, added, {
+          facingBet: facing,
+          total: committed[i],
+        });
+        break;
+      }
+
+      case ActionType.SHOW_CARDS:
+        if (!seat) break;
+        (action.cards || []).forEach((c) => voluntaryShows[i].add(c));
+        break;
+
+      case ActionType.NEXT_STREET:
+        closeStreet();
+        dealStreet();
+        break;
+
+      case ActionType.WIN_POT: {
+        if (!seat) break;
+        const amount = action.amount ?? 0;
+        seat.won += amount;
+        push("win", i, actionIndex, amount, { potIndex: action.potIndex ?? 0 });
+        break;
+      }
+    }
+  });
+
+  if (committed.some((c) => c > 0)) {
+    closeStreet();
+  }
+
+  const remaining = seats.filter((s) => !s.folded);
+  const isShowdown = remaining.length > 1;
+
+  // All-in runouts may not record NEXT_STREET markers; deal what is left on the board
+  if (isShowdown) {
+    while (streetIndex < 3 && decoded.board.length >= STREET_BOARD_SIZE[STREETS[streetIndex + 1]]) {
+      dealStreet();
+    }
+  }
+
+  // Fall back to the stored winner when the codec has no WIN_POT entries
+  if (!events.some((e) => e.kind === "win") && hand.winner_id) {
+    const winnerIndex = seats.findIndex((s) => s.playerId === hand.winner_id);
+    if (winnerIndex !== -1) {
+      const pot = hand.final_pot || seats.reduce((sum, s) => sum + s.invested, 0);
+      seats[winnerIndex].won = pot;
+      push("win", winnerIndex, -1, pot, { potIndex: 0 });
+    }
+  }
+
+  seats.forEach((s, index) => {
+    if (isShowdown && !s.folded) {
+      s.wentToShowdown = true;
+      s.shownCards = decoded.holeCards[index] || [];
+    } else {
+      s.shownCards = Array.from(voluntaryShows[index]);
+    }
+    s.net = s.won - s.invested;
+  });
+
+  const totalPot =
+    seats.reduce((sum, s) => sum + s.won, 0) ||
+    hand.final_pot ||
+    seats.reduce((sum, s) => sum + s.invested, 0);
+
+  return {
+    events,
+    seats,
+    buttonIndex,
+    sbIndex,
+    bbIndex,
+    smallBlind,
+    bigBlind,
+    finalStreet: STREETS[streetIndex],
+    isShowdown,
+    totalPot,
+  };
+}
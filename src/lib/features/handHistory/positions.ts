@@ -0,0 +1,34 @@
+/**
+ * Table Positions
+ *
+ * Maps manifest seat indices to position labels relative to the button,
+ * using the same labels as the preflop stats RPC.
+ */
+
+import type { PokerPosition } from "@/lib/types/preflopStats";
+
+/** Positions in seating order starting at the button, by player count */
+const POSITIONS_BY_PLAYER_COUNT: Record<number, PokerPosition[]> = {
+  2: ["BTN", "BB"],
+  3: ["BTN", "SB", "BB"],
+  4: ["BTN", "SB", "BB", "UTG"],
+  5: ["BTN", "SB", "BB", "UTG", "CO"],
+  6: ["BTN", "SB", "BB", "UTG", "HJ", "CO"],
+  7: ["BTN", "SB", "BB", "UTG", "LJ", "HJ", "CO"],
+  8: ["BTN", "SB", "BB", "UTG", "UTG+1", "LJ", "HJ", "CO"],
+  9: ["BTN", "SB", "BB", "UTG", "UTG+1", "MP", "LJ", "HJ", "CO"],
+  10: ["BTN", "SB", "BB", "UTG", "UTG+1", "UTG+2", "MP", "LJ", "HJ", "CO"],
+};
+
+/**
+ * Position of a seat given the button seat index (both index into the sorted manifest)
+ */
+export function getSeatPosition(
+  seatIndex: number,
+  buttonIndex: number,
+  playerCount: number
+): PokerPosition | null {
+  const positions = POSITIONS_BY_PLAYER_COUNT[playerCount];
+  if (!positions || seatIndex < 0 || seatIndex >= playerCount) return null;
+  return positions[(seatIndex - buttonIndex + playerCount) % playerCount];
+}
@@ -0,0 +1,346 @@
+/**
+ * Postflop Stats
+ *
+ * HUD-style postflop stats (aggression, showdown, c-bet defence, check-raise,
+ * donk bets) computed client-side from decoded hand histories, grouped by
+ * starting hand so they can be shown on the RangeGrid next to preflop stats.
+ */
+
+import type { HandSummary } from "@/lib/types/handHistory";
+import type {
+  PostflopHandStats,
+  PostflopStatType,
+  PostflopStreet,
+  PreflopStatsFilters,
+  StatType,
+  StreetAggression,
+} from "@/lib/types/preflopStats";
+import { getPlayerCountRange } from "@/lib/api/supabase/preflopStats";
+import { decodeReplayData, getHandClass } from "./codec";
+import { buildHandTimeline, type HandEvent, type Street } from "./handTimeline";
+import { getSeatPosition } from "./positions";
+
+export const POSTFLOP_STREETS: PostflopStreet[] = ["flop", "turn", "river"];
+
+const POSTFLOP_STAT_TYPES: PostflopStatType[] = [
+  "afq",
+  "wtsd",
+  "wsd",
+  "fold_to_cbet",
+  "check_raise",
+  "donk_bet",
+];
+
+const PLAYER_ACTIONS = new Set(["fold", "check", "call", "bet", "raise"]);
+
+export function isPostflopStatType(statType: StatType): statType is PostflopStatType {
+  return (POSTFLOP_STAT_TYPES as StatType[]).includes(statType);
+}
+
+function emptyAggression(): StreetAggression {
+  return { bets: 0, raises: 0, calls: 0, checks: 0, folds: 0 };
+}
+
+function emptyStats(holeCards: string): PostflopHandStats {
+  return {
+    holeCards,
+    totalHands: 0,
+    sawFlopCount: 0,
+    showdownCount: 0,
+    wonAtShowdownCount: 0,
+    aggression: {
+      flop: emptyAggression(),
+      turn: emptyAggression(),
+      river: emptyAggression(),
+    },
+    facedCbetCount: 0,
+    foldToCbetCount: 0,
+    canCheckRaiseCount: 0,
+    checkRaiseCount: 0,
+    canDonkBetCount: 0,
+    donkBetCount: 0,
+  };
+}
+
+/** Seat that made the last bet or raise on a street, if any */
+function lastAggressor(actions: HandEvent[]): number | undefined {
+  for (let i = actions.length - 1; i >= 0; i--) {
+    if (actions[i].kind === "bet" || actions[i].kind === "raise") {
+      return actions[i].seatIndex;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Tally one hand's postflop stats for the hero into `stats`
+ */
+function accumulateHand(
+  stats: PostflopHandStats,
+  heroIndex: number,
+  streetActions: Record<Street, HandEvent[]>,
+  hero: { sawFlop: boolean; wentToShowdown: boolean; won: number }
+) {
+  stats.totalHands++;
+  if (hero.sawFlop) stats.sawFlopCount++;
+  if (hero.wentToShowdown) {
+    stats.showdownCount++;
+    if (hero.won > 0) stats.wonAtShowdownCount++;
+  }
+
+  let previousAggressor = lastAggressor(streetActions.preflop);
+
+  for (const street of POSTFLOP_STREETS) {
+    const actions = streetActions[street];
+    const heroActions = actions.filter((a) => a.seatIndex === heroIndex);
+    const aggression = stats.aggression[street];
+
+    for (const action of heroActions) {
+      if (action.kind === "bet") aggression.bets++;
+      else if (action.kind === "raise") aggression.raises++;
+      else if (action.kind === "call") aggression.calls++;
+      else if (action.kind === "check") aggression.checks++;
+      else if (action.kind === "fold") aggression.folds++;
+    }
+
+    if (heroActions.length > 0) {
+      const firstHeroPos = actions.indexOf(heroActions[0]);
+      const firstBetPos = actions.findIndex((a) => a.kind === "bet");
+
+      // Fold to flop c-bet: preflop raiser leads and the hero acts before any raise
+      if (
+        street === "flop" &&
+        firstBetPos !== -1 &&
+        previousAggressor !== undefined &&
+        previousAggressor !== heroIndex &&
+        actions[firstBetPos].seatIndex === previousAggressor
+      ) {
+        const response = actions.find(
+          (a, pos) => pos > firstBetPos && a.seatIndex === heroIndex
+        );
+        const raisedBefore = actions.some(
+          (a, pos) =>
+            pos > firstBetPos &&
+            a.kind === "raise" &&
+            (!response || pos < actions.indexOf(response))
+        );
+        if (response && !raisedBefore) {
+          stats.facedCbetCount++;
+          if (response.kind === "fold") stats.foldToCbetCount++;
+        }
+      }
+
+      // Check-raise: hero checked and got to act again after a bet
+      const checkPos = actions.findIndex(
+        (a) => a.seatIndex === heroIndex && a.kind === "check"
+      );
+      if (checkPos !== -1) {
+        const nextHeroAction = actions.find(
+          (a, pos) => pos > checkPos && a.seatIndex === heroIndex
+        );
+        if (nextHeroAction) {
+          stats.canCheckRaiseCount++;
+          if (nextHeroAction.kind === "raise") stats.checkRaiseCount++;
+        }
+      }
+
+      // Donk bet: first to act into the previous street's aggressor
+      if (previousAggressor !== undefined && previousAggressor !== heroIndex) {
+        const aggressorPos = actions.findIndex((a) => a.seatIndex === previousAggressor);
+        const unopened = firstBetPos === -1 || firstBetPos >= firstHeroPos;
+        if (unopened && aggressorPos > firstHeroPos) {
+          stats.canDonkBetCount++;
+          if (heroActions[0].kind === "bet") stats.donkBetCount++;
+        }
+      }
+    }
+
+    previousAggressor = lastAggressor(actions);
+  }
+}
+
+export interface PostflopStatsRequest {
+  hands: HandSummary[];
+  playerId: string;
+  filters: Pick<PreflopStatsFilters, "playerCount" | "position">;
+}
+
+export interface PostflopStatsResult {
+  /** Share of hands read (0-1) */
+  progress: number;
+  done: boolean;
+  /** Stats per starting hand, once every hand has been read */
+  stats?: PostflopHandStats[];
+}
+
+/**
+ * Compute postflop stats for a player, grouped by starting hand, one hand
+ * per step so thousands of hands can be read in a worker or in time slices.
+ * Hands outside the position / player count filters are skipped.
+ */
+export function* runPostflopStats(
+  request: PostflopStatsRequest
+): Generator<PostflopStatsResult, PostflopStatsResult> {
+  const { hands, playerId, filters } = request;
+  const { min, max } = getPlayerCountRange(filters.playerCount);
+  const byHand = new Map<string, PostflopHandStats>();
+
+  for (let i = 0; i < hands.length; i++) {
+    const hand = hands[i];
+    yield { progress: i / hands.length, done: false };
+
+    try {
+      const decoded = decodeReplayData(hand.replay_data);
+      const timeline = buildHandTimeline(hand, decoded);
+      const heroIndex = timeline.seats.findIndex((s) => s.playerId === playerId);
+      if (heroIndex === -1) continue;
+
+      const playerCount = timeline.seats.length;
+      if ((min !== null && playerCount < min) || (max !== null && playerCount > max)) {
+        continue;
+      }
+
+      if (
+        filters.position !== "all" &&
+        getSeatPosition(heroIndex, timeline.buttonIndex, playerCount) !== filters.position
+      ) {
+        continue;
+      }
+
+      const holeCards = getHandClass(decoded.holeCards[heroIndex] || []);
+      if (!holeCards) continue;
+
+      const streetActions: Record<Street, HandEvent[]> = {
+        preflop: [],
+        flop: [],
+        turn: [],
+        river: [],
+      };
+      timeline.events.forEach((e) => {
+        if (PLAYER_ACTIONS.has(e.kind)) streetActions[e.street].push(e);
+      });
+
+      let stats = byHand.get(holeCards);
+      if (!stats) {
+        stats = emptyStats(holeCards);
+        byHand.set(holeCards, stats);
+      }
+      accumulateHand(stats, heroIndex, streetActions, timeline.seats[heroIndex]);
+    } catch (error) {
+      console.error(`[PostflopStats] Skipping hand ${hand.id}:`, error);
+    }
+  }
+
+  return { progress: 1, done: true, stats: Array.from(byHand.values()) };
+}
+
+/**
+ * Sum per-hand stats into a single row (e.g. for an "all hands" summary)
+ */
+export function combinePostflopStats(
+  stats: PostflopHandStats[],
+  holeCards = "All Hands"
+): PostflopHandStats {
+  const total = emptyStats(holeCards);
+
+  for (const s of stats) {
+    total.totalHands += s.totalHands;
+    total.sawFlopCount += s.sawFlopCount;
+    total.showdownCount += s.showdownCount;
+    total.wonAtShowdownCount += s.wonAtShowdownCount;
+    total.facedCbetCount += s.facedCbetCount;
+    total.foldToCbetCount += s.foldToCbetCount;
+    total.canCheckRaiseCount += s.canCheckRaiseCount;
+    total.checkRaiseCount += s.checkRaiseCount;
+    total.canDonkBetCount += s.canDonkBetCount;
+    total.donkBetCount += s.donkBetCount;
+    for (const street of POSTFLOP_STREETS) {
+      const from = s.aggression[street];
+      const to = total.aggression[street];
+      to.bets += from.bets;
+      to.raises += from.raises;
+      to.calls += from.calls;
+      to.checks += from.checks;
+      to.folds += from.folds;
+    }
+  }
+
+  return total;
+}
+
+function totalAggression(stats: PostflopHandStats, street?: PostflopStreet): StreetAggression {
+  const streets = street ? [street] : POSTFLOP_STREETS;
+  return streets.reduce((sum, s) => {
+    const a = stats.aggression[s];
+    return {
+      bets: sum.bets + a.bets,
+      raises: sum.raises + a.raises,
+      calls: sum.calls + a.calls,
+      checks: sum.checks + a.checks,
+      folds: sum.folds + a.folds,
+    };
+  }, emptyAggression());
+}
+
+/**
+ * Aggression factor: (bets + raises) / calls. Null when there are no calls to divide by.
+ */
+export function getAggressionFactor(
+  stats: PostflopHandStats,
+  street?: PostflopStreet
+): number | null {
+  const a = totalAggression(stats, street);
+  if (a.calls === 0) return a.bets + a.raises > 0 ? null : 0;
+  return (a.bets + a.raises) / a.calls;
+}
+
+/**
+ * Aggression frequency: share of postflop actions that were bets or raises
+ */
+export function getAggressionFrequency(stats: PostflopHandStats, street?: PostflopStreet): number {
+  const a = totalAggression(stats, street);
+  const actions = a.bets + a.raises + a.calls + a.checks + a.folds;
+  return actions > 0 ? ((a.bets + a.raises) / actions) * 100 : 0;
+}
+
+export function getPostflopStatPercentage(
+  stats: PostflopHandStats,
+  statType: PostflopStatType
+): number {
+  switch (statType) {
+    case "afq":
+      return getAggressionFrequency(stats);
+    case "wtsd":
+      return stats.sawFlopCount > 0 ? (stats.showdownCount / stats.sawFlopCount) * 100 : 0;
+    case "wsd":
+      return stats.showdownCount > 0
+        ? (stats.wonAtShowdownCount / stats.showdownCount) * 100
+        : 0;
+    case "fold_to_cbet":
+      return stats.facedCbetCount > 0 ? (stats.foldToCbetCount / stats.facedCbetCount) * 100 : 0;
+    case "check_raise":
+      return stats.canCheckRaiseCount > 0
+        ? (stats.checkRaiseCount / stats.canCheckRaiseCount) * 100
+        : 0;
+    case "donk_bet":
+      return stats.canDonkBetCount > 0 ? (stats.donkBetCount / stats.canDonkBetCount) * 100 : 0;
+    default:
+      return 0;
+  }
+}
+
+export function buildPostflopGridData(
+  stats: PostflopHandStats[],
+  statType: PostflopStatType
+): Map<string, { percentage: number; sampleSize: number }> {
+  const gridData = new Map<string, { percentage: number; sampleSize: number }>();
+
+  for (const stat of stats) {
+    gridData.set(stat.holeCards, {
+      percentage: getPostflopStatPercentage(stat, statType),
+      sampleSize: stat.totalHands,
+    });
+  }
+
+  return gridData;
+}
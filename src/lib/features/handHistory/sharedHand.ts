@@ -0,0 +1,151 @@
+/**
+ * Shared Hands
+ *
+ * Builds the public snapshot stored behind a hand's share link. Only the
+ * sharer's hole cards and cards shown down are kept; every other player's
+ * cards are replaced with random unused cards (the replay engine still needs
+ * two per seat) so they can't be read out of the replay data.
+ */
+
+import type { HandSummary } from "@/lib/types/handHistory";
+import type { SharedHand, SharedHandLookupRow, SharedHandSnapshot } from "@/lib/types/sharedHands";
+import { cardIndexToString, decodeReplayData, encodeReplayData, getManifestSeats } from "./codec";
+import { buildHandTimeline } from "./handTimeline";
+
+export const SHARED_HAND_COLUMNS = "token, owner_id, hand_id, anonymized, snapshot, created_at";
+
+/** Pseudonymous id of the sharer in every snapshot */
+export const SHARED_HERO_ID = "hero";
+
+/** Stands in for the hand and game ids, which stay private */
+export const SHARED_HAND_PLACEHOLDER_ID = "shared";
+
+export function transformSharedHandRow(row: SharedHandLookupRow): SharedHand {
+  return {
+    token: row.token,
+    anonymized: !!row.anonymized,
+    snapshot: {
+      ...row.snapshot,
+      // Links created before the ids were left out of snapshots still carry them
+      hand: {
+        ...row.snapshot.hand,
+        id: SHARED_HAND_PLACEHOLDER_ID,
+        game_id: SHARED_HAND_PLACEHOLDER_ID,
+      },
+    },
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Public snapshot of a hand the owner played. `usernames` maps real player
+ * ids to display names and is ignored when anonymizing.
+ */
+export function buildSharedHandSnapshot(
+  hand: HandSummary,
+  ownerId: string,
+  usernames: Record<string, string>,
+  anonymize: boolean
+): SharedHandSnapshot {
+  const decoded = decodeReplayData(hand.replay_data);
+  const timeline = buildHandTimeline(hand, decoded);
+  const heroIndex = timeline.seats.findIndex((seat) => seat.playerId === ownerId);
+  if (heroIndex === -1) {
+    throw new Error("Only hands you played can be shared");
+  }
+
+  const visible = timeline.seats.map(
+    (seat, index) => index === heroIndex || seat.wentToShowdown || seat.shownCards.length > 0
+  );
+
+  // Swap hidden hole cards for random cards nobody holds and the board doesn't use
+  const used = new Set<number>(decoded.board);
+  decoded.holeCards.forEach((cards) => cards.forEach((card) => used.add(card)));
+  const unused = Array.from({ length: 52 }, (_, card) => card).filter((card) => !used.has(card));
+  const nextUnusedCard = () => unused.splice(Math.floor(Math.random() * unused.length), 1)[0];
+  const replaced = new Map<number, number>();
+  const holeCards = decoded.holeCards.map((cards, index) =>
+    visible[index]
+      ? cards
+      : cards.map((card) => {
+          const swapped = nextUnusedCard();
+          replaced.set(card, swapped);
+          return swapped;
+        })
+  );
+  const actions = decoded.actions.map((action) =>
+    action.cards
+      ? { ...action, cards: action.cards.map((card) => replaced.get(card) ?? card) }
+      : action
+  );
+
+  const ids = timeline.seats.map((_, index) =>
+    index === heroIndex ? SHARED_HERO_ID : `player-${index + 1}`
+  );
+  const manifest: Record<string, string> = {};
+  const playerNames: Record<string, string> = {};
+  getManifestSeats(hand.player_manifest).forEach((manifestSeat, index) => {
+    const playerId = hand.player_manifest[String(manifestSeat)];
+    manifest[String(manifestSeat)] = ids[index];
+    playerNames[ids[index]] = anonymize
+      ? index === heroIndex
+        ? "Hero"
+        : `Player ${index + 1}`
+      : usernames[playerId] || `Seat ${manifestSeat}`;
+  });
+
+  const winnerIndex = timeline.seats.findIndex((seat) => seat.playerId === hand.winner_id);
+
+  return {
+    hand: {
+      id: SHARED_HAND_PLACEHOLDER_ID,
+      game_id: SHARED_HAND_PLACEHOLDER_ID,
+      hand_index: hand.hand_index,
+      final_pot: hand.final_pot,
+      winner_id: winnerIndex === -1 ? null : ids[winnerIndex],
+      played_at: hand.played_at,
+      replay_data: encodeReplayData({ ...decoded, actions, holeCards }),
+      player_manifest: manifest,
+      // Only the table settings; anything else in config stays private
+      config: hand.config && {
+        gameType: hand.config.gameType,
+        sb: hand.config.sb,
+        bb: hand.config.bb,
+        buyIn: hand.config.buyIn,
+      },
+    },
+    playerNames,
+    heroId: SHARED_HERO_ID,
+  };
+}
+
+/** Board and pot for link previews */
+export function getSharedHandPreview(snapshot: SharedHandSnapshot): {
+  title: string;
+  description: string;
+  board: string[];
+  pot: number;
+} {
+  const { hand } = snapshot;
+  let board: string[] = [];
+  try {
+    board = decodeReplayData(hand.replay_data).board.map(cardIndexToString);
+  } catch {
+    board = [];
+  }
+
+  const pot = hand.final_pot;
+  return {
+    title: `Hand #${hand.hand_index} • ${pot.toLocaleString("en-US")} chip pot`,
+    description: board.length
+      ? `Board ${board.join(" ")}. Watch the hand replay on POKROnline.`
+      : "Won before the flop. Watch the hand replay on POKROnline.",
+    board,
+    pot,
+  };
+}
+
+/** Share link for a token, on the current site */
+export function getSharedHandUrl(token: string): string {
+  return `${window.location.origin}/replay/${token}`;
+}
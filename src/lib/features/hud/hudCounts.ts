@@ -0,0 +1,133 @@
+/**
+ * HUD Counts
+ *
+ * The HUD's 3-bet, c-bet, aggression and showdown counts, tallied from a
+ * game's decoded hand histories. get_player_session_stats only returns the
+ * preflop VPIP / PFR counts, so everything else is read off the hands here.
+ */
+
+import type { HandSummary } from "@/lib/types/handHistory";
+import type { PlayerHudStats } from "@/lib/types/hud";
+import { decodeReplayData } from "@/lib/features/handHistory/codec";
+import { buildHandTimeline, type HandEvent, type Street } from "@/lib/features/handHistory/handTimeline";
+
+/** Counts the stats RPC doesn't return */
+export type HudHandCounts = Omit<PlayerHudStats, "hands_played" | "vpip_count" | "pfr_count">;
+
+const PLAYER_ACTIONS = new Set(["fold", "check", "call", "bet", "raise"]);
+
+const isAggressive = (event: HandEvent) => event.kind === "bet" || event.kind === "raise";
+
+function emptyCounts(): HudHandCounts {
+  return {
+    three_bet_count: 0,
+    can_three_bet_count: 0,
+    fold_to_three_bet_count: 0,
+    faced_three_bet_count: 0,
+    cbet_count: 0,
+    can_cbet_count: 0,
+    postflop_aggressive_count: 0,
+    postflop_call_count: 0,
+    saw_flop_count: 0,
+    showdown_count: 0,
+  };
+}
+
+/**
+ * Tally one player's actions in one hand into `counts`
+ */
+function accumulateHand(
+  counts: HudHandCounts,
+  seatIndex: number,
+  streetActions: Record<Street, HandEvent[]>,
+  seat: { sawFlop: boolean; wentToShowdown: boolean }
+) {
+  const preflop = streetActions.preflop;
+
+  // 3-bet: acting preflop facing exactly one raise
+  const own = preflop.filter((a) => a.seatIndex === seatIndex);
+  for (const action of own) {
+    const raisesBefore = preflop.slice(0, preflop.indexOf(action)).filter(isAggressive);
+    if (raisesBefore.length === 1 && raisesBefore[0].seatIndex !== seatIndex) {
+      counts.can_three_bet_count++;
+      if (isAggressive(action)) counts.three_bet_count++;
+      break;
+    }
+  }
+
+  // Fold to 3-bet: opened, then acted again facing the first re-raise
+  const raises = preflop.filter(isAggressive);
+  if (raises.length >= 2 && raises[0].seatIndex === seatIndex && raises[1].seatIndex !== seatIndex) {
+    const threeBetPos = preflop.indexOf(raises[1]);
+    const response = preflop.find((a, pos) => pos > threeBetPos && a.seatIndex === seatIndex);
+    // A 4-bet from someone else before the opener acts changes the spot
+    const fourBetFirst =
+      !!response && !!raises[2] && preflop.indexOf(raises[2]) < preflop.indexOf(response);
+    if (response && !fourBetFirst) {
+      counts.faced_three_bet_count++;
+      if (response.kind === "fold") counts.fold_to_three_bet_count++;
+    }
+  }
+
+  // C-bet: last preflop raiser acting on a flop nobody has bet yet
+  const flop = streetActions.flop;
+  const firstFlopAction = flop.find((a) => a.seatIndex === seatIndex);
+  if (raises[raises.length - 1]?.seatIndex === seatIndex && firstFlopAction) {
+    const betBefore = flop.slice(0, flop.indexOf(firstFlopAction)).some(isAggressive);
+    if (!betBefore) {
+      counts.can_cbet_count++;
+      if (firstFlopAction.kind === "bet") counts.cbet_count++;
+    }
+  }
+
+  for (const street of ["flop", "turn", "river"] as Street[]) {
+    streetActions[street].forEach((a) => {
+      if (a.seatIndex !== seatIndex) return;
+      if (isAggressive(a)) counts.postflop_aggressive_count++;
+      else if (a.kind === "call") counts.postflop_call_count++;
+    });
+  }
+
+  if (seat.sawFlop) {
+    counts.saw_flop_count++;
+    if (seat.wentToShowdown) counts.showdown_count++;
+  }
+}
+
+/**
+ * HUD counts for each of `playerIds` over a game's hands. Players without a
+ * readable hand get all-zero counts; unreadable hands are skipped.
+ */
+export function computeHudCounts(
+  hands: HandSummary[],
+  playerIds: string[]
+): Record<string, HudHandCounts> {
+  const counts: Record<string, HudHandCounts> = {};
+  playerIds.forEach((id) => {
+    counts[id] = emptyCounts();
+  });
+
+  for (const hand of hands) {
+    try {
+      const timeline = buildHandTimeline(hand, decodeReplayData(hand.replay_data));
+      const streetActions: Record<Street, HandEvent[]> = {
+        preflop: [],
+        flop: [],
+        turn: [],
+        river: [],
+      };
+      timeline.events.forEach((e) => {
+        if (PLAYER_ACTIONS.has(e.kind)) streetActions[e.street].push(e);
+      });
+
+      timeline.seats.forEach((seat, seatIndex) => {
+        const playerCounts = counts[seat.playerId];
+        if (playerCounts) accumulateHand(playerCounts, seatIndex, streetActions, seat);
+      });
+    } catch (error) {
+      console.error(`[HudCounts] Skipping hand ${hand.id}:`, error);
+    }
+  }
+
+  return counts;
+}
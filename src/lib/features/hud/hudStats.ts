@@ -0,0 +1,111 @@
+/**
+ * HUD Stats
+ *
+ * Definitions for the stats a player can show in their table HUD, and how
+ * each one is derived from the per-player counts (preflop counts from the
+ * stats RPC, the rest from the game's hand histories).
+ */
+
+import type { HudLayout, HudStatKey, HudStatValue, PlayerHudStats } from "@/lib/types/hud";
+
+export interface HudStatDefinition {
+  key: HudStatKey;
+  /** Compact label for the seat line */
+  shortLabel: string;
+  label: string;
+  description: string;
+  compute: (stats: PlayerHudStats) => HudStatValue;
+}
+
+function ratio(count: number, sampleSize: number): HudStatValue {
+  if (sampleSize === 0) {
+    return { value: null, sampleSize };
+  }
+  return { value: (count / sampleSize) * 100, sampleSize };
+}
+
+export const HUD_STATS: HudStatDefinition[] = [
+  {
+    key: "vpip",
+    shortLabel: "VPIP",
+    label: "VPIP",
+    description: "Voluntarily put chips in preflop",
+    compute: (s) => ratio(s.vpip_count, s.hands_played),
+  },
+  {
+    key: "pfr",
+    shortLabel: "PFR",
+    label: "PFR",
+    description: "Raised preflop",
+    compute: (s) => ratio(s.pfr_count, s.hands_played),
+  },
+  {
+    key: "3bet",
+    shortLabel: "3B",
+    label: "3-Bet",
+    description: "Re-raised when facing an open",
+    compute: (s) => ratio(s.three_bet_count, s.can_three_bet_count),
+  },
+  {
+    key: "fold_to_3bet",
+    shortLabel: "F3B",
+    label: "Fold to 3-Bet",
+    description: "Folded an open to a re-raise",
+    compute: (s) => ratio(s.fold_to_three_bet_count, s.faced_three_bet_count),
+  },
+  {
+    key: "cbet",
+    shortLabel: "CB",
+    label: "C-Bet",
+    description: "Bet the flop as the preflop raiser",
+    compute: (s) => ratio(s.cbet_count, s.can_cbet_count),
+  },
+  {
+    key: "af",
+    shortLabel: "AF",
+    label: "Aggression Factor",
+    description: "Postflop (bets + raises) / calls",
+    compute: (s) => {
+      const aggressive = s.postflop_aggressive_count;
+      const calls = s.postflop_call_count;
+      const sampleSize = aggressive + calls;
+      if (calls === 0) {
+        return { value: null, sampleSize };
+      }
+      return { value: aggressive / calls, sampleSize };
+    },
+  },
+  {
+    key: "wtsd",
+    shortLabel: "WTSD",
+    label: "Went to Showdown",
+    description: "Reached showdown after seeing the flop",
+    compute: (s) => ratio(s.showdown_count, s.saw_flop_count),
+  },
+];
+
+const HUD_STAT_KEYS = HUD_STATS.map((s) => s.key);
+
+export const DEFAULT_HUD_LAYOUT: HudLayout = {
+  enabled: false,
+  stats: ["vpip", "pfr", "3bet", "af"],
+};
+
+export function getHudStat(key: HudStatKey): HudStatDefinition {
+  return HUD_STATS.find((s) => s.key === key)!;
+}
+
+export function formatHudStat(key: HudStatKey, stat: HudStatValue): string {
+  if (stat.value === null) return "-";
+  return key === "af" ? stat.value.toFixed(1) : `${Math.round(stat.value)}`;
+}
+
+export function isHudLayout(value: unknown): value is HudLayout {
+  if (!value || typeof value !== "object") return false;
+  const layout = value as Record<string, unknown>;
+  return (
+    typeof layout.enabled === "boolean" &&
+    Array.isArray(layout.stats) &&
+    layout.stats.every((s) => HUD_STAT_KEYS.includes(s as HudStatKey))
+  );
+}
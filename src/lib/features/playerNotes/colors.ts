@@ -0,0 +1,29 @@
+/**
+ * Player Note Colors
+ *
+ * Color tags a user can attach to a player note, with the swatch classes
+ * used for seat badges and the note editor.
+ */
+
+import type { PlayerNoteColor } from "@/lib/types/playerNotes";
+
+export interface PlayerNoteColorOption {
+  value: PlayerNoteColor;
+  label: string;
+  /** Background class for swatches and badge dots */
+  swatchClassName: string;
+}
+
+export const PLAYER_NOTE_COLORS: PlayerNoteColorOption[] = [
+  { value: "none", label: "No tag", swatchClassName: "bg-slate-400" },
+  { value: "red", label: "Red", swatchClassName: "bg-red-500" },
+  { value: "orange", label: "Orange", swatchClassName: "bg-orange-500" },
+  { value: "yellow", label: "Yellow", swatchClassName: "bg-yellow-400" },
+  { value: "green", label: "Green", swatchClassName: "bg-emerald-500" },
+  { value: "blue", label: "Blue", swatchClassName: "bg-blue-500" },
+  { value: "purple", label: "Purple", swatchClassName: "bg-purple-500" },
+];
+
+export function getPlayerNoteColor(color: PlayerNoteColor): PlayerNoteColorOption {
+  return PLAYER_NOTE_COLORS.find((c) => c.value === color) ?? PLAYER_NOTE_COLORS[0];
+}
@@ -1,5 +1,7 @@
 import { THEMES, getTheme } from '../theme/themes';
+import { DEFAULT_HUD_LAYOUT, isHudLayout } from '../hud/hudStats';
 import { PreferenceConfig, CardStyle } from './types';
+import type { HudLayout } from '@/lib/types/hud';
 
 export const PREFERENCE_REGISTRY = {
   mode: {
@@ -35,6 +37,11 @@ export const PREFERENCE_REGISTRY = {
     validate: (v: unknown): v is CardStyle =>
       v === 'standard' || v === 'simplified_4color' || v === 'simplified_2color',
   },
+  hudLayout: {
+    key: 'hud_layout',
+    defaultValue: DEFAULT_HUD_LAYOUT as HudLayout,
+    validate: isHudLayout,
+  },
 } satisfies Record<string, PreferenceConfig>;
 
 // Helper: Get DB column names for SELECT query
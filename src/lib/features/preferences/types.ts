@@ -1,3 +1,5 @@
+import type { HudLayout } from '@/lib/types/hud';
+
 export interface PreferenceConfig<T = unknown> {
   key: string;                                      // DB column name
   defaultValue: T;
@@ -11,6 +13,7 @@ export interface UserPreferences {
   mode: 'light' | 'dark';
   colorTheme: string;
   cardStyle: CardStyle;
+  hudLayout: HudLayout;
 }
 
 export type PreferenceName = keyof UserPreferences;
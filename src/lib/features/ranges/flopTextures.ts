@@ -0,0 +1,328 @@
+/**
+ * Flop Textures
+ *
+ * How a weighted range hits many flops at once. Flops are reduced to the
+ * 1,755 strategically distinct ones (equal up to swapping suits), each
+ * weighted by how many of the 22,100 real flops it stands for, and classified
+ * by texture so results can be filtered and grouped. The range is averaged
+ * over suit relabellings first, so one flop can stand in for its suit-swaps
+ * even when the range weights suits differently.
+ */
+
+import {
+  HAND_CATEGORIES,
+  evaluateHand,
+  formatCard,
+  getHandCategory,
+  parseCard,
+  type HandCategory,
+} from "@/lib/features/equity/handEvaluator";
+import { parseWeightedRange } from "./weightedRange";
+
+export type SuitTexture = "Monotone" | "Two-tone" | "Rainbow";
+export type PairTexture = "Unpaired" | "Paired" | "Trips";
+export type HighCardTexture = "A-high" | "K-high" | "Q-high" | "J-high" | "T-high" | "9-high or lower";
+export type ConnectTexture = "Connected" | "Semi-connected" | "Disconnected";
+
+export interface FlopTexture {
+  suits: SuitTexture;
+  pairing: PairTexture;
+  highCard: HighCardTexture;
+  connectivity: ConnectTexture;
+}
+
+export type TextureDimension = keyof FlopTexture;
+
+export const TEXTURE_VALUES: { [D in TextureDimension]: FlopTexture[D][] } = {
+  suits: ["Monotone", "Two-tone", "Rainbow"],
+  pairing: ["Unpaired", "Paired", "Trips"],
+  highCard: ["A-high", "K-high", "Q-high", "J-high", "T-high", "9-high or lower"],
+  connectivity: ["Connected", "Semi-connected", "Disconnected"],
+};
+
+export const TEXTURE_DIMENSION_LABELS: Record<TextureDimension, string> = {
+  suits: "Suits",
+  pairing: "Pairing",
+  highCard: "High card",
+  connectivity: "Connectivity",
+};
+
+/** Texture values to keep per dimension; a missing or empty list keeps all */
+export type FlopTextureFilter = { [D in TextureDimension]?: FlopTexture[D][] };
+
+export interface DistinctFlop {
+  cards: [string, string, string];
+  /** Number of real flops that are suit-swaps of this one */
+  weight: number;
+  texture: FlopTexture;
+}
+
+export interface FlopTextureRequest {
+  /** Weighted range notation */
+  range: string;
+  filter?: FlopTextureFilter;
+}
+
+export interface FlopTextureRow {
+  /** Texture value, or "All" for the whole subset */
+  texture: string;
+  /** Distinct flops in the row */
+  flops: number;
+  /** Share of the range (by combo weight and flop frequency) per made-hand category */
+  categories: Record<HandCategory, number>;
+}
+
+export interface FlopTextureResult {
+  /** Distinct flops matching the filter */
+  flops: number;
+  overall: FlopTextureRow;
+  /** One row per texture value that occurs, for every dimension */
+  groups: Record<TextureDimension, FlopTextureRow[]>;
+  progress: number;
+  done: boolean;
+}
+
+/** Flops analysed between progress updates */
+const FLOPS_PER_STEP = 25;
+
+// ============================================
+// DISTINCT FLOPS
+// ============================================
+
+const SUIT_PERMUTATIONS: number[][] = [];
+(function permute(prefix: number[]) {
+  if (prefix.length === 4) {
+    SUIT_PERMUTATIONS.push(prefix);
+    return;
+  }
+  for (let suit = 0; suit < 4; suit++) {
+    if (!prefix.includes(suit)) permute([...prefix, suit]);
+  }
+})([]);
+
+/** Smallest sorted form of a flop over all suit relabellings */
+function canonicalFlop(cards: number[]): number[] {
+  let best: number[] | null = null;
+  for (const perm of SUIT_PERMUTATIONS) {
+    const mapped = cards.map((card) => (card & ~3) | perm[card & 3]).sort((a, b) => b - a);
+    if (!best || (mapped[0] - best[0] || mapped[1] - best[1] || mapped[2] - best[2]) < 0) {
+      best = mapped;
+    }
+  }
+  return best!;
+}
+
+const HIGH_CARDS: Record<number, HighCardTexture> = {
+  12: "A-high",
+  11: "K-high",
+  10: "Q-high",
+  9: "J-high",
+  8: "T-high",
+};
+
+/** Rank index (0 = deuce) of each card, highest first */
+const ranksOf = (cards: number[]) => cards.map((card) => card >> 2).sort((a, b) => b - a);
+
+/**
+ * Texture of a flop given as card integers
+ */
+export function classifyFlop(cards: number[]): FlopTexture {
+  const suitCount = new Set(cards.map((card) => card & 3)).size;
+  const ranks = ranksOf(cards);
+  const distinct = Array.from(new Set(ranks));
+
+  const suits: SuitTexture = suitCount === 1 ? "Monotone" : suitCount === 2 ? "Two-tone" : "Rainbow";
+  const pairing: PairTexture =
+    distinct.length === 3 ? "Unpaired" : distinct.length === 2 ? "Paired" : "Trips";
+
+  const highCard = HIGH_CARDS[ranks[0]] ?? "9-high or lower";
+
+  // Straight potential: how many board ranks fit in one five-rank window (ace plays low too)
+  const rankSet = new Set(distinct.flatMap((rank) => (rank === 12 ? [12, -1] : [rank])));
+  let bestWindow = 0;
+  for (let low = -1; low <= 8; low++) {
+    let inWindow = 0;
+    for (let rank = low; rank < low + 5; rank++) {
+      if (rankSet.has(rank)) inWindow++;
+    }
+    bestWindow = Math.max(bestWindow, inWindow);
+  }
+  const connectivity: ConnectTexture =
+    bestWindow >= 3 ? "Connected" : bestWindow === 2 ? "Semi-connected" : "Disconnected";
+
+  return { suits, pairing, highCard, connectivity };
+}
+
+let distinctFlops: DistinctFlop[] | null = null;
+
+/**
+ * The 1,755 distinct flops, highest first. Built once and cached.
+ */
+export function getDistinctFlops(): DistinctFlop[] {
+  if (distinctFlops) return distinctFlops;
+
+  const counts = new Map<string, { cards: number[]; weight: number }>();
+  for (let a = 51; a >= 2; a--) {
+    for (let b = a - 1; b >= 1; b--) {
+      for (let c = b - 1; c >= 0; c--) {
+        const canonical = canonicalFlop([a, b, c]);
+        const key = canonical.join(",");
+        const entry = counts.get(key);
+        if (entry) entry.weight++;
+        else counts.set(key, { cards: canonical, weight: 1 });
+      }
+    }
+  }
+
+  distinctFlops = Array.from(counts.values()).map(({ cards, weight }) => ({
+    cards: cards.map(formatCard) as [string, string, string],
+    weight,
+    texture: classifyFlop(cards),
+  }));
+  return distinctFlops;
+}
+
+export function matchesFlopFilter(texture: FlopTexture, filter: FlopTextureFilter = {}): boolean {
+  return (Object.keys(TEXTURE_VALUES) as TextureDimension[]).every((dimension) => {
+    const allowed = filter[dimension] as string[] | undefined;
+    return !allowed || allowed.length === 0 || allowed.includes(texture[dimension]);
+  });
+}
+
+// ============================================
+// ANALYSIS
+// ============================================
+
+interface WeightedCombo {
+  a: number;
+  b: number;
+  weight: number;
+}
+
+/**
+ * The range averaged over all 24 suit relabellings. Category totals are linear
+ * in combo weights, so this range on one flop, times the flop's weight, equals
+ * the original range summed over every suit-swap of that flop.
+ */
+function averageOverSuits(combos: WeightedCombo[]): WeightedCombo[] {
+  const averaged = new Map<number, WeightedCombo>();
+  const relabel = (card: number, perm: number[]) => (card & ~3) | perm[card & 3];
+  for (const combo of combos) {
+    for (const perm of SUIT_PERMUTATIONS) {
+      const a = relabel(combo.a, perm);
+      const b = relabel(combo.b, perm);
+      const key = Math.min(a, b) * 52 + Math.max(a, b);
+      const entry = averaged.get(key);
+      const weight = combo.weight / SUIT_PERMUTATIONS.length;
+      if (entry) entry.weight += weight;
+      else averaged.set(key, { a, b, weight });
+    }
+  }
+  return Array.from(averaged.values());
+}
+
+interface Tally {
+  flops: number;
+  total: number;
+  categories: Float64Array;
+}
+
+const createTally = (): Tally => ({ flops: 0, total: 0, categories: new Float64Array(HAND_CATEGORIES.length) });
+
+function toRow(texture: string, tally: Tally): FlopTextureRow {
+  const categories = {} as Record<HandCategory, number>;
+  HAND_CATEGORIES.forEach((category, i) => {
+    categories[category] = tally.total > 0 ? tally.categories[i] / tally.total : 0;
+  });
+  return { texture, flops: tally.flops, categories };
+}
+
+/**
+ * Made-hand categories of a range across every distinct flop matching the
+ * filter. Yields partial results while it works through the flops.
+ */
+export function* runFlopTextureAnalysis(
+  request: FlopTextureRequest
+): Generator<FlopTextureResult, FlopTextureResult> {
+  const parsed: WeightedCombo[] = Array.from(parseWeightedRange(request.range), ([combo, weight]) => ({
+    a: parseCard(combo.slice(0, 2)),
+    b: parseCard(combo.slice(2, 4)),
+    weight,
+  }));
+  if (parsed.length === 0) {
+    throw new Error("The range is empty");
+  }
+  const combos = averageOverSuits(parsed);
+
+  const flops = getDistinctFlops().filter((flop) => matchesFlopFilter(flop.texture, request.filter));
+  if (flops.length === 0) {
+    throw new Error("No flops match the selected textures");
+  }
+
+  const dimensions = Object.keys(TEXTURE_VALUES) as TextureDimension[];
+  const overall = createTally();
+  const tallies = new Map<string, Tally>();
+  const tallyFor = (dimension: TextureDimension, value: string) => {
+    const key = `${dimension}:${value}`;
+    let tally = tallies.get(key);
+    if (!tally) {
+      tally = createTally();
+      tallies.set(key, tally);
+    }
+    return tally;
+  };
+
+  const hand = new Int32Array(5);
+  const flopCategories = new Float64Array(HAND_CATEGORIES.length);
+
+  const buildResult = (analysed: number, done: boolean): FlopTextureResult => {
+    const groups = {} as Record<TextureDimension, FlopTextureRow[]>;
+    dimensions.forEach((dimension) => {
+      groups[dimension] = (TEXTURE_VALUES[dimension] as string[])
+        .filter((value) => tallies.has(`${dimension}:${value}`))
+        .map((value) => toRow(value, tallies.get(`${dimension}:${value}`)!));
+    });
+    return {
+      flops: flops.length,
+      overall: toRow("All", overall),
+      groups,
+      progress: analysed / flops.length,
+      done,
+    };
+  };
+
+  for (let index = 0; index < flops.length; index++) {
+    const flop = flops[index];
+    const board = flop.cards.map(parseCard);
+    hand[2] = board[0];
+    hand[3] = board[1];
+    hand[4] = board[2];
+
+    flopCategories.fill(0);
+    let flopTotal = 0;
+    for (const combo of combos) {
+      if (board.includes(combo.a) || board.includes(combo.b)) continue;
+      hand[0] = combo.a;
+      hand[1] = combo.b;
+      const category = HAND_CATEGORIES.indexOf(getHandCategory(evaluateHand(hand, 5)));
+      const weight = combo.weight * flop.weight;
+      flopCategories[category] += weight;
+      flopTotal += weight;
+    }
+
+    const targets = [overall, ...dimensions.map((dimension) => tallyFor(dimension, flop.texture[dimension]))];
+    targets.forEach((tally) => {
+      tally.flops++;
+      tally.total += flopTotal;
+      flopCategories.forEach((weight, i) => {
+        tally.categories[i] += weight;
+      });
+    });
+
+    if ((index + 1) % FLOPS_PER_STEP === 0 && index + 1 < flops.length) {
+      yield buildResult(index + 1, false);
+    }
+  }
+
+  return buildResult(flops.length, true);
+}
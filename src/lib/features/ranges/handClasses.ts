@@ -0,0 +1,74 @@
+/**
+ * Hand Classes
+ *
+ * Conversions between concrete hole cards / range strings and the 169
+ * starting hand classes used by RangeGrid ("AA", "AKs", "T9o", ...).
+ */
+
+// @ts-ignore - Importing from shared backend
+import { parseRange } from "@backend/domain/evaluation/RangeParser";
+
+export const RANK_ORDER = "AKQJT98765432";
+
+const SINGLE_COMBO_REGEX = /^[2-9TJQKA][shdc][2-9TJQKA][shdc]$/;
+
+/** All 169 starting hand classes, in RangeGrid order (row by row from AA) */
+export const ALL_HAND_CLASSES: string[] = Array.from(RANK_ORDER).flatMap((row, i) =>
+  Array.from(RANK_ORDER).map((col, j) =>
+    i === j ? `${row}${col}` : i < j ? `${row}${col}s` : `${col}${row}o`
+  )
+);
+
+/**
+ * Starting hand class for two cards in display notation (e.g. ["Ah", "Kh"] -> "AKs").
+ * Returns null unless given exactly two valid cards.
+ */
+export function cardsToHandClass(cards: string[]): string | null {
+  if (cards.length !== 2) return null;
+  const [a, b] = cards;
+  if (!a || !b || RANK_ORDER.indexOf(a[0]) === -1 || RANK_ORDER.indexOf(b[0]) === -1) {
+    return null;
+  }
+
+  const [high, low] =
+    RANK_ORDER.indexOf(a[0]) <= RANK_ORDER.indexOf(b[0]) ? [a, b] : [b, a];
+  if (high[0] === low[0]) return `${high[0]}${low[0]}`;
+  return `${high[0]}${low[0]}${high[1] === low[1] ? "s" : "o"}`;
+}
+
+/**
+ * Expand a range string ("QQ+,AKs-ATs,KQo") into the set of hand classes it covers.
+ * Weights ("AQo:0.5") are ignored and a single combo ("AhKh") counts for its
+ * class. Invalid strings produce an empty set.
+ */
+export function rangeToHandClasses(range: string): Set<string> {
+  const classes = new Set<string>();
+  if (!range.trim()) return classes;
+
+  const entries = range
+    .split(",")
+    .map((entry) => entry.split(":")[0].trim())
+    .filter(Boolean);
+  const expressions: string[] = [];
+  entries.forEach((entry) => {
+    if (SINGLE_COMBO_REGEX.test(entry)) {
+      const handClass = cardsToHandClass([entry.slice(0, 2), entry.slice(2, 4)]);
+      if (handClass) classes.add(handClass);
+    } else {
+      expressions.push(entry);
+    }
+  });
+  if (expressions.length === 0) return classes;
+
+  try {
+    const combos = parseRange(expressions.join(",")) as string[][];
+    combos.forEach((combo) => {
+      const handClass = cardsToHandClass(combo);
+      if (handClass) classes.add(handClass);
+    });
+  } catch (error) {
+    console.error("[Ranges] Failed to parse range:", range, error);
+  }
+
+  return classes;
+}
@@ -0,0 +1,225 @@
+/**
+ * Preflop Trainer
+ *
+ * Drill logic for the preflop quiz: deal a random hand for a position and
+ * scenario, grade fold/call/raise answers against that position's preset
+ * ranges, and keep per-hand-class and per-position accuracy in localStorage
+ * so progress survives between visits.
+ */
+
+import { cardsToHandClass } from "./handClasses";
+import { comboKey, parseWeightedRange, type WeightedRange } from "./weightedRange";
+
+export const TRAINER_POSITIONS = ["UTG", "HJ", "CO", "BTN", "SB", "BB"] as const;
+export type TrainerPosition = (typeof TRAINER_POSITIONS)[number];
+
+export type TrainerScenario = "rfi" | "vs_open" | "vs_3bet";
+export type TrainerAction = "fold" | "call" | "raise";
+
+export const TRAINER_SCENARIOS: {
+  value: TrainerScenario;
+  label: string;
+  /** Actions offered, in button order */
+  actions: TrainerAction[];
+  /** What "raise" means in this spot */
+  raiseLabel: string;
+}[] = [
+  { value: "rfi", label: "Raise first in", actions: ["fold", "raise"], raiseLabel: "Raise" },
+  { value: "vs_open", label: "Facing an open", actions: ["fold", "call", "raise"], raiseLabel: "3-Bet" },
+  { value: "vs_3bet", label: "Facing a 3-bet", actions: ["fold", "call", "raise"], raiseLabel: "4-Bet" },
+];
+
+export interface TrainerSetup {
+  position: TrainerPosition;
+  scenario: TrainerScenario;
+  /** Range played as a raise (open, 3-bet or 4-bet) */
+  raiseRange: string;
+  /** Range played as a call; ignored when raising first in */
+  callRange: string;
+}
+
+export interface TrainerHand {
+  position: TrainerPosition;
+  cards: [string, string];
+  handClass: string;
+}
+
+export type ActionFrequencies = Record<TrainerAction, number>;
+
+export interface TrainerGrade {
+  action: TrainerAction;
+  /** The answer is part of the strategy (mixed hands accept every action they use) */
+  correct: boolean;
+  /** Most frequent action for the hand */
+  bestAction: TrainerAction;
+  frequencies: ActionFrequencies;
+}
+
+const RANKS = "23456789TJQKA";
+const SUITS = "cdhs";
+
+/**
+ * Deal a random hand at `position` (every one of the 1,326 combos equally likely)
+ */
+export function dealTrainerHand(position: TrainerPosition): TrainerHand {
+  const first = Math.floor(Math.random() * 52);
+  let second = Math.floor(Math.random() * 51);
+  if (second >= first) second++;
+
+  const toCard = (card: number) => RANKS[card >> 2] + SUITS[card & 3];
+  const cards: [string, string] = [toCard(first), toCard(second)];
+  return { position, cards, handClass: cardsToHandClass(cards)! };
+}
+
+/**
+ * Pick one of `positions` at random, for drilling a mix of spots
+ */
+export function pickTrainerPosition(positions: TrainerPosition[]): TrainerPosition {
+  return positions[Math.floor(Math.random() * positions.length)];
+}
+
+export interface TrainerRanges {
+  raise: WeightedRange;
+  call: WeightedRange;
+}
+
+export function parseTrainerRanges(setup: TrainerSetup): TrainerRanges {
+  return {
+    raise: parseWeightedRange(setup.raiseRange),
+    call: setup.scenario === "rfi" ? new Map() : parseWeightedRange(setup.callRange),
+  };
+}
+
+/**
+ * How often the strategy takes each action with these exact cards. Raising
+ * wins where a combo is in both ranges; folding takes whatever is left.
+ */
+export function getActionFrequencies(ranges: TrainerRanges, cards: [string, string]): ActionFrequencies {
+  const combo = comboKey(cards[0], cards[1]);
+  const raise = ranges.raise.get(combo) ?? 0;
+  const call = Math.min(1 - raise, ranges.call.get(combo) ?? 0);
+  return { raise, call, fold: Math.max(0, 1 - raise - call) };
+}
+
+export function gradeTrainerAnswer(
+  ranges: TrainerRanges,
+  hand: TrainerHand,
+  action: TrainerAction
+): TrainerGrade {
+  const frequencies = getActionFrequencies(ranges, hand.cards);
+  const bestAction = (["raise", "call", "fold"] as TrainerAction[]).reduce((best, candidate) =>
+    frequencies[candidate] > frequencies[best] ? candidate : best
+  );
+  return { action, correct: frequencies[action] > 0, bestAction, frequencies };
+}
+
+// ============================================
+// STATS
+// ============================================
+
+export interface TrainerTally {
+  attempts: number;
+  correct: number;
+}
+
+export interface TrainerStats {
+  version: 1;
+  /** Tally per hand class ("AKs") */
+  hands: Record<string, TrainerTally>;
+  /** Tally per local day ("2024-05-01"), for accuracy over time */
+  days: Record<string, TrainerTally>;
+  /** Tally per position ("BTN") */
+  positions: Record<string, TrainerTally>;
+}
+
+const STATS_KEY = "preflopTrainer_stats";
+
+export const createTrainerStats = (): TrainerStats => ({
+  version: 1,
+  hands: {},
+  days: {},
+  positions: {},
+});
+
+export function loadTrainerStats(): TrainerStats {
+  if (typeof window === "undefined") return createTrainerStats();
+  try {
+    const stored = localStorage.getItem(STATS_KEY);
+    if (!stored) return createTrainerStats();
+    const parsed = JSON.parse(stored) as TrainerStats;
+    if (parsed?.version !== 1 || !parsed.hands || !parsed.days) return createTrainerStats();
+    // Stats saved before positions were tracked have no per-position tally
+    return { ...parsed, positions: parsed.positions ?? {} };
+  } catch {
+    return createTrainerStats();
+  }
+}
+
+export function saveTrainerStats(stats: TrainerStats): void {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.setItem(STATS_KEY, JSON.stringify(stats));
+  } catch (error) {
+    console.error("[PreflopTrainer] Failed to save stats", error);
+  }
+}
+
+export function clearTrainerStats(): void {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.removeItem(STATS_KEY);
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+const addToTally = (tally: TrainerTally | undefined, correct: boolean): TrainerTally => ({
+  attempts: (tally?.attempts ?? 0) + 1,
+  correct: (tally?.correct ?? 0) + (correct ? 1 : 0),
+});
+
+const localDay = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+/**
+ * Stats with one more graded answer added (does not save)
+ */
+export function recordTrainerAnswer(
+  stats: TrainerStats,
+  hand: TrainerHand,
+  correct: boolean,
+  date = new Date()
+): TrainerStats {
+  const day = localDay(date);
+  const { handClass, position } = hand;
+  return {
+    ...stats,
+    hands: { ...stats.hands, [handClass]: addToTally(stats.hands[handClass], correct) },
+    days: { ...stats.days, [day]: addToTally(stats.days[day], correct) },
+    positions: { ...stats.positions, [position]: addToTally(stats.positions[position], correct) },
+  };
+}
+
+/** Accuracy (0-1) per hand class that has been answered at least once */
+export function getHandAccuracy(stats: TrainerStats): Map<string, number> {
+  return new Map(
+    Object.entries(stats.hands)
+      .filter(([, tally]) => tally.attempts > 0)
+      .map(([handClass, tally]) => [handClass, tally.correct / tally.attempts])
+  );
+}
+
+/** Tally per position that has been answered, in seat order */
+export function getPositionTallies(stats: TrainerStats): { position: TrainerPosition; tally: TrainerTally }[] {
+  return TRAINER_POSITIONS.filter((position) => stats.positions[position]?.attempts).map((position) => ({
+    position,
+    tally: stats.positions[position],
+  }));
+}
+
+export function getTotalTally(stats: TrainerStats): TrainerTally {
+  return Object.values(stats.hands).reduce(
+    (total, tally) => ({ attempts: total.attempts + tally.attempts, correct: total.correct + tally.correct }),
+    { attempts: 0, correct: 0 }
+  );
+}
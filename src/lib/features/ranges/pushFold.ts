@@ -0,0 +1,356 @@
+/**
+ * Push/Fold Charts
+ *
+ * Chip-EV push/fold equilibrium for short stacks. One player shoves first in
+ * and everyone behind calls or folds; ranges are found by fictitious play on
+ * the 169 hand classes, using a preflop all-in equity table built once with
+ * the hand evaluator and weighted by how many combos of each class can meet.
+ *
+ * Multiway spots leave out overcalls: once someone calls, the players behind
+ * fold, so every all-in is heads up. Overcalls are rare at these depths and
+ * this keeps the maths to two-way equities.
+ */
+
+import { evaluateHand, parseCard } from "@/lib/features/equity/handEvaluator";
+import { ALL_HAND_CLASSES } from "./handClasses";
+import {
+  formatWeightedRange,
+  getHandClassCombos,
+  setHandClassWeight,
+  type WeightedRange,
+} from "./weightedRange";
+
+const ALL_POSITIONS = ["UTG", "UTG+1", "UTG+2", "LJ", "HJ", "CO", "BTN", "SB", "BB"];
+
+export const PUSH_FOLD_TABLE_SIZES = [2, 3, 4, 5, 6, 7, 8, 9];
+export const PUSH_FOLD_MIN_STACK = 1.5;
+export const PUSH_FOLD_MAX_STACK = 50;
+
+export interface PushFoldRequest {
+  /** Players dealt in (2-9) */
+  players: number;
+  /** Effective stack in big blinds, before blinds and antes */
+  stack: number;
+  /** Ante per player in big blinds */
+  ante: number;
+  /** Position that shoves first in; never the big blind */
+  position: string;
+}
+
+export interface PushFoldRange {
+  position: string;
+  /** Frequency (0-1) per hand class in the range */
+  weights: Record<string, number>;
+  /** Weighted range notation, ready for the range tools */
+  range: string;
+  /** Share of all 1,326 combos */
+  percent: number;
+}
+
+export interface PushFoldResult {
+  /** "equities" while the equity table is built, then "solving" */
+  stage: "equities" | "solving";
+  progress: number;
+  done: boolean;
+  pusher?: PushFoldRange;
+  /** Calling range of each player behind, in the order they act */
+  callers?: PushFoldRange[];
+}
+
+/** Positions at a table of this size, first to act first; heads up is SB (button) vs BB */
+export function getPushFoldPositions(players: number): string[] {
+  return players === 2 ? ["SB", "BB"] : ALL_POSITIONS.slice(ALL_POSITIONS.length - players);
+}
+
+const blindFor = (position: string) => (position === "SB" ? 0.5 : position === "BB" ? 1 : 0);
+
+// ============================================
+// PREFLOP EQUITIES
+// ============================================
+
+const CLASS_COUNT = ALL_HAND_CLASSES.length;
+/** Random boards the equity table is averaged over */
+const PREFLOP_BOARDS = 3000;
+const BOARDS_PER_STEP = 25;
+
+interface PreflopTable {
+  /** equity[i * 169 + j]: class i all in against class j, averaged over every compatible combo pair */
+  equity: Float64Array;
+  /** compatible[i * 169 + j]: combos of class j left on average once a combo of class i is dealt */
+  compatible: Float64Array;
+}
+
+let preflopTable: PreflopTable | null = null;
+
+/** Small seeded generator so the same request always gives the same chart */
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * All-in equity of every hand class against every other. Each random board
+ * scores all 1,326 combos once and settles every pair of combos that don't
+ * share a card, so every matchup is weighted by its compatible combo pairs
+ * and gets a sample from every board. Built once per worker and cached;
+ * yields its progress (0-1) as it goes.
+ */
+function* buildPreflopTable(): Generator<number, PreflopTable> {
+  if (preflopTable) return preflopTable;
+
+  const first: number[] = [];
+  const second: number[] = [];
+  const rows: number[] = [];
+  ALL_HAND_CLASSES.forEach((handClass, classIndex) => {
+    getHandClassCombos(handClass).forEach((combo) => {
+      first.push(parseCard(combo.slice(0, 2)));
+      second.push(parseCard(combo.slice(2, 4)));
+      rows.push(classIndex);
+    });
+  });
+  const comboCount = rows.length;
+  // Cards of each combo as a 52-bit mask split over two ints, for quick overlap checks
+  const lowMask = new Int32Array(comboCount);
+  const highMask = new Int32Array(comboCount);
+  for (let p = 0; p < comboCount; p++) {
+    [first[p], second[p]].forEach((card) => {
+      if (card < 26) lowMask[p] |= 1 << card;
+      else highMask[p] |= 1 << (card - 26);
+    });
+  }
+
+  const pairs = new Float64Array(CLASS_COUNT * CLASS_COUNT);
+  for (let p = 0; p < comboCount; p++) {
+    for (let q = 0; q < comboCount; q++) {
+      if (!(lowMask[p] & lowMask[q]) && !(highMask[p] & highMask[q])) {
+        pairs[rows[p] * CLASS_COUNT + rows[q]]++;
+      }
+    }
+  }
+  const compatible = new Float64Array(CLASS_COUNT * CLASS_COUNT);
+  for (let i = 0; i < CLASS_COUNT; i++) {
+    const combos = getHandClassCombos(ALL_HAND_CLASSES[i]).length;
+    for (let j = 0; j < CLASS_COUNT; j++) {
+      compatible[i * CLASS_COUNT + j] = pairs[i * CLASS_COUNT + j] / combos;
+    }
+  }
+
+  // won / settled are kept for the earlier combo of each pair against the later one
+  const won = new Float64Array(CLASS_COUNT * CLASS_COUNT);
+  const settled = new Float64Array(CLASS_COUNT * CLASS_COUNT);
+  const random = createRandom(0x5eed);
+  const used = new Uint8Array(52);
+  const hand = new Int32Array(7);
+  const liveScore = new Int32Array(comboCount);
+  const liveLow = new Int32Array(comboCount);
+  const liveHigh = new Int32Array(comboCount);
+  const liveClass = new Int32Array(comboCount);
+
+  for (let board = 1; board <= PREFLOP_BOARDS; board++) {
+    used.fill(0);
+    for (let k = 2; k < 7; k++) {
+      let card: number;
+      do {
+        card = Math.floor(random() * 52);
+      } while (used[card]);
+      used[card] = 1;
+      hand[k] = card;
+    }
+
+    let live = 0;
+    for (let p = 0; p < comboCount; p++) {
+      if (used[first[p]] || used[second[p]]) continue;
+      hand[0] = first[p];
+      hand[1] = second[p];
+      liveScore[live] = evaluateHand(hand, 7);
+      liveLow[live] = lowMask[p];
+      liveHigh[live] = highMask[p];
+      liveClass[live] = rows[p];
+      live++;
+    }
+
+    for (let p = 0; p < live; p++) {
+      const score = liveScore[p];
+      const low = liveLow[p];
+      const high = liveHigh[p];
+      const row = liveClass[p] * CLASS_COUNT;
+      for (let q = p + 1; q < live; q++) {
+        if ((low & liveLow[q]) | (high & liveHigh[q])) continue;
+        const index = row + liveClass[q];
+        settled[index]++;
+        if (score > liveScore[q]) won[index] += 1;
+        else if (score === liveScore[q]) won[index] += 0.5;
+      }
+    }
+
+    if (board % BOARDS_PER_STEP === 0 && board < PREFLOP_BOARDS) yield board / PREFLOP_BOARDS;
+  }
+
+  const equity = new Float64Array(CLASS_COUNT * CLASS_COUNT);
+  for (let i = 0; i < CLASS_COUNT; i++) {
+    // A class against itself is a coin flip by symmetry
+    equity[i * CLASS_COUNT + i] = 0.5;
+    for (let j = i + 1; j < CLASS_COUNT; j++) {
+      const forward = i * CLASS_COUNT + j;
+      const backward = j * CLASS_COUNT + i;
+      const total = settled[forward] + settled[backward];
+      const share = total > 0 ? (won[forward] + settled[backward] - won[backward]) / total : 0.5;
+      equity[forward] = share;
+      equity[backward] = 1 - share;
+    }
+  }
+
+  preflopTable = { equity, compatible };
+  return preflopTable;
+}
+
+// ============================================
+// SOLVER
+// ============================================
+
+const ITERATIONS = 300;
+const ITERATIONS_PER_STEP = 50;
+/** Frequencies this close to 0 or 1 are rounded off in the charts */
+const ROUND_OFF = 0.05;
+
+const CLASS_COMBOS = ALL_HAND_CLASSES.map((handClass) => getHandClassCombos(handClass).length);
+
+function toPushFoldRange(position: string, strategy: Float64Array): PushFoldRange {
+  const weights: Record<string, number> = {};
+  let range: WeightedRange = new Map();
+  let combos = 0;
+  strategy.forEach((raw, i) => {
+    const weight = raw < ROUND_OFF ? 0 : raw > 1 - ROUND_OFF ? 1 : Math.round(raw * 100) / 100;
+    if (weight === 0) return;
+    weights[ALL_HAND_CLASSES[i]] = weight;
+    range = setHandClassWeight(range, ALL_HAND_CLASSES[i], weight);
+    combos += weight * CLASS_COMBOS[i];
+  });
+  return { position, weights, range: formatWeightedRange(range), percent: (combos / 1326) * 100 };
+}
+
+export function validatePushFoldRequest(request: PushFoldRequest): string | null {
+  if (!PUSH_FOLD_TABLE_SIZES.includes(request.players)) {
+    return "Push/fold charts need 2 to 9 players";
+  }
+  if (!getPushFoldPositions(request.players).includes(request.position) || request.position === "BB") {
+    return `${request.position} can't shove first in at a ${request.players}-handed table`;
+  }
+  if (!(request.ante >= 0) || request.ante >= 1) {
+    return "The ante must be between 0 and 1 big blind";
+  }
+  if (!(request.stack >= PUSH_FOLD_MIN_STACK) || request.stack > PUSH_FOLD_MAX_STACK) {
+    return `The stack must be between ${PUSH_FOLD_MIN_STACK} and ${PUSH_FOLD_MAX_STACK} big blinds`;
+  }
+  if (request.stack <= request.ante + 1) {
+    return "The stack must cover the ante and the big blind";
+  }
+  return null;
+}
+
+/**
+ * Push and call ranges for a first-in shove. Yields progress while the equity
+ * table is built (first run only) and while the ranges converge.
+ */
+export function* runPushFold(request: PushFoldRequest): Generator<PushFoldResult, PushFoldResult> {
+  const invalid = validatePushFoldRequest(request);
+  if (invalid) throw new Error(invalid);
+
+  const table = buildPreflopTable();
+  let step = table.next();
+  while (!step.done) {
+    yield { stage: "equities", progress: step.value, done: false };
+    step = table.next();
+  }
+  const { equity, compatible } = step.value;
+
+  const positions = getPushFoldPositions(request.players);
+  const callerPositions = positions.slice(positions.indexOf(request.position) + 1);
+  const { stack, ante, players } = request;
+
+  // EVs are in big blinds relative to folding. Chips already posted are sunk,
+  // so they count towards the pot rather than the amount risked.
+  const pot = players * ante + 1.5;
+  const pushRisk = stack - ante - blindFor(request.position);
+  const callers = callerPositions.map((position) => {
+    const deadBlinds = (["SB", "BB"] as const)
+      .filter((blind) => blind !== position && blind !== request.position)
+      .reduce((sum, blind) => sum + blindFor(blind), 0);
+    return {
+      position,
+      risk: stack - ante - blindFor(position),
+      calledPot: 2 * (stack - ante) + players * ante + deadBlinds,
+    };
+  });
+
+  const push = new Float64Array(CLASS_COUNT).fill(1);
+  const calls = callers.map(() => new Float64Array(CLASS_COUNT));
+  const pushResponse = new Float64Array(CLASS_COUNT);
+  const callResponses = callers.map(() => new Float64Array(CLASS_COUNT));
+
+  for (let iteration = 1; iteration <= ITERATIONS; iteration++) {
+    // Each caller's best response to the average shoving range
+    callers.forEach((caller, c) => {
+      for (let j = 0; j < CLASS_COUNT; j++) {
+        let reach = 0;
+        let won = 0;
+        for (let i = 0; i < CLASS_COUNT; i++) {
+          const weight = push[i] * compatible[j * CLASS_COUNT + i];
+          reach += weight;
+          won += weight * equity[j * CLASS_COUNT + i];
+        }
+        callResponses[c][j] = reach > 0 && (won / reach) * caller.calledPot - caller.risk > 0 ? 1 : 0;
+      }
+    });
+
+    // The shover's best response to the average calling ranges
+    for (let i = 0; i < CLASS_COUNT; i++) {
+      let foldedTo = 1;
+      let ev = 0;
+      callers.forEach((caller, c) => {
+        let total = 0;
+        let reach = 0;
+        let won = 0;
+        for (let j = 0; j < CLASS_COUNT; j++) {
+          const combos = compatible[i * CLASS_COUNT + j];
+          const weight = calls[c][j] * combos;
+          total += combos;
+          reach += weight;
+          won += weight * equity[i * CLASS_COUNT + j];
+        }
+        const callChance = reach / total;
+        if (reach > 0) ev += foldedTo * callChance * ((won / reach) * caller.calledPot - pushRisk);
+        foldedTo *= 1 - callChance;
+      });
+      ev += foldedTo * pot;
+      pushResponse[i] = ev > 0 ? 1 : 0;
+    }
+
+    // Fictitious play: move the averages towards the best responses
+    const rate = 1 / (iteration + 1);
+    for (let k = 0; k < CLASS_COUNT; k++) {
+      push[k] += (pushResponse[k] - push[k]) * rate;
+      calls.forEach((call, c) => {
+        call[k] += (callResponses[c][k] - call[k]) * rate;
+      });
+    }
+
+    if (iteration % ITERATIONS_PER_STEP === 0 && iteration < ITERATIONS) {
+      yield { stage: "solving", progress: iteration / ITERATIONS, done: false };
+    }
+  }
+
+  return {
+    stage: "solving",
+    progress: 1,
+    done: true,
+    pusher: toPushFoldRange(request.position, push),
+    callers: callers.map((caller, c) => toPushFoldRange(caller.position, calls[c])),
+  };
+}
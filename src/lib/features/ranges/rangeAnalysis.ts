@@ -0,0 +1,69 @@
+/**
+ * Range Analysis
+ *
+ * Made-hand breakdown of a weighted range on a board: how much of the range
+ * (counted by combo weight) makes each hand category.
+ */
+
+import {
+  HAND_CATEGORIES,
+  evaluateHand,
+  getHandCategory,
+  parseCard,
+} from "@/lib/features/equity/handEvaluator";
+import type { WeightedRange } from "./weightedRange";
+
+export interface RangeAnalysisResult {
+  /** Weighted combos in the range */
+  totalCombos: number;
+  /** Weighted combos left once board cards are removed */
+  validCombos: number;
+  /** Categories the range makes, strongest first */
+  stats: Array<{
+    type: string;
+    count: number;
+    percentage: number;
+  }>;
+}
+
+/**
+ * Analyze a range on a board of 3-5 cards
+ */
+export function analyzeWeightedRange(range: WeightedRange, board: string[]): RangeAnalysisResult {
+  const boardCards = board.map(parseCard);
+  if (boardCards.length < 3 || boardCards.length > 5 || boardCards.includes(-1)) {
+    throw new Error("The board needs three to five valid cards");
+  }
+
+  const hand = new Int32Array(boardCards.length + 2);
+  boardCards.forEach((card, i) => {
+    hand[i + 2] = card;
+  });
+
+  const counts = new Map<string, number>();
+  let totalCombos = 0;
+  let validCombos = 0;
+
+  range.forEach((weight, combo) => {
+    totalCombos += weight;
+    const a = parseCard(combo.slice(0, 2));
+    const b = parseCard(combo.slice(2, 4));
+    if (boardCards.includes(a) || boardCards.includes(b)) return;
+
+    validCombos += weight;
+    hand[0] = a;
+    hand[1] = b;
+    const category = getHandCategory(evaluateHand(hand, hand.length));
+    counts.set(category, (counts.get(category) ?? 0) + weight);
+  });
+
+  const stats = [...HAND_CATEGORIES]
+    .reverse()
+    .filter((category) => counts.has(category))
+    .map((category) => {
+      const count = counts.get(category)!;
+      return { type: category, count, percentage: validCombos > 0 ? (count / validCombos) * 100 : 0 };
+    });
+
+  return { totalCombos, validCombos, stats };
+}
@@ -0,0 +1,78 @@
+/**
+ * Range Formats
+ *
+ * Import and export of range text used by other tools:
+ * - standard: "QQ+,AKs,AQo:0.5" (PokerStove / Equilab notation plus weights)
+ * - pio: PioSOLVER style, every entry with an explicit weight ("AA:1,AQo:0.5")
+ * - brackets: GTO+ / Flopzilla style, weights in percent ("AA,[50]AQo,KJs[/50]")
+ */
+
+import {
+  formatWeightedRange,
+  parseWeightedRange,
+  type WeightedRange,
+} from "./weightedRange";
+
+export type RangeTextFormat = "standard" | "pio" | "brackets";
+
+export const RANGE_TEXT_FORMATS: { value: RangeTextFormat; label: string }[] = [
+  { value: "standard", label: "Standard (PokerStove / Equilab)" },
+  { value: "pio", label: "PioSOLVER" },
+  { value: "brackets", label: "GTO+ / Flopzilla" },
+];
+
+const BRACKET_REGEX = /\[([\d.]+)\]([^[]*?)\[\/\1\]/g;
+
+/**
+ * Turn text in any supported format into standard weighted notation
+ */
+export function normalizeRangeText(text: string): string {
+  // Some tools separate entries with spaces or new lines
+  let normalized = text.trim().replace(/[\s;]+/g, ",");
+
+  normalized = normalized.replace(BRACKET_REGEX, (_, percent: string, entries: string) => {
+    const weight = Number(percent) / 100;
+    return entries
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => `${entry.split(":")[0]}:${weight}`)
+      .join(",");
+  });
+
+  return normalized.replace(/,+/g, ",").replace(/^,|,$/g, "");
+}
+
+export function importRangeText(text: string): WeightedRange {
+  return parseWeightedRange(normalizeRangeText(text));
+}
+
+export function exportRangeText(range: WeightedRange, format: RangeTextFormat): string {
+  const standard = formatWeightedRange(range);
+  if (format === "standard" || !standard) return standard;
+
+  const entries = standard.split(",").map((entry) => {
+    const [hand, weight] = entry.split(":");
+    return { hand, weight: weight === undefined ? 1 : Number(weight) };
+  });
+
+  if (format === "pio") {
+    return entries.map(({ hand, weight }) => `${hand}:${weight}`).join(",");
+  }
+
+  // Brackets: full-weight entries stay plain, the rest are grouped by weight
+  const groups = new Map<number, string[]>();
+  entries.forEach(({ hand, weight }) => {
+    const list = groups.get(weight) ?? [];
+    list.push(hand);
+    groups.set(weight, list);
+  });
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => b - a)
+    .map(([weight, hands]) => {
+      if (weight >= 1) return hands.join(",");
+      const percent = Number((weight * 100).toFixed(1));
+      return `[${percent}]${hands.join(",")}[/${percent}]`;
+    })
+    .join(",");
+}
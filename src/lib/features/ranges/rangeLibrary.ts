@@ -0,0 +1,113 @@
+/**
+ * Range Library
+ *
+ * Row transforms and validation for user-saved ranges, shared by the
+ * /api/ranges routes and the library UI.
+ */
+
+import type {
+  SharedRange,
+  SharedRangeRow,
+  UserRange,
+  UserRangeRow,
+  UserRangeVersion,
+  UserRangeVersionRow,
+} from "@/lib/types/ranges";
+import { parseWeightedRange } from "./weightedRange";
+
+export const USER_RANGE_COLUMNS =
+  "id, owner_id, name, folder, range_string, version, share_token, club_id, created_at, updated_at";
+
+export const MAX_RANGE_NAME_LENGTH = 80;
+export const MAX_FOLDER_LENGTH = 80;
+export const MAX_RANGE_STRING_LENGTH = 20000;
+
+export function transformUserRangeRow(row: UserRangeRow): UserRange {
+  return {
+    id: row.id,
+    ownerId: row.owner_id,
+    name: row.name,
+    folder: row.folder || "",
+    rangeString: row.range_string,
+    version: row.version,
+    shareToken: row.share_token,
+    clubId: row.club_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function transformUserRangeVersionRow(row: UserRangeVersionRow): UserRangeVersion {
+  return {
+    version: row.version,
+    rangeString: row.range_string,
+    createdAt: row.created_at,
+  };
+}
+
+export function transformSharedRangeRow(row: SharedRangeRow): SharedRange {
+  return {
+    name: row.name,
+    folder: row.folder || "",
+    rangeString: row.range_string,
+    version: row.version,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Check a name / folder / range string before saving. Returns an error message,
+ * or null when the values are fine. Fields left undefined are not checked.
+ */
+export function validateUserRange(fields: {
+  name?: string;
+  folder?: string;
+  rangeString?: string;
+}): string | null {
+  if (fields.name !== undefined) {
+    const name = fields.name.trim();
+    if (!name || name.length > MAX_RANGE_NAME_LENGTH) {
+      return `Range name must be between 1 and ${MAX_RANGE_NAME_LENGTH} characters`;
+    }
+  }
+  if (fields.folder !== undefined && fields.folder.trim().length > MAX_FOLDER_LENGTH) {
+    return `Folder name must be at most ${MAX_FOLDER_LENGTH} characters`;
+  }
+  if (fields.rangeString !== undefined) {
+    if (fields.rangeString.length > MAX_RANGE_STRING_LENGTH) {
+      return "Range is too long";
+    }
+    if (parseWeightedRange(fields.rangeString).size === 0) {
+      return "Range has no valid hands";
+    }
+  }
+  return null;
+}
+
+/** Random token for share links */
+export function generateShareToken(): string {
+  return crypto.randomUUID().replace(/-/g, "");
+}
+
+/**
+ * Ranges grouped by folder, folders sorted by name with unfiled ranges last
+ */
+export function groupRangesByFolder(ranges: UserRange[]): { folder: string; ranges: UserRange[] }[] {
+  const folders = new Map<string, UserRange[]>();
+  ranges.forEach((range) => {
+    const list = folders.get(range.folder) ?? [];
+    list.push(range);
+    folders.set(range.folder, list);
+  });
+
+  return Array.from(folders.entries())
+    .sort(([a], [b]) => {
+      if (!a) return 1;
+      if (!b) return -1;
+      return a.localeCompare(b);
+    })
+    .map(([folder, list]) => ({
+      folder,
+      ranges: list.sort((a, b) => a.name.localeCompare(b.name)),
+    }));
+}
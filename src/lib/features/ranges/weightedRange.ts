@@ -0,0 +1,178 @@
+/**
+ * Weighted Ranges
+ *
+ * A range where every combo carries a frequency between 0 and 1. The string
+ * notation extends `parseRange` with an optional weight per entry and with
+ * specific combos: "QQ+,AQo:0.5,KJs:0.25,AhKh,AsKs:0.5". Entries without a
+ * weight are played every time; later entries override earlier ones.
+ */
+
+// @ts-ignore - Importing from shared backend
+import { parseRange } from "@backend/domain/evaluation/RangeParser";
+import { ALL_HAND_CLASSES, RANK_ORDER } from "./handClasses";
+
+/** Combo ("AhKh", higher rank first) -> weight in (0, 1] */
+export type WeightedRange = Map<string, number>;
+
+export interface WeightedCombo {
+  cards: [string, string];
+  weight: number;
+}
+
+/** Suit order used for combo keys and the combo picker */
+export const SUIT_ORDER = "shdc";
+
+const COMBO_REGEX = /^[2-9TJQKA][shdc][2-9TJQKA][shdc]$/i;
+
+const normalizeCard = (card: string) => card[0].toUpperCase() + card[1].toLowerCase();
+
+/**
+ * Canonical key for two cards: higher rank first, then suit in SUIT_ORDER
+ */
+export function comboKey(a: string, b: string): string {
+  const first = normalizeCard(a);
+  const second = normalizeCard(b);
+  const rankDiff = RANK_ORDER.indexOf(first[0]) - RANK_ORDER.indexOf(second[0]);
+  const firstHigh =
+    rankDiff < 0 || (rankDiff === 0 && SUIT_ORDER.indexOf(first[1]) <= SUIT_ORDER.indexOf(second[1]));
+  return firstHigh ? first + second : second + first;
+}
+
+/**
+ * Every combo of a hand class: 6 for pairs, 4 suited, 12 offsuit
+ */
+export function getHandClassCombos(handClass: string): string[] {
+  const [high, low, kind] = handClass;
+  const combos: string[] = [];
+  for (let i = 0; i < 4; i++) {
+    for (let j = 0; j < 4; j++) {
+      if (high === low ? j <= i : kind === "s" ? i !== j : i === j) continue;
+      combos.push(comboKey(high + SUIT_ORDER[i], low + SUIT_ORDER[j]));
+    }
+  }
+  return combos;
+}
+
+const HAND_CLASS_SET = new Set(ALL_HAND_CLASSES);
+
+/**
+ * Parse weighted range notation. Invalid entries are skipped.
+ */
+export function parseWeightedRange(range: string): WeightedRange {
+  const weighted: WeightedRange = new Map();
+
+  for (const token of range.split(",")) {
+    const [rawExpr, rawWeight] = token.split(":");
+    const expr = rawExpr.trim();
+    if (!expr) continue;
+
+    const weight = rawWeight === undefined ? 1 : Math.min(1, Number(rawWeight));
+    if (Number.isNaN(weight)) continue;
+
+    let combos: string[];
+    if (COMBO_REGEX.test(expr)) {
+      combos = [comboKey(expr.slice(0, 2), expr.slice(2, 4))];
+    } else if (HAND_CLASS_SET.has(expr)) {
+      combos = getHandClassCombos(expr);
+    } else {
+      try {
+        combos = (parseRange(expr) as string[][]).map(([a, b]) => comboKey(a, b));
+      } catch (error) {
+        console.error("[Ranges] Failed to parse range entry:", expr, error);
+        continue;
+      }
+    }
+
+    combos.forEach((combo) => {
+      if (weight > 0) weighted.set(combo, weight);
+      else weighted.delete(combo);
+    });
+  }
+
+  return weighted;
+}
+
+const formatWeight = (weight: number) => (weight >= 1 ? "" : `:${Number(weight.toFixed(3))}`);
+
+/**
+ * Write a range back as notation: whole hand classes where every combo shares
+ * a weight, single combos otherwise.
+ */
+export function formatWeightedRange(range: WeightedRange): string {
+  const entries: string[] = [];
+
+  ALL_HAND_CLASSES.forEach((handClass) => {
+    const combos = getHandClassCombos(handClass);
+    const weights = combos.map((combo) => range.get(combo) ?? 0);
+    if (weights.every((w) => w === 0)) return;
+
+    if (weights.every((w) => w === weights[0])) {
+      entries.push(handClass + formatWeight(weights[0]));
+      return;
+    }
+    combos.forEach((combo, i) => {
+      if (weights[i] > 0) entries.push(combo + formatWeight(weights[i]));
+    });
+  });
+
+  return entries.join(",");
+}
+
+/**
+ * Share of each hand class in the range (0-1): the weights of its combos
+ * over its total combo count. Classes not in the range are left out.
+ */
+export function getHandClassWeights(range: WeightedRange): Map<string, number> {
+  const classWeights = new Map<string, number>();
+  ALL_HAND_CLASSES.forEach((handClass) => {
+    const combos = getHandClassCombos(handClass);
+    const total = combos.reduce((sum, combo) => sum + (range.get(combo) ?? 0), 0);
+    if (total > 0) classWeights.set(handClass, total / combos.length);
+  });
+  return classWeights;
+}
+
+/** Total weighted combos in the range */
+export function countWeightedCombos(range: WeightedRange): number {
+  let total = 0;
+  range.forEach((weight) => {
+    total += weight;
+  });
+  return total;
+}
+
+export function setHandClassWeight(range: WeightedRange, handClass: string, weight: number): WeightedRange {
+  const next = new Map(range);
+  getHandClassCombos(handClass).forEach((combo) => {
+    if (weight > 0) next.set(combo, Math.min(1, weight));
+    else next.delete(combo);
+  });
+  return next;
+}
+
+export function setComboWeight(range: WeightedRange, combo: string, weight: number): WeightedRange {
+  const next = new Map(range);
+  if (weight > 0) next.set(combo, Math.min(1, weight));
+  else next.delete(combo);
+  return next;
+}
+
+/**
+ * Grid click: paint the class at `weight`, or remove it if it is already
+ * painted at exactly that weight.
+ */
+export function toggleHandClass(range: WeightedRange, handClass: string, weight: number): WeightedRange {
+  const combos = getHandClassCombos(handClass);
+  const alreadyPainted = combos.every((combo) => range.get(combo) === weight);
+  return setHandClassWeight(range, handClass, alreadyPainted ? 0 : weight);
+}
+
+/**
+ * Expand notation into weighted combos for calculations
+ */
+export function expandWeightedRange(range: string): WeightedCombo[] {
+  return Array.from(parseWeightedRange(range), ([combo, weight]) => ({
+    cards: [combo.slice(0, 2), combo.slice(2, 4)],
+    weight,
+  }));
+}
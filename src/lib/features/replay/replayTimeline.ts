@@ -0,0 +1,220 @@
+/**
+ * Replay Timeline
+ *
+ * Labels every replay frame with what happened in it ("BTN raises 6",
+ * "Flop Ah 7d 2c") and finds where each street starts, for the scrubber,
+ * the action log and street-by-street navigation.
+ */
+
+import { buildHandTimeline, type HandEvent } from "@/lib/features/handHistory/handTimeline";
+import { getSeatPosition } from "@/lib/features/handHistory/positions";
+import { cardIndexToString } from "@/lib/features/handHistory/codec";
+import type { GameState } from "@/lib/types/poker";
+import type { ReplayFrame, ReplayInput } from "./ReplayOrchestrator";
+
+export type ReplayStreet = GameState["currentPhase"];
+
+export interface ReplayTimelineEntry {
+  frameIndex: number;
+  /** Action that produced the frame (-1 for the setup frames) */
+  actionIndex: number;
+  street: ReplayStreet;
+  label: string;
+  /** The frame deals a street or reaches showdown rather than showing a player's action */
+  isStreetStart: boolean;
+}
+
+export interface ReplayStreetMarker {
+  street: ReplayStreet;
+  /** First frame of the street */
+  frameIndex: number;
+}
+
+export interface ReplayTimeline {
+  entries: ReplayTimelineEntry[];
+  streets: ReplayStreetMarker[];
+}
+
+/** URL parameter that opens a replay at an action index */
+export const REPLAY_ACTION_PARAM = "action";
+/** URL parameter naming the stored hand the hand history page opens */
+export const REPLAY_HAND_PARAM = "hand";
+
+export const REPLAY_STREET_LABELS: Record<ReplayStreet, string> = {
+  waiting: "Deal",
+  preflop: "Preflop",
+  flop: "Flop",
+  turn: "Turn",
+  river: "River",
+  showdown: "Showdown",
+};
+
+/** Cards each street adds to the board */
+const STREET_CARDS: Partial<Record<ReplayStreet, [number, number]>> = {
+  flop: [0, 3],
+  turn: [3, 4],
+  river: [4, 5],
+};
+
+function describeEvent(event: HandEvent): string {
+  const allIn = event.allIn ? " all-in" : "";
+  switch (event.kind) {
+    case "ante":
+      return `posts ante ${event.amount}`;
+    case "small_blind":
+      return `posts SB ${event.amount}`;
+    case "big_blind":
+      return `posts BB ${event.amount}`;
+    case "fold":
+      return "folds";
+    case "check":
+      return "checks";
+    case "call":
+      return `calls ${event.amount}${allIn}`;
+    case "bet":
+      return `bets ${event.total ?? event.amount}${allIn}`;
+    case "raise":
+      return `raises ${event.total ?? event.amount}${allIn}`;
+    case "win":
+      return `wins ${event.amount}`;
+    default:
+      return event.kind;
+  }
+}
+
+/**
+ * Street boundaries: the first frame of every street the replay reaches
+ */
+export function getReplayStreetMarkers(frames: ReplayFrame[]): ReplayStreetMarker[] {
+  const markers: ReplayStreetMarker[] = [];
+  frames.forEach((frame, frameIndex) => {
+    const street = frame.state.currentPhase;
+    if (street === "waiting") return;
+    if (markers[markers.length - 1]?.street !== street) {
+      markers.push({ street, frameIndex });
+    }
+  });
+  return markers;
+}
+
+/**
+ * Frame to jump to when stepping a street forward or back. Going back from
+ * inside a street returns to its start first. Null when there is nowhere to go.
+ */
+export function getAdjacentStreetFrame(
+  markers: ReplayStreetMarker[],
+  frameIndex: number,
+  direction: 1 | -1
+): number | null {
+  if (direction === 1) {
+    return markers.find((marker) => marker.frameIndex > frameIndex)?.frameIndex ?? null;
+  }
+  const previous = markers.filter((marker) => marker.frameIndex < frameIndex);
+  return previous[previous.length - 1]?.frameIndex ?? (frameIndex > 0 ? 0 : null);
+}
+
+/**
+ * First frame showing an action (or the last frame if the replay stops before it)
+ */
+export function getActionFrameIndex(frames: ReplayFrame[], actionIndex: number): number {
+  if (frames.length === 0) return 0;
+  const frameIndex = frames.findIndex((frame) => frame.actionIndex >= actionIndex);
+  return frameIndex === -1 ? frames.length - 1 : frameIndex;
+}
+
+/**
+ * Action index from a deep-link parameter; undefined when missing or invalid
+ */
+export function parseReplayActionParam(value: string | null | undefined): number | undefined {
+  if (!value || !/^\d+$/.test(value)) return undefined;
+  return parseInt(value, 10);
+}
+
+/**
+ * A link that opens the replay at `baseUrl` at an action
+ */
+export function getReplayActionUrl(baseUrl: string, actionIndex: number): string {
+  const url = new URL(baseUrl);
+  url.searchParams.set(REPLAY_ACTION_PARAM, String(Math.max(0, actionIndex)));
+  return url.toString();
+}
+
+/**
+ * Label every frame of a replay. Players are named by table position;
+ * frames that deal a street show the new board cards.
+ */
+export function buildReplayTimeline(input: ReplayInput, frames: ReplayFrame[]): ReplayTimeline {
+  let eventsByAction = new Map<number, HandEvent>();
+  let seatNames: string[] = [];
+  try {
+    const timeline = buildHandTimeline(
+      {
+        player_manifest: input.manifest,
+        config: {
+          gameType: input.variant,
+          sb: input.config?.blinds?.small,
+          bb: input.config?.blinds?.big,
+        },
+        winner_id: null,
+        final_pot: 0,
+      },
+      {
+        startingStacks: input.startingStacks,
+        actions: input.actions,
+        board: input.board,
+        holeCards: input.holeCards,
+      }
+    );
+    eventsByAction = new Map(
+      timeline.events
+        .filter((event) => event.actionIndex >= 0)
+        .map((event) => [event.actionIndex, event])
+    );
+    seatNames = timeline.seats.map(
+      (_, index) =>
+        getSeatPosition(index, timeline.buttonIndex, timeline.seats.length) ?? `Seat ${index + 1}`
+    );
+  } catch (error) {
+    // Labels fall back to action numbers; the replay itself still works
+    console.error("[ReplayTimeline] Failed to build hand timeline:", error);
+  }
+
+  const seatName = (seatIndex: number) => seatNames[seatIndex] ?? `Seat ${seatIndex + 1}`;
+
+  const describeAction = (actionIndex: number) => {
+    const action = input.actions[actionIndex];
+    const event = eventsByAction.get(actionIndex);
+    if (action && event) return `${seatName(action.seatIndex)} ${describeEvent(event)}`;
+    if (action?.cards?.length) {
+      return `${seatName(action.seatIndex)} shows ${action.cards.map(cardIndexToString).join(" ")}`;
+    }
+    return `Action ${actionIndex + 1}`;
+  };
+
+  const entries = frames.map((frame, frameIndex): ReplayTimelineEntry => {
+    const street = frame.state.currentPhase;
+    const previous = frames[frameIndex - 1];
+    // Streets dealt after an action share its index but change the phase
+    const isStreetStart =
+      frameIndex > 0 &&
+      street !== previous.state.currentPhase &&
+      frame.actionIndex === previous.actionIndex;
+
+    let label: string;
+    if (frame.actionIndex < 0) {
+      label = frameIndex === 0 ? "Hand starts" : "Blinds posted, cards dealt";
+    } else if (isStreetStart) {
+      const range = STREET_CARDS[street];
+      const cards = range
+        ? frame.state.communityCards.slice(...range).filter((card) => card && card !== "HIDDEN")
+        : [];
+      label = [REPLAY_STREET_LABELS[street], ...cards].join(" ");
+    } else {
+      label = describeAction(frame.actionIndex);
+    }
+
+    return { frameIndex, actionIndex: frame.actionIndex, street, label, isStreetStart };
+  });
+
+  return { entries, streets: getReplayStreetMarkers(frames) };
+}
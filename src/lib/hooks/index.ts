@@ -6,4 +6,9 @@ export { useGameRedirect } from './useGameRedirect';
 export { useLocalGameStore } from './useLocalGameStore';
 export { useIsMobile } from './useIsMobile';
 export { useUserProfile } from './useUserProfile';
-
+export { usePlayerHud } from './usePlayerHud';
+export { usePlayerNotes } from './usePlayerNotes';
+export { useEquity, useRangeBreakdown, useRunouts, useFlopTextures, usePushFold, useReplayEquity } from './useEquity';
+export { usePostflopStats } from './usePostflopStats';
+export { useHandHistory } from './useHandHistory';
+export { useHandReviews, useHandComments } from './useHandReviews';
@@ -0,0 +1,184 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { EquityWorkerClient } from '@/lib/features/equity/EquityWorkerClient'
+import type {
+  EquityJobHandlers,
+  EquityOptions,
+  EquityRequest,
+  EquityResult,
+} from '@/lib/features/equity/equityEngine'
+import type {
+  RangeBreakdownRequest,
+  RangeBreakdownResult,
+} from '@/lib/features/equity/rangeBreakdown'
+import type { RunoutResult } from '@/lib/features/equity/runoutExplorer'
+import type {
+  ReplayEquityRequest,
+  ReplayEquityResult,
+} from '@/lib/features/equity/replayEquity'
+import type {
+  FlopTextureRequest,
+  FlopTextureResult,
+} from '@/lib/features/ranges/flopTextures'
+import type {
+  PushFoldRequest,
+  PushFoldResult,
+} from '@/lib/features/ranges/pushFold'
+
+interface UseEquityOptions extends EquityOptions {
+  /** Wait this long after the last input change before starting (ms) */
+  debounceMs?: number
+}
+
+type StartJob<TRequest, TResult> = (
+  client: EquityWorkerClient,
+  request: TRequest,
+  handlers: EquityJobHandlers<TResult>,
+  options: EquityOptions
+) => void
+
+const startEquity: StartJob<EquityRequest, EquityResult> = (client, request, handlers, options) =>
+  client.run(request, handlers, options)
+
+const startBreakdown: StartJob<RangeBreakdownRequest, RangeBreakdownResult> = (
+  client,
+  request,
+  handlers,
+  options
+) => client.runBreakdown(request, handlers, options)
+
+const startRunouts: StartJob<EquityRequest, RunoutResult> = (client, request, handlers, options) =>
+  client.runRunouts(request, handlers, options)
+
+const startTextures: StartJob<FlopTextureRequest, FlopTextureResult> = (client, request, handlers) =>
+  client.runTextures(request, handlers)
+
+const startPushFold: StartJob<PushFoldRequest, PushFoldResult> = (client, request, handlers) =>
+  client.runPushFold(request, handlers)
+
+const startReplay: StartJob<ReplayEquityRequest, ReplayEquityResult> = (
+  client,
+  request,
+  handlers,
+  options
+) => client.runReplay(request, handlers, options)
+
+function useEquityJob<TRequest, TResult>(
+  request: TRequest | null,
+  options: UseEquityOptions,
+  start: StartJob<TRequest, TResult>
+) {
+  const { debounceMs = 300, maxIterations, exactLimit, targetMargin } = options
+  const clientRef = useRef<EquityWorkerClient | null>(null)
+  const [result, setResult] = useState<TResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isCalculating, setIsCalculating] = useState(false)
+
+  // Inputs are compared by value so callers can build the request inline
+  const requestKey = request ? JSON.stringify(request) : null
+
+  useEffect(() => {
+    const client = new EquityWorkerClient()
+    clientRef.current = client
+    return () => {
+      client.dispose()
+      clientRef.current = null
+    }
+  }, [])
+
+  useEffect(() => {
+    const client = clientRef.current
+    client?.cancel()
+
+    if (!requestKey || !client) {
+      setResult(null)
+      setError(null)
+      setIsCalculating(false)
+      return
+    }
+
+    const timeoutId = setTimeout(() => {
+      setIsCalculating(true)
+      setError(null)
+      start(
+        client,
+        JSON.parse(requestKey) as TRequest,
+        {
+          onProgress: setResult,
+          onDone: (final) => {
+            setResult(final)
+            setIsCalculating(false)
+          },
+          onError: (message) => {
+            setResult(null)
+            setError(message)
+            setIsCalculating(false)
+          },
+        },
+        { maxIterations, exactLimit, targetMargin }
+      )
+    }, debounceMs)
+
+    return () => {
+      clearTimeout(timeoutId)
+      client.cancel()
+    }
+  }, [requestKey, debounceMs, maxIterations, exactLimit, targetMargin, start])
+
+  const cancel = useCallback(() => {
+    clientRef.current?.cancel()
+    setIsCalculating(false)
+  }, [])
+
+  return { result, error, isCalculating, cancel }
+}
+
+/**
+ * Live equity for a set of hands/ranges, calculated in a Web Worker.
+ * Pass `null` to clear. Results stream in while Monte Carlo runs; a new
+ * request cancels the one in flight.
+ */
+export function useEquity(request: EquityRequest | null, options: UseEquityOptions = {}) {
+  return useEquityJob(request, options, startEquity)
+}
+
+/**
+ * Hero's equity against each hand class of a villain range, with win/tie/lose
+ * splits. Same streaming and cancellation behaviour as `useEquity`.
+ */
+export function useRangeBreakdown(request: RangeBreakdownRequest | null, options: UseEquityOptions = {}) {
+  return useEquityJob(request, options, startBreakdown)
+}
+
+/**
+ * Equity after every possible next card on a flop or turn, grouped by who the
+ * card helps. Cards stream in as they are calculated.
+ */
+export function useRunouts(request: EquityRequest | null, options: UseEquityOptions = {}) {
+  return useEquityJob(request, options, startRunouts)
+}
+
+/**
+ * Made-hand categories of a range across all distinct flops (or a filtered
+ * subset), grouped by texture. Results stream in as flops are analysed.
+ */
+export function useFlopTextures(request: FlopTextureRequest | null, options: UseEquityOptions = {}) {
+  return useEquityJob(request, options, startTextures)
+}
+
+/**
+ * Push/fold equilibrium ranges for a first-in shove. The first run builds a
+ * preflop equity table, which takes a few seconds; progress streams in.
+ */
+export function usePushFold(request: PushFoldRequest | null, options: UseEquityOptions = {}) {
+  return useEquityJob(request, options, startPushFold)
+}
+
+/**
+ * Equity at every distinct spot of a replayed hand (see buildReplayEquityPlan).
+ * Spots fill in one after another as they are calculated.
+ */
+export function useReplayEquity(request: ReplayEquityRequest | null, options: UseEquityOptions = {}) {
+  return useEquityJob(request, options, startReplay)
+}
@@ -0,0 +1,126 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  fetchHandHistoryPage,
+  type HandHistoryCursor,
+  type HandHistoryQuery,
+} from '@/lib/api/supabase/handHistory'
+import { loadLocalHands } from '@/lib/features/game/localHandHistory'
+import {
+  getDayAfter,
+  isFullGameId,
+  matchesHandFilters,
+  type HandHistoryFilters,
+} from '@/lib/features/handHistory/handFilters'
+import { getErrorMessage } from '@/lib/utils'
+import type { HandSummary } from '@/lib/types/handHistory'
+
+/** Hands added per "load more" */
+const PAGE_SIZE = 25
+/** Rows per database request while filling a page */
+const FETCH_SIZE = 100
+/** Rows scanned per "load more" before returning a short page, so rare filters can't hang */
+const MAX_SCAN = 1000
+
+const newestFirst = (a: HandSummary, b: HandSummary) =>
+  new Date(b.played_at).getTime() - new Date(a.played_at).getTime()
+
+function toQuery(filters: HandHistoryFilters): HandHistoryQuery {
+  return {
+    playedFrom: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : undefined,
+    playedBefore: filters.to ? getDayAfter(filters.to).toISOString() : undefined,
+    gameId: filters.gameId && isFullGameId(filters.gameId) ? filters.gameId.trim() : undefined,
+    minPot: filters.minPot,
+    maxPot: filters.maxPot,
+  }
+}
+
+/**
+ * The user's hand history, newest first, with cursor pagination. Filters the
+ * database can't apply run on each fetched page, and local bot-game hands are
+ * merged in at their place in time.
+ */
+export function useHandHistory(userId: string | null, filters: HandHistoryFilters) {
+  const [hands, setHands] = useState<HandSummary[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [hasMore, setHasMore] = useState(false)
+
+  const cursorRef = useRef<HandHistoryCursor | null>(null)
+  const exhaustedRef = useRef(false)
+  /** Matching hands fetched but not shown yet */
+  const pendingRef = useRef<HandSummary[]>([])
+  const localRef = useRef<HandSummary[]>([])
+  const loadingRef = useRef(false)
+  const generationRef = useRef(0)
+
+  // Filters are compared by value so callers can build them inline
+  const filterKey = JSON.stringify(filters)
+
+  const loadPage = useCallback(async () => {
+    if (!userId || loadingRef.current) return
+    const parsedFilters = JSON.parse(filterKey) as HandHistoryFilters
+    const generation = generationRef.current
+    loadingRef.current = true
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      let scanned = 0
+      while (pendingRef.current.length < PAGE_SIZE && !exhaustedRef.current && scanned < MAX_SCAN) {
+        const page = await fetchHandHistoryPage(toQuery(parsedFilters), cursorRef.current, FETCH_SIZE)
+        if (generation !== generationRef.current) return
+        scanned += page.hands.length
+        pendingRef.current.push(
+          ...page.hands.filter((hand) => matchesHandFilters(hand, parsedFilters, userId))
+        )
+        cursorRef.current = page.nextCursor
+        exhaustedRef.current = page.nextCursor === null
+      }
+
+      const shown = pendingRef.current.splice(0, PAGE_SIZE)
+      // Everything newer than this has been fetched, so local hands up to it can be shown
+      const boundary =
+        pendingRef.current.length > 0
+          ? shown[shown.length - 1]?.played_at
+          : exhaustedRef.current
+            ? null
+            : cursorRef.current?.playedAt
+      const boundaryTime = boundary ? new Date(boundary).getTime() : -Infinity
+      const local = localRef.current.filter((hand) => new Date(hand.played_at).getTime() >= boundaryTime)
+      localRef.current = localRef.current.slice(local.length)
+
+      setHands((prev) => [...prev, ...[...shown, ...local].sort(newestFirst)])
+      setHasMore(
+        pendingRef.current.length > 0 || !exhaustedRef.current || localRef.current.length > 0
+      )
+    } catch (err: unknown) {
+      if (generation === generationRef.current) setError(getErrorMessage(err))
+    } finally {
+      if (generation === generationRef.current) {
+        loadingRef.current = false
+        setIsLoading(false)
+      }
+    }
+  }, [userId, filterKey])
+
+  // New filters start over from the newest hand
+  useEffect(() => {
+    generationRef.current++
+    loadingRef.current = false
+    cursorRef.current = null
+    exhaustedRef.current = false
+    pendingRef.current = []
+    localRef.current = userId
+      ? loadLocalHands(userId).filter((hand) =>
+          matchesHandFilters(hand, JSON.parse(filterKey) as HandHistoryFilters, userId)
+        )
+      : []
+    setHands([])
+    setHasMore(false)
+    loadPage()
+  }, [userId, filterKey, loadPage])
+
+  return { hands, isLoading, error, hasMore, loadMore: loadPage }
+}
@@ -0,0 +1,147 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { createClientComponentClient } from '@/lib/api/supabase/client'
+import {
+  addHandComment,
+  deleteHandComment,
+  deleteHandReview,
+  fetchHandComments,
+  fetchHandReviews,
+  saveHandReview,
+} from '@/lib/api/supabase/handReviews'
+import type { HandComment, HandReview } from '@/lib/types/handReviews'
+
+function useOwnerId(enabled: boolean) {
+  const supabase = createClientComponentClient()
+  const [ownerId, setOwnerId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!enabled) return
+    supabase.auth.getUser().then(({ data }) => {
+      setOwnerId(data.user?.id ?? null)
+    })
+  }, [enabled, supabase])
+
+  return ownerId
+}
+
+/**
+ * The signed-in user's stars and tags on the given hands, keyed by hand id.
+ * Pass `enabled: false` (e.g. local bot hands) to skip loading entirely.
+ */
+export function useHandReviews(handIds: string[], enabled = true) {
+  const ownerId = useOwnerId(enabled)
+  const [reviews, setReviews] = useState<Record<string, HandReview>>({})
+  const [version, setVersion] = useState(0)
+
+  // Only refetch when the set of hands changes, not on every render
+  const handKey = Array.from(new Set(handIds.filter(Boolean))).sort().join(',')
+
+  useEffect(() => {
+    if (!enabled || !ownerId || !handKey) {
+      setReviews({})
+      return
+    }
+
+    let cancelled = false
+    fetchHandReviews(ownerId, handKey.split(',')).then((result) => {
+      if (!cancelled) setReviews(result)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [enabled, ownerId, handKey, version])
+
+  /** Reload after the reviews were edited elsewhere (e.g. in the replay viewer) */
+  const refresh = useCallback(() => setVersion((v) => v + 1), [])
+
+  const saveReview = useCallback(
+    async (handId: string, starred: boolean, tags: string[]) => {
+      if (!ownerId) return false
+
+      // An unstarred, untagged hand has no review
+      if (!starred && tags.length === 0) {
+        const deleted = await deleteHandReview(ownerId, handId)
+        if (deleted) {
+          setReviews((prev) => {
+            const next = { ...prev }
+            delete next[handId]
+            return next
+          })
+        }
+        return deleted
+      }
+
+      const saved = await saveHandReview(ownerId, handId, starred, tags)
+      if (saved) {
+        setReviews((prev) => ({ ...prev, [handId]: saved }))
+      }
+      return saved !== null
+    },
+    [ownerId]
+  )
+
+  const toggleStar = useCallback(
+    (handId: string) => {
+      const review = reviews[handId]
+      return saveReview(handId, !review?.starred, review?.tags ?? [])
+    },
+    [reviews, saveReview]
+  )
+
+  return { reviews, saveReview, toggleStar, refresh, canEdit: enabled && ownerId !== null }
+}
+
+/**
+ * The signed-in user's comments on one hand, in action order
+ */
+export function useHandComments(handId: string | null, enabled = true) {
+  const ownerId = useOwnerId(enabled)
+  const [comments, setComments] = useState<HandComment[]>([])
+
+  useEffect(() => {
+    if (!enabled || !ownerId || !handId) {
+      setComments([])
+      return
+    }
+
+    let cancelled = false
+    fetchHandComments(ownerId, [handId]).then((result) => {
+      if (!cancelled) setComments(result)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [enabled, ownerId, handId])
+
+  const addComment = useCallback(
+    async (actionIndex: number, comment: string) => {
+      if (!ownerId || !handId || !comment.trim()) return false
+
+      const saved = await addHandComment(ownerId, handId, actionIndex, comment.trim())
+      if (saved) {
+        setComments((prev) =>
+          [...prev, saved].sort((a, b) => a.actionIndex - b.actionIndex)
+        )
+      }
+      return saved !== null
+    },
+    [ownerId, handId]
+  )
+
+  const deleteComment = useCallback(
+    async (commentId: string) => {
+      if (!ownerId) return false
+
+      const deleted = await deleteHandComment(ownerId, commentId)
+      if (deleted) {
+        setComments((prev) => prev.filter((comment) => comment.id !== commentId))
+      }
+      return deleted
+    },
+    [ownerId]
+  )
+
+  return { comments, addComment, deleteComment, canEdit: enabled && ownerId !== null && !!handId }
+}
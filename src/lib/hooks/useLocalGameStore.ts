@@ -2,57 +2,125 @@
 
 import { create } from 'zustand';
 import { LocalGameManager } from '../features/game/LocalGameManager';
+import { DEFAULT_TABLE_SETUP, type LocalTableSetup } from '../features/game/botSetup';
+import {
+  clearLocalSession,
+  saveLocalSession,
+  summarizeLocalSession,
+  type LocalSessionSummary,
+  type SavedLocalSession,
+} from '../features/game/localSession';
+import { finishHandRecord, saveLocalHand } from '../features/game/localHandHistory';
 import { v4 as uuidv4 } from 'uuid';
 
 interface LocalGameStore {
   manager: LocalGameManager | null;
   gameState: any | null;
   heroId: string | null;
+  /** Setup the current game was started with (reused by newGame) */
+  tableSetup: LocalTableSetup;
+  sessionStartedAt: string | null;
   
-  startLocalGame: (config?: {
-    maxPlayers?: number;
-    blinds?: { small: number; big: number };
-    buyIn?: number;
-    startingStack?: number;
-  }) => void;
+  startLocalGame: (setup?: LocalTableSetup) => void;
+  /** Continue a session saved in localStorage */
+  resumeLocalGame: (session: SavedLocalSession) => void;
   playerAction: (type: string, amount?: number) => void;
-  leaveLocalGame: () => void;
+  /** Stop the engine but keep the saved session so it can be resumed */
+  suspendLocalGame: () => void;
+  /** End the session for good, returning its summary */
+  leaveLocalGame: () => LocalSessionSummary | null;
   newGame: () => void;
 }
 
+function createManager(
+  setup: LocalTableSetup,
+  heroId: string,
+  startedAt: string,
+  onStateUpdate: (state: any) => void,
+  resume?: SavedLocalSession
+): LocalGameManager {
+  // Config object with defaults for local games
+  const gameConfig = {
+    maxPlayers: setup.opponents.length + 1,
+    blinds: setup.blinds,
+    buyIn: 0, // Free for local games
+    startingStack: setup.startingStack,
+    opponents: setup.opponents,
+    variantSlug: 'local',
+    actionTimeoutMs: 30000, // 30 seconds for local games
+  };
+
+  return new LocalGameManager(gameConfig, heroId, onStateUpdate, {
+    resume,
+    // Save after every transition so a refresh can pick up where it left off
+    onPersist: (snapshot) => {
+      saveLocalSession({
+        ...snapshot,
+        version: 1,
+        heroId,
+        tableSetup: setup,
+        startedAt,
+        updatedAt: new Date().toISOString(),
+      });
+    },
+    // The hero id is generated per session, so it doubles as the hands' game id
+    onHandComplete: (record, endStacks) => {
+      const hand = finishHandRecord(record, endStacks, heroId, heroId);
+      if (hand) saveLocalHand(hand);
+    },
+  });
+}
+
 export const useLocalGameStore = create<LocalGameStore>((set, get) => ({
   manager: null,
   gameState: null,
   heroId: null,
+  tableSetup: DEFAULT_TABLE_SETUP,
+  sessionStartedAt: null,
 
-  startLocalGame: (config = {}) => {
-    // 1. Cleanup old game
+  startLocalGame: (setup = get().tableSetup) => {
+    // 1. Cleanup old game (a new game replaces any saved session)
     const { manager } = get();
     if (manager) manager.cleanup();
+    clearLocalSession();
 
     // 2. Generate Hero ID ONCE
     const newHeroId = uuidv4(); 
+    const startedAt = new Date().toISOString();
     
-    // 3. Create config object with defaults for local games
-    const gameConfig = {
-      maxPlayers: config.maxPlayers || 6,
-      blinds: config.blinds || { small: 1, big: 2 },
-      buyIn: config.buyIn || 0, // Free for local games
-      startingStack: config.startingStack || 200,
-      variantSlug: 'local',
-      actionTimeoutMs: 30000, // 30 seconds for local games
-    };
-    
-    // 4. Initialize Manager with config object
-    const newManager = new LocalGameManager(gameConfig, newHeroId, (state) => {
-      // Callback: Update store whenever engine changes
+    // 3. Initialize Manager (callback updates store whenever engine changes)
+    const newManager = createManager(setup, newHeroId, startedAt, (state) => {
       set({ gameState: state });
     });
 
-    // 5. Set Store State explicitly with the ID we just created
+    // 4. Set Store State explicitly with the ID we just created
     set({ 
       manager: newManager, 
       heroId: newHeroId, 
+      tableSetup: setup,
+      sessionStartedAt: startedAt,
+    });
+  },
+
+  resumeLocalGame: (session: SavedLocalSession) => {
+    const { manager } = get();
+    if (manager) manager.cleanup();
+
+    const resumedManager = createManager(
+      session.tableSetup,
+      session.heroId,
+      session.startedAt,
+      (state) => {
+        set({ gameState: state });
+      },
+      session
+    );
+
+    set({
+      manager: resumedManager,
+      heroId: session.heroId,
+      tableSetup: session.tableSetup,
+      sessionStartedAt: session.startedAt,
     });
   },
 
@@ -63,12 +131,30 @@ export const useLocalGameStore = create<LocalGameStore>((set, get) => ({
     }
   },
 
-  leaveLocalGame: () => {
+  suspendLocalGame: () => {
     const { manager } = get();
     if (manager) manager.cleanup();
     set({ manager: null, gameState: null, heroId: null });
   },
 
+  leaveLocalGame: () => {
+    const { manager, heroId, tableSetup, sessionStartedAt } = get();
+    const summary =
+      manager && heroId && sessionStartedAt
+        ? summarizeLocalSession({
+            heroId,
+            tableSetup,
+            startedAt: sessionStartedAt,
+            log: manager.getSessionLog(),
+          })
+        : null;
+
+    if (manager) manager.cleanup();
+    clearLocalSession();
+    set({ manager: null, gameState: null, heroId: null, sessionStartedAt: null });
+    return summary;
+  },
+
   newGame: () => {
     get().startLocalGame();
   }
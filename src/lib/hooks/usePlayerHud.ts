@@ -0,0 +1,76 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { createClientComponentClient } from '@/lib/api/supabase/client'
+import { fetchHandsByGameId } from '@/lib/api/supabase/handHistory'
+import { usePreferences } from '@/components/providers/PreferencesProvider'
+import { computeHudCounts } from '@/lib/features/hud/hudCounts'
+import type { GameState } from '@/lib/types/poker'
+import type { PlayerHudStats } from '@/lib/types/hud'
+
+/**
+ * HUD state for a live table: the user's HUD toggle (saved in preferences),
+ * the host's allow/deny setting, and per-player session stats refreshed each hand.
+ * Preflop counts come from the stats RPC; the rest are tallied from the game's
+ * stored hands, so they cover the hands the viewer was dealt into.
+ */
+export function usePlayerHud(gameId: string, gameState: GameState | null) {
+  const supabase = createClientComponentClient()
+  const { hudLayout, setHudLayout } = usePreferences()
+  const [playerStats, setPlayerStats] = useState<Record<string, PlayerHudStats | null>>({})
+
+  // Hosts can turn HUDs off for everyone at their table. The game server sets
+  // config.hudEnabled (ADMIN_SET_HUD); this only hides the HUD here.
+  const hudAllowed = gameState?.config?.hudEnabled !== false
+  const showStats = hudAllowed && hudLayout.enabled
+
+  const playerIds = useMemo(
+    () => (gameState?.players || []).map((p) => p.id).filter(Boolean),
+    [gameState?.players]
+  )
+  const playerKey = playerIds.join(',')
+
+  const refreshPlayerStats = useCallback(async () => {
+    const ids = playerKey ? playerKey.split(',') : []
+    if (ids.length === 0) {
+      setPlayerStats({})
+      return
+    }
+
+    const hands = await fetchHandsByGameId(gameId)
+    const handCounts = computeHudCounts(hands, ids)
+
+    const results = await Promise.all(
+      ids.map(async (playerId) => {
+        try {
+          const { data, error } = await supabase.rpc('get_player_session_stats', {
+            target_player_id: playerId,
+            target_game_id: gameId,
+          })
+          if (error) throw error
+          const preflop = data as Pick<PlayerHudStats, 'hands_played' | 'vpip_count' | 'pfr_count'> | null
+          return [playerId, preflop ? { ...handCounts[playerId], ...preflop } : null] as const
+        } catch (err) {
+          console.error('[HUD] Failed to load player stats', err)
+          return [playerId, null] as const
+        }
+      })
+    )
+    setPlayerStats(Object.fromEntries(results))
+  }, [playerKey, gameId, supabase])
+
+  // Refresh when the HUD is shown and after every hand
+  useEffect(() => {
+    if (showStats) {
+      refreshPlayerStats()
+    } else {
+      setPlayerStats({})
+    }
+  }, [showStats, gameState?.handNumber, refreshPlayerStats])
+
+  const toggleHud = useCallback(() => {
+    setHudLayout({ ...hudLayout, enabled: !hudLayout.enabled })
+  }, [hudLayout, setHudLayout])
+
+  return { showStats, hudAllowed, playerStats, toggleHud }
+}
@@ -0,0 +1,73 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { createClientComponentClient } from '@/lib/api/supabase/client'
+import {
+  deletePlayerNote,
+  fetchPlayerNotes,
+  savePlayerNote,
+} from '@/lib/api/supabase/playerNotes'
+import type { PlayerNote, PlayerNoteColor } from '@/lib/types/playerNotes'
+
+/**
+ * The signed-in user's notes on the given players, keyed by player id.
+ * Pass `enabled: false` (e.g. bot games) to skip loading entirely.
+ */
+export function usePlayerNotes(playerIds: string[], enabled = true) {
+  const supabase = createClientComponentClient()
+  const [ownerId, setOwnerId] = useState<string | null>(null)
+  const [notes, setNotes] = useState<Record<string, PlayerNote>>({})
+
+  useEffect(() => {
+    if (!enabled) return
+    supabase.auth.getUser().then(({ data }) => {
+      setOwnerId(data.user?.id ?? null)
+    })
+  }, [enabled, supabase])
+
+  // Only refetch when the set of players changes, not on every render
+  const playerKey = Array.from(new Set(playerIds.filter(Boolean))).sort().join(',')
+
+  useEffect(() => {
+    if (!enabled || !ownerId || !playerKey) {
+      setNotes({})
+      return
+    }
+
+    let cancelled = false
+    fetchPlayerNotes(ownerId, playerKey.split(',')).then((result) => {
+      if (!cancelled) setNotes(result)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [enabled, ownerId, playerKey])
+
+  const saveNote = useCallback(
+    async (targetId: string, note: string, color: PlayerNoteColor) => {
+      if (!ownerId) return false
+
+      // An empty, untagged note is the same as no note
+      if (!note.trim() && color === 'none') {
+        const deleted = await deletePlayerNote(ownerId, targetId)
+        if (deleted) {
+          setNotes((prev) => {
+            const next = { ...prev }
+            delete next[targetId]
+            return next
+          })
+        }
+        return deleted
+      }
+
+      const saved = await savePlayerNote(ownerId, targetId, note.trim(), color)
+      if (saved) {
+        setNotes((prev) => ({ ...prev, [targetId]: saved }))
+      }
+      return saved !== null
+    },
+    [ownerId]
+  )
+
+  return { notes, saveNote, canEdit: enabled && ownerId !== null }
+}
@@ -0,0 +1,67 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { EquityWorkerClient } from '@/lib/features/equity/EquityWorkerClient'
+import type { PostflopStatsRequest } from '@/lib/features/handHistory/postflopStats'
+import type { PostflopHandStats } from '@/lib/types/preflopStats'
+
+/**
+ * Postflop stats per starting hand for a player, read out of stored hands in
+ * the equity worker so thousands of decodes don't block the page. Hands are
+ * compared by reference, so pass the same array until it actually changes.
+ */
+export function usePostflopStats(
+  hands: PostflopStatsRequest['hands'],
+  playerId: string,
+  filters: PostflopStatsRequest['filters']
+) {
+  const clientRef = useRef<EquityWorkerClient | null>(null)
+  const [stats, setStats] = useState<PostflopHandStats[]>([])
+  const [progress, setProgress] = useState(0)
+  const [isCalculating, setIsCalculating] = useState(false)
+  const { playerCount, position } = filters
+
+  useEffect(() => {
+    const client = new EquityWorkerClient()
+    clientRef.current = client
+    return () => {
+      client.dispose()
+      clientRef.current = null
+    }
+  }, [])
+
+  useEffect(() => {
+    const client = clientRef.current
+    if (!client) return
+
+    if (hands.length === 0) {
+      client.cancel()
+      setStats([])
+      setIsCalculating(false)
+      return
+    }
+
+    setIsCalculating(true)
+    setProgress(0)
+    client.runPostflopStats(
+      { hands, playerId, filters: { playerCount, position } },
+      {
+        onProgress: (result) => setProgress(result.progress),
+        onDone: (result) => {
+          setStats(result.stats ?? [])
+          setProgress(1)
+          setIsCalculating(false)
+        },
+        onError: (message) => {
+          console.error('[PostflopStats] Failed to compute stats:', message)
+          setStats([])
+          setIsCalculating(false)
+        },
+      }
+    )
+
+    return () => client.cancel()
+  }, [hands, playerId, playerCount, position])
+
+  return { stats, progress, isCalculating }
+}
@@ -8,6 +8,7 @@
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import type { GameState } from '@/lib/types/poker';
 import type { ReplayResult, ReplayFrame } from '@/lib/features/replay/ReplayOrchestrator';
+import { getAdjacentStreetFrame, getReplayStreetMarkers } from '@/lib/features/replay/replayTimeline';
 
 interface ReplayState {
   activeState: GameState | null;
@@ -23,6 +24,8 @@ interface ReplayControls {
   togglePlayPause: () => void;
   nextFrame: () => void;
   prevFrame: () => void;
+  nextStreet: () => void;
+  prevStreet: () => void;
   goToFrame: (index: number) => void;
   setSpeed: (ms: number) => void;
 }
@@ -37,11 +40,13 @@ interface UseReplayControllerReturn {
  * Hook to control replay playback
  * @param replayData - The replay result containing frames and optional error
  * @param initialSpeed - Default playback speed in milliseconds per frame (default: 1000ms)
+ * @param initialFrameIndex - Frame to open on, e.g. from a deep link (default: 0)
  * @returns State, controls, and optional error
  */
 export function useReplayController(
   replayData: ReplayResult | null,
-  initialSpeed: number = 1000
+  initialSpeed: number = 1000,
+  initialFrameIndex: number = 0
 ): UseReplayControllerReturn {
   // State
   const [currentFrameIndex, setCurrentFrameIndex] = useState<number>(0);
@@ -56,6 +61,10 @@ export function useReplayController(
     return replayData?.frames?.length ?? 0;
   }, [replayData]);
 
+  const streetMarkers = useMemo(() => {
+    return getReplayStreetMarkers(replayData?.frames ?? []);
+  }, [replayData]);
+
   const activeState = useMemo<GameState | null>(() => {
     if (!replayData?.frames || totalFrames === 0) {
       return null;
@@ -75,14 +84,14 @@ export function useReplayController(
 
   // Reset state when replayData changes
   useEffect(() => {
-    setCurrentFrameIndex(0);
+    setCurrentFrameIndex(Math.max(0, Math.min(initialFrameIndex, totalFrames - 1)));
     setIsPlaying(false);
     // Clear any existing interval
     if (intervalRef.current) {
       clearInterval(intervalRef.current);
       intervalRef.current = null;
     }
-  }, [replayData]);
+  }, [replayData, initialFrameIndex, totalFrames]);
 
   // Manage playback interval
   useEffect(() => {
@@ -182,6 +191,18 @@ export function useReplayController(
     });
   }, [totalFrames]);
 
+  const nextStreet = useCallback(() => {
+    setCurrentFrameIndex((prevIndex) => {
+      return getAdjacentStreetFrame(streetMarkers, prevIndex, 1) ?? prevIndex;
+    });
+  }, [streetMarkers]);
+
+  const prevStreet = useCallback(() => {
+    setCurrentFrameIndex((prevIndex) => {
+      return getAdjacentStreetFrame(streetMarkers, prevIndex, -1) ?? prevIndex;
+    });
+  }, [streetMarkers]);
+
   const goToFrame = useCallback(
     (index: number) => {
       if (totalFrames === 0) {
@@ -216,6 +237,8 @@ export function useReplayController(
       togglePlayPause,
       nextFrame,
       prevFrame,
+      nextStreet,
+      prevStreet,
       goToFrame,
       setSpeed,
     },
@@ -0,0 +1,46 @@
+/**
+ * Type definitions for stored hand histories
+ * Rows come from the `hand_histories` table; `replay_data` is a PokerCodec hex string
+ */
+
+export type HandVariant = "six_max" | "heads_up" | "full_ring";
+
+export interface HandHistoryConfig {
+  gameType?: string;
+  sb?: number;
+  bb?: number;
+  buyIn?: number;
+  [key: string]: any;
+}
+
+/** Row shape selected from `hand_histories` */
+export interface HandSummary {
+  id: string;
+  game_id: string;
+  hand_index: number;
+  final_pot: number;
+  winner_id: string | null;
+  played_at: string;
+  replay_data: string;
+  player_manifest: Record<string, string>;
+  config?: HandHistoryConfig;
+}
+
+/** Single action as decoded by PokerCodec */
+export interface DecodedHandAction {
+  seatIndex: number;
+  type: number;
+  amount?: number;
+  cards?: number[];
+  potIndex?: number;
+  deltaTime?: number;
+  street?: string;
+}
+
+/** Output of PokerCodec.decode */
+export interface DecodedHand {
+  startingStacks: number[];
+  actions: DecodedHandAction[];
+  board: number[];
+  holeCards: number[][];
+}
@@ -0,0 +1,36 @@
+/** The current user's star and tags on a hand they played */
+export interface HandReview {
+  handId: string;
+  starred: boolean;
+  tags: string[];
+  updatedAt: string;
+}
+
+/** Row shape of the `hand_reviews` table (one row per owner + hand) */
+export interface HandReviewRow {
+  owner_id: string;
+  hand_id: string;
+  starred: boolean;
+  tags: string[] | null;
+  updated_at: string;
+}
+
+/** A private comment on one action of a hand */
+export interface HandComment {
+  id: string;
+  handId: string;
+  /** Index into the decoded hand's actions */
+  actionIndex: number;
+  comment: string;
+  createdAt: string;
+}
+
+/** Row shape of the `hand_comments` table */
+export interface HandCommentRow {
+  id: string;
+  owner_id: string;
+  hand_id: string;
+  action_index: number;
+  comment: string;
+  created_at: string;
+}
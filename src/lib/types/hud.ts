@@ -0,0 +1,37 @@
+export type HudStatKey =
+  | 'vpip' | 'pfr' | '3bet' | 'fold_to_3bet'
+  | 'cbet' | 'af' | 'wtsd';
+
+/** User HUD layout, stored in profiles.hud_layout */
+export interface HudLayout {
+  enabled: boolean;
+  stats: HudStatKey[];
+}
+
+/**
+ * Per-player counts behind the HUD. The preflop counts come from
+ * get_player_session_stats; the rest are tallied from the game's hand
+ * histories (see features/hud/hudCounts).
+ */
+export interface PlayerHudStats {
+  hands_played: number;
+  vpip_count: number;
+  pfr_count: number;
+  three_bet_count: number;
+  can_three_bet_count: number;
+  fold_to_three_bet_count: number;
+  faced_three_bet_count: number;
+  cbet_count: number;
+  can_cbet_count: number;
+  postflop_aggressive_count: number;
+  postflop_call_count: number;
+  saw_flop_count: number;
+  showdown_count: number;
+}
+
+export interface HudStatValue {
+  /** Percentage, or ratio for AF. Null when there is no sample yet. */
+  value: number | null;
+  /** Number of opportunities the value is based on */
+  sampleSize: number;
+}
@@ -2,7 +2,7 @@ import type { Card } from "@/lib/types/poker";
 
 export type LessonCategory = 'beginner' | 'intermediate' | 'advanced';
 
-export type ContentBlockType = 'header' | 'text' | 'list' | 'info_card' | 'tool_link' | 'image' | 'poker_hand' | 'range_grid';
+export type ContentBlockType = 'header' | 'text' | 'list' | 'info_card' | 'tool_link' | 'image' | 'poker_hand' | 'range_grid' | 'equity';
 
 // A single block of content (e.g. a paragraph or a list)
 export interface ContentBlock {
@@ -16,6 +16,11 @@ export interface ContentBlock {
   alt?: string; // For images
   cards?: Card[]; // For poker_hand (e.g. ['As', 'Kh'])
   hands?: string[]; // For range_grid (e.g. ['AA', 'AKs', 'AKo'])
+  range?: string; // For range_grid: weighted range string instead of hands (e.g. 'QQ+,AQo:0.5')
+  rangeShareToken?: string; // For range_grid: share token of a library range
+  players?: string[]; // For equity: a hand or a range per player (e.g. ['AsKh', 'QQ+,AKs'])
+  labels?: string[]; // For equity: optional name per player
+  board?: Card[]; // For equity
   caption?: string; // Optional caption for both image and poker_hand
 }
 
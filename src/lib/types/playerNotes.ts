@@ -0,0 +1,20 @@
+export type PlayerNoteColor =
+  | 'none' | 'red' | 'orange' | 'yellow'
+  | 'green' | 'blue' | 'purple';
+
+/** A private read the current user keeps on another player */
+export interface PlayerNote {
+  targetId: string;
+  note: string;
+  color: PlayerNoteColor;
+  updatedAt: string;
+}
+
+/** Row shape of the `player_notes` table (one row per owner + target) */
+export interface PlayerNoteRow {
+  owner_id: string;
+  target_id: string;
+  note: string;
+  color: PlayerNoteColor;
+  updated_at: string;
+}
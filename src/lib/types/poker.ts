@@ -82,6 +82,7 @@ export interface GameStateConfig {
   smallBlind: number;
   bigBlind: number;
   turnTimer?: number;
+  hudEnabled?: boolean; // Host setting; false hides player HUDs for everyone
 }
 
 export const DEFAULT_GAME_CONFIG: GameStateConfig = {
@@ -4,7 +4,12 @@ export type PokerPosition =
   | 'MP' | 'MP+1' | 'LJ' | 'HJ' | 'CO';
 
 export type PlayerCountFilter = 'all' | 'heads_up' | '3-6' | '7+';
-export type StatType = 'vpip' | 'pfr' | '3bet' | 'cbet' | 'saw_flop';
+export type PostflopStatType =
+  | 'afq' | 'wtsd' | 'wsd'
+  | 'fold_to_cbet' | 'check_raise' | 'donk_bet';
+export type StatType = 'vpip' | 'pfr' | '3bet' | 'cbet' | 'saw_flop' | PostflopStatType;
+
+export type PostflopStreet = 'flop' | 'turn' | 'river';
 
 export interface HandStats {
   holeCards: string;
@@ -21,6 +26,30 @@ export interface HandStats {
   netChipsTotal: number;
 }
 
+export interface StreetAggression {
+  bets: number;
+  raises: number;
+  calls: number;
+  checks: number;
+  folds: number;
+}
+
+/** Postflop stats for one starting hand, computed from decoded hand histories */
+export interface PostflopHandStats {
+  holeCards: string;
+  totalHands: number;
+  sawFlopCount: number;
+  showdownCount: number;
+  wonAtShowdownCount: number;
+  aggression: Record<PostflopStreet, StreetAggression>;
+  facedCbetCount: number;
+  foldToCbetCount: number;
+  canCheckRaiseCount: number;
+  checkRaiseCount: number;
+  canDonkBetCount: number;
+  donkBetCount: number;
+}
+
 export interface PreflopStatsFilters {
   playerCount: PlayerCountFilter;
   position: PokerPosition | 'all';
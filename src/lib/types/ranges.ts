@@ -0,0 +1,67 @@
+/** Row from the `range_presets` table, served by /api/ranges/presets */
+export interface RangePreset {
+  id: string;
+  name: string;
+  category: string;
+  range_string: string;
+}
+
+/** A range saved in a user's library */
+export interface UserRange {
+  id: string;
+  ownerId: string;
+  name: string;
+  /** Folder the range is filed under (e.g. "6max RFI by position"); empty for none */
+  folder: string;
+  /** Weighted range notation ("QQ+,AQo:0.5") */
+  rangeString: string;
+  /** Starts at 1 and goes up every time the range itself is edited */
+  version: number;
+  /** Token for the public share link, once the owner has created one */
+  shareToken: string | null;
+  /** Club the range is shared with, if any */
+  clubId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Row shape of the `user_ranges` table */
+export interface UserRangeRow {
+  id: string;
+  owner_id: string;
+  name: string;
+  folder: string | null;
+  range_string: string;
+  version: number;
+  share_token: string | null;
+  club_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** An earlier state of a library range */
+export interface UserRangeVersion {
+  version: number;
+  rangeString: string;
+  createdAt: string;
+}
+
+/** Row shape of the `user_range_versions` table (one row per range + version) */
+export interface UserRangeVersionRow {
+  range_id: string;
+  version: number;
+  range_string: string;
+  created_at: string;
+}
+
+/** What the `get_shared_range` lookup returns: the public columns only */
+export type SharedRangeRow = Pick<UserRangeRow, "name" | "folder" | "range_string" | "version" | "updated_at">;
+
+/** What anyone with a share link sees */
+export interface SharedRange {
+  name: string;
+  folder: string;
+  rangeString: string;
+  version: number;
+  updatedAt: string;
+}
@@ -0,0 +1,57 @@
+import type { HandVariant } from './handHistory';
+
+export type SessionGrouping = 'game' | 'date';
+
+export interface HandResult {
+  handId: string;
+  gameId: string;
+  playedAt: string;
+  variant: HandVariant;
+  playerCount: number;
+  bigBlind: number;
+  finalPot: number;
+  netChips: number;
+  won: boolean;
+}
+
+export interface SessionSummary {
+  /** game_id or yyyy-MM-dd depending on the grouping */
+  key: string;
+  label: string;
+  variant: HandVariant | 'mixed';
+  startedAt: string;
+  endedAt: string;
+  handsPlayed: number;
+  handsWon: number;
+  netChips: number;
+  bbPer100: number;
+  biggestPot: number;
+}
+
+export interface VariantSummary {
+  variant: HandVariant;
+  handsPlayed: number;
+  handsWon: number;
+  winRate: number;
+  netChips: number;
+  bbPer100: number;
+}
+
+export interface CumulativePoint {
+  hand: number;
+  playedAt: string;
+  netChips: number;
+  cumulative: number;
+}
+
+export interface SessionResultsRawRow {
+  hand_id: string;
+  game_id: string;
+  played_at: string;
+  game_type: string | null;
+  player_count: number;
+  big_blind: number | null;
+  final_pot: number;
+  net_chips: number;
+  won: boolean;
+}
@@ -0,0 +1,44 @@
+import type { HandSummary } from "./handHistory";
+
+/**
+ * The public copy of a hand behind a share link. Player ids are replaced with
+ * pseudonyms, the hand and game ids with a placeholder, and hole cards that
+ * were never shown are swapped for unused cards, so nothing private reaches
+ * the viewer.
+ */
+export interface SharedHandSnapshot {
+  hand: HandSummary;
+  /** Display names keyed by the pseudonymous ids in `hand.player_manifest` */
+  playerNames: Record<string, string>;
+  /** Pseudonymous id of the player who shared the hand */
+  heroId: string;
+}
+
+/** A hand shared through a public link */
+export interface SharedHand {
+  token: string;
+  /** Usernames were replaced with "Hero" / "Player N" */
+  anonymized: boolean;
+  snapshot: SharedHandSnapshot;
+  createdAt: string;
+}
+
+/** Row shape of the `shared_hands` table (one row per owner + hand) */
+export interface SharedHandRow {
+  token: string;
+  owner_id: string;
+  hand_id: string;
+  anonymized: boolean;
+  snapshot: SharedHandSnapshot;
+  created_at: string;
+}
+
+/** What the `get_shared_hand` lookup returns: the public columns only */
+export type SharedHandLookupRow = Pick<SharedHandRow, "token" | "anonymized" | "snapshot" | "created_at">;
+
+/** The owner's view of a hand's share link */
+export interface HandShareLink {
+  token: string;
+  anonymized: boolean;
+  createdAt: string;
+}
@@ -43,6 +43,7 @@ export interface TournamentData {
   starting_stack: number;
   blind_structure_template: BlindLevel[];
   blind_level_duration_minutes: number;
+  hud_enabled?: boolean;
   status: TournamentStatusType;
   current_blind_level: number;
   level_ends_at: string | null;
@@ -166,6 +167,7 @@ export interface TournamentSettings {
   startingStack?: number;
   blindStructureTemplate?: BlindLevel[];
   blindLevelDurationMinutes?: number;
+  hudEnabled?: boolean;
 }
 
 // ============================================
@@ -382,6 +384,7 @@ export function normalizeTournament(t: TournamentData | Record<string, unknown>)
     startingStack: (raw.starting_stack as number) ?? (raw.startingStack as number) ?? 0,
     blindStructureTemplate: (raw.blind_structure_template as BlindLevel[]) || (raw.blindStructureTemplate as BlindLevel[]) || [],
     blindLevelDurationMinutes: (raw.blind_level_duration_minutes as number) ?? (raw.blindLevelDurationMinutes as number) ?? 10,
+    hudEnabled: (raw.hud_enabled as boolean) ?? (raw.hudEnabled as boolean) ?? true,
     status: (raw.status as TournamentStatusType) || "setup",
     currentBlindLevel: (raw.current_blind_level as number) ?? (raw.currentBlindLevel as number) ?? 0,
     levelEndsAt: (raw.level_ends_at as string | null) ?? (raw.levelEndsAt as string | null) ?? null,
@@ -424,6 +427,7 @@ export interface NormalizedTournament {
   startingStack: number;
   blindStructureTemplate: BlindLevel[];
   blindLevelDurationMinutes: number;
+  hudEnabled: boolean;
   status: TournamentStatusType;
   currentBlindLevel: number;
   levelEndsAt: string | null;
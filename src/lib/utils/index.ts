@@ -30,3 +30,18 @@ export function getErrorMessage(error: unknown): string {
   return "An unknown error occurred";
 }
 
+
+/**
+ * Trigger a browser download for generated text content
+ */
+export function downloadTextFile(filename: string, content: string, mimeType: string = "text/plain") {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
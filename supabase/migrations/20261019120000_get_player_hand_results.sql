@@ -0,0 +1,45 @@
+-- Per-hand results for the session stats page.
+--
+-- get_preflop_stats_by_hand aggregates public.player_hand_stats (one row per
+-- player per hand: hole_cards, position, player_count, net_chips, won, ...)
+-- into totals per starting hand. This returns the same rows un-aggregated,
+-- joined to the stored hand for its game, time, variant and blinds, so the
+-- page can chart results over time and group them into sessions.
+
+create or replace function public.get_player_hand_results(target_player_id uuid)
+returns table (
+  hand_id uuid,
+  game_id uuid,
+  played_at timestamptz,
+  game_type text,
+  player_count integer,
+  big_blind integer,
+  final_pot integer,
+  net_chips integer,
+  won boolean
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    h.id as hand_id,
+    h.game_id,
+    h.played_at,
+    h.config ->> 'gameType' as game_type,
+    s.player_count,
+    nullif(h.config ->> 'bb', '')::integer as big_blind,
+    h.final_pot,
+    s.net_chips,
+    s.won
+  from public.player_hand_stats s
+  join public.hand_histories h on h.id = s.hand_id
+  where s.player_id = target_player_id
+    -- Same visibility rule as the stats RPCs: players only read their own results
+    and target_player_id = auth.uid()
+  order by h.played_at asc;
+$$;
+
+revoke all on function public.get_player_hand_results(uuid) from public, anon;
+grant execute on function public.get_player_hand_results(uuid) to authenticated;
@@ -0,0 +1,64 @@
+-- Public share links for stored hands.
+--
+-- Rows are private to their owner. Anyone holding a link reads the hand
+-- through get_shared_hand, which returns the single row matching the token
+-- and only its public columns, so tokens can't be listed or guessed from
+-- the table itself.
+
+create table if not exists public.shared_hands (
+  token text primary key,
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  hand_id uuid not null references public.hand_histories (id) on delete cascade,
+  anonymized boolean not null default false,
+  -- Pseudonymized copy of the hand, see src/lib/features/handHistory/sharedHand.ts
+  snapshot jsonb not null,
+  created_at timestamptz not null default now(),
+  unique (owner_id, hand_id)
+);
+
+alter table public.shared_hands enable row level security;
+
+drop policy if exists "Owners can read their shared hands" on public.shared_hands;
+create policy "Owners can read their shared hands"
+  on public.shared_hands for select
+  to authenticated
+  using (owner_id = auth.uid());
+
+drop policy if exists "Owners can share their hands" on public.shared_hands;
+create policy "Owners can share their hands"
+  on public.shared_hands for insert
+  to authenticated
+  with check (owner_id = auth.uid());
+
+drop policy if exists "Owners can update their shared hands" on public.shared_hands;
+create policy "Owners can update their shared hands"
+  on public.shared_hands for update
+  to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+drop policy if exists "Owners can unshare their hands" on public.shared_hands;
+create policy "Owners can unshare their hands"
+  on public.shared_hands for delete
+  to authenticated
+  using (owner_id = auth.uid());
+
+create or replace function public.get_shared_hand(share_token text)
+returns table (
+  token text,
+  anonymized boolean,
+  snapshot jsonb,
+  created_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select s.token, s.anonymized, s.snapshot, s.created_at
+  from public.shared_hands s
+  where s.token = share_token;
+$$;
+
+revoke all on function public.get_shared_hand(text) from public;
+grant execute on function public.get_shared_hand(text) to anon, authenticated;
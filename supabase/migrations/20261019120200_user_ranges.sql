@@ -0,0 +1,106 @@
+-- Saved range library.
+--
+-- Ranges are readable by their owner and, once shared with a club, by the
+-- club's members. Public share links read through get_shared_range, which
+-- returns the single range matching the token and only the columns a
+-- visitor sees, so share tokens can't be listed from the table.
+
+create table if not exists public.user_ranges (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  folder text,
+  range_string text not null,
+  version integer not null default 1,
+  share_token text unique,
+  club_id uuid references public.clubs (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists user_ranges_owner_id_idx on public.user_ranges (owner_id);
+create index if not exists user_ranges_club_id_idx on public.user_ranges (club_id);
+
+create table if not exists public.user_range_versions (
+  range_id uuid not null references public.user_ranges (id) on delete cascade,
+  version integer not null,
+  range_string text not null,
+  created_at timestamptz not null default now(),
+  primary key (range_id, version)
+);
+
+alter table public.user_ranges enable row level security;
+alter table public.user_range_versions enable row level security;
+
+drop policy if exists "Owners and club members can read ranges" on public.user_ranges;
+create policy "Owners and club members can read ranges"
+  on public.user_ranges for select
+  to authenticated
+  using (
+    owner_id = auth.uid()
+    or club_id in (select m.club_id from public.club_members m where m.user_id = auth.uid())
+  );
+
+drop policy if exists "Owners can save ranges" on public.user_ranges;
+create policy "Owners can save ranges"
+  on public.user_ranges for insert
+  to authenticated
+  with check (owner_id = auth.uid());
+
+drop policy if exists "Owners can update ranges" on public.user_ranges;
+create policy "Owners can update ranges"
+  on public.user_ranges for update
+  to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+drop policy if exists "Owners can delete ranges" on public.user_ranges;
+create policy "Owners can delete ranges"
+  on public.user_ranges for delete
+  to authenticated
+  using (owner_id = auth.uid());
+
+-- Versions follow the visibility of their range
+drop policy if exists "Range readers can read versions" on public.user_range_versions;
+create policy "Range readers can read versions"
+  on public.user_range_versions for select
+  to authenticated
+  using (exists (select 1 from public.user_ranges r where r.id = range_id));
+
+drop policy if exists "Owners can add versions" on public.user_range_versions;
+create policy "Owners can add versions"
+  on public.user_range_versions for insert
+  to authenticated
+  with check (
+    exists (select 1 from public.user_ranges r where r.id = range_id and r.owner_id = auth.uid())
+  );
+
+drop policy if exists "Owners can delete versions" on public.user_range_versions;
+create policy "Owners can delete versions"
+  on public.user_range_versions for delete
+  to authenticated
+  using (
+    exists (select 1 from public.user_ranges r where r.id = range_id and r.owner_id = auth.uid())
+  );
+
+create or replace function public.get_shared_range(share_token text)
+returns table (
+  name text,
+  folder text,
+  range_string text,
+  version integer,
+  updated_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select r.name, r.folder, r.range_string, r.version, r.updated_at
+  from public.user_ranges r
+  where r.share_token is not null
+    and r.share_token = get_shared_range.share_token;
+$$;
+
+revoke all on function public.get_shared_range(text) from public;
+grant execute on function public.get_shared_range(text) to anon, authenticated;
@@ -0,0 +1,8 @@
+-- Saved table HUD layout, read with the other display preferences.
+--
+-- The column has a default so the preferences select in app/layout.tsx and
+-- PreferencesProvider works for every existing profile.
+
+alter table public.profiles
+  add column if not exists hud_layout jsonb not null
+  default '{"enabled": false, "stats": ["vpip", "pfr", "3bet", "af"]}'::jsonb;
@@ -0,0 +1,41 @@
+-- Private player notes.
+--
+-- One note and color tag per owner and target player. Notes are only ever
+-- visible to the player who wrote them; the target never sees them.
+
+create table if not exists public.player_notes (
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  target_id uuid not null references auth.users (id) on delete cascade,
+  note text not null default '',
+  color text not null default 'none'
+    check (color in ('none', 'red', 'orange', 'yellow', 'green', 'blue', 'purple')),
+  updated_at timestamptz not null default now(),
+  unique (owner_id, target_id)
+);
+
+alter table public.player_notes enable row level security;
+
+drop policy if exists "Owners can read their notes" on public.player_notes;
+create policy "Owners can read their notes"
+  on public.player_notes for select
+  to authenticated
+  using (owner_id = auth.uid());
+
+drop policy if exists "Owners can add notes" on public.player_notes;
+create policy "Owners can add notes"
+  on public.player_notes for insert
+  to authenticated
+  with check (owner_id = auth.uid());
+
+drop policy if exists "Owners can update their notes" on public.player_notes;
+create policy "Owners can update their notes"
+  on public.player_notes for update
+  to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+drop policy if exists "Owners can delete their notes" on public.player_notes;
+create policy "Owners can delete their notes"
+  on public.player_notes for delete
+  to authenticated
+  using (owner_id = auth.uid());
@@ -0,0 +1,77 @@
+-- Hand review stars, tags and per-action comments.
+--
+-- Reviews are private to their owner. Comments are private too, and only
+-- while the owner can still see the hand: RLS on hand_histories only returns
+-- hands the user played, so the exists() checks below reuse that rule.
+
+create table if not exists public.hand_reviews (
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  hand_id uuid not null references public.hand_histories (id) on delete cascade,
+  starred boolean not null default false,
+  tags text[] not null default '{}',
+  updated_at timestamptz not null default now(),
+  unique (owner_id, hand_id)
+);
+
+create table if not exists public.hand_comments (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  hand_id uuid not null references public.hand_histories (id) on delete cascade,
+  action_index integer not null check (action_index >= 0),
+  comment text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists hand_comments_owner_hand_idx on public.hand_comments (owner_id, hand_id);
+
+alter table public.hand_reviews enable row level security;
+alter table public.hand_comments enable row level security;
+
+drop policy if exists "Owners can read their reviews" on public.hand_reviews;
+create policy "Owners can read their reviews"
+  on public.hand_reviews for select
+  to authenticated
+  using (owner_id = auth.uid());
+
+drop policy if exists "Owners can review hands" on public.hand_reviews;
+create policy "Owners can review hands"
+  on public.hand_reviews for insert
+  to authenticated
+  with check (owner_id = auth.uid());
+
+drop policy if exists "Owners can update their reviews" on public.hand_reviews;
+create policy "Owners can update their reviews"
+  on public.hand_reviews for update
+  to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+drop policy if exists "Owners can delete their reviews" on public.hand_reviews;
+create policy "Owners can delete their reviews"
+  on public.hand_reviews for delete
+  to authenticated
+  using (owner_id = auth.uid());
+
+drop policy if exists "Owners can read comments on visible hands" on public.hand_comments;
+create policy "Owners can read comments on visible hands"
+  on public.hand_comments for select
+  to authenticated
+  using (
+    owner_id = auth.uid()
+    and exists (select 1 from public.hand_histories h where h.id = hand_id)
+  );
+
+drop policy if exists "Owners can comment on visible hands" on public.hand_comments;
+create policy "Owners can comment on visible hands"
+  on public.hand_comments for insert
+  to authenticated
+  with check (
+    owner_id = auth.uid()
+    and exists (select 1 from public.hand_histories h where h.id = hand_id)
+  );
+
+drop policy if exists "Owners can delete their comments" on public.hand_comments;
+create policy "Owners can delete their comments"
+  on public.hand_comments for delete
+  to authenticated
+  using (owner_id = auth.uid());